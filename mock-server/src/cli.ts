@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+/**
+ * Command line entry for the mock ePOS-Print printer
+ *
+ * Usage:
+ *   epson-mock-printer [--port 8080] [--host 127.0.0.1] [--scenario ok] [--script drop,paper-end] [--delay 3000] [--quiet]
+ */
+
+import { parseArgs } from 'node:util';
+import { commandsToText } from './epos-xml.js';
+import { createMockPrinter } from './server.js';
+import type { MockScenarioInput, MockScenarioName } from './scenarios.js';
+
+const SCENARIO_NAMES: MockScenarioName[] = ['ok', 'paper-near-end', 'paper-end', 'cover-open', 'offline', 'drop'];
+
+function toScenario(name: string, delay: number): MockScenarioInput {
+  if (!SCENARIO_NAMES.includes(name as MockScenarioName)) {
+    throw new Error(`Unknown scenario "${name}". Available: ${SCENARIO_NAMES.join(', ')}`);
+  }
+  const scenario = name as MockScenarioName;
+  return delay > 0 ? { type: 'slow', delay, then: { type: scenario } } : scenario;
+}
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8080' },
+    host: { type: 'string', default: '127.0.0.1' },
+    scenario: { type: 'string', default: 'ok' },
+    script: { type: 'string' },
+    delay: { type: 'string', default: '0' },
+    quiet: { type: 'boolean', default: false },
+  },
+});
+
+const delay = Number(values.delay);
+const printer = createMockPrinter({
+  port: Number(values.port),
+  host: values.host,
+  scenario: toScenario(values.scenario, delay),
+  script: values.script ? values.script.split(',').map((name) => toScenario(name.trim(), delay)) : [],
+  onJob: (job) => {
+    const status = job.response
+      ? `success=${job.response.success} code=${job.response.code || '-'} status=${job.response.status}`
+      : 'connection dropped';
+    console.log(`[mock-printer] ${job.receivedAt.toISOString()} devid=${job.deviceId} ${status}`);
+    if (!values.quiet && job.commands.length > 0) {
+      console.log(commandsToText(job.commands));
+    }
+  },
+});
+
+const port = await printer.listen();
+console.log(`[mock-printer] listening on http://${values.host}:${port}/cgi-bin/epos/service.cgi`);
+
+process.on('SIGINT', () => {
+  printer.close().finally(() => process.exit(0));
+});
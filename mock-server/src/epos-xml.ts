@@ -0,0 +1,149 @@
+/**
+ * Minimal parser for ePOS-Print SOAP requests
+ * Extracts the print job ID and the commands inside <epos-print>
+ */
+
+export type EposCommandType =
+  | 'text'
+  | 'image'
+  | 'barcode'
+  | 'symbol'
+  | 'cut'
+  | 'feed'
+  | 'pulse'
+  | 'unknown';
+
+export interface EposCommand {
+  type: EposCommandType;
+  /** Original element name (useful for 'unknown' commands) */
+  name: string;
+  attributes: Record<string, string>;
+  /** Element text content (text to print, barcode data, base64 image data...) */
+  content: string;
+}
+
+export interface EposRequest {
+  printjobid?: string;
+  commands: EposCommand[];
+}
+
+const KNOWN_COMMANDS: EposCommandType[] = ['text', 'image', 'barcode', 'symbol', 'cut', 'feed', 'pulse'];
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode XML entities (named, decimal and hex)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Parse the commands of an <epos-print> document
+ */
+export function parseEposPrint(xml: string): EposCommand[] {
+  const start = xml.search(/<epos-print[\s>]/);
+  if (start < 0) return [];
+  const openEnd = xml.indexOf('>', start);
+  const end = xml.indexOf('</epos-print>', openEnd);
+  const body = xml.slice(openEnd + 1, end < 0 ? undefined : end);
+
+  const commands: EposCommand[] = [];
+  // <name attrs/> or <name attrs>content</name> (commands are never nested)
+  const pattern = /<([\w-]+)([^>]*?)(\/>|>([\s\S]*?)<\/\1>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    const name = match[1];
+    commands.push({
+      type: KNOWN_COMMANDS.includes(name as EposCommandType) ? name as EposCommandType : 'unknown',
+      name,
+      attributes: parseAttributes(match[2]),
+      content: decodeEntities(match[4] ?? ''),
+    });
+  }
+  return commands;
+}
+
+/**
+ * Parse a SOAP request sent to /cgi-bin/epos/service.cgi
+ */
+export function parseEposRequest(soap: string): EposRequest {
+  const jobId = soap.match(/<printjobid>\s*([^<\s]*)\s*<\/printjobid>/);
+  return {
+    printjobid: jobId ? jobId[1] : undefined,
+    commands: parseEposPrint(soap),
+  };
+}
+
+/**
+ * Render the plain text a request would print (for logging)
+ */
+export function commandsToText(commands: EposCommand[]): string {
+  return commands.map((command) => {
+    switch (command.type) {
+      case 'text':
+        return command.content;
+      case 'image':
+        return `[image ${command.attributes.width ?? '?'}x${command.attributes.height ?? '?'}]\n`;
+      case 'barcode':
+        return `[barcode ${command.attributes.type ?? ''}: ${command.content}]\n`;
+      case 'symbol':
+        return `[symbol ${command.attributes.type ?? ''}: ${command.content}]\n`;
+      case 'feed':
+        return '\n'.repeat(Number(command.attributes.line ?? 1));
+      case 'cut':
+        return '-------- cut --------\n';
+      case 'pulse':
+        return `[drawer ${command.attributes.drawer ?? 'drawer_1'}]\n`;
+      default:
+        return '';
+    }
+  }).join('');
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Build the SOAP response returned by the printer
+ */
+export function buildEposResponse(result: {
+  success: boolean;
+  code: string;
+  status: number;
+  battery?: number;
+  printjobid?: string;
+}): string {
+  const jobId = result.printjobid ? `<printjobid>${escapeAttribute(result.printjobid)}</printjobid>` : '';
+  return '<?xml version="1.0" encoding="utf-8"?>' +
+    '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>' +
+    `<response success="${result.success}" code="${escapeAttribute(result.code)}" status="${result.status}" battery="${result.battery ?? 0}" ` +
+    'xmlns="http://www.epson-pos.com/schemas/2011/03/epos-print">' +
+    jobId +
+    '</response></s:Body></s:Envelope>';
+}
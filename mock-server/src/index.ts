@@ -0,0 +1,22 @@
+/**
+ * Mock ePOS-Print printer for development and integration tests
+ */
+
+export { createMockPrinter } from './server.js';
+export {
+  parseEposRequest,
+  parseEposPrint,
+  buildEposResponse,
+  commandsToText,
+  decodeEntities,
+} from './epos-xml.js';
+export { ASB } from './scenarios.js';
+
+export type { MockPrinter, MockPrinterOptions, ReceivedJob } from './server.js';
+export type { EposCommand, EposCommandType, EposRequest } from './epos-xml.js';
+export type {
+  MockScenario,
+  MockScenarioInput,
+  MockScenarioName,
+  MockResponse,
+} from './scenarios.js';
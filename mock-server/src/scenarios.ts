@@ -0,0 +1,99 @@
+/**
+ * Printer behaviours the mock server can emulate
+ */
+
+/** ASB status bits reported by ePOS-Print printers */
+export const ASB = {
+  NO_RESPONSE: 0x00000001,
+  PRINT_SUCCESS: 0x00000002,
+  DRAWER_KICK: 0x00000004,
+  OFF_LINE: 0x00000008,
+  COVER_OPEN: 0x00000020,
+  PAPER_FEED: 0x00000040,
+  WAIT_ON_LINE: 0x00000100,
+  PANEL_SWITCH: 0x00000200,
+  MECHANICAL_ERR: 0x00000400,
+  AUTOCUTTER_ERR: 0x00000800,
+  UNRECOVER_ERR: 0x00002000,
+  AUTORECOVER_ERR: 0x00004000,
+  RECEIPT_NEAR_END: 0x00020000,
+  RECEIPT_END: 0x00080000,
+  SPOOLER_IS_STOPPED: 0x80000000,
+} as const;
+
+export interface MockResponse {
+  success: boolean;
+  code: string;
+  status: number;
+  battery?: number;
+}
+
+/**
+ * A printer behaviour for one request
+ * - `ok`: prints successfully
+ * - `paper-near-end`: prints, but reports the paper near end
+ * - `paper-end`: fails with `EPTR_REC_EMPTY`
+ * - `cover-open`: fails with `EPTR_COVER_OPEN`
+ * - `offline`: fails with `EX_ENPC_TIMEOUT` (printer doesn't answer the ePOS service)
+ * - `slow`: waits `delay` ms, then behaves like `then` (default: `ok`)
+ * - `drop`: closes the connection without answering
+ * - `response`: answers with an explicit `success`/`code`/`status`
+ */
+export type MockScenario =
+  | { type: 'ok' }
+  | { type: 'paper-near-end' }
+  | { type: 'paper-end' }
+  | { type: 'cover-open' }
+  | { type: 'offline' }
+  | { type: 'slow'; delay: number; then?: MockScenario }
+  | { type: 'drop' }
+  | ({ type: 'response' } & MockResponse);
+
+/** Scenario names that need no parameters */
+export type MockScenarioName = 'ok' | 'paper-near-end' | 'paper-end' | 'cover-open' | 'offline' | 'drop';
+
+export type MockScenarioInput = MockScenario | MockScenarioName;
+
+export function normalizeScenario(input: MockScenarioInput): MockScenario {
+  return typeof input === 'string' ? { type: input } : input;
+}
+
+/**
+ * Printer response for a scenario (`null` for `drop`)
+ */
+export function getScenarioResponse(scenario: MockScenario): MockResponse | null {
+  switch (scenario.type) {
+    case 'ok':
+      return { success: true, code: '', status: ASB.PRINT_SUCCESS };
+    case 'paper-near-end':
+      return { success: true, code: '', status: ASB.PRINT_SUCCESS | ASB.RECEIPT_NEAR_END };
+    case 'paper-end':
+      return { success: false, code: 'EPTR_REC_EMPTY', status: ASB.OFF_LINE | ASB.RECEIPT_END | ASB.RECEIPT_NEAR_END };
+    case 'cover-open':
+      return { success: false, code: 'EPTR_COVER_OPEN', status: ASB.OFF_LINE | ASB.COVER_OPEN };
+    case 'offline':
+      return { success: false, code: 'EX_ENPC_TIMEOUT', status: ASB.NO_RESPONSE };
+    case 'slow':
+      return getScenarioResponse(scenario.then ?? { type: 'ok' });
+    case 'drop':
+      return null;
+    case 'response':
+      return { success: scenario.success, code: scenario.code, status: scenario.status, battery: scenario.battery };
+  }
+}
+
+/**
+ * Total delay (ms) before answering a scenario
+ */
+export function getScenarioDelay(scenario: MockScenario): number {
+  if (scenario.type !== 'slow') return 0;
+  return scenario.delay + (scenario.then ? getScenarioDelay(scenario.then) : 0);
+}
+
+/**
+ * Whether the connection is dropped for a scenario (after its delay)
+ */
+export function isDropScenario(scenario: MockScenario): boolean {
+  if (scenario.type === 'slow') return isDropScenario(scenario.then ?? { type: 'ok' });
+  return scenario.type === 'drop';
+}
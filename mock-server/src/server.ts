@@ -0,0 +1,247 @@
+/**
+ * Mock ePOS-Print printer server
+ * Implements POST /cgi-bin/epos/service.cgi so EposPrintService can be used without hardware
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { buildEposResponse, parseEposRequest } from './epos-xml.js';
+import type { EposCommand } from './epos-xml.js';
+import {
+  ASB,
+  getScenarioDelay,
+  getScenarioResponse,
+  isDropScenario,
+  normalizeScenario,
+} from './scenarios.js';
+import type { MockResponse, MockScenario, MockScenarioInput } from './scenarios.js';
+
+const SERVICE_PATH = '/cgi-bin/epos/service.cgi';
+
+export interface ReceivedJob {
+  /** Device ID from the `devid` query parameter */
+  deviceId: string;
+  printjobid?: string;
+  commands: EposCommand[];
+  /** Raw SOAP request */
+  raw: string;
+  /** Response sent back (`null` if the connection was dropped) */
+  response: MockResponse | null;
+  receivedAt: Date;
+}
+
+export interface MockPrinterOptions {
+  /** Port to listen on (0 picks a free port). Default: 8080 */
+  port?: number;
+  /** Host to bind. Default: '127.0.0.1' */
+  host?: string;
+  /** Behaviour used when the scenario script is empty. Default: 'ok' */
+  scenario?: MockScenarioInput;
+  /** Behaviours for the next requests, consumed one per request */
+  script?: MockScenarioInput[];
+  /** Called for every request, after the response is decided */
+  onJob?: (job: ReceivedJob) => void;
+}
+
+export interface MockPrinter {
+  /** Start listening. Resolves with the bound port. */
+  listen(): Promise<number>;
+  close(): Promise<void>;
+  /** Base URL (e.g. http://127.0.0.1:8080), available after `listen()` */
+  readonly url: string;
+  /** Change the default behaviour */
+  setScenario(scenario: MockScenarioInput): void;
+  /** Queue behaviours for the next requests */
+  script(...scenarios: MockScenarioInput[]): void;
+  /** Requests received so far */
+  readonly jobs: readonly ReceivedJob[];
+  clearJobs(): void;
+}
+
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-Modified-Since, SOAPAction');
+  res.setHeader('Access-Control-Max-Age', '600');
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/** Answer to a status query for a job that is still being printed */
+const PRINTING_RESPONSE: MockResponse = { success: false, code: 'Printing', status: ASB.PRINT_SUCCESS };
+
+/** Answer to a status query for a job the printer doesn't know */
+const JOB_NOT_FOUND_RESPONSE: MockResponse = { success: false, code: 'JobNotFound', status: ASB.PRINT_SUCCESS };
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a mock ePOS-Print printer
+ *
+ * @example
+ * ```typescript
+ * const printer = createMockPrinter({ port: 0, script: ['drop', 'paper-end'] });
+ * const port = await printer.listen();
+ *
+ * const service = new EposPrintService({ printerIP: '127.0.0.1', printerPort: port });
+ * await service.printWithBuilder((b) => b.addText('Hello\n')); // NETWORK_ERROR
+ * await service.printWithBuilder((b) => b.addText('Hello\n')); // EPTR_REC_EMPTY
+ * await service.printWithBuilder((b) => b.addText('Hello\n')); // success
+ *
+ * console.log(printer.jobs.length); // 3
+ * await printer.close();
+ * ```
+ */
+export function createMockPrinter(options: MockPrinterOptions = {}): MockPrinter {
+  let defaultScenario: MockScenario = normalizeScenario(options.scenario ?? 'ok');
+  const queue: MockScenario[] = (options.script ?? []).map(normalizeScenario);
+  const jobs: ReceivedJob[] = [];
+  /** Print job IDs whose response is still delayed */
+  const printing = new Set<string>();
+  let server: Server | null = null;
+  let port = options.port ?? 8080;
+  const host = options.host ?? '127.0.0.1';
+
+  const getJobStatusResponse = (printjobid: string): MockResponse => {
+    if (printing.has(printjobid)) {
+      return PRINTING_RESPONSE;
+    }
+    // Latest print request with this ID; a dropped one never reached the printer
+    const job = jobs.findLast((j) => j.printjobid === printjobid && j.commands.length > 0);
+    return job?.response ?? JOB_NOT_FOUND_RESPONSE;
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    setCorsHeaders(req, res);
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? host}`);
+
+    if (url.pathname !== SERVICE_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    const raw = await readBody(req);
+    const request = parseEposRequest(raw);
+    const deviceId = url.searchParams.get('devid') ?? 'local_printer';
+
+    // A request with a job ID and no commands asks for the status of an earlier job
+    if (request.printjobid && request.commands.length === 0) {
+      const response = getJobStatusResponse(request.printjobid);
+      const job: ReceivedJob = {
+        deviceId,
+        printjobid: request.printjobid,
+        commands: [],
+        raw,
+        response,
+        receivedAt: new Date(),
+      };
+      jobs.push(job);
+      options.onJob?.(job);
+      res.writeHead(200, { 'Content-Type': 'text/xml; charset=utf-8' });
+      res.end(buildEposResponse({ ...response, printjobid: request.printjobid }));
+      return;
+    }
+
+    const scenario = queue.shift() ?? defaultScenario;
+    const response = getScenarioResponse(scenario);
+
+    const job: ReceivedJob = {
+      deviceId,
+      printjobid: request.printjobid,
+      commands: request.commands,
+      raw,
+      response,
+      receivedAt: new Date(),
+    };
+    jobs.push(job);
+    options.onJob?.(job);
+
+    const wait = getScenarioDelay(scenario);
+    if (wait > 0) {
+      if (request.printjobid) printing.add(request.printjobid);
+      try {
+        await delay(wait);
+      } finally {
+        if (request.printjobid) printing.delete(request.printjobid);
+      }
+    }
+
+    if (isDropScenario(scenario) || !response) {
+      req.socket.destroy();
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/xml; charset=utf-8' });
+    res.end(buildEposResponse({ ...response, printjobid: request.printjobid }));
+  };
+
+  return {
+    listen() {
+      return new Promise((resolve, reject) => {
+        server = createServer((req, res) => {
+          handleRequest(req, res).catch((err) => {
+            console.error('[mock-printer] request failed:', err);
+            if (!res.headersSent) {
+              res.writeHead(500).end();
+            }
+          });
+        });
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          port = (server!.address() as AddressInfo).port;
+          resolve(port);
+        });
+      });
+    },
+
+    close() {
+      return new Promise((resolve, reject) => {
+        if (!server) {
+          resolve();
+          return;
+        }
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+        server = null;
+      });
+    },
+
+    get url() {
+      return `http://${host}:${port}`;
+    },
+
+    setScenario(scenario) {
+      defaultScenario = normalizeScenario(scenario);
+    },
+
+    script(...scenarios) {
+      queue.push(...scenarios.map(normalizeScenario));
+    },
+
+    get jobs() {
+      return jobs;
+    },
+
+    clearJobs() {
+      jobs.length = 0;
+    },
+  };
+}
@@ -1,8 +1,9 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { PrinterConfig } from './components/PrinterConfig';
-import { PdfUploader } from './components/PdfUploader';
+import { DocumentUploader } from './components/DocumentUploader';
 import { PdfPreview } from './components/PdfPreview';
 import { PrintControls } from './components/PrintControls';
+import { createTranslator } from './lib/i18n';
 import type { ProcessedPage } from './types';
 import './App.css';
 
@@ -18,6 +19,10 @@ function App() {
   const [printerConfig, setPrinterConfig] = useState<PrinterConfigData | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [pages, setPages] = useState<ProcessedPage[]>([]);
+  const [locale, setLocale] = useState('es');
+  const t = useMemo(() => createTranslator({ locale }), [locale]);
+  // The library name is rendered as code inside the translated subtitle
+  const [subtitleStart, subtitleEnd] = t('ui.app.subtitle').split('{library}');
 
   const handleConfigChange = useCallback((config: PrinterConfigData) => {
     setPrinterConfig(config);
@@ -36,19 +41,27 @@ function App() {
     <div className="app">
       <header className="app-header">
         <h1><span className="header-icon">🖨️</span> <span className="header-title">epson-thermal-printer Demo</span></h1>
-        <p>Ejemplo de uso de la librería <code>@plevands/epson-thermal-printer</code> para imprimir PDFs en impresoras Epson POS</p>
+        <p>{subtitleStart}<code>@plevands/epson-thermal-printer</code>{subtitleEnd}</p>
+        <label className="select-label">
+          {t('ui.app.language')}:{' '}
+          <select value={locale} onChange={(e) => setLocale(e.target.value)} className="select-input">
+            <option value="es">Español</option>
+            <option value="en">English</option>
+          </select>
+        </label>
       </header>
 
       <main className="app-main">
         <div className="left-panel">
-          <PrinterConfig onConfigChange={handleConfigChange} />
-          <PdfUploader onFileSelect={handleFileSelect} />
+          <PrinterConfig onConfigChange={handleConfigChange} locale={locale} />
+          <DocumentUploader onFileSelect={handleFileSelect} locale={locale} />
         </div>
 
         <div className="center-panel">
           <PdfPreview 
             file={selectedFile} 
             onPagesLoaded={handlePagesLoaded}
+            locale={locale}
           />
         </div>
 
@@ -56,13 +69,14 @@ function App() {
           <PrintControls 
             printerConfig={printerConfig} 
             pages={pages} 
+            locale={locale}
           />
         </div>
       </main>
 
       <footer className="app-footer">
         <p>
-          Impresión de PDF usando Epson ePOS Print SDK
+          {t('ui.app.footer')}
         </p>
       </footer>
     </div>
@@ -3,7 +3,8 @@
  * Optional exports for ready-to-use React components
  */
 
-export { PdfUploader } from './components/PdfUploader';
+export { DocumentUploader, DocumentUploader as PdfUploader } from './components/DocumentUploader';
 export { PdfPreview } from './components/PdfPreview';
 export { PrinterConfig } from './components/PrinterConfig';
 export { PrintControls } from './components/PrintControls';
+export { ReceiptPreview } from './components/ReceiptPreview';
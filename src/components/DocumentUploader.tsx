@@ -1,11 +1,17 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo } from 'react';
+import { createTranslator } from '../lib/i18n';
+import { DOCUMENT_FILE_ACCEPT, isDocumentFile } from '../lib/document-processor';
+import type { MessageCatalog } from '../lib/i18n';
 
-interface PdfUploaderProps {
+interface DocumentUploaderProps {
   onFileSelect: (file: File) => void;
   disabled?: boolean;
+  locale?: string;
+  messages?: Partial<MessageCatalog>;
 }
 
-export function PdfUploader({ onFileSelect, disabled }: PdfUploaderProps) {
+export function DocumentUploader({ onFileSelect, disabled, locale, messages }: DocumentUploaderProps) {
+  const t = useMemo(() => createTranslator({ locale, messages }), [locale, messages]);
   const [isDragging, setIsDragging] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -27,14 +33,14 @@ export function PdfUploader({ onFileSelect, disabled }: PdfUploaderProps) {
     const files = e.dataTransfer.files;
     if (files.length > 0) {
       const file = files[0];
-      if (file.type === 'application/pdf') {
+      if (isDocumentFile(file)) {
         setSelectedFile(file);
         onFileSelect(file);
       } else {
-        alert('Por favor selecciona un archivo PDF');
+        alert(t('ui.uploader.invalidFile'));
       }
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, t]);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -57,7 +63,7 @@ export function PdfUploader({ onFileSelect, disabled }: PdfUploaderProps) {
 
   return (
     <div className="pdf-uploader">
-      <h3>📄 Subir Archivo PDF</h3>
+      <h3>📄 {t('ui.uploader.title')}</h3>
       
       <div
         className={`drop-zone ${isDragging ? 'dragging' : ''} ${disabled ? 'disabled' : ''}`}
@@ -69,7 +75,7 @@ export function PdfUploader({ onFileSelect, disabled }: PdfUploaderProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".pdf,application/pdf"
+          accept={`.pdf,${DOCUMENT_FILE_ACCEPT}`}
           onChange={handleFileChange}
           style={{ display: 'none' }}
           disabled={disabled}
@@ -98,8 +104,8 @@ export function PdfUploader({ onFileSelect, disabled }: PdfUploaderProps) {
         ) : (
           <div className="drop-message">
             <span className="drop-icon">📥</span>
-            <p>Arrastra un archivo PDF aquí</p>
-            <p className="drop-hint">o haz clic para seleccionar</p>
+            <p>{t('ui.uploader.drop')}</p>
+            <p className="drop-hint">{t('ui.uploader.dropHint')}</p>
           </div>
         )}
       </div>
@@ -1,19 +1,18 @@
-import { useState, useEffect } from 'react';
-import * as pdfjsLib from 'pdfjs-dist';
-import { processPdfPage, DEFAULT_PDF_CONFIG } from '../lib/pdf-processor';
+import { useState, useEffect, useMemo } from 'react';
+import { DEFAULT_PDF_CONFIG } from '../lib/pdf-processor';
+import { processDocumentFile } from '../lib/document-processor';
 import { error as logError } from '../lib/logger';
+import { createTranslator } from '../lib/i18n';
+import type { MessageCatalog } from '../lib/i18n';
 import type { PdfProcessingConfig, ProcessedPage } from '../types';
 
-// Configure PDF.js worker from CDN to avoid bundling
-if (typeof window !== 'undefined') {
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
-}
-
 interface PdfPreviewProps {
   file: File | null;
   onPagesLoaded?: (pages: ProcessedPage[]) => void;
   paperWidth?: 576 | 384; // 576 for 80mm, 384 for 58mm
   pdfProcessing?: PdfProcessingConfig; // Configurable PDF processing
+  locale?: string;
+  messages?: Partial<MessageCatalog>;
 }
 
 export function PdfPreview({
@@ -21,7 +20,10 @@ export function PdfPreview({
   onPagesLoaded, 
   paperWidth = 576,
   pdfProcessing = DEFAULT_PDF_CONFIG,
+  locale,
+  messages,
 }: PdfPreviewProps) {
+  const t = useMemo(() => createTranslator({ locale, messages }), [locale, messages]);
   const [pages, setPages] = useState<ProcessedPage[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -38,39 +40,25 @@ export function PdfPreview({
     };
   }, [file]);
 
-  // Load PDF when file is provided
+  // Load the PDF or image when file is provided
   useEffect(() => {
     if (!file) return;
 
-    let cancelled = false;
+    const controller = new AbortController();
 
-    const loadPdf = async () => {
+    const loadDocument = async () => {
       setLoading(true);
       setError(null);
 
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-
-        if (cancelled) return;
-
-        const loadedPages: ProcessedPage[] = [];
-
         // Merge config with paperWidth
         const processingConfig: PdfProcessingConfig = {
           ...pdfProcessing,
           targetWidth: paperWidth,
         };
 
-        for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-          const page = await pdf.getPage(pageNum);
-          
-          // Use the centralized processor
-          const processedPage = await processPdfPage(page, processingConfig);
-          loadedPages.push(processedPage);
-        }
-
-        if (cancelled) return;
+        // Use the centralized processor (PDF pages or a single image)
+        const loadedPages = await processDocumentFile(file, processingConfig, { signal: controller.signal });
 
         setPages(loadedPages);
         setCurrentPage(0);
@@ -79,31 +67,32 @@ export function PdfPreview({
           onPagesLoaded(loadedPages);
         }
       } catch (err) {
-        if (cancelled) return;
-        logError('Error loading PDF:', err);
-        setError(err instanceof Error ? err.message : 'Error al cargar el PDF');
+        if (controller.signal.aborted) return;
+        logError('Error loading document:', err);
+        // Empty message: shown as the translated generic error
+        setError(err instanceof Error ? err.message : '');
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setLoading(false);
         }
       }
     };
 
-    loadPdf();
+    loadDocument();
 
     return () => {
-      cancelled = true;
+      controller.abort();
     };
   }, [file, onPagesLoaded, paperWidth, pdfProcessing]);
 
   if (!file) {
     return (
       <div className="pdf-preview pdf-preview-empty">
-        <h3>👁️ Vista Previa</h3>
+        <h3>👁️ {t('ui.preview.title')}</h3>
         <div className="preview-placeholder">
           <span className="placeholder-icon">📄</span>
-          <p>Sube un archivo PDF para probar la librería</p>
-          <span className="placeholder-hint">El documento se renderizará y podrás imprimirlo en tu impresora Epson</span>
+          <p>{t('ui.preview.empty')}</p>
+          <span className="placeholder-hint">{t('ui.preview.emptyHint')}</span>
         </div>
       </div>
     );
@@ -111,45 +100,45 @@ export function PdfPreview({
 
   return (
     <div className="pdf-preview">
-      <h3>👁️ Vista Previa</h3>
+      <h3>👁️ {t('ui.preview.title')}</h3>
 
       {loading && (
         <div className="preview-loading">
           <div className="spinner"></div>
-          <p>Cargando PDF...</p>
+          <p>{t('ui.preview.loading')}</p>
         </div>
       )}
 
-      {error && (
+      {error !== null && (
         <div className="preview-error">
-          <p>❌ {error}</p>
+          <p>❌ {error || t('ui.preview.loadError')}</p>
         </div>
       )}
 
-      {!loading && !error && pages.length > 0 && (
+      {!loading && error === null && pages.length > 0 && (
         <>
           <div className="preview-navigation">
             <button
               onClick={() => setCurrentPage(Math.max(0, currentPage - 1))}
               disabled={currentPage === 0}
             >
-              ◀ Anterior
+              ◀ {t('ui.preview.previous')}
             </button>
             <span>
-              Página {currentPage + 1} de {pages.length}
+              {t('ui.preview.pageOf', { page: currentPage + 1, total: pages.length })}
             </span>
             <button
               onClick={() => setCurrentPage(Math.min(pages.length - 1, currentPage + 1))}
               disabled={currentPage === pages.length - 1}
             >
-              Siguiente ▶
+              {t('ui.preview.next')} ▶
             </button>
           </div>
 
           <div className="preview-container">
             <img
               src={pages[currentPage].base64}
-              alt={`Página ${currentPage + 1}`}
+              alt={t('ui.preview.pageAlt', { page: currentPage + 1 })}
               className="preview-image"
             />
             <div className="preview-info">
@@ -1,14 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { EposPrintService, checkEpsonSDKStatus } from '../lib/epos-print';
 import { debug } from '../lib/logger';
+import { createTranslator } from '../lib/i18n';
+import { ReceiptPreview } from './ReceiptPreview';
 import type { PrintResult, PrintOptions } from '../lib/epos-print';
+import type { MessageCatalog } from '../lib/i18n';
+import type { ProcessedPage, StreamPrintProgress } from '../types';
 
 interface PrintControlsProps {
   printerConfig: { printerIP: string; printerPort: number; deviceId: string } | null;
-  pages: { base64: string; width: number; height: number; rasterBase64: string; canvas: HTMLCanvasElement }[];
+  pages: ProcessedPage[];
+  locale?: string;
+  messages?: Partial<MessageCatalog>;
 }
 
-export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
+export function PrintControls({ printerConfig, pages, locale, messages }: PrintControlsProps) {
+  const t = useMemo(() => createTranslator({ locale, messages }), [locale, messages]);
   const [printing, setPrinting] = useState(false);
   const [testingConnection, setTestingConnection] = useState(false);
   const [result, setResult] = useState<PrintResult | null>(null);
@@ -18,12 +25,19 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
   const [headerText, setHeaderText] = useState('');
   const [addFooter, setAddFooter] = useState(false);
   const [footerText, setFooterText] = useState('');
+  const [previewXml, setPreviewXml] = useState<string | null>(null);
   const [sdkStatus, setSdkStatus] = useState<{ loaded: boolean; classes: string[] }>({ loaded: false, classes: [] });
+  const printAbortRef = useRef<AbortController | null>(null);
+  const [printProgress, setPrintProgress] = useState<StreamPrintProgress | null>(null);
+  // First page (chunk) not printed by a failed print, to resume from it
+  const [resumeChunk, setResumeChunk] = useState<number | null>(null);
   
   // SDK print options
   const [halftone, setHalftone] = useState<0 | 1 | 2>(1); // 1 = ERROR_DIFFUSION (best quality)
   const [brightness, setBrightness] = useState(1.0);
   const [printMode, setPrintMode] = useState<'mono' | 'gray16'>('mono');
+  // Send the raster computed with the pages instead of converting them again
+  const [useRaster, setUseRaster] = useState(false);
 
   // Check SDK status on mount
   useEffect(() => {
@@ -41,17 +55,22 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
     return () => clearTimeout(timer);
   }, []);
 
+  // Stop waiting for a print job when unmounted
+  useEffect(() => () => printAbortRef.current?.abort(), []);
+
   const getPrintOptions = (): PrintOptions => ({
     halftone,
     brightness,
     mode: printMode,
     cut: true,
     align: 'center',
+    locale,
+    messages,
   });
 
   const handleTestConnection = async () => {
     if (!printerConfig) {
-      setResult({ success: false, message: 'Configura la impresora primero' });
+      setResult({ success: false, message: t('ui.controls.configureFirst') });
       return;
     }
 
@@ -70,26 +89,30 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
     } catch (error) {
       setResult({
         success: false,
-        message: error instanceof Error ? error.message : 'Error desconocido',
+        message: error instanceof Error ? error.message : t('print.unknownError'),
       });
     } finally {
       setTestingConnection(false);
     }
   };
 
-  const handlePrint = async () => {
+  const handlePrint = async (resumeFrom = 0) => {
     if (!printerConfig) {
-      setResult({ success: false, message: 'Configura la impresora primero' });
+      setResult({ success: false, message: t('ui.controls.configureFirst') });
       return;
     }
 
     if (pages.length === 0) {
-      setResult({ success: false, message: 'No hay páginas para imprimir' });
+      setResult({ success: false, message: t('ui.controls.noPages') });
       return;
     }
 
     setPrinting(true);
     setResult(null);
+    setPrintProgress(null);
+    setResumeChunk(null);
+    const controller = new AbortController();
+    printAbortRef.current = controller;
 
     try {
       const service = new EposPrintService({
@@ -103,33 +126,41 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
         : selectedPages.map((i) => pages[i]).filter(Boolean);
 
       if (pagesToPrint.length === 0) {
-        setResult({ success: false, message: 'No hay páginas seleccionadas' });
+        setResult({ success: false, message: t('ui.controls.noPagesSelected') });
         setPrinting(false);
         return;
       }
 
-      // Use the official SDK's printPages method with canvas elements
-      const canvases = pagesToPrint.map(p => p.canvas);
-      const printResult = await service.printPages(canvases, {
+      // One page per request: long documents don't hit the printer timeout,
+      // and a failed print can resume from the page that failed
+      const printResult = await service.printPageStream(pagesToPrint, {
         header: addHeader && headerText ? headerText : undefined,
         footer: addFooter && footerText ? footerText : undefined,
         pageSeparator: true,
+        useRaster,
+        signal: controller.signal,
+        resumeFrom,
+        onProgress: setPrintProgress,
       });
 
       setResult(printResult);
+      if (printResult.failedChunk) {
+        setResumeChunk(printResult.failedChunk);
+      }
     } catch (error) {
       setResult({
         success: false,
-        message: error instanceof Error ? error.message : 'Error desconocido',
+        message: error instanceof Error ? error.message : t('print.unknownError'),
       });
     } finally {
+      printAbortRef.current = null;
       setPrinting(false);
     }
   };
 
   const handlePrintTestPage = async () => {
     if (!printerConfig) {
-      setResult({ success: false, message: 'Configura la impresora primero' });
+      setResult({ success: false, message: t('ui.controls.configureFirst') });
       return;
     }
 
@@ -148,13 +179,45 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
     } catch (error) {
       setResult({
         success: false,
-        message: error instanceof Error ? error.message : 'Error desconocido',
+        message: error instanceof Error ? error.message : t('print.unknownError'),
       });
     } finally {
       setPrinting(false);
     }
   };
 
+  const handlePreview = async (target: 'test' | 'pages') => {
+    if (!printerConfig) {
+      setResult({ success: false, message: t('ui.controls.configureFirst') });
+      return;
+    }
+
+    const service = new EposPrintService({
+      printerIP: printerConfig.printerIP,
+      printerPort: printerConfig.printerPort,
+      deviceId: printerConfig.deviceId,
+    }, getPrintOptions());
+
+    const pagesToPreview = printAllPages
+      ? pages
+      : selectedPages.map((i) => pages[i]).filter(Boolean);
+
+    const built = target === 'test'
+      ? await service.buildTestPageXml()
+      : await service.buildPagesXml(pagesToPreview, {
+        header: addHeader && headerText ? headerText : undefined,
+        footer: addFooter && footerText ? footerText : undefined,
+        pageSeparator: true,
+        useRaster,
+      });
+
+    if ('xml' in built) {
+      setPreviewXml(built.xml);
+    } else {
+      setResult(built.result);
+    }
+  };
+
   const togglePageSelection = (pageIndex: number) => {
     setSelectedPages((prev) =>
       prev.includes(pageIndex)
@@ -165,55 +228,72 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
 
   return (
     <div className="print-controls">
-      <h3>🖨️ Controles de Impresión</h3>
+      <h3>🖨️ {t('ui.controls.title')}</h3>
 
       {/* SDK Status */}
       <div className={`sdk-status ${sdkStatus.loaded ? 'sdk-loaded' : 'sdk-error'}`}>
         {sdkStatus.loaded ? (
-          <>✅ Epson SDK cargado ({sdkStatus.classes.join(', ')})</>
+          <>✅ {t('ui.controls.sdkLoaded', { classes: sdkStatus.classes.join(', ') })}</>
         ) : (
-          <>❌ Epson SDK no cargado - Recarga la página</>
+          <>❌ {t('ui.controls.sdkNotLoaded')}</>
         )}
       </div>
 
       <div className="control-section">
-        <h4>Conexión</h4>
+        <h4>{t('ui.controls.connection')}</h4>
         <button
           onClick={handleTestConnection}
           disabled={testingConnection || !printerConfig || !sdkStatus.loaded}
           className="btn-test"
         >
-          {testingConnection ? '⏳ Probando...' : '🔌 Probar Conexión'}
+          {testingConnection ? `⏳ ${t('ui.controls.testing')}` : `🔌 ${t('ui.controls.testConnection')}`}
         </button>
         <button
           onClick={handlePrintTestPage}
           disabled={printing || !printerConfig || !sdkStatus.loaded}
           className="btn-test-print"
         >
-          {printing ? '⏳ Imprimiendo...' : '📝 Imprimir Página de Prueba'}
+          {printing ? `⏳ ${t('ui.controls.printing')}` : `📝 ${t('ui.controls.printTestPage')}`}
+        </button>
+        <button
+          onClick={() => handlePreview('test')}
+          disabled={!printerConfig || !sdkStatus.loaded}
+          className="btn-test"
+        >
+          👁️ {t('ui.controls.previewTestPage')}
         </button>
       </div>
 
       {pages.length > 0 && (
         <>
           <div className="control-section">
-            <h4>Calidad de Impresión (SDK Oficial)</h4>
+            <h4>{t('ui.controls.quality')}</h4>
             
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={useRaster}
+                onChange={(e) => setUseRaster(e.target.checked)}
+              />
+              {t('ui.controls.useRaster')}
+            </label>
+
             <label className="select-label">
-              Algoritmo de Halftone:
+              {t('ui.controls.halftone')}
               <select 
                 value={halftone} 
                 onChange={(e) => setHalftone(Number(e.target.value) as 0 | 1 | 2)}
                 className="select-input"
+                disabled={useRaster}
               >
-                <option value={0}>Dither (rápido)</option>
-                <option value={1}>Error Diffusion (mejor calidad)</option>
-                <option value={2}>Threshold (alto contraste)</option>
+                <option value={0}>{t('ui.controls.halftoneDither')}</option>
+                <option value={1}>{t('ui.controls.halftoneErrorDiffusion')}</option>
+                <option value={2}>{t('ui.controls.halftoneThreshold')}</option>
               </select>
             </label>
 
             <label className="select-label">
-              Brillo ({brightness.toFixed(1)}):
+              {t('ui.controls.brightness', { value: brightness.toFixed(1) })}
               <input
                 type="range"
                 min="0.1"
@@ -222,24 +302,26 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
                 value={brightness}
                 onChange={(e) => setBrightness(parseFloat(e.target.value))}
                 className="range-input"
+                disabled={useRaster}
               />
             </label>
 
             <label className="select-label">
-              Modo:
+              {t('ui.controls.mode')}
               <select 
                 value={printMode} 
                 onChange={(e) => setPrintMode(e.target.value as 'mono' | 'gray16')}
                 className="select-input"
+                disabled={useRaster}
               >
-                <option value="mono">Monocromático (1-bit)</option>
-                <option value="gray16">Escala de grises (16 niveles)</option>
+                <option value="mono">{t('ui.controls.modeMono')}</option>
+                <option value="gray16">{t('ui.controls.modeGray16')}</option>
               </select>
             </label>
           </div>
 
           <div className="control-section">
-            <h4>Opciones de Impresión</h4>
+            <h4>{t('ui.controls.options')}</h4>
 
             <label className="checkbox-label">
               <input
@@ -247,12 +329,12 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
                 checked={printAllPages}
                 onChange={(e) => setPrintAllPages(e.target.checked)}
               />
-              Imprimir todas las páginas ({pages.length})
+              {t('ui.controls.printAllPages', { count: pages.length })}
             </label>
 
             {!printAllPages && (
               <div className="page-selection">
-                <p>Selecciona páginas:</p>
+                <p>{t('ui.controls.selectPages')}</p>
                 <div className="page-buttons">
                   {pages.map((_, index) => (
                     <button
@@ -269,7 +351,7 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
           </div>
 
           <div className="control-section">
-            <h4>Encabezado y Pie</h4>
+            <h4>{t('ui.controls.headerFooter')}</h4>
 
             <label className="checkbox-label">
               <input
@@ -277,14 +359,14 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
                 checked={addHeader}
                 onChange={(e) => setAddHeader(e.target.checked)}
               />
-              Agregar encabezado
+              {t('ui.controls.addHeader')}
             </label>
             {addHeader && (
               <input
                 type="text"
                 value={headerText}
                 onChange={(e) => setHeaderText(e.target.value)}
-                placeholder="Texto del encabezado"
+                placeholder={t('ui.controls.headerPlaceholder')}
                 className="text-input"
               />
             )}
@@ -295,14 +377,14 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
                 checked={addFooter}
                 onChange={(e) => setAddFooter(e.target.checked)}
               />
-              Agregar pie de página
+              {t('ui.controls.addFooter')}
             </label>
             {addFooter && (
               <input
                 type="text"
                 value={footerText}
                 onChange={(e) => setFooterText(e.target.value)}
-                placeholder="Texto del pie de página"
+                placeholder={t('ui.controls.footerPlaceholder')}
                 className="text-input"
               />
             )}
@@ -310,22 +392,51 @@ export function PrintControls({ printerConfig, pages }: PrintControlsProps) {
 
           <div className="control-section">
             <button
-              onClick={handlePrint}
+              onClick={() => handlePrint()}
               disabled={printing || !printerConfig}
               className="btn-print"
             >
-              {printing ? '⏳ Imprimiendo...' : '🖨️ Imprimir PDF'}
+              {printing ? `⏳ ${t('ui.controls.printing')}` : `🖨️ ${t('ui.controls.printPdf')}`}
+            </button>
+            {!printing && resumeChunk !== null && (
+              <button onClick={() => handlePrint(resumeChunk)} className="btn-test">
+                ▶️ {t('ui.controls.resumePrint', { page: resumeChunk + 1 })}
+              </button>
+            )}
+            {printing && (
+              <button onClick={() => printAbortRef.current?.abort()} className="btn-test">
+                ✖️ {t('ui.controls.cancelPrint')}
+              </button>
+            )}
+            {printing && printProgress?.totalPages !== undefined && (
+              <p>{t('ui.controls.printProgress', { sent: printProgress.sentPages, total: printProgress.totalPages })}</p>
+            )}
+            <button
+              onClick={() => handlePreview('pages')}
+              disabled={!printerConfig}
+              className="btn-test"
+            >
+              👁️ {t('ui.controls.previewPrint')}
             </button>
           </div>
         </>
       )}
 
+      {previewXml && (
+        <div className="control-section">
+          <ReceiptPreview xml={previewXml} locale={locale} messages={messages} />
+          <button onClick={() => setPreviewXml(null)} className="btn-test">
+            {t('ui.controls.closePreview')}
+          </button>
+        </div>
+      )}
+
       {result && (
         <div className={`print-result ${result.success ? 'success' : 'error'}`}>
           <p>
             {result.success ? '✅' : '❌'} {result.message}
           </p>
-          {result.code && <p className="result-code">Código: {result.code}</p>}
+          {result.code && <p className="result-code">{t('ui.controls.code', { code: result.code })}</p>}
         </div>
       )}
     </div>
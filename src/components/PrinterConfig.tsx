@@ -1,7 +1,11 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { createTranslator } from '../lib/i18n';
+import type { MessageCatalog } from '../lib/i18n';
 
 interface PrinterConfigProps {
   onConfigChange: (config: { printerIP: string; printerPort: number; deviceId: string; paperWidth: number }) => void;
+  locale?: string;
+  messages?: Partial<MessageCatalog>;
 }
 
 const STORAGE_KEY = 'epson-printer-config';
@@ -30,7 +34,8 @@ function getInitialConfig() {
   };
 }
 
-export function PrinterConfig({ onConfigChange }: PrinterConfigProps) {
+export function PrinterConfig({ onConfigChange, locale, messages }: PrinterConfigProps) {
+  const t = useMemo(() => createTranslator({ locale, messages }), [locale, messages]);
   const initialConfig = getInitialConfig();
   const [printerIP, setPrinterIP] = useState(initialConfig.printerIP);
   const [printerPort, setPrinterPort] = useState(initialConfig.printerPort);
@@ -55,11 +60,11 @@ export function PrinterConfig({ onConfigChange }: PrinterConfigProps) {
 
   return (
     <div className="printer-config">
-      <h3>⚙️ Configuración de Impresora</h3>
+      <h3>⚙️ {t('ui.config.title')}</h3>
       
       <div className="config-form">
         <div className="form-group">
-          <label htmlFor="printerIP">IP de la Impresora:</label>
+          <label htmlFor="printerIP">{t('ui.config.printerIP')}</label>
           <input
             type="text"
             id="printerIP"
@@ -70,7 +75,7 @@ export function PrinterConfig({ onConfigChange }: PrinterConfigProps) {
         </div>
 
         <div className="form-group">
-          <label htmlFor="printerPort">Puerto:</label>
+          <label htmlFor="printerPort">{t('ui.config.port')}</label>
           <input
             type="number"
             id="printerPort"
@@ -81,7 +86,7 @@ export function PrinterConfig({ onConfigChange }: PrinterConfigProps) {
         </div>
 
         <div className="form-group">
-          <label htmlFor="deviceId">Device ID:</label>
+          <label htmlFor="deviceId">{t('ui.config.deviceId')}</label>
           <input
             type="text"
             id="deviceId"
@@ -92,7 +97,7 @@ export function PrinterConfig({ onConfigChange }: PrinterConfigProps) {
         </div>
 
         <div className="form-group">
-          <label htmlFor="paperWidth">Ancho de Papel:</label>
+          <label htmlFor="paperWidth">{t('ui.config.paperWidth')}</label>
           <select
             id="paperWidth"
             value={paperWidth}
@@ -104,14 +109,13 @@ export function PrinterConfig({ onConfigChange }: PrinterConfigProps) {
         </div>
 
         <button onClick={handleSave} className="btn-save">
-          💾 Guardar Configuración
+          💾 {t('ui.config.save')}
         </button>
       </div>
 
       <div className="config-help">
         <p>
-          <strong>💡 Tip:</strong> Configura tu impresora Epson con ePOS habilitado.
-          Puedes usar esta demo para probar la librería antes de integrarla en tu proyecto.
+          <strong>💡 {t('ui.config.tip')}</strong> {t('ui.config.tipText')}
         </p>
       </div>
     </div>
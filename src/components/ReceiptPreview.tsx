@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { renderEposXml } from '../lib/receipt-renderer';
+import { error as logError } from '../lib/logger';
+import { createTranslator } from '../lib/i18n';
+import type { MessageCatalog } from '../lib/i18n';
+import type { ReceiptRenderOptions } from '../types';
+
+interface ReceiptPreviewProps {
+  /** ePOS-Print XML, e.g. from `buildXml()`, `buildPagesXml()` or `buildTestPageXml()` */
+  xml: string | null;
+  paperWidth?: 576 | 384; // 576 for 80mm, 384 for 58mm
+  renderOptions?: Omit<ReceiptRenderOptions, 'paperWidth'>;
+  locale?: string;
+  messages?: Partial<MessageCatalog>;
+}
+
+export function ReceiptPreview({
+  xml,
+  paperWidth = 576,
+  renderOptions,
+  locale,
+  messages,
+}: ReceiptPreviewProps) {
+  const t = useMemo(() => createTranslator({ locale, messages }), [locale, messages]);
+  const preview = useMemo(() => {
+    if (!xml) return null;
+    try {
+      const canvas = renderEposXml(xml, { ...renderOptions, paperWidth, locale, messages });
+      return { src: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height };
+    } catch (err) {
+      logError('Error rendering receipt preview:', err);
+      return { error: err instanceof Error ? err.message : t('ui.receipt.renderError') };
+    }
+  }, [xml, paperWidth, renderOptions, locale, messages, t]);
+
+  if (!preview) {
+    return (
+      <div className="pdf-preview pdf-preview-empty">
+        <h3>🧾 {t('ui.receipt.title')}</h3>
+        <div className="preview-placeholder">
+          <span className="placeholder-icon">🧾</span>
+          <p>{t('ui.receipt.empty')}</p>
+          <span className="placeholder-hint">{t('ui.receipt.emptyHint')}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pdf-preview">
+      <h3>🧾 {t('ui.receipt.title')}</h3>
+
+      {'error' in preview ? (
+        <div className="preview-error">
+          <p>❌ {preview.error}</p>
+        </div>
+      ) : (
+        <div className="preview-container">
+          <img
+            src={preview.src}
+            alt={t('ui.receipt.alt')}
+            className="preview-image"
+          />
+          <div className="preview-info">
+            {paperWidth} dots · {preview.height} px
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,3 +5,9 @@
 export { useEpsonPrinter } from './useEpsonPrinter';
 export { usePrinterConfig } from './usePrinterConfig';
 export { usePdfProcessor } from './usePdfProcessor';
+export { useDocumentProcessor } from './useDocumentProcessor';
+export { usePrintQueue } from './usePrintQueue';
+export { usePrintJobs } from './usePrintJobs';
+export { usePrinterStatus } from './usePrinterStatus';
+export { usePrinters } from './usePrinters';
+export { usePrinterGroup } from './usePrinterGroup';
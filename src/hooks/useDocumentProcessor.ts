@@ -0,0 +1,95 @@
+/**
+ * React hook for processing PDF and image files alike
+ */
+
+import { useState, useCallback } from 'react';
+import { processDocumentFile, processDocumentPages } from '../lib/document-processor';
+import { useOperationSignal } from './useOperationSignal';
+import type { 
+  PdfProcessingConfig, 
+  PdfProcessingOptions,
+  PdfProcessingProgress,
+  ProcessedPage,
+  UseDocumentProcessorReturn,
+} from '../types';
+
+export function useDocumentProcessor(
+  config?: PdfProcessingConfig
+): UseDocumentProcessorReturn {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<PdfProcessingProgress | null>(null);
+  // Processing still running when the component unmounts is aborted
+  const trackOperation = useOperationSignal();
+
+  const processFile = useCallback(
+    async (file: File, options?: PdfProcessingOptions): Promise<ProcessedPage[]> => {
+      setIsProcessing(true);
+      setError(null);
+      setProgress(null);
+      const operation = trackOperation(options?.signal);
+
+      try {
+        const pages = await processDocumentFile(file, config, {
+          ...options,
+          signal: operation.signal,
+          onProgress: (pageProgress) => {
+            setProgress(pageProgress);
+            options?.onProgress?.(pageProgress);
+          },
+        });
+        return pages;
+      } catch (err) {
+        // Canceled on purpose: not an error to show
+        if (!operation.signal.aborted) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to process file';
+          setError(errorMessage);
+        }
+        throw err;
+      } finally {
+        operation.release();
+        setIsProcessing(false);
+      }
+    },
+    [config, trackOperation]
+  );
+
+  const streamFile = useCallback(
+    async function* (file: File, options?: PdfProcessingOptions): AsyncGenerator<ProcessedPage, void, undefined> {
+      setIsProcessing(true);
+      setError(null);
+      setProgress(null);
+      const operation = trackOperation(options?.signal);
+
+      try {
+        yield* processDocumentPages(file, config, {
+          ...options,
+          signal: operation.signal,
+          onProgress: (pageProgress) => {
+            setProgress(pageProgress);
+            options?.onProgress?.(pageProgress);
+          },
+        });
+      } catch (err) {
+        // Canceled on purpose: not an error to show
+        if (!operation.signal.aborted) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to process file';
+          setError(errorMessage);
+        }
+        throw err;
+      } finally {
+        operation.release();
+        setIsProcessing(false);
+      }
+    },
+    [config, trackOperation]
+  );
+
+  return {
+    processFile,
+    streamFile,
+    isProcessing,
+    progress,
+    error,
+  };
+}
@@ -4,20 +4,40 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { EposPrintService, checkEpsonSDKStatus } from '../lib/epos-print';
+import { withPrintError } from '../lib/print-error';
+import { translate } from '../lib/i18n';
+import { isWebUsbSupported, requestUsbPrinter } from '../lib/usb-transport';
+import { isWebSerialSupported, requestSerialPrinter } from '../lib/serial-transport';
+import { useOperationSignal } from './useOperationSignal';
 import type { 
   EpsonPrinterConfig, 
   PrintResult, 
   PrintOptions,
   PrintBuilderFn,
+  PrintOperationOptions,
+  PrintPage,
+  PrintPageSource,
+  StreamPrintOptions,
+  StreamPrintProgress,
+  StreamPrintResult,
   UseEpsonPrinterReturn,
   PrinterStatus,
+  ReceiptDocument,
 } from '../types';
 
-const NOT_CONFIGURED_RESULT: PrintResult = {
-  success: false,
-  code: 'NOT_CONFIGURED',
-  message: 'Printer not configured',
-};
+function getNotConfiguredResult(options?: PrintOptions): PrintResult {
+  return withPrintError({
+    success: false,
+    code: 'NOT_CONFIGURED',
+    message: translate('print.notConfigured', undefined, options),
+  });
+}
+
+function getStreamFailure(result: PrintResult, options?: StreamPrintOptions): StreamPrintResult {
+  // Nothing was printed: resume from the same chunk
+  const resumeFrom = options?.resumeFrom ?? 0;
+  return { ...result, sentChunks: resumeFrom, sentPages: 0, failedChunk: resumeFrom };
+}
 
 export function useEpsonPrinter(
   config: EpsonPrinterConfig | null,
@@ -25,12 +45,15 @@ export function useEpsonPrinter(
 ): UseEpsonPrinterReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<StreamPrintProgress | null>(null);
   const [sdkStatus, setSdkStatus] = useState<PrinterStatus>({
     loaded: false,
     loading: false,
     error: null,
     classes: [],
   });
+  // Operations still running when the component unmounts are aborted
+  const trackOperation = useOperationSignal();
 
   // Check SDK status periodically until loaded
   useEffect(() => {
@@ -64,55 +87,62 @@ export function useEpsonPrinter(
   }, []); // Empty deps - only run on mount
 
   const print = useCallback(
-    async (canvas: HTMLCanvasElement): Promise<PrintResult> => {
+    async (canvas: HTMLCanvasElement, operationOptions?: PrintOperationOptions): Promise<PrintResult> => {
       if (!config) {
-        setError(NOT_CONFIGURED_RESULT.message!);
-        return NOT_CONFIGURED_RESULT;
+        const notConfigured = getNotConfiguredResult(options);
+        setError(notConfigured.message!);
+        return notConfigured;
       }
 
       setIsLoading(true);
       setError(null);
+      const operation = trackOperation(operationOptions?.signal);
 
       try {
         const service = new EposPrintService(config, options);
-        const result = await service.printCanvas(canvas);
+        const result = await service.printCanvas(canvas, { ...operationOptions, signal: operation.signal });
 
-        if (!result.success) {
-          setError(result.message || 'Print failed');
+        // Canceled on purpose: not an error to show
+        if (!result.success && result.code !== 'ABORTED') {
+          setError(result.message || translate('print.unknownError', undefined, options));
         }
 
         return result;
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        const errorMessage = err instanceof Error ? err.message : translate('print.unknownError', undefined, options);
         setError(errorMessage);
-        return {
+        return withPrintError({
           success: false,
           code: 'ERROR',
           message: errorMessage,
-        };
+        });
       } finally {
+        operation.release();
         setIsLoading(false);
       }
     },
-    [config, options]
+    [config, options, trackOperation]
   );
 
   const printPages = useCallback(
     async (
-      canvases: HTMLCanvasElement[],
-      pageOptions?: {
+      canvases: PrintPage[],
+      pageOptions?: PrintOperationOptions & {
         pageSelection?: 'all' | number[];
         headerText?: string;
         footerText?: string;
+        useRaster?: boolean;
       }
     ): Promise<PrintResult> => {
       if (!config) {
-        setError(NOT_CONFIGURED_RESULT.message!);
-        return NOT_CONFIGURED_RESULT;
+        const notConfigured = getNotConfiguredResult(options);
+        setError(notConfigured.message!);
+        return notConfigured;
       }
 
       setIsLoading(true);
       setError(null);
+      const operation = trackOperation(pageOptions?.signal);
 
       try {
         const service = new EposPrintService(config, options);
@@ -128,135 +158,292 @@ export function useEpsonPrinter(
         const result = await service.printPages(selectedCanvases, {
           header: pageOptions?.headerText,
           footer: pageOptions?.footerText,
+          useRaster: pageOptions?.useRaster,
+          printjobid: pageOptions?.printjobid,
+          signal: operation.signal,
+        });
+
+        // Canceled on purpose: not an error to show
+        if (!result.success && result.code !== 'ABORTED') {
+          setError(result.message || translate('print.unknownError', undefined, options));
+        }
+
+        return result;
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : translate('print.unknownError', undefined, options);
+        setError(errorMessage);
+        return withPrintError({
+          success: false,
+          code: 'ERROR',
+          message: errorMessage,
+        });
+      } finally {
+        operation.release();
+        setIsLoading(false);
+      }
+    },
+    [config, options, trackOperation]
+  );
+
+  const printPageStream = useCallback(
+    async (pages: PrintPageSource, streamOptions?: StreamPrintOptions): Promise<StreamPrintResult> => {
+      if (!config) {
+        const notConfigured = getNotConfiguredResult(options);
+        setError(notConfigured.message!);
+        return getStreamFailure(notConfigured, streamOptions);
+      }
+
+      setIsLoading(true);
+      setError(null);
+      setProgress(null);
+      const operation = trackOperation(streamOptions?.signal);
+
+      try {
+        const service = new EposPrintService(config, options);
+        const result = await service.printPageStream(pages, {
+          ...streamOptions,
+          signal: operation.signal,
+          onProgress: (chunkProgress) => {
+            setProgress(chunkProgress);
+            streamOptions?.onProgress?.(chunkProgress);
+          },
         });
 
-        if (!result.success) {
-          setError(result.message || 'Print failed');
+        // Canceled on purpose: not an error to show
+        if (!result.success && result.code !== 'ABORTED') {
+          setError(result.message || translate('print.unknownError', undefined, options));
         }
 
         return result;
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        const errorMessage = err instanceof Error ? err.message : translate('print.unknownError', undefined, options);
         setError(errorMessage);
-        return {
+        return getStreamFailure(withPrintError({
           success: false,
           code: 'ERROR',
           message: errorMessage,
-        };
+        }), streamOptions);
       } finally {
+        operation.release();
         setIsLoading(false);
       }
     },
-    [config, options]
+    [config, options, trackOperation]
   );
 
   const printWithBuilder = useCallback(
-    async (buildFn: PrintBuilderFn): Promise<PrintResult> => {
+    async (buildFn: PrintBuilderFn, operationOptions?: PrintOperationOptions): Promise<PrintResult> => {
+      if (!config) {
+        const notConfigured = getNotConfiguredResult(options);
+        setError(notConfigured.message!);
+        return notConfigured;
+      }
+
+      setIsLoading(true);
+      setError(null);
+      const operation = trackOperation(operationOptions?.signal);
+
+      try {
+        const service = new EposPrintService(config, options);
+        const result = await service.printWithBuilder(buildFn, { ...operationOptions, signal: operation.signal });
+
+        // Canceled on purpose: not an error to show
+        if (!result.success && result.code !== 'ABORTED') {
+          setError(result.message || translate('print.unknownError', undefined, options));
+        }
+
+        return result;
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : translate('print.unknownError', undefined, options);
+        setError(errorMessage);
+        return withPrintError({
+          success: false,
+          code: 'ERROR',
+          message: errorMessage,
+        });
+      } finally {
+        operation.release();
+        setIsLoading(false);
+      }
+    },
+    [config, options, trackOperation]
+  );
+
+  const printReceipt = useCallback(
+    async (doc: ReceiptDocument, operationOptions?: PrintOperationOptions): Promise<PrintResult> => {
       if (!config) {
-        setError(NOT_CONFIGURED_RESULT.message!);
-        return NOT_CONFIGURED_RESULT;
+        const notConfigured = getNotConfiguredResult(options);
+        setError(notConfigured.message!);
+        return notConfigured;
       }
 
       setIsLoading(true);
       setError(null);
+      const operation = trackOperation(operationOptions?.signal);
 
       try {
         const service = new EposPrintService(config, options);
-        const result = await service.printWithBuilder(buildFn);
+        const result = await service.printReceipt(doc, { ...operationOptions, signal: operation.signal });
 
-        if (!result.success) {
-          setError(result.message || 'Print failed');
+        // Canceled on purpose: not an error to show
+        if (!result.success && result.code !== 'ABORTED') {
+          setError(result.message || translate('print.unknownError', undefined, options));
         }
 
         return result;
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        const errorMessage = err instanceof Error ? err.message : translate('print.unknownError', undefined, options);
         setError(errorMessage);
-        return {
+        return withPrintError({
           success: false,
           code: 'ERROR',
           message: errorMessage,
-        };
+        });
       } finally {
+        operation.release();
         setIsLoading(false);
       }
     },
-    [config, options]
+    [config, options, trackOperation]
   );
 
-  const testConnection = useCallback(async (): Promise<PrintResult> => {
+  const testConnection = useCallback(async (operationOptions?: PrintOperationOptions): Promise<PrintResult> => {
     if (!config) {
-      setError(NOT_CONFIGURED_RESULT.message!);
-      return NOT_CONFIGURED_RESULT;
+      const notConfigured = getNotConfiguredResult(options);
+      setError(notConfigured.message!);
+      return notConfigured;
     }
 
     setIsLoading(true);
     setError(null);
+    const operation = trackOperation(operationOptions?.signal);
 
     try {
       const service = new EposPrintService(config, options);
       
       // Use the service's testConnection method which prints a test receipt
-      const result = await service.testConnection();
+      const result = await service.testConnection({ signal: operation.signal });
 
-      if (!result.success) {
-        setError(result.message || 'Connection test failed');
+      // Canceled on purpose: not an error to show
+      if (!result.success && result.code !== 'ABORTED') {
+        setError(result.message || translate('connection.testFailed', undefined, options));
       }
 
       return result;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      const errorMessage = err instanceof Error ? err.message : translate('print.unknownError', undefined, options);
       setError(errorMessage);
-      return {
+      return withPrintError({
         success: false,
         code: 'ERROR',
         message: errorMessage,
-      };
+      });
     } finally {
+      operation.release();
       setIsLoading(false);
     }
-  }, [config, options]);
+  }, [config, options, trackOperation]);
 
-  const checkConnection = useCallback(async (): Promise<PrintResult> => {
+  const checkConnection = useCallback(async (operationOptions?: PrintOperationOptions): Promise<PrintResult> => {
     if (!config) {
-      setError(NOT_CONFIGURED_RESULT.message!);
-      return NOT_CONFIGURED_RESULT;
+      const notConfigured = getNotConfiguredResult(options);
+      setError(notConfigured.message!);
+      return notConfigured;
     }
 
     setIsLoading(true);
     setError(null);
+    const operation = trackOperation(operationOptions?.signal);
 
     try {
       const service = new EposPrintService(config, options);
 
       // Use the service's checkConnection method (no printing)
-      const result = await service.checkConnection();
+      const result = await service.checkConnection({ signal: operation.signal });
 
-      if (!result.success) {
-        setError(result.message || 'Connection check failed');
+      // Canceled on purpose: not an error to show
+      if (!result.success && result.code !== 'ABORTED') {
+        setError(result.message || translate('connection.checkFailed', undefined, options));
       }
 
       return result;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      const errorMessage = err instanceof Error ? err.message : translate('print.unknownError', undefined, options);
       setError(errorMessage);
-      return {
+      return withPrintError({
         success: false,
         code: 'ERROR',
         message: errorMessage,
-      };
+      });
     } finally {
+      operation.release();
       setIsLoading(false);
     }
+  }, [config, options, trackOperation]);
+
+  const getPrintJobStatus = useCallback(
+    async (printjobid: string, operationOptions?: PrintOperationOptions): Promise<PrintResult> => {
+      if (!config) {
+        return getNotConfiguredResult(options);
+      }
+
+      // Reports on an earlier job: its outcome is not an error of this component
+      const operation = trackOperation(operationOptions?.signal);
+      try {
+        const service = new EposPrintService(config, options);
+        return await service.getPrintJobStatus(printjobid, { signal: operation.signal });
+      } catch (err) {
+        return withPrintError({
+          success: false,
+          code: 'ERROR',
+          message: err instanceof Error ? err.message : translate('print.unknownError', undefined, options),
+        });
+      } finally {
+        operation.release();
+      }
+    },
+    [config, options, trackOperation]
+  );
+
+  const requestDevice = useCallback(async (): Promise<EpsonPrinterConfig | null> => {
+    const transport = config?.transport;
+    if (!config || (transport !== 'usb' && transport !== 'serial')) {
+      return null;
+    }
+
+    setError(null);
+    if (transport === 'usb' ? !isWebUsbSupported() : !isWebSerialSupported()) {
+      setError(translate('print.browserNotSupported', undefined, options));
+      return null;
+    }
+
+    try {
+      if (transport === 'usb') {
+        const usb = await requestUsbPrinter();
+        return usb ? { ...config, usb } : null;
+      }
+      // Keep the configured line settings, replace the port IDs
+      const serial = await requestSerialPrinter();
+      const { baudRate, flowControl } = config.serial ?? {};
+      return serial ? { ...config, serial: { ...serial, baudRate, flowControl } } : null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : translate('print.unknownError', undefined, options));
+      return null;
+    }
   }, [config, options]);
 
   return {
     print,
     printPages,
+    printPageStream,
     printWithBuilder,
+    printReceipt,
     checkConnection,
     testConnection,
+    getPrintJobStatus,
+    requestDevice,
     isLoading,
+    progress,
     error,
     sdkStatus,
   };
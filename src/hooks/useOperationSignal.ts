@@ -0,0 +1,38 @@
+/**
+ * Internal hook: abort signals for operations started by a component,
+ * aborted when the caller's signal aborts or the component unmounts
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { onAbort } from '../lib/abort';
+
+export interface OperationSignal {
+  signal: AbortSignal;
+  /** Forget the operation once it has settled */
+  release: () => void;
+}
+
+export function useOperationSignal(): (signal?: AbortSignal) => OperationSignal {
+  const controllers = useRef(new Set<AbortController>());
+
+  useEffect(() => {
+    const pending = controllers.current;
+    return () => {
+      pending.forEach((controller) => controller.abort());
+      pending.clear();
+    };
+  }, []);
+
+  return useCallback((signal?: AbortSignal): OperationSignal => {
+    const controller = new AbortController();
+    const stopListening = onAbort(signal, () => controller.abort(signal?.reason));
+    controllers.current.add(controller);
+    return {
+      signal: controller.signal,
+      release: () => {
+        stopListening();
+        controllers.current.delete(controller);
+      },
+    };
+  }, []);
+}
@@ -3,9 +3,12 @@
  */
 
 import { useState, useCallback } from 'react';
-import { processPdfFile } from '../lib/pdf-processor';
+import { processPdfFile, processPdfPages } from '../lib/pdf-processor';
+import { useOperationSignal } from './useOperationSignal';
 import type { 
   PdfProcessingConfig, 
+  PdfProcessingOptions,
+  PdfProcessingProgress,
   ProcessedPage,
   UsePdfProcessorReturn,
 } from '../types';
@@ -15,29 +18,78 @@ export function usePdfProcessor(
 ): UsePdfProcessorReturn {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<PdfProcessingProgress | null>(null);
+  // Processing still running when the component unmounts is aborted
+  const trackOperation = useOperationSignal();
 
   const processFile = useCallback(
-    async (file: File): Promise<ProcessedPage[]> => {
+    async (file: File, options?: PdfProcessingOptions): Promise<ProcessedPage[]> => {
       setIsProcessing(true);
       setError(null);
+      setProgress(null);
+      const operation = trackOperation(options?.signal);
 
       try {
-        const pages = await processPdfFile(file, config);
+        const pages = await processPdfFile(file, config, {
+          ...options,
+          signal: operation.signal,
+          onProgress: (pageProgress) => {
+            setProgress(pageProgress);
+            options?.onProgress?.(pageProgress);
+          },
+        });
         return pages;
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to process PDF';
-        setError(errorMessage);
+        // Canceled on purpose: not an error to show
+        if (!operation.signal.aborted) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to process PDF';
+          setError(errorMessage);
+        }
         throw err;
       } finally {
+        operation.release();
         setIsProcessing(false);
       }
     },
-    [config]
+    [config, trackOperation]
+  );
+
+  const streamFile = useCallback(
+    async function* (file: File, options?: PdfProcessingOptions): AsyncGenerator<ProcessedPage, void, undefined> {
+      setIsProcessing(true);
+      setError(null);
+      setProgress(null);
+      const operation = trackOperation(options?.signal);
+
+      try {
+        yield* processPdfPages(file, config, {
+          ...options,
+          signal: operation.signal,
+          onProgress: (pageProgress) => {
+            setProgress(pageProgress);
+            options?.onProgress?.(pageProgress);
+          },
+        });
+      } catch (err) {
+        // Canceled on purpose: not an error to show
+        if (!operation.signal.aborted) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to process PDF';
+          setError(errorMessage);
+        }
+        throw err;
+      } finally {
+        operation.release();
+        setIsProcessing(false);
+      }
+    },
+    [config, trackOperation]
   );
 
   return {
     processFile,
+    streamFile,
     isProcessing,
+    progress,
     error,
   };
 }
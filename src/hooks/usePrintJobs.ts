@@ -0,0 +1,123 @@
+/**
+ * React hook for print job tracking.
+ *
+ * Jobs are sent with their own print job ID and kept in IndexedDB, so jobs
+ * whose outcome was lost (timeout, reload) are asked about again until the
+ * printer reports them printed or failed.
+ *
+ * @example
+ * const { config } = usePrinterConfig();
+ * const { jobs, print } = usePrintJobs(config);
+ *
+ * const job = await print(
+ *   (options, service) => service.printReceipt(receipt, options),
+ *   { label: 'Receipt #123' }
+ * );
+ * console.log(job.state); // 'printed'
+ */
+
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { EposPrintService } from '../lib/epos-print';
+import { translate } from '../lib/i18n';
+import type { I18nOptions } from '../lib/i18n';
+import { PrintJobTracker } from '../lib/print-job-tracker';
+import type {
+  EpsonPrinterConfig,
+  TrackedPrintFn,
+  TrackedPrintJob,
+  TrackedPrintOptions,
+  UsePrintJobsOptions,
+  UsePrintJobsReturn,
+} from '../types';
+
+const NO_JOBS: readonly TrackedPrintJob[] = [];
+
+const subscribeNoop = () => () => {};
+const getNoJobs = () => NO_JOBS;
+
+function notConfigured(options: I18nOptions): Promise<never> {
+  return Promise.reject(new Error(translate('print.notConfigured', undefined, options)));
+}
+
+export function usePrintJobs(
+  config: EpsonPrinterConfig | null,
+  options?: UsePrintJobsOptions
+): UsePrintJobsReturn {
+  const { printOptions, storage, storageKey, pollInterval, maxJobs } = options ?? {};
+  const { locale, messages } = printOptions ?? {};
+
+  // Config and options are usually new objects on every render: recreate the
+  // tracker (which asks the printer about jobs once started) only when their
+  // content (or the storage instance) changes. Trackers don't touch storage
+  // until started, so one created by a discarded render is just dropped
+  const createTracker = () => config
+    ? new PrintJobTracker(new EposPrintService(config, printOptions), {
+      storage,
+      storageKey,
+      pollInterval,
+      maxJobs,
+    })
+    : null;
+  const trackerKey = JSON.stringify({ config, printOptions, storageKey, pollInterval, maxJobs });
+  const [tracker, setTracker] = useState(createTracker);
+  const [prevTrackerKey, setPrevTrackerKey] = useState(trackerKey);
+  const [prevStorage, setPrevStorage] = useState(storage);
+  if (prevTrackerKey !== trackerKey || prevStorage !== storage) {
+    setPrevTrackerKey(trackerKey);
+    setPrevStorage(storage);
+    setTracker(createTracker());
+  }
+
+  useEffect(() => {
+    if (!tracker) return;
+    tracker.start();
+    return () => {
+      tracker.stop();
+    };
+  }, [tracker]);
+
+  const jobs = useSyncExternalStore(
+    tracker ? tracker.subscribe : subscribeNoop,
+    tracker ? tracker.getJobs : getNoJobs,
+  );
+
+  const unsettled = useMemo(
+    () => jobs.filter((job) => job.state === 'queued' || job.state === 'printing'),
+    [jobs]
+  );
+
+  const print = useCallback(
+    (send: TrackedPrintFn, jobOptions?: TrackedPrintOptions): Promise<TrackedPrintJob> =>
+      tracker ? tracker.print(send, jobOptions) : notConfigured({ locale, messages }),
+    [tracker, locale, messages]
+  );
+
+  const track = useCallback(
+    (id: string, label?: string): Promise<TrackedPrintJob> =>
+      tracker ? tracker.track(id, label) : notConfigured({ locale, messages }),
+    [tracker, locale, messages]
+  );
+
+  const refresh = useCallback(async (id?: string) => {
+    await tracker?.refresh(id);
+  }, [tracker]);
+
+  const remove = useCallback(async (id: string) => {
+    await tracker?.remove(id);
+  }, [tracker]);
+
+  const clearSettled = useCallback(async () => {
+    await tracker?.clearSettled();
+  }, [tracker]);
+
+  return {
+    jobs,
+    unsettled,
+    print,
+    track,
+    refresh,
+    remove,
+    clearSettled,
+    tracker,
+  };
+}
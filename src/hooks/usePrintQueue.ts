@@ -0,0 +1,155 @@
+/**
+ * React hook for the persistent print queue.
+ *
+ * Jobs are kept in IndexedDB, so anything enqueued while the printer is
+ * offline is printed automatically once it comes back, even after a reload.
+ *
+ * @example
+ * const { config } = usePrinterConfig();
+ * const { enqueue, pending, failed, retry } = usePrintQueue(config);
+ *
+ * await enqueue((builder) => {
+ *   builder.addText('Ticket #123\n');
+ *   builder.addCut('feed');
+ * }, 'Ticket #123');
+ */
+
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { EposPrintService } from '../lib/epos-print';
+import { translate } from '../lib/i18n';
+import type { I18nOptions } from '../lib/i18n';
+import { PrintQueue } from '../lib/print-queue';
+import type {
+  EpsonPrinterConfig,
+  PrintBuilderFn,
+  PrintJob,
+  PrintPage,
+  PrintPagesOptions,
+  ReceiptDocument,
+  UsePrintQueueOptions,
+  UsePrintQueueReturn,
+} from '../types';
+
+const NO_JOBS: readonly PrintJob[] = [];
+
+const subscribeNoop = () => () => {};
+const getNoJobs = () => NO_JOBS;
+
+function notConfigured(options: I18nOptions): Promise<never> {
+  return Promise.reject(new Error(translate('print.notConfigured', undefined, options)));
+}
+
+export function usePrintQueue(
+  config: EpsonPrinterConfig | null,
+  options?: UsePrintQueueOptions
+): UsePrintQueueReturn {
+  const {
+    printOptions,
+    storage,
+    storageKey,
+    maxAttempts,
+    retryDelay,
+    maxRetryDelay,
+    connectionCheckInterval,
+  } = options ?? {};
+  const { locale, messages } = printOptions ?? {};
+
+  // Config and options are usually new objects on every render: recreate the
+  // queue only when their content (or the storage instance) changes. Queues
+  // don't touch storage or start timers until start(), so one created by a
+  // discarded render is just dropped
+  const createQueue = () => config
+    ? new PrintQueue(new EposPrintService(config, printOptions), {
+      storage,
+      storageKey,
+      maxAttempts,
+      retryDelay,
+      maxRetryDelay,
+      connectionCheckInterval,
+    })
+    : null;
+  const queueKey = JSON.stringify({
+    config,
+    printOptions,
+    storageKey,
+    maxAttempts,
+    retryDelay,
+    maxRetryDelay,
+    connectionCheckInterval,
+  });
+  const [queue, setQueue] = useState(createQueue);
+  const [prevQueueKey, setPrevQueueKey] = useState(queueKey);
+  const [prevStorage, setPrevStorage] = useState(storage);
+  if (prevQueueKey !== queueKey || prevStorage !== storage) {
+    setPrevQueueKey(queueKey);
+    setPrevStorage(storage);
+    setQueue(createQueue());
+  }
+
+  useEffect(() => {
+    if (!queue) return;
+    queue.start();
+    return () => {
+      queue.stop();
+    };
+  }, [queue]);
+
+  const jobs = useSyncExternalStore(
+    queue ? queue.subscribe : subscribeNoop,
+    queue ? queue.getJobs : getNoJobs,
+  );
+
+  const pending = useMemo(() => jobs.filter((job) => job.state === 'pending'), [jobs]);
+  const active = useMemo(() => jobs.find((job) => job.state === 'active') ?? null, [jobs]);
+  const failed = useMemo(() => jobs.filter((job) => job.state === 'failed'), [jobs]);
+
+  const enqueue = useCallback(
+    (buildFn: PrintBuilderFn, label?: string): Promise<PrintJob> =>
+      queue ? queue.enqueue(buildFn, label) : notConfigured({ locale, messages }),
+    [queue, locale, messages]
+  );
+
+  const enqueueCanvas = useCallback(
+    (canvas: HTMLCanvasElement, label?: string): Promise<PrintJob> =>
+      queue ? queue.enqueueCanvas(canvas, label) : notConfigured({ locale, messages }),
+    [queue, locale, messages]
+  );
+
+  const enqueuePages = useCallback(
+    (canvases: PrintPage[], pageOptions?: PrintPagesOptions, label?: string): Promise<PrintJob> =>
+      queue ? queue.enqueuePages(canvases, pageOptions, label) : notConfigured({ locale, messages }),
+    [queue, locale, messages]
+  );
+
+  const enqueueReceipt = useCallback(
+    (doc: ReceiptDocument, label?: string): Promise<PrintJob> =>
+      queue ? queue.enqueueReceipt(doc, label) : notConfigured({ locale, messages }),
+    [queue, locale, messages]
+  );
+
+  const retry = useCallback(async (id: string) => {
+    await queue?.retry(id);
+  }, [queue]);
+
+  const remove = useCallback(async (id: string) => {
+    await queue?.remove(id);
+  }, [queue]);
+
+  const clearFailed = useCallback(async () => {
+    await queue?.clearFailed();
+  }, [queue]);
+
+  return {
+    jobs,
+    pending,
+    active,
+    failed,
+    enqueue,
+    enqueueCanvas,
+    enqueuePages,
+    enqueueReceipt,
+    retry,
+    remove,
+    clearFailed,
+  };
+}
@@ -23,6 +23,7 @@
 import { useState, useCallback, useRef } from 'react';
 import type { EpsonPrinterConfig, UsePrinterConfigOptions, UsePrinterConfigReturn } from '../types';
 import { error } from '../lib/logger';
+import { isDirectTransport } from '../lib/transport';
 
 const DEFAULT_STORAGE_KEY = 'epson-printer-config';
 
@@ -99,11 +100,12 @@ export function usePrinterConfig(
     }
   }, [storageKey]);
 
-  const isConfigured = config !== null && Boolean(
+  // Directly attached printers are found through the granted devices, not an IP
+  const isConfigured = config !== null && (isDirectTransport(config.transport) || Boolean(
     config.printerIP && 
     config.printerIP.trim() !== '' && 
     config.printerIP !== '0.0.0.0'
-  );
+  ));
 
   return {
     config,
@@ -0,0 +1,134 @@
+/**
+ * React hook for a group of interchangeable printers with failover or load balancing.
+ *
+ * @example
+ * const { printers, router } = usePrinters({ routes });
+ * const kitchen = useMemo(() => router.candidates({ type: 'kitchen-ticket' }), [router, printers]);
+ * const { printReceipt, health } = usePrinterGroup(kitchen, { strategy: 'round-robin' });
+ *
+ * const result = await printReceipt(ticket);
+ * console.log(`Printed on ${result.printerId}`);
+ */
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { PrinterGroup } from '../lib/printer-group';
+import { useOperationSignal } from './useOperationSignal';
+import type {
+  PrintBuilderFn,
+  PrintImage,
+  PrintOperationOptions,
+  PrintPage,
+  PrintPagesOptions,
+  PrintResult,
+  PrinterGroupMember,
+  PrinterGroupState,
+  ReceiptDocument,
+  UsePrinterGroupOptions,
+  UsePrinterGroupReturn,
+} from '../types';
+
+export function usePrinterGroup(
+  members: PrinterGroupMember[],
+  options?: UsePrinterGroupOptions
+): UsePrinterGroupReturn {
+  const { monitorHealth = true, ...groupOptions } = options ?? {};
+
+  // Members and options are usually new objects on every render:
+  // recreate the group (and reset health) only when their content changes
+  const groupKey = JSON.stringify({
+    members: members.map(({ id, config }) => ({ id, config })),
+    groupOptions,
+  });
+  const [group, setGroup] = useState(() => new PrinterGroup(members, groupOptions));
+  const [prevGroupKey, setPrevGroupKey] = useState(groupKey);
+  if (prevGroupKey !== groupKey) {
+    setPrevGroupKey(groupKey);
+    setGroup(new PrinterGroup(members, groupOptions));
+  }
+
+  useEffect(() => {
+    if (!monitorHealth) return;
+    group.start();
+    return () => {
+      group.stop();
+    };
+  }, [group, monitorHealth]);
+
+  const state = useSyncExternalStore(group.subscribe, group.getState);
+
+  // Jobs still running when the component unmounts are aborted
+  const trackOperation = useOperationSignal();
+
+  const printWithBuilder = useCallback(
+    async (buildFn: PrintBuilderFn, options?: PrintOperationOptions): Promise<PrintResult> => {
+      const operation = trackOperation(options?.signal);
+      try {
+        return await group.printWithBuilder(buildFn, { ...options, signal: operation.signal });
+      } finally {
+        operation.release();
+      }
+    },
+    [group, trackOperation]
+  );
+
+  const printCanvas = useCallback(
+    async (canvas: PrintImage, options?: PrintOperationOptions): Promise<PrintResult> => {
+      const operation = trackOperation(options?.signal);
+      try {
+        return await group.printCanvas(canvas, { ...options, signal: operation.signal });
+      } finally {
+        operation.release();
+      }
+    },
+    [group, trackOperation]
+  );
+
+  const printPages = useCallback(
+    async (canvases: PrintPage[], pageOptions?: PrintPagesOptions): Promise<PrintResult> => {
+      const operation = trackOperation(pageOptions?.signal);
+      try {
+        return await group.printPages(canvases, { ...pageOptions, signal: operation.signal });
+      } finally {
+        operation.release();
+      }
+    },
+    [group, trackOperation]
+  );
+
+  const printReceipt = useCallback(
+    async (doc: ReceiptDocument, options?: PrintOperationOptions): Promise<PrintResult> => {
+      const operation = trackOperation(options?.signal);
+      try {
+        return await group.printReceipt(doc, { ...options, signal: operation.signal });
+      } finally {
+        operation.release();
+      }
+    },
+    [group, trackOperation]
+  );
+
+  const printXml = useCallback(
+    async (xml: string, options?: PrintOperationOptions): Promise<PrintResult> => {
+      const operation = trackOperation(options?.signal);
+      try {
+        return await group.printXml(xml, { ...options, signal: operation.signal });
+      } finally {
+        operation.release();
+      }
+    },
+    [group, trackOperation]
+  );
+
+  const checkHealth = useCallback((): Promise<PrinterGroupState> => group.checkHealth(), [group]);
+
+  return {
+    health: state.members,
+    printWithBuilder,
+    printCanvas,
+    printPages,
+    printReceipt,
+    printXml,
+    checkHealth,
+    group,
+  };
+}
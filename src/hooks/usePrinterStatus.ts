@@ -0,0 +1,67 @@
+/**
+ * React hook for live printer status.
+ *
+ * Polls the printer while mounted and decodes its status, so the UI can warn
+ * staff about paper near end, an open cover or an offline printer before a
+ * receipt fails.
+ *
+ * @example
+ * const { config } = usePrinterConfig();
+ * const { status, monitor } = usePrinterStatus(config, { interval: 5000 });
+ *
+ * if (status?.paperNearEnd) {
+ *   return <Warning>Replace the paper roll soon</Warning>;
+ * }
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { PrinterStatusMonitor } from '../lib/printer-status';
+import type {
+  EpsonPrinterConfig,
+  PrinterStatusMonitorState,
+  UsePrinterStatusOptions,
+  UsePrinterStatusReturn,
+} from '../types';
+
+const IDLE_STATE: PrinterStatusMonitorState = { status: null, monitoring: false, error: null };
+
+const subscribeNoop = () => () => {};
+const getIdleState = () => IDLE_STATE;
+
+export function usePrinterStatus(
+  config: EpsonPrinterConfig | null,
+  options?: UsePrinterStatusOptions
+): UsePrinterStatusReturn {
+  const { enabled = true, ...monitorOptions } = options ?? {};
+
+  // The config and options are usually new objects on every render: recreate
+  // the monitor (and restart polling) only when their content changes
+  const monitorKey = JSON.stringify({ config, monitorOptions });
+  const createMonitor = () => (config ? new PrinterStatusMonitor(config, monitorOptions) : null);
+  const [monitor, setMonitor] = useState(createMonitor);
+  const [prevMonitorKey, setPrevMonitorKey] = useState(monitorKey);
+  if (prevMonitorKey !== monitorKey) {
+    setPrevMonitorKey(monitorKey);
+    setMonitor(createMonitor());
+  }
+
+  useEffect(() => {
+    if (!monitor || !enabled) return;
+    monitor.start();
+    return () => {
+      monitor.stop();
+    };
+  }, [monitor, enabled]);
+
+  const state = useSyncExternalStore(
+    monitor ? monitor.subscribe : subscribeNoop,
+    monitor ? monitor.getState : getIdleState,
+  );
+
+  return {
+    status: state.status,
+    isMonitoring: state.monitoring,
+    error: state.error,
+    monitor,
+  };
+}
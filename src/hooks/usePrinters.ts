@@ -0,0 +1,133 @@
+/**
+ * React hook for a multi-printer setup (e.g. front, kitchen and bar printers).
+ *
+ * Exposes the printer registry (persisted in localStorage), routing of jobs
+ * and orders to printers, and the live status of every printer.
+ *
+ * @example
+ * const { printers, statuses, route, splitOrder, getService } = usePrinters({
+ *   routes: [
+ *     { jobTypes: ['receipt'], role: 'receipt' },
+ *     { categories: ['drinks'], role: 'bar' },
+ *   ],
+ *   fallback: { role: 'kitchen' },
+ * });
+ *
+ * for (const { printer, items } of splitOrder(order.items).tickets) {
+ *   await getService(printer.id)?.printReceipt(buildTicket(order, items));
+ * }
+ */
+
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { PrinterRegistry } from '../lib/printer-registry';
+import { PrintRouter } from '../lib/print-router';
+import { PrinterStatusMonitor } from '../lib/printer-status';
+import type { EposPrintService } from '../lib/epos-print';
+import type {
+  OrderSplit,
+  PrintOptions,
+  PrinterDeviceStatus,
+  PrinterRegistration,
+  RegisteredPrinter,
+  RoutableItem,
+  RoutableJob,
+  UsePrintersOptions,
+  UsePrintersReturn,
+} from '../types';
+
+export function usePrinters(options?: UsePrintersOptions): UsePrintersReturn {
+  const {
+    storageKey,
+    persist,
+    initialPrinters,
+    routes,
+    fallback,
+    monitorStatus = true,
+    statusInterval,
+  } = options ?? {};
+
+  // Initial printers only matter the first time the registry is created
+  const [initial] = useState(initialPrinters);
+
+  const registry = useMemo(
+    () => new PrinterRegistry({ storageKey, persist, initialPrinters: initial }),
+    [storageKey, persist, initial]
+  );
+
+  const router = useMemo(
+    () => new PrintRouter(registry, { routes: routes ?? [], fallback }),
+    [registry, routes, fallback]
+  );
+
+  const printers = useSyncExternalStore(registry.subscribe, registry.getPrinters);
+
+  const [monitoredStatuses, setMonitoredStatuses] = useState<Record<string, PrinterDeviceStatus | null>>({});
+
+  useEffect(() => {
+    if (!monitorStatus) return;
+
+    const monitors = printers.map((printer) => {
+      const monitor = new PrinterStatusMonitor(printer.config, { interval: statusInterval });
+      const unsubscribe = monitor.subscribe(() => {
+        setMonitoredStatuses((prev) => ({ ...prev, [printer.id]: monitor.getStatus() }));
+      });
+      monitor.start();
+      return { monitor, unsubscribe };
+    });
+
+    return () => {
+      monitors.forEach(({ monitor, unsubscribe }) => {
+        unsubscribe();
+        monitor.stop();
+      });
+    };
+  }, [printers, monitorStatus, statusInterval]);
+
+  // Only report printers that are still registered
+  const statuses = useMemo(() => {
+    const result: Record<string, PrinterDeviceStatus | null> = {};
+    printers.forEach((printer) => {
+      result[printer.id] = monitorStatus ? monitoredStatuses[printer.id] ?? null : null;
+    });
+    return result;
+  }, [printers, monitoredStatuses, monitorStatus]);
+
+  const addPrinter = useCallback(
+    (printer: PrinterRegistration): RegisteredPrinter => registry.add(printer),
+    [registry]
+  );
+
+  const updatePrinter = useCallback(
+    (id: string, changes: Partial<Omit<PrinterRegistration, 'id'>>): RegisteredPrinter =>
+      registry.update(id, changes),
+    [registry]
+  );
+
+  const removePrinter = useCallback((id: string): boolean => registry.remove(id), [registry]);
+
+  const getService = useCallback(
+    (id: string, printOptions?: PrintOptions): EposPrintService | null =>
+      registry.get(id) ? registry.createService(id, printOptions) : null,
+    [registry]
+  );
+
+  const route = useCallback((job: RoutableJob) => router.route(job), [router]);
+
+  const splitOrder = useCallback(
+    <T extends RoutableItem>(items: T[], jobType?: string): OrderSplit<T> => router.splitOrder(items, jobType),
+    [router]
+  );
+
+  return {
+    printers,
+    statuses,
+    addPrinter,
+    updatePrinter,
+    removePrinter,
+    getService,
+    route,
+    splitOrder,
+    registry,
+    router,
+  };
+}
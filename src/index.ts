@@ -4,10 +4,62 @@
  */
 
 // Core services
-export { EposPrintService, checkEpsonSDKStatus } from './lib/epos-print';
+export {
+  EposPrintService,
+  checkEpsonSDKStatus,
+  resolvePrinterConfig,
+  getEposPrintUrl,
+  imageToCanvas,
+  imageToBase64,
+} from './lib/epos-print';
+export { EposXmlBuilder, toMonoRaster, toGray16Raster } from './lib/epos-xml-builder';
+export { createTransport, isDirectTransport } from './lib/transport';
+export { EposPrintHttpTransport } from './lib/http-transport';
+export { EposPrintFetchTransport, toSoapEnvelope, parseEposResponse } from './lib/fetch-transport';
+export {
+  EposDeviceTransport,
+  getWebSocketTransport,
+  closeWebSocketTransports,
+} from './lib/websocket-transport';
+export { EscPosTransport, decodeDleEotStatus } from './lib/escpos-transport';
+export {
+  UsbTransport,
+  requestUsbPrinter,
+  getGrantedUsbPrinters,
+  isWebUsbSupported,
+  getUsbTransport,
+  closeUsbTransports,
+  EPSON_USB_VENDOR_ID,
+} from './lib/usb-transport';
+export {
+  SerialTransport,
+  requestSerialPrinter,
+  getGrantedSerialPrinters,
+  isWebSerialSupported,
+  getSerialTransport,
+  closeSerialTransports,
+} from './lib/serial-transport';
+export { PrinterRegistry, PrinterRegistryError } from './lib/printer-registry';
+export { PrintRouter } from './lib/print-router';
+export { PrinterGroup } from './lib/printer-group';
+export {
+  decodePrintError,
+  getStatusErrors,
+  createPrintError,
+  withPrintError,
+} from './lib/print-error';
+export {
+  configureI18n,
+  getLocale,
+  translate,
+  createTranslator,
+  getActionMessage,
+} from './lib/i18n';
+export { PrinterStatusMonitor, decodeAsbStatus, ASB_STATUS } from './lib/printer-status';
 export { 
   loadEpsonSDK, 
   isEpsonSDKLoaded, 
+  isHeadlessEnvironment,
   initializeEpsonSDK,
   getEpsonSDK,
   getLoaderState,
@@ -16,20 +68,82 @@ export {
 export { 
   processPdfPage, 
   processPdfFile,
+  processPdfPages,
   DEFAULT_PDF_CONFIG,
   configurePdfWorker,
   isPdfWorkerConfigured,
   isPdfJsAvailable,
   PdfJsNotInstalledError,
+  PageRangeError,
+  parsePageRange,
   PDFJS_CDN_WORKER_URL,
   PDFJS_CDN_WORKER_BASE,
 } from './lib/pdf-processor';
+export {
+  processImageFile,
+  isImageFile,
+  IMAGE_FILE_TYPES,
+  UnsupportedFileTypeError,
+} from './lib/image-processor';
+export { processHtml } from './lib/html-processor';
+export {
+  processDocumentFile,
+  processDocumentPages,
+  isDocumentFile,
+  isPdfFile,
+  DOCUMENT_FILE_ACCEPT,
+} from './lib/document-processor';
+export { isImageWorkerSupported, terminateImageWorker } from './lib/image-pipeline';
+export { ditherImage } from './lib/dithering';
+export {
+  PrintQueue,
+  IndexedDBQueueStorage,
+  MemoryQueueStorage,
+  isRetryableResult,
+} from './lib/print-queue';
+export {
+  PrintJobTracker,
+  createPrintJobId,
+  isValidPrintJobId,
+  getTrackedJobState,
+} from './lib/print-job-tracker';
+export {
+  compileReceipt,
+  parseReceiptDocument,
+  loadReceiptImages,
+  ReceiptDocumentError,
+} from './lib/receipt-document';
+export {
+  getCharsPerLine,
+  getColumnWidths,
+  layoutRow,
+  layoutTable,
+  addTable,
+  wrapText,
+  truncateText,
+  alignText,
+  FONT_DOT_WIDTHS,
+} from './lib/text-layout';
+export { renderEposXml, EposXmlParseError } from './lib/receipt-renderer';
+export {
+  EscPosEncoder,
+  EscPosEncoderError,
+  encodeText,
+  packMonochrome,
+} from './lib/escpos-encoder';
+export { eposXmlToEscPos } from './lib/escpos-xml';
 export { configureLogger, getLoggerConfig } from './lib/logger';
 
 // React hooks
 export { useEpsonPrinter } from './hooks/useEpsonPrinter';
 export { usePrinterConfig } from './hooks/usePrinterConfig';
 export { usePdfProcessor } from './hooks/usePdfProcessor';
+export { useDocumentProcessor } from './hooks/useDocumentProcessor';
+export { usePrintQueue } from './hooks/usePrintQueue';
+export { usePrintJobs } from './hooks/usePrintJobs';
+export { usePrinterStatus } from './hooks/usePrinterStatus';
+export { usePrinters } from './hooks/usePrinters';
+export { usePrinterGroup } from './hooks/usePrinterGroup';
 
 // TypeScript types
 export type {
@@ -37,8 +151,54 @@ export type {
   PrintResult,
   PrintOptions,
   PrintBuilderFn,
+  PrintOperationOptions,
+  PrintPagesOptions,
+  PrintImage,
+  PrintRaster,
+  PrintPage,
+  PrintPageSource,
+  StreamPrintOptions,
+  StreamPrintProgress,
+  StreamPrintResult,
+  XmlBuildResult,
+  PrintError,
+  PrintErrorType,
+  PrintErrorAction,
+  AsbPrinterKind,
+  MessageKey,
+  MessageCatalog,
+  MessageParams,
+  I18nOptions,
+  Translate,
+  EscPosCodePage,
+  EscPosBarcodeType,
+  EscPosEncoderOptions,
+  EscPosCutType,
+  RgbaImage,
+  PrintTransport,
+  PrintTransportType,
+  TransportRequest,
+  TransportResult,
+  TransportErrorCode,
+  WebSocketTransportOptions,
+  WebSocketTransportState,
+  UsbPrinterFilter,
+  SerialPrinterOptions,
+  EscPosTransportOptions,
+  EscPosTransportState,
+  DleEotStatus,
   PdfProcessingConfig,
+  PdfProcessingOptions,
+  HtmlProcessingOptions,
+  PdfProcessingProgress,
+  PdfPageOverrides,
+  PageRotation,
   ProcessedPage,
+  PageBand,
+  ImageRect,
+  DitheringMode,
+  DitherOptions,
+  ToneOptions,
   LoaderState,
   SDKLoadOptions,
   InitializeSDKResult,
@@ -47,6 +207,71 @@ export type {
   UsePrinterConfigOptions,
   UsePrinterConfigReturn,
   UsePdfProcessorReturn,
+  UseDocumentProcessorReturn,
+  PrintJob,
+  PrintJobState,
+  PrintQueueOptions,
+  PrintQueueStorage,
+  StoredRecord,
+  UsePrintQueueOptions,
+  UsePrintQueueReturn,
+  TrackedJobState,
+  TrackedPrintJob,
+  PrintJobTrackerOptions,
+  TrackedPrintOptions,
+  TrackedPrintFn,
+  UsePrintJobsOptions,
+  UsePrintJobsReturn,
+  UsePrinterStatusOptions,
+  UsePrinterStatusReturn,
+  UsePrintersOptions,
+  UsePrintersReturn,
+  RegisteredPrinter,
+  PrinterRegistration,
+  PrinterRegistryOptions,
+  PrintRoute,
+  PrintRouteTarget,
+  PrintRouterOptions,
+  RoutableJob,
+  RoutableItem,
+  StationTicket,
+  OrderSplit,
+  UsePrinterGroupOptions,
+  UsePrinterGroupReturn,
+  PrinterGroupStrategy,
+  PrinterGroupMember,
+  PrinterGroupOptions,
+  PrinterHealth,
+  PrinterGroupState,
+  PrinterDeviceStatus,
+  PrinterStatusEvents,
+  PrinterStatusEvent,
+  PrinterStatusMonitorOptions,
+  PrinterStatusMonitorState,
+  DrawerOpenLevel,
+  ReceiptDocument,
+  ReceiptBlock,
+  ReceiptTextStyle,
+  ReceiptTextBlock,
+  ReceiptColumn,
+  ReceiptColumnsBlock,
+  ReceiptKeyValueBlock,
+  ReceiptRuleBlock,
+  ReceiptBarcodeBlock,
+  ReceiptQrBlock,
+  ReceiptImageBlock,
+  ReceiptFeedBlock,
+  ReceiptCutBlock,
+  ReceiptPulseBlock,
+  ReceiptAlign,
+  ReceiptFont,
+  ReceiptImages,
+  TextFont,
+  TextAlign,
+  TextMetricsOptions,
+  TableColumn,
+  TableLayoutOptions,
+  ReceiptRenderOptions,
   LogLevel,
   LogEntry,
   LoggerConfig,
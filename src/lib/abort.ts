@@ -0,0 +1,43 @@
+/**
+ * AbortSignal helpers shared by the transports, the service and the hooks
+ */
+
+/**
+ * Call `listener` once when `signal` aborts (right away if it already has).
+ * Returns a function that removes the listener.
+ */
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+  if (signal.aborted) {
+    listener();
+    return () => undefined;
+  }
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Settle with `promise`, or with `aborted` as soon as `signal` aborts.
+ * The promise itself keeps running: use it for work that can't be stopped.
+ */
+export function raceAbort<T, A>(promise: Promise<T>, signal: AbortSignal | undefined, aborted: A): Promise<T | A> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T | A>((resolve, reject) => {
+    const stop = onAbort(signal, () => resolve(aborted));
+    promise.then(
+      (value) => {
+        stop();
+        resolve(value);
+      },
+      (err) => {
+        stop();
+        reject(err);
+      }
+    );
+  });
+}
+
@@ -0,0 +1,45 @@
+/**
+ * ASB (Automatic Status Back) status bits
+ *
+ * Kept apart from the status monitor, which imports the transports that use them.
+ */
+
+/**
+ * ASB status bits reported by ePOS-Print.
+ *
+ * Some bits mean different things depending on the printer: `DRAWER_KICK` is
+ * `BATTERY_OFFLINE` on mobile printers, `BUZZER` is `SLIP_NO_SELECT` on slip
+ * printers and `WAIT_REMOVE_LABEL` on label printers, and `NO_LABEL` is
+ * `VALIDATION_NO_SELECT` on slip printers.
+ */
+export const ASB_STATUS = {
+  NO_RESPONSE: 0x00000001,
+  PRINT_SUCCESS: 0x00000002,
+  DISPLAY_SUCCESS: 0x00000002,
+  DRAWER_KICK: 0x00000004,
+  BATTERY_OFFLINE: 0x00000004,
+  OFF_LINE: 0x00000008,
+  COVER_OPEN: 0x00000020,
+  PAPER_FEED: 0x00000040,
+  WAIT_ON_LINE: 0x00000100,
+  PANEL_SWITCH: 0x00000200,
+  MECHANICAL_ERR: 0x00000400,
+  AUTOCUTTER_ERR: 0x00000800,
+  UNRECOVER_ERR: 0x00002000,
+  AUTORECOVER_ERR: 0x00004000,
+  INSERTION_WAIT_PAPER: 0x00010000,
+  RECEIPT_NEAR_END: 0x00020000,
+  REMOVAL_WAIT_PAPER: 0x00040000,
+  RECEIPT_END: 0x00080000,
+  TOF_NOPAPER: 0x00200000,
+  BOF_NOPAPER: 0x00400000,
+  BUZZER: 0x01000000,
+  SLIP_NO_SELECT: 0x01000000,
+  WAIT_REMOVE_LABEL: 0x01000000,
+  SLIP_IMPOSSIBLE_PRINT: 0x02000000,
+  NO_LABEL: 0x04000000,
+  VALIDATION_NO_SELECT: 0x04000000,
+  VALIDATION_IMPOSSIBLE_PRINT: 0x08000000,
+  EJD_NOPAPER: 0x40000000,
+  SPOOLER_IS_STOPPED: 0x80000000,
+} as const;
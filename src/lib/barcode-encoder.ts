@@ -0,0 +1,666 @@
+/**
+ * Barcode and QR code encoding for receipt previews
+ *
+ * Turns the content of `<barcode>` and `<symbol>` elements into module
+ * patterns, so a preview can be scanned like the printed receipt: CODE39,
+ * CODE128 (code sets `{A`, `{B`, `{C`, shifts and FNC codes, `code128_auto`
+ * and `gs1_128`), EAN-13/JAN-13, EAN-8/JAN-8, UPC-A, UPC-E, ITF and QR Code
+ * model 2. Runs anywhere: it only works on strings and arrays.
+ */
+
+/** 1D barcode as modules, `true` for a bar, plus the text printed as HRI */
+export interface EncodedBarcode {
+  modules: boolean[];
+  text: string;
+}
+
+// --- 1D barcodes ------------------------------------------------------------
+
+/** Bar/space widths of the CODE128 symbols 0-105, and the stop symbol */
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE128_START = { A: 103, B: 104, C: 105 } as const;
+const CODE128_SWITCH = { A: 101, B: 100, C: 99 } as const;
+const CODE128_SHIFT = 98;
+const CODE128_FNC1 = 102;
+
+type Code128Set = keyof typeof CODE128_START;
+
+/** Wide (1) and narrow (0) elements of each CODE39 character, bar first */
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': '000110100', '1': '100100001', '2': '001100001', '3': '101100000', '4': '000110001',
+  '5': '100110000', '6': '001110000', '7': '000100101', '8': '100100100', '9': '001100100',
+  A: '100001001', B: '001001001', C: '101001000', D: '000011001', E: '100011000',
+  F: '001011000', G: '000001101', H: '100001100', I: '001001100', J: '000011100',
+  K: '100000011', L: '001000011', M: '101000010', N: '000010011', O: '100010010',
+  P: '001010010', Q: '000000111', R: '100000110', S: '001000110', T: '000010110',
+  U: '110000001', V: '011000001', W: '111000000', X: '010010001', Y: '110010000',
+  Z: '011010000', '-': '010000101', '.': '110000100', ' ': '011000100', '$': '010101000',
+  '/': '010100010', '+': '010001010', '%': '000101010', '*': '010010100',
+};
+
+/** Wide (1) and narrow (0) elements of each ITF digit */
+const ITF_PATTERNS = ['00110', '10001', '01001', '11000', '00101', '10100', '01100', '00011', '10010', '01010'];
+
+/** EAN/UPC left-hand odd (L) digit patterns; even (G) and right-hand (R) ones derive from them */
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+
+/** EAN-13 parity of the left-hand digits for each first digit, 1 = even (G) */
+const EAN13_PARITY = ['000000', '001011', '001101', '001110', '010011', '011001', '011100', '010101', '010110', '011010'];
+
+/** UPC-E parity for number system 0 and each check digit, 1 = even (G) */
+const UPCE_PARITY = ['111000', '110100', '110010', '110001', '101100', '100110', '100011', '101010', '101001', '100101'];
+
+/** Append bars and spaces with the given widths, starting with a bar */
+function pushWidths(modules: boolean[], widths: number[], startWithBar = true): void {
+  widths.forEach((width, i) => {
+    for (let w = 0; w < width; w++) modules.push((i % 2 === 0) === startWithBar);
+  });
+}
+
+function pushBits(modules: boolean[], bits: string): void {
+  for (const bit of bits) modules.push(bit === '1');
+}
+
+/** Modulo 10 check digit of EAN/UPC data, weights 3 and 1 from the right */
+function getEanCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    sum += Number(digits[digits.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function getEanDigit(digit: string, parity: 'L' | 'G' | 'R'): string {
+  const odd = EAN_L[Number(digit)];
+  const right = odd.replace(/./g, (bit) => (bit === '1' ? '0' : '1'));
+  return parity === 'L' ? odd : parity === 'R' ? right : [...right].reverse().join('');
+}
+
+/** 13 digits (check digit included) as EAN-13 */
+function encodeEan13(digits: string): boolean[] {
+  const modules: boolean[] = [];
+  pushBits(modules, '101');
+  const parity = EAN13_PARITY[Number(digits[0])];
+  for (let i = 1; i <= 6; i++) {
+    pushBits(modules, getEanDigit(digits[i], parity[i - 1] === '1' ? 'G' : 'L'));
+  }
+  pushBits(modules, '01010');
+  for (let i = 7; i <= 12; i++) {
+    pushBits(modules, getEanDigit(digits[i], 'R'));
+  }
+  pushBits(modules, '101');
+  return modules;
+}
+
+/** Data digits with a computed check digit, or null if the data isn't `length - 1` or `length` digits */
+function withCheckDigit(data: string, length: number): string | null {
+  if (!/^\d+$/.test(data) || (data.length !== length - 1 && data.length !== length)) return null;
+  const body = data.slice(0, length - 1);
+  return body + getEanCheckDigit(body);
+}
+
+/** Expand 6 UPC-E digits to the 11 UPC-A digits before the check digit */
+function expandUpcE(system: string, d: string): string {
+  switch (d[5]) {
+    case '0':
+    case '1':
+    case '2':
+      return `${system}${d[0]}${d[1]}${d[5]}0000${d[2]}${d[3]}${d[4]}`;
+    case '3':
+      return `${system}${d[0]}${d[1]}${d[2]}00000${d[3]}${d[4]}`;
+    case '4':
+      return `${system}${d[0]}${d[1]}${d[2]}${d[3]}00000${d[4]}`;
+    default:
+      return `${system}${d.slice(0, 5)}0000${d[5]}`;
+  }
+}
+
+/** Zero-suppress 11 UPC-A digits to 6 UPC-E digits, or null if they can't be */
+function compressUpcA(digits: string): string | null {
+  const m = digits.slice(1, 6);
+  const p = digits.slice(6, 11);
+  const candidates = [
+    `${m.slice(0, 2)}${p.slice(2)}${m[2]}`,
+    `${m.slice(0, 3)}${p.slice(3)}3`,
+    `${m.slice(0, 4)}${p[4]}4`,
+    `${m}${p[4]}`,
+  ];
+  return candidates.find((candidate) => expandUpcE(digits[0], candidate) === digits) ?? null;
+}
+
+function encodeUpcE(data: string): EncodedBarcode | null {
+  if (!/^\d+$/.test(data)) return null;
+  let system = '0';
+  let digits: string | null;
+  if (data.length === 6) {
+    digits = data;
+  } else if (data.length === 7 || data.length === 8) {
+    system = data[0];
+    digits = data.slice(1, 7);
+  } else if (data.length === 11 || data.length === 12) {
+    system = data[0];
+    digits = compressUpcA(data.slice(0, 11));
+  } else {
+    return null;
+  }
+  if (!digits || (system !== '0' && system !== '1')) return null;
+
+  const check = getEanCheckDigit(expandUpcE(system, digits));
+  const parity = [...UPCE_PARITY[check]].map((bit) => (system === '0' ? bit : bit === '1' ? '0' : '1'));
+  const modules: boolean[] = [];
+  pushBits(modules, '101');
+  for (let i = 0; i < 6; i++) {
+    pushBits(modules, getEanDigit(digits[i], parity[i] === '1' ? 'G' : 'L'));
+  }
+  pushBits(modules, '010101');
+  return { modules, text: `${system}${digits}${check}` };
+}
+
+function encodeCode39(data: string): EncodedBarcode | null {
+  const text = data.length > 1 && data.startsWith('*') && data.endsWith('*') ? data.slice(1, -1) : data;
+  if ([...text].some((char) => char === '*' || !CODE39_PATTERNS[char])) return null;
+  const modules: boolean[] = [];
+  [...`*${text}*`].forEach((char, i) => {
+    if (i > 0) modules.push(false);
+    pushWidths(modules, [...CODE39_PATTERNS[char]].map((wide) => (wide === '1' ? 2 : 1)));
+  });
+  return { modules, text };
+}
+
+function encodeItf(data: string): EncodedBarcode | null {
+  if (!/^\d*$/.test(data) || data.length === 0 || data.length % 2 !== 0) return null;
+  const modules: boolean[] = [];
+  pushWidths(modules, [1, 1, 1, 1]);
+  for (let i = 0; i < data.length; i += 2) {
+    const bars = ITF_PATTERNS[Number(data[i])];
+    const spaces = ITF_PATTERNS[Number(data[i + 1])];
+    const widths: number[] = [];
+    for (let j = 0; j < 5; j++) {
+      widths.push(bars[j] === '1' ? 3 : 1, spaces[j] === '1' ? 3 : 1);
+    }
+    pushWidths(modules, widths);
+  }
+  pushWidths(modules, [3, 1, 1]);
+  return { modules, text: data };
+}
+
+/** Value of a character in a CODE128 code set, or -1 if the set can't encode it */
+function getCode128Value(code: number, set: Code128Set): number {
+  if (set === 'A') return code < 32 ? code + 64 : code < 96 ? code - 32 : -1;
+  if (set === 'B') return code >= 32 && code < 128 ? code - 32 : -1;
+  return -1;
+}
+
+/** Value of a `{S` or `{1`-`{4` escape in a code set, or -1 if the set has none */
+function getCode128Escape(code: string, set: Code128Set): number {
+  if (code === '1') return CODE128_FNC1;
+  if (set === 'C') return -1;
+  switch (code) {
+    case 'S':
+      return CODE128_SHIFT;
+    case '2':
+      return 97;
+    case '3':
+      return 96;
+    case '4':
+      return set === 'A' ? 101 : 100;
+    default:
+      return -1;
+  }
+}
+
+/**
+ * CODE128 with ePOS-Print escapes: `{A`, `{B`, `{C` select a code set, `{S`
+ * shifts one character between A and B, `{1`-`{4` are FNC1-FNC4 and `{{` is `{`.
+ * Data without a leading code set uses code set B.
+ */
+function getCode128Values(data: string): { values: number[]; text: string } | null {
+  const escaped = data.startsWith('{') ? data : `{B${data}`;
+  const values: number[] = [];
+  let set: Code128Set | null = null;
+  let text = '';
+  let shift = false;
+
+  for (let i = 0; i < escaped.length; i++) {
+    const char = escaped[i];
+    if (char === '{') {
+      const code = escaped[++i];
+      if (code === 'A' || code === 'B' || code === 'C') {
+        values.push(set ? CODE128_SWITCH[code] : CODE128_START[code]);
+        set = code;
+        continue;
+      }
+      if (!set) return null;
+      if (code !== '{') {
+        const value = getCode128Escape(code, set);
+        if (value < 0) return null;
+        values.push(value);
+        shift = code === 'S';
+        continue;
+      }
+    }
+    if (!set) return null;
+
+    if (set === 'C') {
+      const pair = escaped.slice(i, i + 2);
+      if (!/^\d\d$/.test(pair)) return null;
+      values.push(Number(pair));
+      text += pair;
+      i++;
+      continue;
+    }
+    const current: Code128Set = shift ? (set === 'A' ? 'B' : 'A') : set;
+    shift = false;
+    const value = getCode128Value(char.charCodeAt(0), current);
+    if (value < 0) return null;
+    values.push(value);
+    text += char;
+  }
+  return set ? { values, text } : null;
+}
+
+/** Code sets picked automatically: C for runs of 4 or more digits, A for control characters, B otherwise */
+function getCode128AutoValues(data: string, fnc1 = false): { values: number[]; text: string } | null {
+  const values: number[] = [];
+  let set: Code128Set | null = null;
+  const select = (next: Code128Set) => {
+    if (set !== next) values.push(set ? CODE128_SWITCH[next] : CODE128_START[next]);
+    set = next;
+  };
+
+  for (let i = 0; i < data.length;) {
+    const digits = /^\d+/.exec(data.slice(i))?.[0].length ?? 0;
+    // The first digit of an odd run stays in the current code set
+    if (digits >= 4 && digits % 2 === 0) {
+      select('C');
+      if (fnc1 && values.length === 1) values.push(CODE128_FNC1);
+      const end = i + digits;
+      for (; i < end; i += 2) values.push(Number(data.slice(i, i + 2)));
+      continue;
+    }
+    const code = data.charCodeAt(i);
+    const next: Code128Set = code < 32 ? 'A' : set === 'A' && code < 96 ? 'A' : 'B';
+    select(next);
+    if (fnc1 && values.length === 1) values.push(CODE128_FNC1);
+    const value = getCode128Value(code, next);
+    if (value < 0) return null;
+    values.push(value);
+    i++;
+  }
+  return set ? { values, text: data } : null;
+}
+
+function encodeCode128(values: number[]): boolean[] {
+  const checksum = values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+  const modules: boolean[] = [];
+  for (const value of [...values, checksum, CODE128_WIDTHS.length - 1]) {
+    pushWidths(modules, [...CODE128_WIDTHS[value]].map(Number));
+  }
+  return modules;
+}
+
+/**
+ * Encode a 1D barcode of an ePOS-Print `<barcode>` type
+ *
+ * @returns The modules and HRI text, or null for types this module can't
+ * encode and data the symbology doesn't accept
+ */
+export function encodeBarcode(type: string, data: string): EncodedBarcode | null {
+  switch (type) {
+    case 'ean13':
+    case 'jan13': {
+      const digits = withCheckDigit(data, 13);
+      return digits ? { modules: encodeEan13(digits), text: digits } : null;
+    }
+    case 'upc_a': {
+      const digits = withCheckDigit(data, 12);
+      return digits ? { modules: encodeEan13(`0${digits}`), text: digits } : null;
+    }
+    case 'ean8':
+    case 'jan8': {
+      const digits = withCheckDigit(data, 8);
+      if (!digits) return null;
+      const modules: boolean[] = [];
+      pushBits(modules, '101');
+      for (let i = 0; i < 4; i++) pushBits(modules, getEanDigit(digits[i], 'L'));
+      pushBits(modules, '01010');
+      for (let i = 4; i < 8; i++) pushBits(modules, getEanDigit(digits[i], 'R'));
+      pushBits(modules, '101');
+      return { modules, text: digits };
+    }
+    case 'upc_e':
+      return encodeUpcE(data);
+    case 'code39':
+      return encodeCode39(data);
+    case 'itf':
+      return encodeItf(data);
+    case 'code128': {
+      const encoded = getCode128Values(data);
+      return encoded ? { modules: encodeCode128(encoded.values), text: encoded.text } : null;
+    }
+    case 'code128_auto': {
+      const encoded = getCode128AutoValues(data);
+      return encoded ? { modules: encodeCode128(encoded.values), text: encoded.text } : null;
+    }
+    case 'gs1_128': {
+      const encoded = getCode128AutoValues(data.replace(/[()]/g, ''), true);
+      return encoded ? { modules: encodeCode128(encoded.values), text: data } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// --- QR Code ----------------------------------------------------------------
+
+export type QrErrorLevel = 'level_l' | 'level_m' | 'level_q' | 'level_h';
+
+const QR_LEVELS: readonly QrErrorLevel[] = ['level_l', 'level_m', 'level_q', 'level_h'];
+
+/** Format information bits of each error correction level */
+const QR_LEVEL_BITS: Record<QrErrorLevel, number> = { level_l: 1, level_m: 0, level_q: 3, level_h: 2 };
+
+/** Error correction codewords per block, per level and version (index 0 unused) */
+const QR_ECC_PER_BLOCK: Record<QrErrorLevel, number[]> = {
+  level_l: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  level_m: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  level_q: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  level_h: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+/** Error correction blocks, per level and version (index 0 unused) */
+const QR_BLOCKS: Record<QrErrorLevel, number[]> = {
+  level_l: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  level_m: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  level_q: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  level_h: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const QR_MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** Modules available for data and error correction in a version */
+function getQrRawModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+/** Data codewords of a version at an error correction level */
+export function getQrDataCodewords(version: number, level: QrErrorLevel): number {
+  return Math.floor(getQrRawModules(version) / 8) - QR_ECC_PER_BLOCK[level][version] * QR_BLOCKS[level][version];
+}
+
+function getQrAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+/** Product in GF(256) with the QR polynomial 0x11d */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function getReedSolomonDivisor(degree: number): number[] {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+}
+
+function getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const remainder = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return remainder;
+}
+
+/** Data codewords with error correction, split into blocks and interleaved */
+function getQrCodewords(data: number[], version: number, level: QrErrorLevel): number[] {
+  const blockCount = QR_BLOCKS[level][version];
+  const eccLength = QR_ECC_PER_BLOCK[level][version];
+  const total = Math.floor(getQrRawModules(version) / 8);
+  const shortBlocks = blockCount - (total % blockCount);
+  const shortLength = Math.floor(total / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = getReedSolomonRemainder(block, divisor);
+    // Short blocks get a dummy codeword so all blocks interleave by index
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortLength - eccLength || j >= shortBlocks) codewords.push(block[i]);
+    });
+  }
+  return codewords;
+}
+
+/** Penalty score of a masked symbol; the mask with the lowest one is used */
+function getQrPenalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  let dark = 0;
+  const finderLike = /10111010000|00001011101/g;
+
+  for (let a = 0; a < size; a++) {
+    let row = '';
+    let column = '';
+    for (let b = 0; b < size; b++) {
+      row += modules[a][b] ? '1' : '0';
+      column += modules[b][a] ? '1' : '0';
+      if (modules[a][b]) dark++;
+    }
+    for (const line of [row, column]) {
+      for (const run of line.match(/0{5,}|1{5,}/g) ?? []) penalty += run.length - 2;
+      penalty += (line.match(finderLike) ?? []).length * 40;
+    }
+  }
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) penalty += 3;
+    }
+  }
+  const total = size * size;
+  return penalty + (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+}
+
+/**
+ * Encode a QR Code model 2 symbol in byte mode (UTF-8), in the smallest
+ * version that fits the data at the error correction level
+ *
+ * @returns Rows of modules, `true` for dark, or null if the data doesn't fit
+ * in version 40
+ */
+export function encodeQrCode(data: string, level: string = 'level_m'): boolean[][] | null {
+  const ecLevel = QR_LEVELS.includes(level as QrErrorLevel) ? (level as QrErrorLevel) : 'level_m';
+  const bytes = new TextEncoder().encode(data);
+
+  let version = 1;
+  for (; version <= 40; version++) {
+    const countBits = version < 10 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= getQrDataCodewords(version, ecLevel) * 8) break;
+  }
+  if (version > 40) return null;
+
+  // Mode indicator, character count, data, terminator and pad codewords
+  const capacity = getQrDataCodewords(version, ecLevel);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad);
+
+  // Function patterns
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, isDark: boolean) => {
+    modules[y][x] = isDark;
+    reserved[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+  const alignments = getQrAlignmentPositions(version);
+  const last = alignments.length - 1;
+  alignments.forEach((cx, i) => {
+    alignments.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  const drawFormat = (mask: number) => {
+    const value = (QR_LEVEL_BITS[ecLevel] << 3) | mask;
+    let remainder = value;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const format = ((value << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((format >>> i) & 1) === 1;
+    for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+    set(8, 7, bit(6));
+    set(8, 8, bit(7));
+    set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+    set(8, size - 8, true);
+  };
+  drawFormat(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const info = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const isDark = ((info >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, isDark);
+      set(b, a, isDark);
+    }
+  }
+
+  // Codewords in the zigzag order, two columns at a time from the bottom right
+  const payload = getQrCodewords(codewords, version, ecLevel);
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!reserved[y][x] && index < payload.length * 8) {
+          modules[y][x] = ((payload[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+          index++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!reserved[y][x] && QR_MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let best = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < QR_MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormat(mask);
+    const penalty = getQrPenalty(modules);
+    if (penalty < bestPenalty) {
+      best = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(mask);
+  }
+  applyMask(best);
+  drawFormat(best);
+  return modules;
+}
@@ -0,0 +1,238 @@
+/**
+ * Conversion of images to 1-bit rasters: tone adjustments (gamma, contrast,
+ * sharpen) followed by threshold, error diffusion or ordered (Bayer) dithering
+ *
+ * Runs anywhere (main thread, workers, Node.js): it only works on pixel buffers.
+ */
+
+import type { RgbaImage } from './escpos-encoder';
+
+/**
+ * - 'threshold': black below `threshold`, white above
+ * - 'floyd-steinberg', 'atkinson', 'stucki', 'jarvis-judice-ninke': error diffusion
+ * - 'bayer2', 'bayer4', 'bayer8': ordered dithering with a 2x2, 4x4 or 8x8 Bayer matrix
+ */
+export type DitheringMode =
+  | 'threshold'
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'stucki'
+  | 'jarvis-judice-ninke'
+  | 'bayer2'
+  | 'bayer4'
+  | 'bayer8';
+
+export interface ToneOptions {
+  /** Gamma applied to gray levels (> 1 lightens, < 1 darkens). Default: 1 */
+  gamma?: number;
+  /** Contrast around mid gray (> 1 more contrast, < 1 less). Default: 1 */
+  contrast?: number;
+  /** Unsharp mask amount (0 = off, 1 = strong). Default: 0 */
+  sharpen?: number;
+}
+
+export interface DitherOptions extends ToneOptions {
+  /** Default: 'threshold' */
+  mode?: DitheringMode;
+  /** Gray level (0-255) below which a pixel is black, for threshold and error diffusion. Default: 128 */
+  threshold?: number;
+}
+
+/** Error diffusion kernel: [dx, dy, weight] of each neighbour, and the weight divisor */
+interface DiffusionKernel {
+  divisor: number;
+  weights: [number, number, number][];
+}
+
+const DIFFUSION_KERNELS: Record<string, DiffusionKernel> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    weights: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+  },
+  // Diffuses 3/4 of the error: lighter, with more contrast
+  atkinson: {
+    divisor: 8,
+    weights: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+  },
+  stucki: {
+    divisor: 42,
+    weights: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+  },
+  'jarvis-judice-ninke': {
+    divisor: 48,
+    weights: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+  },
+};
+
+/**
+ * Bayer matrix of size `n` (a power of 2), with values 0 to n*n - 1
+ */
+function createBayerMatrix(n: number): number[][] {
+  if (n === 1) {
+    return [[0]];
+  }
+  const half = createBayerMatrix(n / 2);
+  const matrix: number[][] = [];
+  for (let y = 0; y < n; y++) {
+    matrix.push([]);
+    for (let x = 0; x < n; x++) {
+      const base = 4 * half[y % (n / 2)][x % (n / 2)];
+      const quadrant = [[0, 2], [3, 1]][y < n / 2 ? 0 : 1][x < n / 2 ? 0 : 1];
+      matrix[y].push(base + quadrant);
+    }
+  }
+  return matrix;
+}
+
+const BAYER_SIZES: Partial<Record<DitheringMode, number>> = { bayer2: 2, bayer4: 4, bayer8: 8 };
+
+/**
+ * Gray levels (0 = black, 255 = white) of an image, blended with white paper
+ */
+export function toGrayLevels({ width, height, data }: RgbaImage): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const offset = i * 4;
+    const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    const alpha = data[offset + 3] / 255;
+    gray[i] = luminance * alpha + 255 * (1 - alpha);
+  }
+  return gray;
+}
+
+/**
+ * Whether tone options change the image at all
+ */
+export function hasToneAdjustments({ gamma = 1, contrast = 1, sharpen = 0 }: ToneOptions): boolean {
+  return gamma !== 1 || contrast !== 1 || sharpen > 0;
+}
+
+/**
+ * Apply sharpen, contrast and gamma to gray levels (in place)
+ */
+export function adjustTone(gray: Float32Array, width: number, height: number, options: ToneOptions): Float32Array {
+  const { gamma = 1, contrast = 1, sharpen = 0 } = options;
+
+  if (sharpen > 0) {
+    // Unsharp mask against a 3x3 box blur
+    const source = gray.slice();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const row = y + dy;
+          if (row < 0 || row >= height) continue;
+          for (let dx = -1; dx <= 1; dx++) {
+            const column = x + dx;
+            if (column < 0 || column >= width) continue;
+            sum += source[row * width + column];
+            count++;
+          }
+        }
+        const index = y * width + x;
+        gray[index] = Math.min(255, Math.max(0, source[index] + sharpen * 2 * (source[index] - sum / count)));
+      }
+    }
+  }
+
+  if (contrast !== 1 || gamma !== 1) {
+    for (let i = 0; i < gray.length; i++) {
+      const value = Math.min(255, Math.max(0, (gray[i] - 128) * contrast + 128));
+      gray[i] = gamma === 1 ? value : Math.pow(value / 255, 1 / gamma) * 255;
+    }
+  }
+  return gray;
+}
+
+/**
+ * Dither gray levels to one byte per pixel (1 = black, 0 = white)
+ */
+export function ditherGray(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  mode: DitheringMode = 'threshold',
+  threshold: number = 128
+): Uint8Array {
+  const pixels = new Uint8Array(width * height);
+  const bayerSize = BAYER_SIZES[mode];
+
+  if (bayerSize) {
+    const matrix = createBayerMatrix(bayerSize);
+    const levels = bayerSize * bayerSize;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        pixels[index] = gray[index] < ((matrix[y % bayerSize][x % bayerSize] + 0.5) / levels) * 255 ? 1 : 0;
+      }
+    }
+    return pixels;
+  }
+
+  const kernel = DIFFUSION_KERNELS[mode];
+  if (!kernel) {
+    for (let i = 0; i < pixels.length; i++) {
+      pixels[i] = gray[i] < threshold ? 1 : 0;
+    }
+    return pixels;
+  }
+
+  const values = gray.slice();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const black = values[index] < threshold;
+      pixels[index] = black ? 1 : 0;
+      const error = (values[index] - (black ? 0 : 255)) / kernel.divisor;
+      for (const [dx, dy, weight] of kernel.weights) {
+        const column = x + dx;
+        const row = y + dy;
+        if (column >= 0 && column < width && row < height) {
+          values[row * width + column] += error * weight;
+        }
+      }
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Pack one byte per pixel (1 = black) into a 1-bit raster: rows padded to a
+ * multiple of 8 pixels (repeating the last column), MSB first
+ */
+export function packPixels(pixels: Uint8Array, width: number, height: number): Uint8Array {
+  const bytesPerLine = Math.ceil(width / 8);
+  const raster = new Uint8Array(bytesPerLine * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < bytesPerLine * 8; x++) {
+      if (pixels[y * width + Math.min(x, width - 1)]) {
+        raster[y * bytesPerLine + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return raster;
+}
+
+/**
+ * Convert an image to a 1-bit raster (rows padded to whole bytes, MSB first, 1 = black)
+ *
+ * @example
+ * ```typescript
+ * const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+ * const raster = ditherImage(imageData, { mode: 'atkinson', gamma: 1.2, sharpen: 0.5 });
+ * ```
+ */
+export function ditherImage(image: RgbaImage, options: DitherOptions = {}): Uint8Array {
+  const { width, height } = image;
+  const gray = adjustTone(toGrayLevels(image), width, height, options);
+  return packPixels(ditherGray(gray, width, height, options.mode, options.threshold), width, height);
+}
@@ -0,0 +1,86 @@
+/**
+ * Processing of any printable document file: PDFs page by page, images as a
+ * single page, both through the same image stages and with the same options
+ */
+
+import { processPdfPages } from './pdf-processor';
+import type { PdfProcessingConfig, PdfProcessingOptions, ProcessedPage } from './pdf-processor';
+import { IMAGE_FILE_TYPES, UnsupportedFileTypeError, isImageFile, processImageFile } from './image-processor';
+
+/** `accept` attribute for file inputs taking documents (PDF or image) */
+export const DOCUMENT_FILE_ACCEPT = ['application/pdf', ...IMAGE_FILE_TYPES].join(',');
+
+/**
+ * Whether a file is a PDF, by MIME type (or by extension when the type is unknown)
+ */
+export function isPdfFile(file: File): boolean {
+  return file.type ? file.type === 'application/pdf' : /\.pdf$/i.test(file.name);
+}
+
+/**
+ * Whether a file is a PDF or an image `processDocumentFile()` accepts
+ */
+export function isDocumentFile(file: File): boolean {
+  return isPdfFile(file) || isImageFile(file);
+}
+
+/**
+ * Process the pages of a PDF or image file one at a time, as they are read.
+ * Images are a single page; PDFs need `pdfjs-dist`.
+ *
+ * @param file - PDF, PNG, JPEG, WebP, GIF or SVG file
+ * @param config - Processing configuration
+ * @param options - Abort signal, progress callback, page selection and per-page settings
+ * @throws {UnsupportedFileTypeError} If the file is not a PDF or a supported image
+ * @throws {PdfJsNotInstalledError} If the file is a PDF and pdfjs-dist is not installed
+ * @throws {PageRangeError} If `options.pages` can't be read
+ * @throws {DOMException} `AbortError` if `options.signal` aborts
+ *
+ * @example
+ * ```typescript
+ * await service.printPageStream(processDocumentPages(file, config));
+ * ```
+ */
+export async function* processDocumentPages(
+  file: File,
+  config?: PdfProcessingConfig,
+  options?: PdfProcessingOptions
+): AsyncGenerator<ProcessedPage, void, undefined> {
+  if (isPdfFile(file)) {
+    yield* processPdfPages(file, config, options);
+  } else if (isImageFile(file)) {
+    yield* await processImageFile(file, config, options);
+  } else {
+    throw new UnsupportedFileTypeError(file);
+  }
+}
+
+/**
+ * Process all pages of a PDF or image file
+ *
+ * @param file - PDF, PNG, JPEG, WebP, GIF or SVG file
+ * @param config - Processing configuration
+ * @param options - Abort signal, progress callback, page selection and per-page settings
+ * @returns Promise with array of processed pages (one for images)
+ * @throws {UnsupportedFileTypeError} If the file is not a PDF or a supported image
+ * @throws {PdfJsNotInstalledError} If the file is a PDF and pdfjs-dist is not installed
+ * @throws {PageRangeError} If `options.pages` can't be read
+ * @throws {DOMException} `AbortError` if `options.signal` aborts
+ *
+ * @example
+ * ```typescript
+ * const pages = await processDocumentFile(input.files[0], { enabled: true, targetWidth: 576 });
+ * await service.printPages(pages);
+ * ```
+ */
+export async function processDocumentFile(
+  file: File,
+  config?: PdfProcessingConfig,
+  options?: PdfProcessingOptions
+): Promise<ProcessedPage[]> {
+  const pages: ProcessedPage[] = [];
+  for await (const page of processDocumentPages(file, config, options)) {
+    pages.push(page);
+  }
+  return pages;
+}
@@ -6,18 +6,61 @@
 import type { epson } from './epson-sdk';
 import { 
   loadEpsonSDK, 
-  isEpsonSDKLoaded, 
   getEpsonSDK,
   getLoaderState,
   initializeEpsonSDK,
 } from './epson-sdk-loader';
+import { isEpsonSDKLoaded, isHeadlessEnvironment } from './sdk-environment';
+import { EposXmlBuilder, getRasterImageElement } from './epos-xml-builder';
+import type { RgbaImage } from './escpos-encoder';
+import { drawRotated, resolveRotation } from './image-stages';
+import type { ImageBand } from './image-stages';
+import type { PageRotation } from './pdf-processor';
+import { raceAbort } from './abort';
 import { debug, error } from './logger';
+import { compileReceipt, loadReceiptImages } from './receipt-document';
+import type { ReceiptDocument, ReceiptImages } from './receipt-document';
+import { addTable, getCharsPerLine } from './text-layout';
+import type { TableLayoutOptions, TextFont, TextMetricsOptions } from './text-layout';
+import { createTransport, isDirectTransport } from './transport';
+import type { PrintTransport, TransportErrorCode, TransportResult } from './transport';
+import { withPrintError } from './print-error';
+import { isValidPrintJobId } from './print-job-tracker';
+import { createTranslator } from './i18n';
+import type { Translate } from './i18n';
 
 // Re-export types from central types file
-export type { EpsonPrinterConfig, PrintResult, PrintOptions } from '../types';
+export type {
+  EpsonPrinterConfig,
+  PrintResult,
+  PrintOptions,
+  PrintOperationOptions,
+  PrintPagesOptions,
+  PrintImage,
+  PrintRaster,
+  PrintPage,
+  PrintPageSource,
+  StreamPrintOptions,
+  StreamPrintProgress,
+  StreamPrintResult,
+  XmlBuildResult,
+} from '../types';
 
 // Import types for internal use
-import type { EpsonPrinterConfig, PrintResult, PrintOptions } from '../types';
+import type {
+  EpsonPrinterConfig,
+  PrintResult,
+  PrintOptions,
+  PrintOperationOptions,
+  PrintPagesOptions,
+  PrintImage,
+  PrintPage,
+  PrintPageSource,
+  StreamPrintOptions,
+  StreamPrintProgress,
+  StreamPrintResult,
+  XmlBuildResult,
+} from '../types';
 
 // Re-export SDK loader functions
 export { 
@@ -37,7 +80,7 @@ export function checkEpsonSDKStatus(): {
   classes: string[] 
 } {
   const loaderState = getLoaderState();
-  const epson = window.epson;
+  const epson = typeof window !== 'undefined' ? window.epson : undefined;
   const classes: string[] = [];
   
   if (epson) {
@@ -56,21 +99,133 @@ export function checkEpsonSDKStatus(): {
 }
 
 /**
- * ePOS Print Service using official SDK
+ * Fill in the defaults of a printer configuration
+ */
+export function resolvePrinterConfig(config: EpsonPrinterConfig): Required<EpsonPrinterConfig> {
+  return {
+    printerIP: config.printerIP ?? '',
+    printerPort: config.printerPort ?? (config.useHttps ? 443 : 80),
+    deviceId: config.deviceId ?? 'local_printer',
+    timeout: config.timeout ?? 60000,
+    useHttps: config.useHttps ?? false,
+    transport: config.transport ?? 'http',
+    websocketPort: config.websocketPort ?? (config.useHttps ? 8043 : 8008),
+    usb: config.usb ?? {},
+    serial: config.serial ?? {},
+    codePage: config.codePage ?? 'cp858',
+  };
+}
+
+/**
+ * Get the ePOS-Print service URL of a printer
+ */
+export function getEposPrintUrl(config: EpsonPrinterConfig): string {
+  const { printerIP, printerPort, deviceId, timeout, useHttps } = resolvePrinterConfig(config);
+  const protocol = useHttps ? 'https' : 'http';
+  return `${protocol}://${printerIP}:${printerPort}/cgi-bin/epos/service.cgi?devid=${deviceId}&timeout=${timeout}`;
+}
+
+/**
+ * New ePOSBuilder: the SDK's in browsers, `EposXmlBuilder` where the SDK can't be loaded
+ */
+function newBuilder(): epson.ePOSBuilder {
+  return isHeadlessEnvironment() ? new EposXmlBuilder() : new (getEpsonSDK().ePOSBuilder)();
+}
+
+/**
+ * Add an image to a builder. Returns false if a canvas has no 2D context.
+ */
+function addImageToBuilder(
+  builder: epson.ePOSBuilder,
+  image: PrintImage,
+  color?: 'color_1',
+  mode?: 'mono' | 'gray16'
+): boolean {
+  if ('raster' in image) {
+    // Converted beforehand: the builder's halftone, brightness and mode don't apply
+    builder.message += getRasterImageElement(image.raster, image.width, image.height, color, image.mode);
+    return true;
+  }
+  if (!('getContext' in image)) {
+    if (builder instanceof EposXmlBuilder) {
+      builder.addImage(image, 0, 0, image.width, image.height, color, mode);
+      return true;
+    }
+    // The SDK only reads pixels from a canvas
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return false;
+    }
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+    builder.addImage(ctx, 0, 0, image.width, image.height, color, mode);
+    return true;
+  }
+
+  const ctx = image.getContext('2d');
+  if (!ctx) {
+    return false;
+  }
+  builder.addImage(ctx, 0, 0, image.width, image.height, color, mode);
+  return true;
+}
+
+/**
+ * Rows of a canvas or RGBA image, or the whole image if they can't be read
+ */
+function getImageRows(image: HTMLCanvasElement | RgbaImage, { y, height }: ImageBand): PrintImage {
+  if ('getContext' in image) {
+    return image.getContext('2d')?.getImageData(0, y, image.width, height) ?? image;
+  }
+  const rowLength = image.width * 4;
+  return { width: image.width, height, data: image.data.subarray(y * rowLength, (y + height) * rowLength) };
+}
+
+/**
+ * Images of a page given to `printPages()` or `printPageStream()`: one per
+ * band of a page split in bands (see `ProcessedPage.bands`)
+ *
+ * @param useRaster - Print the page's raster instead of its canvas
+ */
+function toPrintImages(page: PrintPage, useRaster?: boolean): PrintImage[] {
+  if (!('canvas' in page)) {
+    return [page];
+  }
+  const { canvas, bands } = page;
+  if (useRaster && bands && bands.length > 0) {
+    return bands.map((band) => ({ width: canvas.width, height: band.height, raster: band.rasterBase64 }));
+  }
+  if (useRaster && page.rasterBase64 !== undefined) {
+    return [{ width: canvas.width, height: canvas.height, raster: page.rasterBase64 }];
+  }
+  if (bands && bands.length > 1 && !('raster' in canvas)) {
+    return bands.map((band) => getImageRows(canvas, band));
+  }
+  return [canvas];
+}
+
+/**
+ * ePOS Print Service using official SDK.
+ *
+ * Where the SDK can't be loaded (Node.js, workers) requests are built with
+ * `EposXmlBuilder` and sent with `fetch()`; images are then given as RGBA pixels.
  */
 export class EposPrintService {
   private config: Required<EpsonPrinterConfig>;
   private printOptions: PrintOptions;
   private initPromise: Promise<boolean> | null = null;
+  private transport: PrintTransport;
+  private t: Translate;
 
-  constructor(config: EpsonPrinterConfig, options: PrintOptions = {}) {
-    this.config = {
-      printerIP: config.printerIP,
-      printerPort: config.printerPort ?? (config.useHttps ? 443 : 80),
-      deviceId: config.deviceId ?? 'local_printer',
-      timeout: config.timeout ?? 60000,
-      useHttps: config.useHttps ?? false,
-    };
+  /**
+   * @param transport - Custom transport; by default the one selected by `config.transport`
+   */
+  constructor(config: EpsonPrinterConfig, options: PrintOptions = {}, transport?: PrintTransport) {
+    this.config = resolvePrinterConfig(config);
+    this.transport = transport ?? createTransport(this.config);
+    this.t = createTranslator({ locale: options.locale, messages: options.messages });
     this.printOptions = {
       halftone: options.halftone ?? 1,
       brightness: options.brightness ?? 1.0,
@@ -81,39 +236,283 @@ export class EposPrintService {
   }
 
   /**
-   * Ensure SDK is loaded before any print operation (lazy loading)
+   * Ensure SDK is loaded before any print operation (lazy loading).
+   * An aborted signal stops waiting; the SDK keeps loading for later operations.
    */
-  private async ensureSDKLoaded(): Promise<boolean> {
-    // Already loaded
-    if (isEpsonSDKLoaded()) {
+  private async ensureSDKLoaded(signal?: AbortSignal): Promise<boolean> {
+    // Already loaded, or not needed: requests are built with EposXmlBuilder
+    if (isEpsonSDKLoaded() || isHeadlessEnvironment()) {
       return true;
     }
 
-    // Loading in progress
-    if (this.initPromise) {
-      return this.initPromise;
+    // Start loading, unless already in progress
+    if (!this.initPromise) {
+      debug('EposPrintService: Loading Epson SDK...');
+      this.initPromise = loadEpsonSDK().then((result) => {
+        this.initPromise = null;
+        if (!result) {
+          error('EposPrintService: Failed to load SDK');
+        }
+        return result;
+      });
     }
 
-    // Start loading
-    debug('EposPrintService: Loading Epson SDK...');
-    this.initPromise = loadEpsonSDK();
-    const result = await this.initPromise;
-    this.initPromise = null;
-    
-    if (!result) {
-      error('EposPrintService: Failed to load SDK');
+    return raceAbort(this.initPromise, signal, false);
+  }
+
+  /**
+   * Load the SDK, or return the failed result that stops the operation
+   */
+  private async prepare(signal?: AbortSignal): Promise<PrintResult | null> {
+    const sdkLoaded = await this.ensureSDKLoaded(signal);
+    if (signal?.aborted) {
+      return this.getAbortedResult();
     }
-    
-    return result;
+    if (!sdkLoaded) {
+      return withPrintError({
+        success: false,
+        code: 'SDK_NOT_LOADED',
+        message: this.t('print.sdkNotLoaded'),
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Result of a request with a print job ID the printer would reject
+   */
+  private getInvalidJobIdResult(printjobid: string): PrintResult {
+    return withPrintError({
+      success: false,
+      code: 'ERROR_PARAMETER',
+      message: this.t('print.invalidJobId', { printjobid }),
+    });
+  }
+
+  /**
+   * Result of an operation stopped by its abort signal
+   */
+  private getAbortedResult(): PrintResult {
+    return withPrintError({
+      success: false,
+      code: 'ABORTED',
+      message: this.t('print.aborted'),
+    });
+  }
+
+  /**
+   * Create an ePOSBuilder preconfigured with the service's image options
+   */
+  private createBuilder(): epson.ePOSBuilder {
+    const builder = newBuilder();
+    builder.halftone = this.printOptions.halftone ?? 1;
+    builder.brightness = this.printOptions.brightness ?? 1.0;
+    return builder;
+  }
+
+  /**
+   * Add the commands for a single canvas or image to a builder.
+   * Returns false if the canvas has no 2D context.
+   */
+  private addCanvasCommands(builder: epson.ePOSBuilder, canvas: PrintImage): boolean {
+    debug('printCanvas: Building commands for canvas:', canvas.width, 'x', canvas.height);
+    // Access alignment constants from the builder instance (they are instance properties, not static)
+    const alignValue = this.getAlignValue(this.printOptions.align);
+    builder.addTextAlign(alignValue);
+    if (!addImageToBuilder(builder, canvas)) {
+      return false;
+    }
+
+    if (this.printOptions.cut) {
+      builder.addCut(builder.CUT_FEED);
+    }
+    return true;
+  }
+
+  /**
+   * Add the header of a multi-page print, if any
+   */
+  private addPagesHeader(builder: epson.ePOSBuilder, options?: PrintPagesOptions): void {
+    if (options?.header) {
+      builder.addTextAlign('center');
+      builder.addTextStyle(false, false, true); // Bold
+      builder.addTextSize(2, 2);
+      builder.addText(options.header + '\n');
+      builder.addTextSize(1, 1);
+      builder.addTextStyle(false, false, false);
+      builder.addFeedLine(1);
+    }
+  }
+
+  /**
+   * Add one page of a multi-page print: one image command per band
+   */
+  private addPageCommands(builder: epson.ePOSBuilder, images: PrintImage[]): void {
+    builder.addTextAlign(this.printOptions.align ?? 'center');
+    images.forEach((image) => {
+      addImageToBuilder(builder, image, 'color_1', this.printOptions.mode ?? 'mono');
+    });
+  }
+
+  /**
+   * Add the separator printed between pages
+   */
+  private addPageSeparator(builder: epson.ePOSBuilder): void {
+    builder.addFeedLine(2);
+    builder.addTextAlign('center');
+    builder.addText('- - - - - - - - - -\n');
+    builder.addFeedLine(2);
+  }
+
+  /**
+   * Add the footer, final feed and cut of a multi-page print
+   */
+  private addPagesEnd(builder: epson.ePOSBuilder, options?: PrintPagesOptions): void {
+    if (options?.footer) {
+      builder.addFeedLine(1);
+      builder.addTextAlign('center');
+      builder.addText(options.footer + '\n');
+    }
+
+    builder.addFeedLine(3);
+    if (this.printOptions.cut) {
+      builder.addCut('feed');
+    }
+  }
+
+  /**
+   * Add the commands for multiple pages with optional header/footer to a builder
+   */
+  private addPagesCommands(
+    builder: epson.ePOSBuilder,
+    pages: PrintPage[],
+    options?: PrintPagesOptions
+  ): void {
+    this.addPagesHeader(builder, options);
+    pages.forEach((page, index) => {
+      this.addPageCommands(builder, toPrintImages(page, options?.useRaster));
+      if (options?.pageSeparator && index < pages.length - 1) {
+        this.addPageSeparator(builder);
+      }
+    });
+    this.addPagesEnd(builder, options);
   }
 
   /**
-   * Get the printer URL for ePOS Print
+   * Send an ePOS-Print XML request and resolve with the printer response.
+   * 
+   * @param xml - Request built with `ePOSBuilder.toString()`
+   * @param label - Operation name used in log messages
+   * @param extraTime - Time (ms) added to the printer timeout before giving up
+   * @param options - Abort signal and print job ID
    */
-  private getPrinterUrl(): string {
-    const { printerIP, printerPort, deviceId, timeout, useHttps } = this.config;
-    const protocol = useHttps ? 'https' : 'http';
-    return `${protocol}://${printerIP}:${printerPort}/cgi-bin/epos/service.cgi?devid=${deviceId}&timeout=${timeout}`;
+  private async sendXml(
+    xml: string,
+    label: string,
+    extraTime: number = 5000,
+    { signal, printjobid }: PrintOperationOptions = {}
+  ): Promise<PrintResult> {
+    if (printjobid !== undefined && !isValidPrintJobId(printjobid)) {
+      return this.getInvalidJobIdResult(printjobid);
+    }
+    const result = await this.transport.send({
+      xml,
+      label,
+      timeout: this.config.timeout,
+      extraTime,
+      printjobid,
+      signal,
+    });
+    return withPrintError(this.getSendResult(result));
+  }
+
+  /**
+   * Turn the transport result of a print request into a `PrintResult`
+   */
+  private getSendResult(result: TransportResult): PrintResult {
+    switch (result.type) {
+      case 'response':
+        return {
+          success: result.success,
+          code: result.code,
+          status: result.status,
+          message: result.success ? this.t('print.success') : this.t('print.failed', { code: result.code }),
+          printjobid: result.printjobid,
+        };
+      case 'timeout':
+        return {
+          success: false,
+          code: 'TIMEOUT',
+          message: this.t('print.timeout', { timeout: this.config.timeout }),
+        };
+      case 'aborted':
+        return this.getAbortedResult();
+      default:
+        return {
+          success: false,
+          code: result.code,
+          status: result.status,
+          message: result.code === 'NETWORK_ERROR'
+            ? this.t('print.networkError', { detail: result.detail || this.t('print.noConnection') })
+            : this.getTransportErrorMessage(result.code, result.detail),
+        };
+    }
+  }
+
+  /**
+   * Get human-readable message for a transport failure
+   */
+  private getTransportErrorMessage(code: TransportErrorCode, detail?: string): string {
+    switch (code) {
+      case 'DEVICE_IN_USE':
+        return this.t('print.deviceInUse');
+      case 'DEVICE_NOT_FOUND':
+        return this.t('print.deviceNotFound', { deviceId: this.config.deviceId });
+      case 'DEVICE_NOT_SELECTED':
+        return this.t('print.deviceNotSelected');
+      case 'API_NOT_SUPPORTED':
+        return this.t('print.browserNotSupported');
+      case 'CONNECTION_ERROR':
+        return this.t('print.connectionError', { detail: detail || this.t('print.noResponse') });
+      default:
+        return detail || this.t('print.unknownError');
+    }
+  }
+
+  /**
+   * Run a build step against a fresh builder and return the resulting XML,
+   * or a failed `PrintResult` if the SDK or the build step fails.
+   */
+  private async build(
+    label: string,
+    buildFn: (builder: epson.ePOSBuilder) => PrintResult | void,
+    signal?: AbortSignal
+  ): Promise<XmlBuildResult> {
+    // Ensure SDK is loaded first
+    const failure = await this.prepare(signal);
+    if (failure) {
+      return { result: failure };
+    }
+
+    try {
+      // Use separate ePOSBuilder to construct the message
+      // This avoids the SDK inheritance bug where send() creates a new empty builder
+      const builder = this.createBuilder();
+      const failure = buildFn(builder);
+      if (failure) {
+        return { result: withPrintError(failure) };
+      }
+      return { xml: builder.toString() };
+    } catch (err) {
+      error(`${label} error:`, err);
+      return {
+        result: withPrintError({
+          success: false,
+          code: 'SDK_ERROR',
+          message: err instanceof Error ? err.message : this.t('print.unknownError'),
+        }),
+      };
+    }
   }
 
   /**
@@ -127,115 +526,27 @@ export class EposPrintService {
    * Instead, we use ePOSBuilder to construct the print commands manually,
    * get the XML, and send it via ePOSPrint.send(xml).
    */
-  async printCanvas(canvas: HTMLCanvasElement): Promise<PrintResult> {
-    // Ensure SDK is loaded first
-    const sdkLoaded = await this.ensureSDKLoaded();
-    if (!sdkLoaded) {
-      return {
-        success: false,
-        code: 'SDK_NOT_LOADED',
-        message: 'Failed to load Epson ePOS SDK. Check console for details.',
-      };
+  async printCanvas(canvas: PrintImage, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    const built = await this.buildCanvasXml(canvas, options);
+    if ('result' in built) {
+      return built.result;
     }
+    return this.sendXml(built.xml, 'printCanvas', undefined, options);
+  }
 
-    return new Promise((resolve) => {
-      let resolved = false;
-      
-      const doResolve = (result: PrintResult) => {
-        if (!resolved) {
-          resolved = true;
-          resolve(result);
-        }
-      };
-
-      // Timeout in case printer doesn't respond
-      const timeoutId = setTimeout(() => {
-        error('printCanvas: timeout reached');
-        doResolve({
+  /**
+   * Build the ePOS-Print XML for a canvas without sending it
+   */
+  async buildCanvasXml(canvas: PrintImage, options: PrintOperationOptions = {}): Promise<XmlBuildResult> {
+    return this.build('printCanvas', (builder) => {
+      if (!this.addCanvasCommands(builder, canvas)) {
+        return {
           success: false,
-          code: 'TIMEOUT',
-          message: `Sin respuesta de la impresora después de ${this.config.timeout}ms. Verifica la IP y puerto.`,
-        });
-      }, this.config.timeout + 5000);
-
-      try {
-        const epson = getEpsonSDK();
-        const printerUrl = this.getPrinterUrl();
-        
-        // Use separate ePOSBuilder to construct the message
-        // This avoids the SDK inheritance bug where send() creates a new empty builder
-        const builder = new epson.ePOSBuilder();
-        builder.halftone = this.printOptions.halftone ?? 1;
-        builder.brightness = this.printOptions.brightness ?? 1.0;
-        
-        // Get canvas context
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          clearTimeout(timeoutId);
-          doResolve({
-            success: false,
-            code: 'CANVAS_ERROR',
-            message: 'No se pudo obtener el contexto 2D del canvas',
-          });
-          return;
-        }
-        
-        // Build print commands using builder
-        debug('printCanvas: Building commands for canvas:', canvas.width, 'x', canvas.height);
-        // Access alignment constants from the builder instance (they are instance properties, not static)
-        const alignValue = this.getAlignValue(this.printOptions.align);
-        builder.addTextAlign(alignValue);
-        builder.addImage(ctx, 0, 0, canvas.width, canvas.height);
-        
-        if (this.printOptions.cut) {
-          builder.addCut(builder.CUT_FEED);
-        }
-        
-        // Get the XML from builder
-        const xml = builder.toString();
-        debug('printCanvas: XML length:', xml.length);
-        
-        // Create printer for sending
-        const printer = new epson.ePOSPrint(printerUrl);
-        printer.timeout = this.config.timeout;
-
-        // Set callbacks BEFORE sending
-        printer.onreceive = (res) => {
-          debug('printCanvas onreceive:', res);
-          clearTimeout(timeoutId);
-          doResolve({
-            success: res.success,
-            code: res.code,
-            status: res.status,
-            message: res.success ? 'Impresión exitosa' : `Error: ${res.code}`,
-            printjobid: res.printjobid,
-          });
-        };
-
-        printer.onerror = (err) => {
-          error('printCanvas onerror:', err);
-          clearTimeout(timeoutId);
-          doResolve({
-            success: false,
-            code: 'NETWORK_ERROR',
-            status: err?.status,
-            message: `Error de red: ${err?.responseText || 'Sin conexión'}`,
-          });
+          code: 'CANVAS_ERROR',
+          message: this.t('print.canvasError'),
         };
-
-        // Send the XML directly
-        debug('printCanvas: Sending XML to printer...');
-        printer.send(xml);
-      } catch (err) {
-        error('printCanvas error:', err);
-        clearTimeout(timeoutId);
-        doResolve({
-          success: false,
-          code: 'SDK_ERROR',
-          message: err instanceof Error ? err.message : 'Error desconocido',
-        });
       }
-    });
+    }, options.signal);
   }
   
   /**
@@ -256,240 +567,281 @@ export class EposPrintService {
   /**
    * Print using ePOSPrint with builder pattern
    */
-  async printWithBuilder(buildFn: (builder: epson.ePOSBuilder) => void): Promise<PrintResult> {
-    // Ensure SDK is loaded first
-    const sdkLoaded = await this.ensureSDKLoaded();
-    if (!sdkLoaded) {
-      return {
-        success: false,
-        code: 'SDK_NOT_LOADED',
-        message: 'Failed to load Epson ePOS SDK',
-      };
+  async printWithBuilder(
+    buildFn: (builder: epson.ePOSBuilder) => void,
+    options: PrintOperationOptions = {}
+  ): Promise<PrintResult> {
+    const built = await this.buildXml(buildFn, options);
+    if ('result' in built) {
+      return built.result;
     }
+    return this.sendXml(built.xml, 'printWithBuilder', undefined, options);
+  }
 
-    return new Promise((resolve) => {
-      let resolved = false;
-      
-      const doResolve = (result: PrintResult) => {
-        if (!resolved) {
-          resolved = true;
-          resolve(result);
-        }
-      };
-
-      // Timeout in case printer doesn't respond
-      const timeoutId = setTimeout(() => {
-        error('printWithBuilder: timeout reached');
-        doResolve({
-          success: false,
-          code: 'TIMEOUT',
-          message: `Sin respuesta de la impresora después de ${this.config.timeout}ms. Verifica la IP y puerto.`,
-        });
-      }, this.config.timeout + 5000);
-
-      try {
-        const epson = getEpsonSDK();
-        const printerUrl = this.getPrinterUrl();
-        debug('printWithBuilder: Creating ePOSPrint with URL:', printerUrl);
-        
-        // Use separate ePOSBuilder to construct the message
-        const builder = new epson.ePOSBuilder();
-        builder.halftone = this.printOptions.halftone ?? 1;
-        builder.brightness = this.printOptions.brightness ?? 1.0;
-        
-        // Build commands using the builder
-        debug('printWithBuilder: Building commands...');
-        buildFn(builder);
-        
-        // Get the XML from builder
-        const xml = builder.toString();
-        debug('printWithBuilder: XML to send:', xml);
-        
-        // Create printer for sending
-        const printer = new epson.ePOSPrint(printerUrl);
-        printer.timeout = this.config.timeout;
-
-        // Set callbacks BEFORE sending
-        printer.onreceive = (res) => {
-          debug('ePOSPrint onreceive:', res);
-          clearTimeout(timeoutId);
-          doResolve({
-            success: res.success,
-            code: res.code,
-            status: res.status,
-            message: res.success ? 'Impresión exitosa' : `Error: ${res.code}`,
-            printjobid: res.printjobid,
-          });
-        };
-
-        printer.onerror = (err) => {
-          error('ePOSPrint onerror:', err);
-          clearTimeout(timeoutId);
-          doResolve({
-            success: false,
-            code: 'NETWORK_ERROR',
-            status: err?.status,
-            message: `Error de red: ${err?.responseText || 'Sin conexión'}`,
-          });
-        };
-
-        // Send XML to printer
-        debug('printWithBuilder: Calling printer.send(xml)');
-        printer.send(xml);
-      } catch (err) {
-        error('printWithBuilder error:', err);
-        clearTimeout(timeoutId);
-        doResolve({
-          success: false,
-          code: 'SDK_ERROR',
-          message: err instanceof Error ? err.message : 'Error desconocido',
-        });
-      }
-    });
+  /**
+   * Build the ePOS-Print XML for custom builder commands without sending it
+   */
+  async buildXml(
+    buildFn: (builder: epson.ePOSBuilder) => void,
+    options: PrintOperationOptions = {}
+  ): Promise<XmlBuildResult> {
+    return this.build('printWithBuilder', (builder) => {
+      debug('printWithBuilder: Building commands...');
+      buildFn(builder);
+    }, options.signal);
   }
 
   /**
    * Print multiple canvases (pages) with optional header/footer
+   *
+   * @example
+   * ```typescript
+   * // Print processed PDF pages exactly as previewed, without converting them again
+   * const pages = await processPdfFile(file, { enabled: true, dithering: 'floyd-steinberg' });
+   * await service.printPages(pages, { useRaster: true });
+   * ```
    */
   async printPages(
-    canvases: HTMLCanvasElement[],
-    options?: {
-      header?: string;
-      footer?: string;
-      pageSeparator?: boolean;
-    }
+    pages: PrintPage[],
+    options?: PrintPagesOptions
   ): Promise<PrintResult> {
-    // Ensure SDK is loaded first
-    const sdkLoaded = await this.ensureSDKLoaded();
-    if (!sdkLoaded) {
-      return {
-        success: false,
-        code: 'SDK_NOT_LOADED',
-        message: 'Failed to load Epson ePOS SDK',
-      };
+    const built = await this.buildPagesXml(pages, options);
+    if ('result' in built) {
+      return built.result;
     }
+    debug('printPages: sending to printer, pages:', pages.length);
+    return this.sendXml(built.xml, 'printPages', 10000, options); // Extra time for multiple pages
+  }
 
-    return new Promise((resolve) => {
-      let resolved = false;
-      
-      const doResolve = (result: PrintResult) => {
-        if (!resolved) {
-          resolved = true;
-          resolve(result);
-        }
-      };
+  /**
+   * Build the ePOS-Print XML for multiple pages without sending it
+   */
+  async buildPagesXml(
+    pages: PrintPage[],
+    options?: PrintPagesOptions
+  ): Promise<XmlBuildResult> {
+    return this.build('printPages', (builder) => {
+      this.addPagesCommands(builder, pages, options);
+    }, options?.signal);
+  }
 
-      // Timeout in case printer doesn't respond
-      const timeoutId = setTimeout(() => {
-        error('printPages: timeout reached');
-        doResolve({
-          success: false,
-          code: 'TIMEOUT',
-          message: `Sin respuesta de la impresora después de ${this.config.timeout}ms`,
-        });
-      }, this.config.timeout + 10000); // Extra time for multiple pages
+  /**
+   * Print pages as they become available, a few pages per request.
+   *
+   * The next pages are read from `pages` while the current chunk is sent, so
+   * an async source like `processPdfPages()` renders page N+1 while page N
+   * prints, and every request stays small enough for the printer timeout.
+   * The header is printed with the first chunk; the footer and the cut with
+   * the last one (in a request of their own when the source ends right after
+   * a full chunk and `totalPages` isn't known).
+   *
+   * A failed result tells the chunk that failed: pass it as `resumeFrom` to
+   * print the rest. The pages of the chunks before it are read from the
+   * source and dropped, unless `sourceFromStart: false` says the source
+   * already leaves them out (a PDF source renders every page it yields).
+   *
+   * @example
+   * ```typescript
+   * const pages = processPdfPages(file);
+   * let result = await service.printPageStream(pages, {
+   *   onProgress: ({ sentPages }) => console.log(`${sentPages} pages printed`),
+   * });
+   * if (result.failedChunk !== undefined) {
+   *   // e.g. after refilling the paper: render only the pages not printed yet
+   *   const rest = processPdfPages(file, undefined, { pages: `${result.sentPages + 1}-` });
+   *   result = await service.printPageStream(rest, { resumeFrom: result.failedChunk, sourceFromStart: false });
+   * }
+   * ```
+   */
+  async printPageStream(pages: PrintPageSource, options: StreamPrintOptions = {}): Promise<StreamPrintResult> {
+    const { resumeFrom = 0, sourceFromStart = true, onProgress, signal } = options;
+    const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? 1));
+    // Pages of the chunks printed before (all full chunks)
+    const leftOut = sourceFromStart ? 0 : resumeFrom * chunkSize;
+    const totalPages = options.totalPages ?? (Array.isArray(pages) ? leftOut + pages.length : undefined);
+    const progress: StreamPrintProgress = {
+      sentChunks: 0,
+      sentPages: 0,
+      totalPages,
+      totalChunks: totalPages === undefined ? undefined : Math.max(1, Math.ceil(totalPages / chunkSize)),
+    };
+    const iterator = Symbol.asyncIterator in pages
+      ? pages[Symbol.asyncIterator]()
+      : pages[Symbol.iterator]();
+
+    const readChunk = async (): Promise<PrintImage[][]> => {
+      const chunk: PrintImage[][] = [];
+      while (chunk.length < chunkSize) {
+        const next = await iterator.next();
+        if (next.done) break;
+        chunk.push(toPrintImages(next.value, options.useRaster));
+      }
+      return chunk;
+    };
+    /** Advance past a chunk already printed, returning its page count */
+    const skipChunk = async (): Promise<number> => {
+      let count = 0;
+      while (count < chunkSize) {
+        const next = await iterator.next();
+        if (next.done) break;
+        count++;
+      }
+      return count;
+    };
+    const failed = (result: PrintResult): StreamPrintResult => ({
+      ...result,
+      ...progress,
+      failedChunk: progress.sentChunks,
+    });
 
-      try {
-        const epson = getEpsonSDK();
-        
-        // Use separate ePOSBuilder to construct the message
-        const builder = new epson.ePOSBuilder();
-        builder.halftone = this.printOptions.halftone ?? 1;
-        builder.brightness = this.printOptions.brightness ?? 1.0;
-
-        // Add header if provided
-        if (options?.header) {
-          builder.addTextAlign('center');
-          builder.addTextStyle(false, false, true); // Bold
-          builder.addTextSize(2, 2);
-          builder.addText(options.header + '\n');
-          builder.addTextSize(1, 1);
-          builder.addTextStyle(false, false, false);
-          builder.addFeedLine(1);
+    let reading: Promise<PrintImage[][]> | null = null;
+    try {
+      if (!sourceFromStart) {
+        progress.sentChunks = resumeFrom;
+        progress.sentPages = leftOut;
+      }
+      while (progress.sentChunks < resumeFrom) {
+        const skipped = await skipChunk();
+        if (skipped === 0) break;
+        progress.sentChunks++;
+        progress.sentPages += skipped;
+      }
+
+      let chunk = await readChunk();
+      for (;;) {
+        if (signal?.aborted) {
+          return failed(this.getAbortedResult());
+        }
+        const first = progress.sentChunks === 0;
+        // A short chunk means the source has ended
+        const last = chunk.length < chunkSize
+          || (totalPages !== undefined && progress.sentPages + chunk.length >= totalPages);
+
+        // Read (render) the next pages while this chunk is sent
+        if (!last) {
+          reading = readChunk();
+          reading.catch(() => undefined);
         }
 
-        // Add each page
-        canvases.forEach((canvas, index) => {
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            builder.addTextAlign(this.printOptions.align ?? 'center');
-            builder.addImage(
-              ctx,
-              0, 0,
-              canvas.width,
-              canvas.height,
-              'color_1',
-              this.printOptions.mode ?? 'mono'
-            );
+        const built = await this.build('printPageStream', (builder) => {
+          if (first) {
+            this.addPagesHeader(builder, options);
           }
-
-          // Add separator between pages
-          if (options?.pageSeparator && index < canvases.length - 1) {
-            builder.addFeedLine(2);
-            builder.addTextAlign('center');
-            builder.addText('- - - - - - - - - -\n');
-            builder.addFeedLine(2);
+          chunk.forEach((page, index) => {
+            if (options.pageSeparator && progress.sentPages + index > 0) {
+              this.addPageSeparator(builder);
+            }
+            this.addPageCommands(builder, page);
+          });
+          if (last) {
+            this.addPagesEnd(builder, options);
           }
-        });
-
-        // Add footer if provided
-        if (options?.footer) {
-          builder.addFeedLine(1);
-          builder.addTextAlign('center');
-          builder.addText(options.footer + '\n');
+        }, signal);
+        if ('result' in built) {
+          return failed(built.result);
         }
 
-        // Final feed and cut
-        builder.addFeedLine(3);
-        if (this.printOptions.cut) {
-          builder.addCut('feed');
+        debug(`printPageStream: sending chunk ${progress.sentChunks}, pages:`, chunk.length);
+        const result = await this.sendXml(built.xml, 'printPageStream', 10000, { signal });
+        if (!result.success) {
+          return failed(result);
         }
+        progress.sentChunks++;
+        progress.sentPages += chunk.length;
+        onProgress?.({ ...progress });
 
-        // Get the XML from builder
-        const xml = builder.toString();
-        debug('printPages: XML to send (first 500 chars):', xml.substring(0, 500));
-
-        // Create printer for sending
-        const printer = new epson.ePOSPrint(this.getPrinterUrl());
-        printer.timeout = this.config.timeout;
-
-        // Set callbacks
-        printer.onreceive = (res) => {
-          debug('printPages onreceive:', res);
-          clearTimeout(timeoutId);
-          doResolve({
-            success: res.success,
-            code: res.code,
-            status: res.status,
-            message: res.success ? 'Impresión exitosa' : `Error: ${res.code}`,
-            printjobid: res.printjobid,
-          });
-        };
+        if (last) {
+          return { ...result, ...progress };
+        }
+        if (!reading) {
+          return { ...result, ...progress };
+        }
+        chunk = await reading;
+        reading = null;
+      }
+    } catch (err) {
+      // The page source failed (or was aborted)
+      if (signal?.aborted) {
+        return failed(this.getAbortedResult());
+      }
+      error('printPageStream: page source error:', err);
+      return failed(withPrintError({
+        success: false,
+        code: 'ERROR',
+        message: err instanceof Error ? err.message : this.t('print.unknownError'),
+      }));
+    } finally {
+      // Let the source release its resources (e.g. the PDF document) once
+      // the page being read is done
+      const release = () => iterator.return?.();
+      Promise.resolve(reading)
+        .catch(() => undefined)
+        .then(release)
+        .catch((err) => debug('printPageStream: failed to close the page source:', err));
+    }
+  }
 
-        printer.onerror = (err) => {
-          error('printPages onerror:', err);
-          clearTimeout(timeoutId);
-          doResolve({
-            success: false,
-            code: 'NETWORK_ERROR',
-            status: err?.status,
-            message: `Error de red: ${err?.responseText || 'Sin conexión'}`,
-          });
-        };
+  /**
+   * Print a declarative receipt document
+   * 
+   * @example
+   * ```typescript
+   * await service.printReceipt({
+   *   version: 1,
+   *   blocks: [
+   *     { type: 'text', text: 'MY STORE', align: 'center', bold: true, size: 2 },
+   *     { type: 'keyValue', key: 'Coffee x2', value: '4.50' },
+   *     { type: 'rule' },
+   *     { type: 'keyValue', key: 'TOTAL', value: '4.50', bold: true },
+   *     { type: 'cut' },
+   *   ],
+   * });
+   * ```
+   */
+  async printReceipt(doc: ReceiptDocument, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    const built = await this.buildReceiptXml(doc, options);
+    if ('result' in built) {
+      return built.result;
+    }
+    return this.sendXml(built.xml, 'printReceipt', undefined, options);
+  }
 
-        // Send XML to printer
-        debug('printPages: sending to printer, pages:', canvases.length);
-        printer.send(xml);
-      } catch (err) {
-        error('printPages error:', err);
-        clearTimeout(timeoutId);
-        doResolve({
+  /**
+   * Build the ePOS-Print XML for a receipt document without sending it
+   */
+  async buildReceiptXml(doc: ReceiptDocument, options: PrintOperationOptions = {}): Promise<XmlBuildResult> {
+    const { signal } = options;
+    let images: ReceiptImages | null;
+    try {
+      images = await raceAbort(loadReceiptImages(doc), signal, null);
+    } catch (err) {
+      error('printReceipt: failed to load images:', err);
+      return {
+        result: withPrintError({
           success: false,
-          code: 'SDK_ERROR',
-          message: err instanceof Error ? err.message : 'Error desconocido',
-        });
-      }
-    });
+          code: 'IMAGE_ERROR',
+          message: this.t('print.imageError'),
+        }),
+      };
+    }
+    if (!images) {
+      return { result: this.getAbortedResult() };
+    }
+    return this.build('printReceipt', (builder) => {
+      compileReceipt(doc, builder, images);
+    }, signal);
+  }
+
+  /**
+   * Send a previously built ePOS-Print XML request (e.g. from `buildXml()`).
+   * Useful to store print jobs and send them later.
+   */
+  async printXml(xml: string, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    const failure = await this.prepare(options.signal);
+    if (failure) {
+      return failure;
+    }
+    return this.sendXml(xml, 'printXml', undefined, options);
   }
 
   /**
@@ -510,95 +862,157 @@ export class EposPrintService {
    * }
    * ```
    */
-  async checkConnection(): Promise<PrintResult> {
+  async checkConnection(options: PrintOperationOptions = {}): Promise<PrintResult> {
     debug('checkConnection: starting...');
     
     // Ensure SDK is loaded first
-    const sdkLoaded = await this.ensureSDKLoaded();
-    if (!sdkLoaded) {
-      return {
+    const failure = await this.prepare(options.signal);
+    if (failure) {
+      return failure;
+    }
+
+    // Shorter timeout for connection check
+    const connectionTimeout = Math.min(this.config.timeout, 10000);
+
+    let xml: string;
+    try {
+      // Empty request: no print commands, just a valid request to get the status
+      xml = newBuilder().toString();
+    } catch (err) {
+      error('checkConnection error:', err);
+      return withPrintError({
         success: false,
-        code: 'SDK_NOT_LOADED',
-        message: 'Failed to load Epson ePOS SDK',
-      };
+        code: 'SDK_ERROR',
+        message: err instanceof Error ? err.message : this.t('print.unknownError'),
+      });
     }
 
-    return new Promise((resolve) => {
-      let resolved = false;
-      
-      const doResolve = (result: PrintResult) => {
-        if (!resolved) {
-          resolved = true;
-          resolve(result);
-        }
-      };
+    debug('checkConnection: Sending empty request to check status...');
+    const result = await this.transport.send({
+      xml,
+      label: 'checkConnection',
+      timeout: connectionTimeout,
+      extraTime: 0,
+      signal: options.signal,
+    });
+    return withPrintError(this.getConnectionResult(result));
+  }
 
-      // Shorter timeout for connection check
-      const connectionTimeout = Math.min(this.config.timeout, 10000);
-      
-      const timeoutId = setTimeout(() => {
-        error('checkConnection: timeout reached');
-        doResolve({
+  /**
+   * Turn the transport result of a connection check into a `PrintResult`
+   */
+  private getConnectionResult(result: TransportResult): PrintResult {
+    switch (result.type) {
+      case 'response':
+        // Even an empty request should get a response if printer is online
+        return {
+          success: result.success,
+          code: result.code,
+          status: result.status,
+          message: result.success
+            ? this.t('connection.ready')
+            : this.getStatusMessage(result.status),
+        };
+      case 'timeout':
+        return {
           success: false,
           code: 'TIMEOUT',
-          message: `La impresora no responde. Verifica la IP (${this.config.printerIP}) y que esté encendida.`,
-        });
-      }, connectionTimeout);
-
-      try {
-        const epson = getEpsonSDK();
-        const printerUrl = this.getPrinterUrl();
-        debug('checkConnection: Creating ePOSPrint with URL:', printerUrl);
-        
-        // Create an empty builder - just to get a valid XML request
-        const builder = new epson.ePOSBuilder();
-        // Don't add any print commands, just get the empty request
-        const xml = builder.toString();
-        
-        debug('checkConnection: Sending empty request to check status...');
-        
-        // Create printer for sending
-        const printer = new epson.ePOSPrint(printerUrl);
-        printer.timeout = connectionTimeout;
-
-        // Set callbacks BEFORE sending
-        printer.onreceive = (res) => {
-          debug('checkConnection onreceive:', res);
-          clearTimeout(timeoutId);
-          
-          // Even an empty request should get a response if printer is online
-          doResolve({
-            success: res.success,
-            code: res.code,
-            status: res.status,
-            message: res.success 
-              ? 'Impresora conectada y lista' 
-              : this.getStatusMessage(res.status),
-          });
+          message: isDirectTransport(this.config.transport)
+            ? this.t('connection.deviceNotResponding')
+            : this.t('connection.notResponding', { printerIP: this.config.printerIP }),
         };
-
-        printer.onerror = (err) => {
-          error('checkConnection onerror:', err);
-          clearTimeout(timeoutId);
-          doResolve({
-            success: false,
-            code: 'CONNECTION_ERROR',
-            status: err?.status,
-            message: `No se puede conectar a la impresora: ${err?.responseText || 'Sin respuesta'}`,
-          });
-        };
-
-        // Send empty request
-        printer.send(xml);
-      } catch (err) {
-        error('checkConnection error:', err);
-        clearTimeout(timeoutId);
-        doResolve({
+      case 'aborted':
+        return this.getAbortedResult();
+      default: {
+        const code = result.code === 'NETWORK_ERROR' ? 'CONNECTION_ERROR' : result.code;
+        return {
           success: false,
-          code: 'SDK_ERROR',
-          message: err instanceof Error ? err.message : 'Error desconocido',
-        });
+          code,
+          status: result.status,
+          message: this.getTransportErrorMessage(code, result.detail),
+        };
       }
+    }
+  }
+
+  /**
+   * Ask the printer how a job sent with `printjobid` ended.
+   *
+   * Succeeds once the job has printed. Otherwise the code tells why:
+   * `Printing` (still printing), `JobNotFound` (unknown to the printer, e.g.
+   * never received or dropped from its history), a printer error code, or a
+   * connection error if the printer can't be asked. USB and serial printers
+   * keep no job history: they answer `NOT_SUPPORTED`.
+   *
+   * @example
+   * ```typescript
+   * const printjobid = createPrintJobId();
+   * await service.printReceipt(doc, { printjobid });
+   * // Later, e.g. after a timeout or a page reload
+   * const status = await service.getPrintJobStatus(printjobid);
+   * if (status.success) console.log('Printed');
+   * ```
+   */
+  async getPrintJobStatus(printjobid: string, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    debug('getPrintJobStatus:', printjobid);
+    if (!isValidPrintJobId(printjobid)) {
+      return this.getInvalidJobIdResult(printjobid);
+    }
+    if (isDirectTransport(this.config.transport)) {
+      return withPrintError({
+        success: false,
+        code: 'NOT_SUPPORTED',
+        message: this.t('job.statusNotSupported'),
+        printjobid,
+      });
+    }
+
+    const failure = await this.prepare(options.signal);
+    if (failure) {
+      return failure;
+    }
+
+    let xml: string;
+    try {
+      // Empty request with the job ID: the printer answers with the result of that job
+      xml = newBuilder().toString();
+    } catch (err) {
+      error('getPrintJobStatus error:', err);
+      return withPrintError({
+        success: false,
+        code: 'SDK_ERROR',
+        message: err instanceof Error ? err.message : this.t('print.unknownError'),
+      });
+    }
+
+    const result = await this.transport.send({
+      xml,
+      label: 'getPrintJobStatus',
+      timeout: Math.min(this.config.timeout, 10000),
+      extraTime: 0,
+      printjobid,
+      signal: options.signal,
+    });
+    if (result.type !== 'response') {
+      return withPrintError(this.getConnectionResult(result));
+    }
+
+    let message: string;
+    if (result.success) {
+      message = this.t('job.printed');
+    } else if (result.code === 'Printing') {
+      message = this.t('job.printing');
+    } else if (result.code === 'JobNotFound') {
+      message = this.t('job.notFound', { printjobid });
+    } else {
+      message = this.t('print.failed', { code: result.code });
+    }
+    return withPrintError({
+      success: result.success,
+      code: result.code,
+      status: result.status,
+      message,
+      printjobid,
     });
   }
 
@@ -606,69 +1020,85 @@ export class EposPrintService {
    * Get human-readable message for printer status code
    */
   private getStatusMessage(status?: number): string {
-    if (!status) return 'Estado desconocido';
+    if (!status) return this.t('status.unknown');
     
     const messages: string[] = [];
     
     // Check common status flags
-    if (status & 8) messages.push('Impresora offline');
-    if (status & 32) messages.push('Tapa abierta');
-    if (status & 524288) messages.push('Sin papel');
-    if (status & 131072) messages.push('Papel por acabarse');
-    if (status & 1024) messages.push('Error mecánico');
-    if (status & 2048) messages.push('Error en cuchilla');
-    if (status & 8192) messages.push('Error no recuperable');
+    if (status & 8) messages.push(this.t('status.offline'));
+    if (status & 32) messages.push(this.t('status.coverOpen'));
+    if (status & 524288) messages.push(this.t('status.paperEnd'));
+    if (status & 131072) messages.push(this.t('status.paperNearEnd'));
+    if (status & 1024) messages.push(this.t('status.mechanicalError'));
+    if (status & 2048) messages.push(this.t('status.cutterError'));
+    if (status & 8192) messages.push(this.t('status.unrecoverableError'));
     
     return messages.length > 0 
       ? messages.join('. ') 
-      : 'Impresora lista';
+      : this.t('status.ready');
   }
 
   /**
    * Test printer connection by printing a small test receipt.
    * Use `checkConnection()` if you want to test without printing.
    */
-  testConnection(): Promise<PrintResult> {
+  testConnection(options: PrintOperationOptions = {}): Promise<PrintResult> {
     debug('testConnection: starting...');
     return this.printWithBuilder((builder) => {
       builder.addTextAlign('center');
-      builder.addText('Test de conexión\n');
+      builder.addText(this.t('testPage.connectionTest') + '\n');
       builder.addFeedLine(3);
       builder.addCut('feed');
-    });
+    }, options);
+  }
+
+  /**
+   * Add the commands of the test page to a builder
+   */
+  private addTestPageCommands(builder: epson.ePOSBuilder): void {
+    builder.addTextAlign('center');
+    builder.addTextStyle(false, false, true); // Bold
+    builder.addTextSize(2, 2);
+    builder.addText(this.t('testPage.title') + '\n');
+    builder.addTextSize(1, 1);
+    builder.addTextStyle(false, false, false);
+    builder.addFeedLine(1);
+    
+    builder.addText('================================\n');
+    builder.addTextAlign('left');
+    if (isDirectTransport(this.config.transport)) {
+      builder.addText(this.t('testPage.printer') + ': ' + this.config.transport.toUpperCase() + '\n');
+    } else {
+      builder.addText(this.t('testPage.printer') + ': ' + this.config.printerIP + '\n');
+      builder.addText(this.t('testPage.port') + ': ' + this.config.printerPort + '\n');
+      builder.addText(this.t('testPage.deviceId') + ': ' + this.config.deviceId + '\n');
+    }
+    builder.addText(this.t('testPage.halftone') + ': ' + this.printOptions.halftone + '\n');
+    builder.addText(this.t('testPage.brightness') + ': ' + this.printOptions.brightness + '\n');
+    builder.addText(this.t('testPage.mode') + ': ' + this.printOptions.mode + '\n');
+    builder.addText('================================\n');
+    
+    builder.addFeedLine(1);
+    builder.addTextAlign('center');
+    builder.addText(this.t('testPage.date') + ': ' + new Date().toLocaleString() + '\n');
+    
+    builder.addFeedLine(3);
+    builder.addCut('feed');
   }
 
   /**
    * Print a test page
    */
-  printTestPage(): Promise<PrintResult> {
+  printTestPage(options: PrintOperationOptions = {}): Promise<PrintResult> {
     debug('printTestPage: starting...');
-    return this.printWithBuilder((builder) => {
-      builder.addTextAlign('center');
-      builder.addTextStyle(false, false, true); // Bold
-      builder.addTextSize(2, 2);
-      builder.addText('PÁGINA DE PRUEBA\n');
-      builder.addTextSize(1, 1);
-      builder.addTextStyle(false, false, false);
-      builder.addFeedLine(1);
-      
-      builder.addText('================================\n');
-      builder.addTextAlign('left');
-      builder.addText('Impresora: ' + this.config.printerIP + '\n');
-      builder.addText('Puerto: ' + this.config.printerPort + '\n');
-      builder.addText('Device ID: ' + this.config.deviceId + '\n');
-      builder.addText('Halftone: ' + this.printOptions.halftone + '\n');
-      builder.addText('Brightness: ' + this.printOptions.brightness + '\n');
-      builder.addText('Mode: ' + this.printOptions.mode + '\n');
-      builder.addText('================================\n');
-      
-      builder.addFeedLine(1);
-      builder.addTextAlign('center');
-      builder.addText('Fecha: ' + new Date().toLocaleString() + '\n');
-      
-      builder.addFeedLine(3);
-      builder.addCut('feed');
-    });
+    return this.printWithBuilder((builder) => this.addTestPageCommands(builder), options);
+  }
+
+  /**
+   * Build the test page request without sending it (e.g. for a preview)
+   */
+  buildTestPageXml(options: PrintOperationOptions = {}): Promise<XmlBuildResult> {
+    return this.buildXml((builder) => this.addTestPageCommands(builder), options);
   }
 }
 
@@ -731,18 +1161,25 @@ export async function pdfToCanvases(
 
 /**
  * Convert image file to canvas
+ *
+ * @param maxWidth - Images wider than this are scaled down to it
+ * @param rotation - Clockwise rotation; 'auto' turns landscape images 90°
+ *   when scaling them down would print them noticeably smaller
  */
 export async function imageToCanvas(
   file: File,
-  maxWidth: number = 576
+  maxWidth: number = 576,
+  rotation: PageRotation = 'none'
 ): Promise<{ canvas: HTMLCanvasElement; width: number; height: number }> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => {
       const img = new Image();
       img.onload = () => {
-        let width = img.width;
-        let height = img.height;
+        const turn = resolveRotation(rotation === 'none' ? 0 : rotation, img.width, img.height, maxWidth);
+        const quarterTurn = turn === 90 || turn === 270;
+        let width = quarterTurn ? img.height : img.width;
+        let height = quarterTurn ? img.width : img.height;
         
         if (width > maxWidth) {
           const ratio = maxWidth / width;
@@ -757,7 +1194,7 @@ export async function imageToCanvas(
         const ctx = canvas.getContext('2d')!;
         ctx.fillStyle = 'white';
         ctx.fillRect(0, 0, width, height);
-        ctx.drawImage(img, 0, 0, width, height);
+        drawRotated(ctx, img, { x: 0, y: 0, width: img.width, height: img.height }, width, height, turn);
         
         resolve({ canvas, width, height });
       };
@@ -772,18 +1209,26 @@ export async function imageToCanvas(
 // Legacy exports for backward compatibility
 export class EposPrintBuilder {
   private builder: epson.ePOSBuilder;
+  private paperWidth: number;
+  // Current font and width multiplier, used to lay out tables
+  private font: TextFont = 'font_a';
+  private sizeWidth = 1;
 
-  constructor() {
-    if (!isEpsonSDKLoaded()) {
+  /**
+   * @param paperWidth - Printable width in dots (576 for 80mm, 384 for 58mm), used by `addTable()`
+   */
+  constructor(paperWidth: number = 576) {
+    if (!isEpsonSDKLoaded() && !isHeadlessEnvironment()) {
       throw new Error('Epson ePOS SDK not loaded');
     }
-    const epson = getEpsonSDK();
-    this.builder = new epson.ePOSBuilder();
+    this.builder = newBuilder();
+    this.paperWidth = paperWidth;
   }
 
   reset(): this {
-    const epson = getEpsonSDK();
-    this.builder = new epson.ePOSBuilder();
+    this.builder = newBuilder();
+    this.font = 'font_a';
+    this.sizeWidth = 1;
     return this;
   }
 
@@ -819,14 +1264,45 @@ export class EposPrintBuilder {
 
   addTextSize(width: number = 1, height: number = 1): this {
     this.builder.addTextSize(width, height);
+    this.sizeWidth = width;
     return this;
   }
 
-  addImage(canvas: HTMLCanvasElement, mode: 'mono' | 'gray16' = 'mono'): this {
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      this.builder.addImage(ctx, 0, 0, canvas.width, canvas.height, 'color_1', mode);
-    }
+  addTextFont(font: TextFont): this {
+    this.builder.addTextFont(font);
+    this.font = font;
+    return this;
+  }
+
+  /**
+   * Characters per line for the current font and text size
+   */
+  getCharsPerLine(): number {
+    return getCharsPerLine({ paperWidth: this.paperWidth, font: this.font, size: this.sizeWidth });
+  }
+
+  /**
+   * Add a table laid out for the current font and text size
+   */
+  addTable(rows: string[][], options: Omit<TableLayoutOptions, keyof TextMetricsOptions> = {}): this {
+    addTable(this.builder, rows, {
+      ...options,
+      paperWidth: this.paperWidth,
+      font: this.font,
+      size: this.sizeWidth,
+    });
+    return this;
+  }
+
+  /**
+   * Add a single row of columns (e.g. item and price)
+   */
+  addColumns(cells: string[], options: Omit<TableLayoutOptions, keyof TextMetricsOptions> = {}): this {
+    return this.addTable([cells], options);
+  }
+
+  addImage(canvas: PrintImage, mode: 'mono' | 'gray16' = 'mono'): this {
+    addImageToBuilder(this.builder, canvas, 'color_1', mode);
     return this;
   }
 
@@ -873,6 +1349,9 @@ export async function pdfToImages(
   }));
 }
 
+/**
+ * Convert image file to base64 PNG (without the data URL prefix), at most 576 dots wide
+ */
 export async function imageToBase64(file: File): Promise<{ base64: string; width: number; height: number }> {
   const { canvas, width, height } = await imageToCanvas(file);
   return {
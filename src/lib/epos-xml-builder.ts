@@ -0,0 +1,657 @@
+/**
+ * ePOS-Print XML builder without the Epson SDK
+ *
+ * Produces the same XML as `epson.ePOSBuilder` (epos-2.27.0.js), including its
+ * halftone and brightness image conversion, but needs no `window`, `document`
+ * or canvas: images are taken as RGBA pixels. Used by `EposPrintService` in
+ * Node.js and workers, where the SDK can't be loaded.
+ */
+
+import type { epson } from './epson-sdk';
+import type { RgbaImage } from './escpos-encoder';
+import { decodeBase64 } from './receipt-renderer';
+
+type Color = 'none' | 'color_1' | 'color_2' | 'color_3' | 'color_4';
+type LineStyle = 'thin' | 'medium' | 'thick' | 'thin_double' | 'medium_double' | 'thick_double';
+
+const FONT = /^(font_[a-e]|special_[ab])$/;
+const ALIGN = /^(left|center|right)$/;
+const COLOR = /^(none|color_[1-4])$/;
+const FEED = /^(peeling|cutting|current_tof|next_tof)$/;
+const MODE = /^(mono|gray16)$/;
+const BARCODE =
+  /^(upc_[ae]|[ej]an13|[ej]an8|code(39|93|128|128_auto)|itf|codabar|gs1_128|gs1_databar_(omnidirectional|truncated|limited|expanded))$/;
+const HRI = /^(none|above|below|both)$/;
+const SYMBOL =
+  /^(pdf417_(standard|truncated)|qrcode_(model_[12]|micro)|maxicode_mode_[2-6]|gs1_databar_(stacked(_omnidirectional)?|expanded_stacked)|azteccode_(fullrange|compact)|datamatrix_(square|rectangle_(8|12|16)))$/;
+const LEVEL = /^(level_[0-8lmqh]|default)$/;
+const LINE = /^(thin|medium|thick)(_double)?$/;
+const DIRECTION = /^(left_to_right|bottom_to_top|right_to_left|top_to_bottom)$/;
+const CUT = /^(no_feed|feed|reserve|no_feed_fullcut|feed_fullcut|reserve_fullcut)$/;
+const DRAWER = /^drawer_[12]$/;
+const PULSE = /^pulse_[1-5]00$/;
+const PATTERN = /^(none|pattern_(10|[0-9a-e])|error|paper_end)$/;
+const LAYOUT = /^(receipt|receipt_bm|label|label_bm)$/;
+
+/** 8x8 ordered dither thresholds (`HALFTONE_DITHER`) */
+const BAYER_8X8 = [
+  [2, 130, 34, 162, 10, 138, 42, 170],
+  [194, 66, 226, 98, 202, 74, 234, 106],
+  [50, 178, 18, 146, 58, 186, 26, 154],
+  [242, 114, 210, 82, 250, 122, 218, 90],
+  [14, 142, 46, 174, 6, 134, 38, 166],
+  [206, 78, 238, 110, 198, 70, 230, 102],
+  [62, 190, 30, 158, 54, 182, 22, 150],
+  [254, 126, 222, 94, 246, 118, 214, 86],
+];
+
+/** 4x4 ordered dither used between gray16 levels */
+const BAYER_4X4 = [
+  [0, 9, 2, 11],
+  [13, 4, 15, 6],
+  [3, 12, 1, 10],
+  [16, 7, 14, 5],
+];
+
+/** Brightness to printed density of thermal paper (gray16) */
+const THERMAL_CURVE = [
+  0, 7, 13, 19, 23, 27, 31, 35, 40, 44, 49, 52, 54, 55, 57, 59, 61, 62, 64, 66, 67, 69, 70, 70, 71, 72, 73, 74, 75, 76,
+  77, 78, 79, 80, 81, 82, 83, 83, 84, 85, 86, 86, 87, 88, 88, 89, 90, 90, 91, 91, 92, 93, 93, 94, 94, 95, 96, 96, 97, 98,
+  98, 99, 99, 100, 101, 101, 102, 102, 103, 103, 104, 104, 105, 105, 106, 106, 107, 107, 108, 108, 109, 109, 110, 110,
+  111, 111, 112, 112, 112, 113, 113, 114, 114, 115, 115, 116, 116, 117, 117, 118, 118, 119, 119, 120, 120, 120, 121, 121,
+  122, 122, 123, 123, 123, 124, 124, 125, 125, 125, 126, 126, 127, 127, 127, 128, 128, 129, 129, 130, 130, 130, 131, 131,
+  132, 132, 132, 133, 133, 134, 134, 135, 135, 135, 136, 136, 137, 137, 137, 138, 138, 139, 139, 139, 140, 140, 141, 141,
+  141, 142, 142, 143, 143, 143, 144, 144, 145, 145, 146, 146, 146, 147, 147, 148, 148, 148, 149, 149, 150, 150, 150, 151,
+  151, 152, 152, 152, 153, 153, 154, 154, 155, 155, 155, 156, 156, 157, 157, 158, 158, 159, 159, 160, 160, 161, 161, 161,
+  162, 162, 163, 163, 164, 164, 165, 165, 166, 166, 166, 167, 167, 168, 168, 169, 169, 170, 170, 171, 171, 172, 173, 173,
+  174, 175, 175, 176, 177, 178, 178, 179, 180, 180, 181, 182, 182, 183, 184, 184, 185, 186, 186, 187, 189, 191, 193, 195,
+  198, 200, 202, 255,
+];
+
+function enumAttr(name: string, value: unknown, regex: RegExp): string {
+  if (!regex.test(String(value))) {
+    throw new Error(`Parameter "${name}" is invalid`);
+  }
+  return ` ${name}="${value}"`;
+}
+
+function boolAttr(name: string, value: unknown): string {
+  return ` ${name}="${Boolean(value)}"`;
+}
+
+function intAttr(name: string, value: number, min: number, max: number): string {
+  if (Number.isNaN(Number(value)) || value < min || value > max) {
+    throw new Error(`Parameter "${name}" is invalid`);
+  }
+  return ` ${name}="${value}"`;
+}
+
+const ubyteAttr = (name: string, value: number) => intAttr(name, value, 0, 255);
+const ushortAttr = (name: string, value: number) => intAttr(name, value, 0, 65535);
+const shortAttr = (name: string, value: number) => intAttr(name, value, -32768, 32767);
+
+/** Symbol levels are either a level name or a number */
+function levelAttr(value: string | number): string {
+  if (!LEVEL.test(String(value))) {
+    return intAttr('level', Number(value), 0, 255);
+  }
+  return ` level="${value}"`;
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/[<>&'"\t\n\r]/g, (char) => {
+    switch (char) {
+      case '<':
+        return '&lt;';
+      case '>':
+        return '&gt;';
+      case '&':
+        return '&amp;';
+      case "'":
+        return '&apos;';
+      case '"':
+        return '&quot;';
+      case '\t':
+        return '&#9;';
+      case '\n':
+        return '&#10;';
+      default:
+        return '&#13;';
+    }
+  });
+}
+
+/** Barcode and symbol data: control and non-ASCII characters as `\xNN` */
+function escapeControl(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/[\\\x00-\x1f\x7f-\xff]/g, (char) =>
+    char === '\\' ? '\\\\' : '\\x' + char.charCodeAt(0).toString(16).padStart(2, '0')
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Gray level (0 = black, 255 = white) of a pixel blended with white paper, with gamma applied
+ */
+function getGray(data: RgbaImage['data'], offset: number, brightness: number): number {
+  const luminance = data[offset] * 0.29891 + data[offset + 1] * 0.58661 + data[offset + 2] * 0.11448;
+  const alpha = data[offset + 3];
+  return (Math.pow((luminance * alpha / 255 + 255 - alpha) / 255, 1 / brightness) * 255) | 0;
+}
+
+/**
+ * Convert RGBA pixels to the 1-bit raster of `<image mode="mono">`
+ *
+ * @param halftone - 0 = dither, 1 = error diffusion, 2 = threshold
+ * @param brightness - Gamma, 0.1 to 10
+ */
+export function toMonoRaster({ width, height, data }: RgbaImage, halftone: number, brightness: number): Uint8Array {
+  const rowBytes = (width + 7) >> 3;
+  const raster = new Uint8Array(rowBytes * height);
+  // Error carried to the next row
+  const errors = new Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    let errorRight = 0;
+    let errorBelowLeft = 0;
+    let byte = 0;
+    for (let x = 0; x < width; x++) {
+      const bit = x & 7;
+      const threshold = halftone === 0 ? BAYER_8X8[y & 7][bit] : 128;
+      let value = getGray(data, (y * width + x) * 4, brightness);
+      if (halftone === 1) {
+        value += (errors[x] + errorRight) >> 4;
+        const diff = value - (value < threshold ? 0 : 255);
+        if (x > 0) errors[x - 1] += diff;
+        errors[x] = diff * 7 + errorBelowLeft;
+        errorRight = diff * 5;
+        errorBelowLeft = diff * 3;
+      }
+      if (value < threshold) {
+        byte |= 0x80 >> bit;
+      }
+      if (bit === 7 || x === width - 1) {
+        // Same as the SDK: a 0x10 (DLE) byte is sent as 0x20
+        raster[y * rowBytes + (x >> 3)] = byte === 0x10 ? 0x20 : byte;
+        byte = 0;
+      }
+    }
+  }
+  return raster;
+}
+
+/**
+ * Convert RGBA pixels to the 4-bit raster of `<image mode="gray16">`
+ *
+ * @param brightness - Gamma, 0.1 to 10
+ */
+export function toGray16Raster({ width, height, data }: RgbaImage, brightness: number): Uint8Array {
+  const rowBytes = (width + 1) >> 1;
+  const raster = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const density = THERMAL_CURVE[getGray(data, (y * width + x) * 4, brightness)];
+      let level = (density / 17) | 0;
+      if (BAYER_4X4[y & 3][x & 3] < density % 17) {
+        level++;
+      }
+      raster[y * rowBytes + (x >> 1)] |= level << ((1 - (x & 1)) << 2);
+    }
+  }
+  return raster;
+}
+
+/**
+ * Pixels of a region of a canvas context or RGBA image
+ */
+function getRegion(
+  source: Pick<CanvasRenderingContext2D, 'getImageData'> | RgbaImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): RgbaImage {
+  if ('getImageData' in source) {
+    return source.getImageData(x, y, width, height);
+  }
+  if (x === 0 && y === 0 && width === source.width && height === source.height) {
+    return source;
+  }
+  // Pixels outside the source are transparent, as with getImageData()
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const sourceRow = y + row;
+    if (sourceRow < 0 || sourceRow >= source.height) continue;
+    const start = Math.max(0, x);
+    const end = Math.min(source.width, x + width);
+    if (start >= end) continue;
+    data.set(
+      source.data.subarray((sourceRow * source.width + start) * 4, (sourceRow * source.width + end) * 4),
+      (row * width + start - x) * 4
+    );
+  }
+  return { width, height, data };
+}
+
+/**
+ * `<image>` element of raster data converted beforehand, sent without
+ * halftone or brightness conversion. As with the SDK, a 0x10 (DLE) byte of a
+ * mono raster is sent as 0x20.
+ *
+ * @param raster - Raster bytes or their base64, rows padded to whole bytes
+ *   (mono: 1 bit per pixel, 1 = black; gray16: 4 bits per pixel, 15 = black)
+ */
+export function getRasterImageElement(
+  raster: Uint8Array | string,
+  width: number,
+  height: number,
+  color?: Color,
+  mode: 'mono' | 'gray16' = 'mono'
+): string {
+  let attrs = ushortAttr('width', width) + ushortAttr('height', height);
+  if (color !== undefined) attrs += enumAttr('color', color, COLOR);
+  attrs += enumAttr('mode', mode, MODE);
+
+  const rowBytes = mode === 'gray16' ? (width + 1) >> 1 : (width + 7) >> 3;
+  const bytes = typeof raster === 'string' ? decodeBase64(raster) : raster.slice();
+  if (bytes.length !== rowBytes * height) {
+    throw new Error(`Raster size is invalid: ${bytes.length} bytes for a ${width}x${height} ${mode} image`);
+  }
+  if (mode === 'mono') {
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] === 0x10) bytes[i] = 0x20;
+    }
+  }
+  return `<image${attrs}>${toBase64(bytes)}</image>`;
+}
+
+/**
+ * Drop-in replacement of `epson.ePOSBuilder` that runs anywhere.
+ * `addImage()` also accepts RGBA pixels (`ImageData` or `{ width, height, data }`).
+ *
+ * @example
+ * ```typescript
+ * const builder = new EposXmlBuilder();
+ * builder.addTextAlign('center');
+ * builder.addText('KITCHEN\n');
+ * builder.addImage(logo, 0, 0, logo.width, logo.height);
+ * builder.addCut('feed');
+ * const xml = builder.toString();
+ * ```
+ */
+export class EposXmlBuilder implements epson.ePOSBuilder {
+  message = '';
+  /** 0 = dither, 1 = error diffusion, 2 = threshold */
+  halftone = 0;
+  /** Gamma of images, 0.1 to 10 */
+  brightness = 1;
+  force = false;
+
+  readonly HALFTONE_DITHER = 0 as const;
+  readonly HALFTONE_ERROR_DIFFUSION = 1 as const;
+  readonly HALFTONE_THRESHOLD = 2 as const;
+  readonly MODE_MONO = 'mono' as const;
+  readonly MODE_GRAY16 = 'gray16' as const;
+  readonly ALIGN_LEFT = 'left' as const;
+  readonly ALIGN_CENTER = 'center' as const;
+  readonly ALIGN_RIGHT = 'right' as const;
+  readonly COLOR_NONE = 'none' as const;
+  readonly COLOR_1 = 'color_1' as const;
+  readonly COLOR_2 = 'color_2' as const;
+  readonly COLOR_3 = 'color_3' as const;
+  readonly COLOR_4 = 'color_4' as const;
+  readonly CUT_NO_FEED = 'no_feed' as const;
+  readonly CUT_FEED = 'feed' as const;
+  readonly CUT_RESERVE = 'reserve' as const;
+  readonly FONT_A = 'font_a' as const;
+  readonly FONT_B = 'font_b' as const;
+  readonly FONT_C = 'font_c' as const;
+  readonly FEED_PEELING = 'peeling' as const;
+  readonly FEED_CUTTING = 'cutting' as const;
+  readonly FEED_CURRENT_TOF = 'current_tof' as const;
+  readonly FEED_NEXT_TOF = 'next_tof' as const;
+  readonly BARCODE_UPC_A = 'upc_a' as const;
+  readonly BARCODE_UPC_E = 'upc_e' as const;
+  readonly BARCODE_EAN13 = 'ean13' as const;
+  readonly BARCODE_JAN13 = 'jan13' as const;
+  readonly BARCODE_EAN8 = 'ean8' as const;
+  readonly BARCODE_JAN8 = 'jan8' as const;
+  readonly BARCODE_CODE39 = 'code39' as const;
+  readonly BARCODE_ITF = 'itf' as const;
+  readonly BARCODE_CODABAR = 'codabar' as const;
+  readonly BARCODE_CODE93 = 'code93' as const;
+  readonly BARCODE_CODE128 = 'code128' as const;
+  readonly BARCODE_GS1_128 = 'gs1_128' as const;
+  readonly SYMBOL_QRCODE_MODEL_1 = 'qrcode_model_1' as const;
+  readonly SYMBOL_QRCODE_MODEL_2 = 'qrcode_model_2' as const;
+  readonly SYMBOL_QRCODE_MICRO = 'qrcode_micro' as const;
+  readonly SYMBOL_PDF417_STANDARD = 'pdf417_standard' as const;
+  readonly SYMBOL_PDF417_TRUNCATED = 'pdf417_truncated' as const;
+  readonly LEVEL_L = 'level_l' as const;
+  readonly LEVEL_M = 'level_m' as const;
+  readonly LEVEL_Q = 'level_q' as const;
+  readonly LEVEL_H = 'level_h' as const;
+  readonly LEVEL_DEFAULT = 'default' as const;
+  readonly HRI_NONE = 'none' as const;
+  readonly HRI_ABOVE = 'above' as const;
+  readonly HRI_BELOW = 'below' as const;
+  readonly HRI_BOTH = 'both' as const;
+
+  addText(text: string): this {
+    this.message += `<text>${escapeMarkup(text)}</text>`;
+    return this;
+  }
+
+  addTextLang(lang: string): this {
+    this.message += `<text lang="${lang}"/>`;
+    return this;
+  }
+
+  addTextAlign(align: 'left' | 'center' | 'right'): this {
+    this.message += `<text${enumAttr('align', align, ALIGN)}/>`;
+    return this;
+  }
+
+  addTextRotate(rotate: boolean): this {
+    this.message += `<text${boolAttr('rotate', rotate)}/>`;
+    return this;
+  }
+
+  addTextLineSpace(linespc: number): this {
+    this.message += `<text${ubyteAttr('linespc', linespc)}/>`;
+    return this;
+  }
+
+  addTextFont(font: 'font_a' | 'font_b' | 'font_c' | 'font_d' | 'font_e' | 'special_a' | 'special_b'): this {
+    this.message += `<text${enumAttr('font', font, FONT)}/>`;
+    return this;
+  }
+
+  addTextSmooth(smooth: boolean): this {
+    this.message += `<text${boolAttr('smooth', smooth)}/>`;
+    return this;
+  }
+
+  addTextDouble(dw?: boolean, dh?: boolean): this {
+    let attrs = '';
+    if (dw !== undefined) attrs += boolAttr('dw', dw);
+    if (dh !== undefined) attrs += boolAttr('dh', dh);
+    this.message += `<text${attrs}/>`;
+    return this;
+  }
+
+  addTextSize(width?: number, height?: number): this {
+    let attrs = '';
+    if (width !== undefined) attrs += intAttr('width', width, 1, 8);
+    if (height !== undefined) attrs += intAttr('height', height, 1, 8);
+    this.message += `<text${attrs}/>`;
+    return this;
+  }
+
+  addTextStyle(reverse?: boolean, ul?: boolean, em?: boolean, color?: Color): this {
+    let attrs = '';
+    if (reverse !== undefined) attrs += boolAttr('reverse', reverse);
+    if (ul !== undefined) attrs += boolAttr('ul', ul);
+    if (em !== undefined) attrs += boolAttr('em', em);
+    if (color !== undefined) attrs += enumAttr('color', color, COLOR);
+    this.message += `<text${attrs}/>`;
+    return this;
+  }
+
+  addTextPosition(x: number): this {
+    this.message += `<text${ushortAttr('x', x)}/>`;
+    return this;
+  }
+
+  addTextVPosition(y: number): this {
+    this.message += `<text${ushortAttr('y', y)}/>`;
+    return this;
+  }
+
+  addFeed(): this {
+    this.message += '<feed/>';
+    return this;
+  }
+
+  addFeedUnit(unit: number): this {
+    this.message += `<feed${ubyteAttr('unit', unit)}/>`;
+    return this;
+  }
+
+  addFeedLine(line: number): this {
+    this.message += `<feed${ubyteAttr('line', line)}/>`;
+    return this;
+  }
+
+  addFeedPosition(pos: 'peeling' | 'cutting' | 'current_tof' | 'next_tof'): this {
+    this.message += `<feed${enumAttr('pos', pos, FEED)}/>`;
+    return this;
+  }
+
+  /**
+   * Add an image converted with the builder's `halftone` and `brightness`
+   *
+   * @param source - Canvas 2D context, or RGBA pixels (`ImageData`, `{ width, height, data }`)
+   */
+  addImage(
+    source: Pick<CanvasRenderingContext2D, 'getImageData'> | RgbaImage,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color?: Color,
+    mode?: 'mono' | 'gray16'
+  ): this {
+    ushortAttr('x', x);
+    ushortAttr('y', y);
+    let attrs = ushortAttr('width', width) + ushortAttr('height', height);
+    if (color !== undefined) attrs += enumAttr('color', color, COLOR);
+    if (mode !== undefined) attrs += enumAttr('mode', mode, MODE);
+
+    const { halftone, brightness } = this;
+    if (Number.isNaN(Number(halftone)) || halftone < 0 || halftone > 2) {
+      throw new Error('Property "halftone" is invalid');
+    }
+    if (Number.isNaN(Number(brightness)) || brightness < 0.1 || brightness > 10) {
+      throw new Error('Property "brightness" is invalid');
+    }
+
+    const pixels = getRegion(source, x, y, width, height);
+    const raster = mode === 'gray16' ? toGray16Raster(pixels, brightness) : toMonoRaster(pixels, halftone, brightness);
+    this.message += `<image${attrs}>${toBase64(raster)}</image>`;
+    return this;
+  }
+
+  /**
+   * Add raster data converted beforehand (e.g. by `ditherImage()`), printed as is
+   */
+  addRaster(
+    raster: Uint8Array | string,
+    width: number,
+    height: number,
+    color?: Color,
+    mode?: 'mono' | 'gray16'
+  ): this {
+    this.message += getRasterImageElement(raster, width, height, color, mode);
+    return this;
+  }
+
+  addLogo(key1: number, key2: number): this {
+    this.message += `<logo${ubyteAttr('key1', key1)}${ubyteAttr('key2', key2)}/>`;
+    return this;
+  }
+
+  addBarcode(
+    data: string,
+    type: string,
+    hri?: 'none' | 'above' | 'below' | 'both',
+    font?: 'font_a' | 'font_b' | 'font_c',
+    width?: number,
+    height?: number
+  ): this {
+    let attrs = enumAttr('type', type, BARCODE);
+    if (hri !== undefined) attrs += enumAttr('hri', hri, HRI);
+    if (font !== undefined) attrs += enumAttr('font', font, FONT);
+    if (width !== undefined) attrs += ubyteAttr('width', width);
+    if (height !== undefined) attrs += ubyteAttr('height', height);
+    this.message += `<barcode${attrs}>${escapeControl(escapeMarkup(data))}</barcode>`;
+    return this;
+  }
+
+  addSymbol(data: string, type: string, level?: string, width?: number, height?: number, size?: number): this {
+    let attrs = enumAttr('type', type, SYMBOL);
+    if (level !== undefined) attrs += levelAttr(level);
+    if (width !== undefined) attrs += ubyteAttr('width', width);
+    if (height !== undefined) attrs += ubyteAttr('height', height);
+    if (size !== undefined) attrs += ushortAttr('size', size);
+    this.message += `<symbol${attrs}>${escapeControl(escapeMarkup(data))}</symbol>`;
+    return this;
+  }
+
+  /**
+   * Add raw bytes, one per character (char codes 0-255)
+   */
+  addCommand(data: string): this {
+    const hex = Array.from(data, (char) => (char.charCodeAt(0) & 0xff).toString(16).padStart(2, '0'));
+    this.message += `<command>${hex.join('')}</command>`;
+    return this;
+  }
+
+  addHLine(x1: number, x2: number, style?: LineStyle): this {
+    let attrs = ushortAttr('x1', x1) + ushortAttr('x2', x2);
+    if (style !== undefined) attrs += enumAttr('style', style, LINE);
+    this.message += `<hline${attrs}/>`;
+    return this;
+  }
+
+  addVLineBegin(x: number, style?: LineStyle): this {
+    let attrs = ushortAttr('x', x);
+    if (style !== undefined) attrs += enumAttr('style', style, LINE);
+    this.message += `<vline-begin${attrs}/>`;
+    return this;
+  }
+
+  addVLineEnd(x: number, style?: LineStyle): this {
+    let attrs = ushortAttr('x', x);
+    if (style !== undefined) attrs += enumAttr('style', style, LINE);
+    this.message += `<vline-end${attrs}/>`;
+    return this;
+  }
+
+  addPageBegin(): this {
+    this.message += '<page>';
+    return this;
+  }
+
+  addPageEnd(): this {
+    this.message += '</page>';
+    return this;
+  }
+
+  addPageArea(x: number, y: number, width: number, height: number): this {
+    this.message += `<area${ushortAttr('x', x)}${ushortAttr('y', y)}${ushortAttr('width', width)}${ushortAttr('height', height)}/>`;
+    return this;
+  }
+
+  addPageDirection(dir: 'left_to_right' | 'bottom_to_top' | 'right_to_left' | 'top_to_bottom'): this {
+    this.message += `<direction${enumAttr('dir', dir, DIRECTION)}/>`;
+    return this;
+  }
+
+  addPagePosition(x: number, y: number): this {
+    this.message += `<position${ushortAttr('x', x)}${ushortAttr('y', y)}/>`;
+    return this;
+  }
+
+  addPageLine(x1: number, y1: number, x2: number, y2: number, style?: string): this {
+    let attrs = ushortAttr('x1', x1) + ushortAttr('y1', y1) + ushortAttr('x2', x2) + ushortAttr('y2', y2);
+    if (style !== undefined) attrs += enumAttr('style', style, LINE);
+    this.message += `<line${attrs}/>`;
+    return this;
+  }
+
+  addPageRectangle(x1: number, y1: number, x2: number, y2: number, style?: string): this {
+    let attrs = ushortAttr('x1', x1) + ushortAttr('y1', y1) + ushortAttr('x2', x2) + ushortAttr('y2', y2);
+    if (style !== undefined) attrs += enumAttr('style', style, LINE);
+    this.message += `<rectangle${attrs}/>`;
+    return this;
+  }
+
+  addRotateBegin(): this {
+    this.message += '<rotate-begin/>';
+    return this;
+  }
+
+  addRotateEnd(): this {
+    this.message += '<rotate-end/>';
+    return this;
+  }
+
+  addCut(type?: 'no_feed' | 'feed' | 'reserve' | 'no_feed_fullcut' | 'feed_fullcut' | 'reserve_fullcut'): this {
+    this.message += `<cut${type !== undefined ? enumAttr('type', type, CUT) : ''}/>`;
+    return this;
+  }
+
+  addPulse(drawer?: 'drawer_1' | 'drawer_2', time?: 'pulse_100' | 'pulse_200' | 'pulse_300' | 'pulse_400' | 'pulse_500'): this {
+    let attrs = '';
+    if (drawer !== undefined) attrs += enumAttr('drawer', drawer, DRAWER);
+    if (time !== undefined) attrs += enumAttr('time', time, PULSE);
+    this.message += `<pulse${attrs}/>`;
+    return this;
+  }
+
+  addSound(pattern?: string, repeat?: number, cycle?: number): this {
+    let attrs = '';
+    if (pattern !== undefined) attrs += enumAttr('pattern', pattern, PATTERN);
+    if (repeat !== undefined) attrs += ubyteAttr('repeat', repeat);
+    if (cycle !== undefined) attrs += ushortAttr('cycle', cycle);
+    this.message += `<sound${attrs}/>`;
+    return this;
+  }
+
+  addLayout(
+    type: 'receipt' | 'receipt_bm' | 'label' | 'label_bm',
+    width?: number,
+    height?: number,
+    marginTop?: number,
+    marginBottom?: number,
+    offsetCut?: number,
+    offsetLabel?: number
+  ): this {
+    let attrs = enumAttr('type', type, LAYOUT);
+    if (width !== undefined) attrs += ushortAttr('width', width);
+    if (height !== undefined) attrs += ushortAttr('height', height);
+    if (marginTop !== undefined) attrs += shortAttr('margin-top', marginTop);
+    if (marginBottom !== undefined) attrs += shortAttr('margin-bottom', marginBottom);
+    if (offsetCut !== undefined) attrs += shortAttr('offset-cut', offsetCut);
+    if (offsetLabel !== undefined) attrs += shortAttr('offset-label', offsetLabel);
+    this.message += `<layout${attrs}/>`;
+    return this;
+  }
+
+  addRecovery(): this {
+    this.message += '<recovery/>';
+    return this;
+  }
+
+  addReset(): this {
+    this.message += '<reset/>';
+    return this;
+  }
+
+  /**
+   * The `<epos-print>` request
+   */
+  toString(): string {
+    const force = this.force ? boolAttr('force', true) : '';
+    return `<epos-print xmlns="http://www.epson-pos.com/schemas/2011/03/epos-print"${force}>${this.message}</epos-print>`;
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { debug, warn, error } from './logger';
+import { isEpsonSDKLoaded, isHeadlessEnvironment } from './sdk-environment';
 
 interface LoaderState {
   loading: boolean;
@@ -19,19 +20,8 @@ const state: LoaderState = {
   promise: null,
 };
 
-/**
- * Check if SDK is already available in window
- */
-export function isEpsonSDKLoaded(): boolean {
-  return (
-    typeof window !== 'undefined' &&
-    typeof window.epson !== 'undefined' &&
-    typeof window.epson.ePOSPrint !== 'undefined'
-  );
-}
-
-// Import SDK as raw text - Vite will inline this at build time
-import epsonSDKSource from '/public/epos-2.27.0.js?raw';
+// Re-exported for existing imports of the loader
+export { isEpsonSDKLoaded, isHeadlessEnvironment };
 
 /**
  * Cached blob URL for the SDK
@@ -41,8 +31,10 @@ let sdkBlobURL: string | null = null;
 /**
  * Get or create the SDK blob URL
  */
-function getSDKBlobURL(): string {
+async function getSDKBlobURL(): Promise<string> {
   if (!sdkBlobURL) {
+    // SDK source as raw text, in its own chunk: only browsers that load the SDK download it
+    const { default: epsonSDKSource } = await import('/public/epos-2.27.0.js?raw');
     const blob = new Blob([epsonSDKSource], { type: 'application/javascript' });
     sdkBlobURL = URL.createObjectURL(blob);
   }
@@ -143,7 +135,7 @@ export async function loadEpsonSDK(options?: {
       debug('Loading embedded Epson SDK...');
 
       // Get blob URL for the embedded SDK
-      const sdkUrl = getSDKBlobURL();
+      const sdkUrl = await getSDKBlobURL();
 
       // Load the script
       await loadScript(sdkUrl);
@@ -329,6 +329,10 @@ declare namespace epson {
     // Callbacks
     onconnect: ((connectData: { result: string }) => void) | null;
     ondisconnect: (() => void) | null;
+    /** The connection dropped and the SDK is trying to restore it */
+    onreconnecting: (() => void) | null;
+    /** The SDK restored a dropped connection */
+    onreconnect: (() => void) | null;
 
     constructor();
 
@@ -336,13 +340,13 @@ declare namespace epson {
      * Connect to an ePOS device server
      * @param address IP address or hostname
      * @param port Port number (default: 8008 for WebSocket, 8043 for secure WebSocket)
-     * @param callback Optional callback function
+     * @param callback Called with the result code ('OK', 'SSL_CONNECT_OK', 'ERROR_TIMEOUT', ...)
      * @param options Connection options
      */
     connect(
       address: string,
       port: number,
-      callback?: (data: { result: string }) => void,
+      callback?: (result: string) => void,
       options?: {
         eposprint?: boolean;
         useCrypto?: boolean;
@@ -403,8 +407,8 @@ declare namespace epson {
     onstatuschange: ((status: number) => void) | null;
     oneventhttpresponse: ((res: HttpResponse) => void) | null;
 
-    // Send print data
-    send(): void;
+    // Send print data (the builder message), optionally with a print job ID
+    send(printjobid?: string): void;
 
     // Get printer status
     status: number;
@@ -0,0 +1,475 @@
+/**
+ * ESC/POS command encoder
+ *
+ * Pure TypeScript alternative to `EposPrintBuilder` that produces raw ESC/POS
+ * bytes instead of ePOS-Print XML. It doesn't need the Epson SDK, so it works
+ * with older TM models and generic ESC/POS printers reached through other
+ * transports (USB, serial, raw TCP).
+ */
+
+import { getCharsPerLine, layoutTable } from './text-layout';
+import type { TableLayoutOptions, TextAlign, TextFont, TextMetricsOptions } from './text-layout';
+
+/** Character code tables for text */
+export type EscPosCodePage = 'cp437' | 'cp850' | 'cp858' | 'cp1252';
+
+export type EscPosBarcodeType =
+  | 'upc_a'
+  | 'upc_e'
+  | 'ean13'
+  | 'jan13'
+  | 'ean8'
+  | 'jan8'
+  | 'code39'
+  | 'itf'
+  | 'codabar'
+  | 'code93'
+  | 'code128'
+  | 'gs1_128';
+
+export interface EscPosEncoderOptions {
+  /** Printable width in dots (576 for 80mm, 384 for 58mm), used by `addTable()`. Default: 576 */
+  paperWidth?: number;
+  /** Code page used to encode text. Default: 'cp858' (Latin-1 characters and €) */
+  codePage?: EscPosCodePage;
+}
+
+/**
+ * RGBA pixels, e.g. `ImageData` or a decoded image buffer
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** 4 bytes per pixel, row by row */
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+/**
+ * Error thrown for commands that can't be encoded
+ */
+export class EscPosEncoderError extends Error {
+  constructor(message: string) {
+    super(`ESC/POS: ${message}`);
+    this.name = 'EscPosEncoderError';
+  }
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/** Upper half (0x80-0xFF) of each code page, and its `ESC t` number */
+const CODE_PAGES: Record<EscPosCodePage, { id: number; chars: string }> = {
+  cp437: {
+    id: 0,
+    chars:
+      'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+      '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+  },
+  cp850: {
+    id: 2,
+    chars:
+      'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+      '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0',
+  },
+  cp858: {
+    id: 19,
+    chars:
+      'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+      '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0',
+  },
+  cp1252: {
+    id: 16,
+    chars:
+      '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ' +
+      Array.from({ length: 0x60 }, (_, i) => String.fromCharCode(0xa0 + i)).join(''),
+  },
+};
+
+const ALIGNS: Record<TextAlign, number> = { left: 0, center: 1, right: 2 };
+
+const FONTS: Record<TextFont, number> = { font_a: 0, font_b: 1, font_c: 2 };
+
+/** `GS V` arguments for each cut type (partial cut unless `_fullcut`) */
+const CUTS = {
+  no_feed: [0x01],
+  feed: [0x42, 0x00],
+  reserve: [0x68, 0x00],
+  no_feed_fullcut: [0x00],
+  feed_fullcut: [0x41, 0x00],
+  reserve_fullcut: [0x67, 0x00],
+} as const;
+
+export type EscPosCutType = keyof typeof CUTS;
+
+/** `GS k` function B barcode systems */
+const BARCODE_TYPES: Record<EscPosBarcodeType, number> = {
+  upc_a: 65,
+  upc_e: 66,
+  ean13: 67,
+  jan13: 67,
+  ean8: 68,
+  jan8: 68,
+  code39: 69,
+  itf: 70,
+  codabar: 71,
+  code93: 72,
+  code128: 73,
+  gs1_128: 74,
+};
+
+const HRI_POSITIONS = { none: 0, above: 1, below: 2, both: 3 } as const;
+
+const QR_MODELS = { model_1: 49, model_2: 50, micro: 51 } as const;
+
+const QR_LEVELS = { level_l: 48, level_m: 49, level_q: 50, level_h: 51 } as const;
+
+const PULSE_TIMES = { pulse_100: 100, pulse_200: 200, pulse_300: 300, pulse_400: 400, pulse_500: 500 } as const;
+
+/** Rows sent per `GS v 0` command (older models reject taller images) */
+const RASTER_BAND_HEIGHT = 256;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * Encode text with a code page. Characters missing from it become '?'.
+ */
+export function encodeText(text: string, codePage: EscPosCodePage = 'cp858'): Uint8Array {
+  const { chars } = CODE_PAGES[codePage];
+  const characters = Array.from(text);
+  const bytes = new Uint8Array(characters.length);
+  characters.forEach((char, index) => {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes[index] = code;
+    } else {
+      const position = chars.indexOf(char);
+      bytes[index] = position === -1 ? 0x3f : 0x80 + position;
+    }
+  });
+  return bytes;
+}
+
+/**
+ * Pack RGBA pixels into 1-bit raster rows (MSB first, 1 = black).
+ * Transparent pixels are printed as white.
+ */
+export function packMonochrome(image: RgbaImage, threshold: number = 128): Uint8Array {
+  const { width, height, data } = image;
+  const bytesPerRow = Math.ceil(width / 8);
+  const raster = new Uint8Array(bytesPerRow * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+      // Blend with white paper
+      const alpha = data[offset + 3] / 255;
+      if (luminance * alpha + 255 * (1 - alpha) < threshold) {
+        raster[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return raster;
+}
+
+/**
+ * Builds ESC/POS commands with the same methods as `EposPrintBuilder`
+ *
+ * @example
+ * ```typescript
+ * const bytes = new EscPosEncoder({ paperWidth: 576 })
+ *   .addTextAlign('center')
+ *   .addTextSize(2, 2)
+ *   .addTextLine('MY SHOP')
+ *   .addTextSize(1, 1)
+ *   .addTextAlign('left')
+ *   .addColumns(['Coffee', '2.50'], { columns: [{}, { width: 8, align: 'right' }] })
+ *   .addQRCode('https://example.com')
+ *   .addCut()
+ *   .build(); // Uint8Array
+ * ```
+ */
+export class EscPosEncoder {
+  private chunks: number[] = [];
+  private paperWidth: number;
+  private codePage: EscPosCodePage;
+  // Current font and width multiplier, used to lay out tables
+  private font: TextFont = 'font_a';
+  private sizeWidth = 1;
+
+  constructor(options: EscPosEncoderOptions = {}) {
+    this.paperWidth = options.paperWidth ?? 576;
+    this.codePage = options.codePage ?? 'cp858';
+    this.initialize();
+  }
+
+  /** `ESC @` resets the printer, then `ESC t` selects the code page */
+  private initialize(): void {
+    this.push(ESC, 0x40, ESC, 0x74, CODE_PAGES[this.codePage].id);
+  }
+
+  private push(...bytes: number[]): void {
+    this.chunks.push(...bytes);
+  }
+
+  private pushBytes(bytes: Uint8Array): void {
+    for (const byte of bytes) {
+      this.chunks.push(byte);
+    }
+  }
+
+  /**
+   * Discard all commands and start again from the printer defaults
+   */
+  reset(): this {
+    this.chunks = [];
+    this.font = 'font_a';
+    this.sizeWidth = 1;
+    this.initialize();
+    return this;
+  }
+
+  addText(text: string): this {
+    // Printers expect LF only
+    this.pushBytes(encodeText(text.replace(/\r\n?/g, '\n'), this.codePage));
+    return this;
+  }
+
+  addTextLine(text: string): this {
+    return this.addText(text + '\n');
+  }
+
+  /** Line feed */
+  addFeed(): this {
+    this.push(0x0a);
+    return this;
+  }
+
+  /** `ESC d n` */
+  addFeedLine(lines: number = 1): this {
+    this.push(ESC, 0x64, clamp(lines, 0, 255));
+    return this;
+  }
+
+  /** `ESC J n`: feed in dots */
+  addFeedUnit(dots: number): this {
+    this.push(ESC, 0x4a, clamp(dots, 0, 255));
+    return this;
+  }
+
+  /** `ESC 3 n`: line spacing in dots */
+  addLineSpace(dots: number): this {
+    this.push(ESC, 0x33, clamp(dots, 0, 255));
+    return this;
+  }
+
+  /** `GS V`: 'feed' feeds to the cutter first, 'reserve' cuts once the next data reaches the cutter */
+  addCut(type: EscPosCutType = 'feed'): this {
+    this.push(GS, 0x56, ...CUTS[type]);
+    return this;
+  }
+
+  /** `ESC a n` */
+  addTextAlign(align: TextAlign): this {
+    this.push(ESC, 0x61, ALIGNS[align]);
+    return this;
+  }
+
+  /**
+   * `GS B` (reverse), `ESC -` (underline), `ESC E` (bold) and `ESC r` (color).
+   * Two-color printers only have a second color: 'color_2' to 'color_4' all select it.
+   */
+  addTextStyle(reverse = false, underline = false, bold = false, color: 'color_1' | 'color_2' | 'color_3' | 'color_4' = 'color_1'): this {
+    this.push(
+      GS, 0x42, reverse ? 1 : 0,
+      ESC, 0x2d, underline ? 1 : 0,
+      ESC, 0x45, bold ? 1 : 0,
+      ESC, 0x72, color === 'color_1' ? 0 : 1
+    );
+    return this;
+  }
+
+  /** `GS !` with width and height multipliers (1-8) */
+  addTextSize(width: number = 1, height: number = 1): this {
+    const w = clamp(width, 1, 8);
+    const h = clamp(height, 1, 8);
+    this.push(GS, 0x21, ((w - 1) << 4) | (h - 1));
+    this.sizeWidth = w;
+    return this;
+  }
+
+  /** `ESC M n` */
+  addTextFont(font: TextFont): this {
+    this.push(ESC, 0x4d, FONTS[font]);
+    this.font = font;
+    return this;
+  }
+
+  /** `ESC $`: horizontal position of the next character, in dots from the left margin */
+  addTextPosition(x: number): this {
+    const dots = clamp(x, 0, 65535);
+    this.push(ESC, 0x24, dots & 0xff, dots >> 8);
+    return this;
+  }
+
+  /** `ESC { n`: upside-down printing */
+  addTextRotate(rotate: boolean): this {
+    this.push(ESC, 0x7b, rotate ? 1 : 0);
+    return this;
+  }
+
+  /**
+   * Characters per line for the current font and text size
+   */
+  getCharsPerLine(): number {
+    return getCharsPerLine({ paperWidth: this.paperWidth, font: this.font, size: this.sizeWidth });
+  }
+
+  /**
+   * Add a table laid out for the current font and text size
+   */
+  addTable(rows: string[][], options: Omit<TableLayoutOptions, keyof TextMetricsOptions> = {}): this {
+    this.addTextAlign('left');
+    for (const line of layoutTable(rows, {
+      ...options,
+      paperWidth: this.paperWidth,
+      font: this.font,
+      size: this.sizeWidth,
+    })) {
+      this.addTextLine(line);
+    }
+    return this;
+  }
+
+  /**
+   * Add a single row of columns (e.g. item and price)
+   */
+  addColumns(cells: string[], options: Omit<TableLayoutOptions, keyof TextMetricsOptions> = {}): this {
+    return this.addTable([cells], options);
+  }
+
+  /**
+   * Add an image as `GS v 0` raster bands. Pixels darker than `threshold` (0-255) are printed.
+   * Aligned with `addTextAlign()` like text.
+   */
+  addImage(image: HTMLCanvasElement | RgbaImage, threshold: number = 128): this {
+    let pixels: RgbaImage;
+    if ('getContext' in image) {
+      const ctx = image.getContext('2d');
+      if (!ctx) return this;
+      pixels = ctx.getImageData(0, 0, image.width, image.height);
+    } else {
+      pixels = image;
+    }
+    return this.addRaster(packMonochrome(pixels, threshold), pixels.width, pixels.height);
+  }
+
+  /**
+   * Add 1-bit raster data (rows of `ceil(width / 8)` bytes, MSB first, 1 = black)
+   */
+  addRaster(raster: Uint8Array, width: number, height: number): this {
+    const bytesPerRow = Math.ceil(width / 8);
+    if (raster.length < bytesPerRow * height) {
+      throw new EscPosEncoderError(`raster data is ${raster.length} bytes, expected ${bytesPerRow * height}`);
+    }
+
+    for (let top = 0; top < height; top += RASTER_BAND_HEIGHT) {
+      const rows = Math.min(RASTER_BAND_HEIGHT, height - top);
+      this.push(GS, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, rows & 0xff, rows >> 8);
+      this.pushBytes(raster.subarray(top * bytesPerRow, (top + rows) * bytesPerRow));
+    }
+    return this;
+  }
+
+  /**
+   * Add a barcode (`GS k` function B). CODE128 data without a code set prefix uses code set B.
+   *
+   * @throws {EscPosEncoderError} If the barcode type is not supported or the data is too long
+   */
+  addBarcode(
+    data: string,
+    type: string = 'code128',
+    hri: 'none' | 'above' | 'below' | 'both' = 'below',
+    width: number = 2,
+    height: number = 100
+  ): this {
+    if (!Object.prototype.hasOwnProperty.call(BARCODE_TYPES, type)) {
+      throw new EscPosEncoderError(`unsupported barcode type "${type}"`);
+    }
+    const content = (type === 'code128' || type === 'gs1_128') && !data.startsWith('{') ? `{B${data}` : data;
+    const bytes = encodeText(content, this.codePage);
+    if (bytes.length > 255) {
+      throw new EscPosEncoderError(`barcode data is ${bytes.length} bytes, the maximum is 255`);
+    }
+
+    this.push(
+      GS, 0x68, clamp(height, 1, 255),
+      GS, 0x77, clamp(width, 2, 6),
+      GS, 0x48, HRI_POSITIONS[hri],
+      GS, 0x66, 0,
+      GS, 0x6b, BARCODE_TYPES[type as EscPosBarcodeType], bytes.length
+    );
+    this.pushBytes(bytes);
+    return this;
+  }
+
+  /**
+   * Add a QR code (`GS ( k`). Data is encoded as UTF-8.
+   *
+   * @throws {EscPosEncoderError} If the data is too long
+   */
+  addQRCode(
+    data: string,
+    type: 'model_1' | 'model_2' | 'micro' = 'model_2',
+    level: 'level_l' | 'level_m' | 'level_q' | 'level_h' = 'level_m',
+    width: number = 4
+  ): this {
+    const bytes = new TextEncoder().encode(data);
+    if (bytes.length > 7089) {
+      throw new EscPosEncoderError(`QR code data is ${bytes.length} bytes, the maximum is 7089`);
+    }
+    const storeLength = bytes.length + 3;
+
+    this.push(
+      // Model
+      GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, QR_MODELS[type], 0,
+      // Module size
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, clamp(width, 1, 16),
+      // Error correction level
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, QR_LEVELS[level],
+      // Store data
+      GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30
+    );
+    this.pushBytes(bytes);
+    // Print
+    this.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+    return this;
+  }
+
+  /**
+   * Open a cash drawer (`ESC p`)
+   */
+  addPulse(
+    drawer: 'drawer_1' | 'drawer_2' = 'drawer_1',
+    time: 'pulse_100' | 'pulse_200' | 'pulse_300' | 'pulse_400' | 'pulse_500' = 'pulse_100'
+  ): this {
+    // Pulse times are in 2ms units
+    const units = PULSE_TIMES[time] / 2;
+    this.push(ESC, 0x70, drawer === 'drawer_2' ? 1 : 0, units, units);
+    return this;
+  }
+
+  /**
+   * Add raw command bytes
+   */
+  addCommand(bytes: Uint8Array | number[]): this {
+    this.pushBytes(bytes instanceof Uint8Array ? bytes : Uint8Array.from(bytes));
+    return this;
+  }
+
+  build(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
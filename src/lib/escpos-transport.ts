@@ -0,0 +1,389 @@
+/**
+ * Base of the transports for directly attached ESC/POS printers (USB, serial)
+ *
+ * Requests are converted from ePOS-Print XML to ESC/POS, and the printer
+ * status is read with DLE EOT before and after each job and reported as an
+ * ASB bitmask, so results look the same as with the network transports.
+ */
+
+import { raceAbort } from './abort';
+import { debug, error } from './logger';
+import { eposXmlToEscPos } from './escpos-xml';
+import { ASB_STATUS } from './asb-status';
+import type { EscPosCodePage } from './escpos-encoder';
+import type { PrintTransport, TransportErrorCode, TransportRequest, TransportResult } from './transport';
+
+export type EscPosTransportState = 'disconnected' | 'connecting' | 'connected' | 'closed';
+
+export interface EscPosTransportOptions {
+  /** Code page of text. Default: 'cp858' */
+  codePage?: EscPosCodePage;
+  /** Time (ms) to wait for each DLE EOT status byte. Default: 1000 */
+  statusTimeout?: number;
+}
+
+/**
+ * DLE EOT answers: 1 = printer, 2 = offline cause, 3 = error cause, 4 = paper roll sensor
+ */
+export interface DleEotStatus {
+  printer: number;
+  offline: number;
+  error: number;
+  paper: number;
+}
+
+/** Connection failure, carried until it becomes a `TransportResult` */
+export class EscPosConnectionError extends Error {
+  readonly code: TransportErrorCode;
+
+  constructor(code: TransportErrorCode, detail: string) {
+    super(detail);
+    this.name = 'EscPosConnectionError';
+    this.code = code;
+  }
+}
+
+/** Status bits that stop the printer, most severe first, with the ePOS code they are reported with */
+const STATUS_CODES: [number, string][] = [
+  [ASB_STATUS.UNRECOVER_ERR, 'EPTR_UNRECOVERABLE'],
+  [ASB_STATUS.MECHANICAL_ERR, 'EPTR_MECHANICAL'],
+  [ASB_STATUS.AUTOCUTTER_ERR, 'EPTR_CUTTER'],
+  [ASB_STATUS.COVER_OPEN, 'EPTR_COVER_OPEN'],
+  [ASB_STATUS.RECEIPT_END, 'EPTR_REC_EMPTY'],
+  [ASB_STATUS.AUTORECOVER_ERR, 'EPTR_AUTOMATICAL'],
+  // Offline without a known cause: the code is left empty and the status tells
+  [ASB_STATUS.OFF_LINE, ''],
+];
+
+/**
+ * Convert DLE EOT status bytes to an ASB status bitmask
+ *
+ * @example
+ * ```typescript
+ * decodeDleEotStatus({ printer: 0x1e, offline: 0x16, error: 0x12, paper: 0x12 });
+ * // ASB_STATUS.OFF_LINE | ASB_STATUS.COVER_OPEN | ASB_STATUS.DRAWER_KICK
+ * ```
+ */
+export function decodeDleEotStatus({ printer, offline, error: errorByte, paper }: DleEotStatus): number {
+  let status = 0;
+  if (printer & 0x04) status |= ASB_STATUS.DRAWER_KICK;
+  if (printer & 0x08) status |= ASB_STATUS.OFF_LINE;
+  if (offline & 0x04) status |= ASB_STATUS.COVER_OPEN;
+  if (offline & 0x08) status |= ASB_STATUS.PAPER_FEED;
+  if (offline & 0x20) status |= ASB_STATUS.RECEIPT_END;
+  if (errorByte & 0x04) status |= ASB_STATUS.MECHANICAL_ERR;
+  if (errorByte & 0x08) status |= ASB_STATUS.AUTOCUTTER_ERR;
+  if (errorByte & 0x20) status |= ASB_STATUS.UNRECOVER_ERR;
+  if (errorByte & 0x40) status |= ASB_STATUS.AUTORECOVER_ERR;
+  if (paper & 0x0c) status |= ASB_STATUS.RECEIPT_NEAR_END;
+  if (paper & 0x60) status |= ASB_STATUS.RECEIPT_END;
+  return status >>> 0;
+}
+
+/**
+ * Result code for a status that stops printing, or null if the printer can print
+ */
+function getStatusCode(status: number): string | null {
+  return STATUS_CODES.find(([bit]) => (status & bit) !== 0)?.[1] ?? null;
+}
+
+/** Real-time status answers have the form 0xx1xx10b */
+function isStatusByte(byte: number): boolean {
+  return (byte & 0x93) === 0x12;
+}
+
+/**
+ * ESC/POS transport over a byte stream. Subclasses open the device and move bytes.
+ *
+ * When the printer doesn't answer status requests (some adapters can't read),
+ * jobs are still sent and the result has `ASB_STATUS.NO_RESPONSE` set.
+ */
+export abstract class EscPosTransport implements PrintTransport {
+  abstract readonly type: string;
+  protected options: Required<EscPosTransportOptions>;
+  private state: EscPosTransportState = 'disconnected';
+  private listeners = new Set<(state: EscPosTransportState) => void>();
+  private connecting: Promise<void> | null = null;
+  private sendChain: Promise<unknown> = Promise.resolve();
+  /** Write of the last job, still running after its timeout */
+  private unfinished: Promise<void> | null = null;
+  private received: number[] = [];
+  private reading: Promise<void> | null = null;
+
+  constructor(options: EscPosTransportOptions = {}) {
+    this.options = {
+      codePage: options.codePage ?? 'cp858',
+      statusTimeout: options.statusTimeout ?? 1000,
+    };
+  }
+
+  /** Open the device. Throws `EscPosConnectionError`. */
+  protected abstract openDevice(): Promise<void>;
+  /** Write bytes to the open device */
+  protected abstract write(data: Uint8Array): Promise<void>;
+  /** Read the next bytes sent by the device */
+  protected abstract read(): Promise<Uint8Array>;
+  /** Release the device */
+  protected abstract closeDevice(): Promise<void>;
+
+  /**
+   * Current connection state
+   */
+  getState(): EscPosTransportState {
+    return this.state;
+  }
+
+  /**
+   * Listen to connection state changes. Returns an unsubscribe function.
+   */
+  onStateChange(listener: (state: EscPosTransportState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected setState(state: EscPosTransportState): void {
+    if (this.state === state) return;
+    this.state = state;
+    debug(`${this.type} transport: state:`, state);
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  /**
+   * Open the device, or reuse the open one
+   */
+  connect(): Promise<void> {
+    if (this.state === 'closed') {
+      return Promise.reject(new EscPosConnectionError('CONNECTION_ERROR', 'Transport closed'));
+    }
+    if (this.state === 'connected') {
+      return Promise.resolve();
+    }
+    if (!this.connecting) {
+      this.setState('connecting');
+      this.connecting = this.openDevice()
+        .then(async () => {
+          if (this.getState() === 'closed') {
+            await this.closeDevice();
+            throw new EscPosConnectionError('CONNECTION_ERROR', 'Transport closed');
+          }
+          this.received = [];
+          this.setState('connected');
+        })
+        .catch((err) => {
+          if (this.getState() !== 'closed') {
+            this.setState('disconnected');
+          }
+          throw err;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Forget the open device after it was unplugged or failed; the next job opens it again
+   */
+  protected handleDisconnect(): void {
+    if (this.state === 'closed' || this.state === 'disconnected') return;
+    this.reading = null;
+    this.setState('disconnected');
+    this.closeDevice().catch(() => undefined);
+  }
+
+  /**
+   * Read bytes into the receive buffer, sharing a pending read
+   */
+  private pump(): Promise<void> {
+    if (!this.reading) {
+      this.reading = this.read()
+        .then((bytes) => {
+          this.received.push(...bytes);
+        })
+        .finally(() => {
+          this.reading = null;
+        });
+    }
+    return this.reading;
+  }
+
+  /**
+   * Send a DLE EOT request and wait for its answer. Null if the printer doesn't answer.
+   */
+  private async queryStatus(n: number): Promise<number | null> {
+    this.received = [];
+    await this.write(Uint8Array.of(0x10, 0x04, n));
+
+    const deadline = Date.now() + this.options.statusTimeout;
+    for (;;) {
+      const index = this.received.findIndex(isStatusByte);
+      if (index !== -1) {
+        const [byte] = this.received.splice(0, index + 1).slice(-1);
+        return byte;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return null;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const answered = await Promise.race([
+        this.pump().then(() => true),
+        new Promise<boolean>((resolve) => {
+          timeoutId = setTimeout(() => resolve(false), remaining);
+        }),
+      ]);
+      clearTimeout(timeoutId);
+      if (!answered) return null;
+    }
+  }
+
+  /**
+   * Read the printer status between jobs, opening the device if needed, as
+   * an ASB bitmask (`NO_RESPONSE` if the device can't be opened or doesn't answer)
+   */
+  readStatus(): Promise<number> {
+    // Status answers share the stream with jobs: wait for the job being sent
+    const status = this.sendChain.then(() => this.readStatusNow());
+    this.sendChain = status.catch(() => undefined);
+    return status;
+  }
+
+  private async readStatusNow(): Promise<number> {
+    try {
+      await this.connect();
+      return await this.queryAsbStatus();
+    } catch (err) {
+      if (!(err instanceof EscPosConnectionError)) {
+        error(`${this.type} transport: status read failed:`, err);
+        this.handleDisconnect();
+      }
+      return ASB_STATUS.NO_RESPONSE;
+    }
+  }
+
+  /**
+   * Query the status of the open device as an ASB bitmask (`NO_RESPONSE` if it doesn't answer)
+   */
+  private async queryAsbStatus(): Promise<number> {
+    const printer = await this.queryStatus(1);
+    if (printer === null) {
+      return ASB_STATUS.NO_RESPONSE;
+    }
+    const offline = (await this.queryStatus(2)) ?? 0;
+    const errorByte = (await this.queryStatus(3)) ?? 0;
+    const paper = (await this.queryStatus(4)) ?? 0;
+    return decodeDleEotStatus({ printer, offline, error: errorByte, paper });
+  }
+
+  send(request: TransportRequest): Promise<TransportResult> {
+    // Bytes of different jobs must not interleave: send jobs in order.
+    // A write in progress can't be interrupted, so an aborted job stops
+    // being waited for but still holds the device until its write ends.
+    // A job that timed out holds the device the same way, until its write ends.
+    const result = this.sendChain.then(() => this.sendNow(request));
+    this.sendChain = result.then(() => this.unfinished, () => undefined);
+    return raceAbort(result, request.signal, { type: 'aborted' });
+  }
+
+  private async sendNow({ xml, label, timeout, extraTime, printjobid, signal }: TransportRequest): Promise<TransportResult> {
+    this.unfinished = null;
+    if (signal?.aborted) {
+      // Aborted while queued: never sent
+      return { type: 'aborted' };
+    }
+
+    let data: Uint8Array;
+    try {
+      data = eposXmlToEscPos(xml, { codePage: this.options.codePage });
+    } catch (err) {
+      error(`${label}: ESC/POS conversion failed:`, err);
+      return { type: 'error', code: 'SDK_ERROR', detail: err instanceof Error ? err.message : undefined };
+    }
+
+    try {
+      await this.connect();
+    } catch (err) {
+      error(`${label}: ${this.type} connection failed:`, err);
+      return {
+        type: 'error',
+        code: err instanceof EscPosConnectionError ? err.code : 'CONNECTION_ERROR',
+        detail: err instanceof Error ? err.message : undefined,
+      };
+    }
+
+    const printing = this.printNow(data, label, printjobid, signal);
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const result = await Promise.race([
+        printing,
+        new Promise<TransportResult>((resolve) => {
+          timeoutId = setTimeout(() => {
+            error(`${label}: timeout reached`);
+            this.unfinished = printing.then(
+              () => undefined,
+              (err) => {
+                error(`${label}: ${this.type} I/O failed after the timeout:`, err);
+                this.handleDisconnect();
+              }
+            );
+            resolve({ type: 'timeout' });
+          }, timeout + extraTime);
+        }),
+      ]);
+      return result;
+    } catch (err) {
+      // Writes and reads fail when the device is unplugged or taken by another program
+      error(`${label}: ${this.type} I/O failed:`, err);
+      this.handleDisconnect();
+      return {
+        type: 'error',
+        code: 'CONNECTION_ERROR',
+        detail: err instanceof Error ? err.message : undefined,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async printNow(
+    data: Uint8Array,
+    label: string,
+    printjobid?: string,
+    signal?: AbortSignal
+  ): Promise<TransportResult> {
+    // Don't queue a job in a printer that can't print it: it would come out later, unexpectedly
+    const before = await this.queryAsbStatus();
+    const beforeCode = getStatusCode(before);
+    if (beforeCode !== null) {
+      return { type: 'response', success: false, code: beforeCode, status: before, printjobid };
+    }
+    if (data.length === 0) {
+      return { type: 'response', success: true, code: '', status: before, printjobid };
+    }
+    if (signal?.aborted) {
+      return { type: 'aborted' };
+    }
+
+    debug(`${label}: Sending ESC/POS over ${this.type}, length:`, data.length);
+    await this.write(data);
+
+    const after = await this.queryAsbStatus();
+    const afterCode = getStatusCode(after);
+    return afterCode !== null
+      ? { type: 'response', success: false, code: afterCode, status: after, printjobid }
+      : { type: 'response', success: true, code: '', status: after | ASB_STATUS.PRINT_SUCCESS, printjobid };
+  }
+
+  /**
+   * Release the device. The transport can't be used afterwards.
+   */
+  close(): void {
+    const wasOpen = this.state === 'connected';
+    this.setState('closed');
+    if (wasOpen) {
+      this.closeDevice().catch((err) => error(`${this.type} transport: close failed:`, err));
+    }
+  }
+}
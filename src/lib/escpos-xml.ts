@@ -0,0 +1,228 @@
+/**
+ * ePOS-Print XML to ESC/POS conversion
+ *
+ * Lets printers that only understand ESC/POS (USB and serial transports) print
+ * the same requests `EposPrintService` builds for ePOS-Print: the XML is
+ * replayed command by command on an `EscPosEncoder`.
+ */
+
+import { warn } from './logger';
+import { EscPosEncoder, EscPosEncoderError } from './escpos-encoder';
+import type { EscPosCutType, EscPosEncoderOptions } from './escpos-encoder';
+import {
+  decodeBase64,
+  getBoolean,
+  getFont,
+  getNumber,
+  parseCommands,
+  unescapeControl,
+} from './receipt-renderer';
+
+type TextColor = 'color_1' | 'color_2' | 'color_3' | 'color_4';
+
+const CUT_TYPES = ['no_feed', 'feed', 'reserve', 'no_feed_fullcut', 'feed_fullcut', 'reserve_fullcut'];
+const QR_TYPES = { qrcode_model_1: 'model_1', qrcode_model_2: 'model_2', qrcode_micro: 'micro' } as const;
+const QR_LEVELS = ['level_l', 'level_m', 'level_q', 'level_h'] as const;
+const PULSE_TIMES = ['pulse_100', 'pulse_200', 'pulse_300', 'pulse_400', 'pulse_500'] as const;
+
+/**
+ * Convert 4-bit gray levels (15 = white) to 1-bit raster rows
+ */
+function grayToMonochrome(bytes: Uint8Array, width: number, height: number): Uint8Array {
+  const grayRowBytes = Math.ceil(width / 2);
+  const monoRowBytes = Math.ceil(width / 8);
+  const raster = new Uint8Array(monoRowBytes * height);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const byte = bytes[row * grayRowBytes + (col >> 1)] ?? 0xff;
+      const level = col & 1 ? byte & 0x0f : byte >> 4;
+      if (level < 8) {
+        raster[row * monoRowBytes + (col >> 3)] |= 0x80 >> (col & 7);
+      }
+    }
+  }
+  return raster;
+}
+
+/**
+ * Convert an ePOS-Print request to ESC/POS bytes.
+ * Returns an empty array for requests without commands (e.g. status checks).
+ *
+ * Gray16 images are printed in black and white. Logos, sounds, ruled lines
+ * and page mode have no ESC/POS equivalent here and are skipped.
+ *
+ * @param xml - Request built with `ePOSBuilder.toString()`, or its body
+ * @throws {EposXmlParseError} If the XML is malformed
+ * @throws {EscPosEncoderError} If a barcode or 2D symbol type is not supported
+ */
+export function eposXmlToEscPos(xml: string, options: EscPosEncoderOptions = {}): Uint8Array {
+  const commands = parseCommands(xml);
+  if (commands.length === 0) {
+    return new Uint8Array(0);
+  }
+
+  const encoder = new EscPosEncoder(options);
+  const size = { width: 1, height: 1 };
+  const style = { reverse: false, ul: false, em: false, color: 'color_1' as TextColor };
+  // Raster images and barcodes are ignored while the print buffer holds text
+  let lineOpen = false;
+
+  const endLine = () => {
+    if (lineOpen) {
+      encoder.addFeed();
+      lineOpen = false;
+    }
+  };
+
+  const applyTextAttributes = (element: Element) => {
+    const font = element.getAttribute('font');
+    if (font) encoder.addTextFont(getFont(font));
+
+    const align = element.getAttribute('align');
+    if (align === 'left' || align === 'center' || align === 'right') {
+      encoder.addTextAlign(align);
+    }
+
+    const dw = getBoolean(element, 'dw');
+    const dh = getBoolean(element, 'dh');
+    const width = dw === undefined ? getNumber(element, 'width', size.width) : dw ? 2 : 1;
+    const height = dh === undefined ? getNumber(element, 'height', size.height) : dh ? 2 : 1;
+    if (width !== size.width || height !== size.height) {
+      size.width = width;
+      size.height = height;
+      encoder.addTextSize(width, height);
+    }
+
+    const reverse = getBoolean(element, 'reverse');
+    const ul = getBoolean(element, 'ul');
+    const em = getBoolean(element, 'em');
+    const color = element.getAttribute('color');
+    if (reverse !== undefined || ul !== undefined || em !== undefined || color !== null) {
+      style.reverse = reverse ?? style.reverse;
+      style.ul = ul ?? style.ul;
+      style.em = em ?? style.em;
+      if (color === 'color_1' || color === 'color_2' || color === 'color_3' || color === 'color_4') {
+        style.color = color;
+      }
+      encoder.addTextStyle(style.reverse, style.ul, style.em, style.color);
+    }
+
+    const linespc = element.getAttribute('linespc');
+    if (linespc !== null) encoder.addLineSpace(Number(linespc) || 0);
+
+    const rotate = getBoolean(element, 'rotate');
+    if (rotate !== undefined) encoder.addTextRotate(rotate);
+
+    const x = element.getAttribute('x');
+    if (x !== null) encoder.addTextPosition(Number(x) || 0);
+  };
+
+  const addText = (text: string) => {
+    encoder.addText(text);
+    lineOpen = !text.endsWith('\n');
+  };
+
+  const addImage = (element: Element) => {
+    const width = getNumber(element, 'width', 0);
+    const height = getNumber(element, 'height', 0);
+    if (width <= 0 || height <= 0) return;
+
+    const bytes = decodeBase64(element.textContent ?? '');
+    endLine();
+    encoder.addRaster(
+      element.getAttribute('mode') === 'gray16' ? grayToMonochrome(bytes, width, height) : bytes,
+      width,
+      height
+    );
+  };
+
+  const addBarcode = (element: Element) => {
+    const hri = element.getAttribute('hri');
+    endLine();
+    encoder.addBarcode(
+      unescapeControl(element.textContent ?? ''),
+      element.getAttribute('type') ?? 'code128',
+      hri === 'none' || hri === 'above' || hri === 'both' ? hri : 'below',
+      getNumber(element, 'width', 2),
+      getNumber(element, 'height', 100)
+    );
+  };
+
+  const addSymbol = (element: Element) => {
+    const type = element.getAttribute('type') ?? '';
+    if (!Object.prototype.hasOwnProperty.call(QR_TYPES, type)) {
+      throw new EscPosEncoderError(`unsupported 2D symbol type "${type}"`);
+    }
+    const level = QR_LEVELS.find((value) => value === element.getAttribute('level')) ?? 'level_m';
+    endLine();
+    encoder.addQRCode(
+      unescapeControl(element.textContent ?? ''),
+      QR_TYPES[type as keyof typeof QR_TYPES],
+      level,
+      getNumber(element, 'width', 3)
+    );
+  };
+
+  const addFeed = (element: Element) => {
+    const unit = element.getAttribute('unit');
+    const line = element.getAttribute('line');
+    if (unit !== null) {
+      endLine();
+      encoder.addFeedUnit(Number(unit) || 0);
+    } else if (line !== null) {
+      // Prints the buffer as the first line of the feed
+      encoder.addFeedLine(Number(line) || 0);
+      lineOpen = false;
+    } else if (element.getAttribute('pos') === null) {
+      encoder.addFeed();
+      lineOpen = false;
+    } else {
+      warn(`eposXmlToEscPos: <feed pos="${element.getAttribute('pos')}"> is not supported, skipping`);
+    }
+  };
+
+  const addCommand = (element: Element) => {
+    const data = unescapeControl(element.textContent ?? '');
+    encoder.addCommand(Array.from(data, (char) => char.charCodeAt(0) & 0xff));
+  };
+
+  for (const element of commands) {
+    switch (element.localName) {
+      case 'text':
+        applyTextAttributes(element);
+        if (element.textContent) addText(element.textContent);
+        break;
+      case 'image':
+        addImage(element);
+        break;
+      case 'barcode':
+        addBarcode(element);
+        break;
+      case 'symbol':
+        addSymbol(element);
+        break;
+      case 'feed':
+        addFeed(element);
+        break;
+      case 'cut': {
+        const type = element.getAttribute('type') ?? 'feed';
+        endLine();
+        encoder.addCut(CUT_TYPES.includes(type) ? (type as EscPosCutType) : 'feed');
+        break;
+      }
+      case 'pulse': {
+        const time = PULSE_TIMES.find((value) => value === element.getAttribute('time')) ?? 'pulse_100';
+        encoder.addPulse(element.getAttribute('drawer') === 'drawer_2' ? 'drawer_2' : 'drawer_1', time);
+        break;
+      }
+      case 'command':
+        addCommand(element);
+        break;
+      default:
+        warn(`eposXmlToEscPos: <${element.localName}> has no ESC/POS equivalent, skipping`);
+    }
+  }
+  endLine();
+
+  return encoder.build();
+}
@@ -0,0 +1,119 @@
+/**
+ * Fetch transport: one ePOS-Print request per job, sent with `fetch()`
+ *
+ * Same protocol as the HTTP transport, without the Epson SDK, so it works in
+ * Node.js (18+), workers and other environments without `window`.
+ */
+
+import { onAbort } from './abort';
+import { getEposPrintUrl } from './epos-print';
+import { debug, error } from './logger';
+import type { PrintTransport, TransportRequest, TransportResult } from './transport';
+import type { EpsonPrinterConfig } from '../types';
+
+const EPOS_PRINT_NS = 'http://www.epson-pos.com/schemas/2011/03/epos-print';
+
+/**
+ * Wrap an `<epos-print>` request in the SOAP envelope expected by `service.cgi`
+ */
+export function toSoapEnvelope(xml: string, printjobid?: string): string {
+  let soap = '<?xml version="1.0" encoding="utf-8"?><s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/">';
+  if (printjobid) {
+    soap += `<s:Header><parameter xmlns="${EPOS_PRINT_NS}"><printjobid>${printjobid}</printjobid></parameter></s:Header>`;
+  }
+  return soap + `<s:Body>${xml}</s:Body></s:Envelope>`;
+}
+
+/**
+ * Read the `<response>` of a SOAP answer, or null if there is none
+ */
+export function parseEposResponse(text: string): Extract<TransportResult, { type: 'response' }> | null {
+  const response = /<response\b([^>]*)>/.exec(text);
+  if (!response) {
+    return null;
+  }
+  const attrs = response[1];
+  const attr = (name: string) => new RegExp(`\\b${name}\\s*=\\s*"\\s*([^"]*?)\\s*"`).exec(attrs)?.[1];
+
+  const code = attr('code') ?? '';
+  return {
+    type: 'response',
+    success: /^(1|true)$/.test(attr('success') ?? ''),
+    // The SDK reports this code under a clearer name
+    code: code === 'EX_ENPC_TIMEOUT' ? 'ERROR_DEVICE_BUSY' : code,
+    status: parseInt(attr('status') ?? '0', 10) || 0,
+    battery: parseInt(attr('battery') ?? '0', 10) || 0,
+    printjobid: /<printjobid>\s*(\S*)\s*<\/printjobid>/.exec(text)?.[1] ?? '',
+  };
+}
+
+export class EposPrintFetchTransport implements PrintTransport {
+  readonly type = 'fetch';
+  private config: EpsonPrinterConfig;
+
+  constructor(config: EpsonPrinterConfig) {
+    this.config = config;
+  }
+
+  async send({ xml, label, timeout, extraTime, printjobid, signal }: TransportRequest): Promise<TransportResult> {
+    if (typeof fetch !== 'function') {
+      return { type: 'error', code: 'API_NOT_SUPPORTED', detail: 'fetch() is not available' };
+    }
+    if (signal?.aborted) {
+      return { type: 'aborted' };
+    }
+
+    const printerUrl = getEposPrintUrl(this.config);
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      error(`${label}: timeout reached`);
+      timedOut = true;
+      controller.abort();
+    }, timeout + extraTime);
+    const stopListening = onAbort(signal, () => controller.abort());
+
+    try {
+      debug(`${label}: POST to`, printerUrl, 'length:', xml.length);
+      const response = await fetch(printerUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/xml; charset=utf-8',
+          'If-Modified-Since': 'Thu, 01 Jan 1970 00:00:00 GMT',
+          SOAPAction: '""',
+        },
+        body: toSoapEnvelope(xml, printjobid),
+        signal: controller.signal,
+      });
+      const text = await response.text();
+      const result = response.ok ? parseEposResponse(text) : null;
+      if (!result) {
+        error(`${label}: unexpected answer`, response.status);
+        return { type: 'error', code: 'NETWORK_ERROR', status: response.status, detail: text };
+      }
+      debug(`${label} response:`, result);
+      return result;
+    } catch (err) {
+      if (timedOut) {
+        return { type: 'timeout' };
+      }
+      if (signal?.aborted) {
+        debug(`${label}: aborted`);
+        return { type: 'aborted' };
+      }
+      error(`${label} request failed:`, err);
+      return {
+        type: 'error',
+        code: 'NETWORK_ERROR',
+        detail: err instanceof Error ? err.message : undefined,
+      };
+    } finally {
+      clearTimeout(timeoutId);
+      stopListening();
+    }
+  }
+
+  close(): void {
+    // Nothing to release: every request opens its own connection
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * HTML processing for Epson thermal printers
+ *
+ * Rasterizes a DOM element or an HTML string with the browser itself: the
+ * element is cloned with its computed styles inlined, wrapped in an SVG
+ * `<foreignObject>` and drawn onto a canvas, which then goes through the same
+ * crop, trim, rotate, scale, dither and band stages as PDF pages.
+ *
+ * An SVG image can't load anything, so images, CSS backgrounds and the
+ * `@font-face` fonts the content uses are embedded as data URLs first.
+ *
+ * Safari and other WebKit browsers taint any canvas a `<foreignObject>` is
+ * drawn on, so its pixels can't be read: HTML can't be printed there.
+ */
+
+import { translate } from './i18n';
+import type { I18nOptions } from './i18n';
+import { warn } from './logger';
+import { runImageStages } from './image-pipeline';
+import { DEFAULT_PDF_CONFIG, getImageStages, getPageConfig, parsePageRange } from './pdf-processor';
+import type { PdfProcessingConfig, PdfProcessingOptions, ProcessedPage } from './pdf-processor';
+
+export interface HtmlProcessingOptions extends PdfProcessingOptions, I18nOptions {
+  /**
+   * Layout width in CSS pixels of HTML strings and of elements outside the
+   * document. Default: `targetWidth`, so one CSS pixel is one printer dot
+   */
+  width?: number;
+}
+
+/** Largest canvas every browser draws (Safari limits the area to 16M pixels) */
+const MAX_CANVAS_AREA = 16_777_216;
+const MAX_CANVAS_SIDE = 32_767;
+
+/** Elements left out of the clone: their effect is already in the computed styles */
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'LINK', 'META', 'NOSCRIPT', 'TEMPLATE', 'IFRAME']);
+
+const URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+
+/** Data URLs of the resources of one render, by absolute URL */
+type ResourceCache = Map<string, Promise<string | null>>;
+
+interface ClonedContent {
+  root: HTMLElement;
+  /** Rules for `::before` and `::after`, which computed styles on elements leave out */
+  pseudoCss: string[];
+  /** Font families used by the content, lowercase and unquoted */
+  fontFamilies: Set<string>;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Data URL of a resource, or null if it can't be fetched (e.g. cross-origin without CORS)
+ */
+function fetchAsDataUrl(url: string, cache: ResourceCache): Promise<string | null> {
+  let resource = cache.get(url);
+  if (!resource) {
+    resource = fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.blob();
+      })
+      .then(blobToDataUrl)
+      .catch((err) => {
+        warn(`Could not embed ${url} in the HTML render:`, err);
+        return null;
+      });
+    cache.set(url, resource);
+  }
+  return resource;
+}
+
+/**
+ * Replace the `url()` references of CSS text with data URLs
+ */
+async function embedCssUrls(css: string, baseUrl: string, cache: ResourceCache): Promise<string> {
+  const urls = new Set<string>();
+  for (const [, , url] of css.matchAll(URL_PATTERN)) {
+    if (!url.startsWith('data:')) {
+      urls.add(url);
+    }
+  }
+  if (urls.size === 0) {
+    return css;
+  }
+
+  const embedded = new Map<string, string>();
+  await Promise.all([...urls].map(async (url) => {
+    const dataUrl = await fetchAsDataUrl(new URL(url, baseUrl).href, cache);
+    if (dataUrl) {
+      embedded.set(url, dataUrl);
+    }
+  }));
+  return css.replace(URL_PATTERN, (match, _quote: string, url: string) =>
+    embedded.has(url) ? `url("${embedded.get(url)}")` : match
+  );
+}
+
+function parseFontFamilies(value: string): string[] {
+  return value.split(',').map((family) => family.trim().replace(/^['"]|['"]$/g, '').toLowerCase());
+}
+
+function copyComputedStyle(source: CSSStyleDeclaration, target: CSSStyleDeclaration): void {
+  for (let i = 0; i < source.length; i++) {
+    const name = source[i];
+    target.setProperty(name, source.getPropertyValue(name), source.getPropertyPriority(name));
+  }
+}
+
+function getPseudoRule(element: Element, pseudo: '::before' | '::after', selector: string): string | null {
+  const style = getComputedStyle(element, pseudo);
+  if (style.content === 'none' || style.content === 'normal') {
+    return null;
+  }
+  const declarations: string[] = [];
+  for (let i = 0; i < style.length; i++) {
+    const name = style[i];
+    declarations.push(`${name}: ${style.getPropertyValue(name)};`);
+  }
+  return `${selector}${pseudo} { ${declarations.join(' ')} }`;
+}
+
+/**
+ * Clone an element and its subtree with computed styles inlined, and with
+ * canvases, form values and pseudo-elements kept
+ */
+function cloneWithStyles(element: HTMLElement): ClonedContent {
+  const pseudoCss: string[] = [];
+  const fontFamilies = new Set<string>();
+  let nextPseudoId = 0;
+
+  const cloneNode = (node: Node): Node | null => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return node.cloneNode();
+    }
+    if (!(node instanceof Element) || SKIPPED_TAGS.has(node.tagName)) {
+      return null;
+    }
+
+    const style = getComputedStyle(node);
+    if (style.display === 'none') {
+      return null;
+    }
+
+    let clone: Element;
+    if (node instanceof HTMLCanvasElement) {
+      // Canvases are copied as their current image
+      const image = document.createElement('img');
+      try {
+        image.src = node.toDataURL();
+      } catch (err) {
+        warn('Could not copy a canvas into the HTML render:', err);
+      }
+      clone = image;
+    } else {
+      clone = node.cloneNode(false) as Element;
+    }
+
+    if (clone instanceof HTMLElement || clone instanceof SVGElement) {
+      copyComputedStyle(style, clone.style);
+    }
+    parseFontFamilies(style.fontFamily).forEach((family) => fontFamilies.add(family));
+
+    // Current form values, which attributes don't hold
+    if (node instanceof HTMLInputElement) {
+      clone.setAttribute('value', node.value);
+      clone.toggleAttribute('checked', node.checked);
+    } else if (node instanceof HTMLTextAreaElement) {
+      clone.textContent = node.value;
+    }
+
+    const pseudoRules = (['::before', '::after'] as const)
+      .map((pseudo) => getPseudoRule(node, pseudo, `[data-epson-pseudo="${nextPseudoId}"]`))
+      .filter((rule): rule is string => rule !== null);
+    if (pseudoRules.length > 0) {
+      clone.setAttribute('data-epson-pseudo', String(nextPseudoId++));
+      pseudoCss.push(...pseudoRules);
+    }
+
+    if (!(node instanceof HTMLCanvasElement) && !(node instanceof HTMLTextAreaElement)) {
+      node.childNodes.forEach((child) => {
+        const clonedChild = cloneNode(child);
+        if (clonedChild) {
+          clone.appendChild(clonedChild);
+        }
+      });
+    }
+    if (node instanceof HTMLSelectElement) {
+      clone.querySelectorAll('option').forEach((option, index) => {
+        option.toggleAttribute('selected', index === node.selectedIndex);
+      });
+    }
+    return clone;
+  };
+
+  const root = cloneNode(element) as HTMLElement | null;
+  if (!root) {
+    throw new Error('Elements with `display: none` are not rendered');
+  }
+  // The clone is drawn at the origin of the SVG, whatever the element's place on the page
+  root.style.setProperty('position', 'relative');
+  root.style.setProperty('inset', 'auto');
+  root.style.setProperty('margin', '0');
+  root.style.setProperty('transform', 'none');
+  return { root, pseudoCss, fontFamilies };
+}
+
+/**
+ * Embed images and CSS `url()` references (backgrounds, masks) of the clone
+ */
+async function embedResources(root: HTMLElement, cache: ResourceCache): Promise<void> {
+  const baseUrl = document.baseURI;
+  const tasks: Promise<void>[] = [];
+
+  root.querySelectorAll('img').forEach((image) => {
+    image.removeAttribute('srcset');
+    image.removeAttribute('loading');
+    const src = image.getAttribute('src');
+    if (src && !src.startsWith('data:')) {
+      tasks.push(fetchAsDataUrl(new URL(src, baseUrl).href, cache).then((dataUrl) => {
+        if (dataUrl) {
+          image.setAttribute('src', dataUrl);
+        }
+      }));
+    }
+  });
+
+  [root, ...root.querySelectorAll<HTMLElement>('[style]')].forEach((element) => {
+    const css = element.getAttribute('style');
+    if (css?.includes('url(')) {
+      tasks.push(embedCssUrls(css, baseUrl, cache).then((embedded) => element.setAttribute('style', embedded)));
+    }
+  });
+
+  await Promise.all(tasks);
+}
+
+function collectFontFaceRules(rules: CSSRuleList, baseUrl: string, found: { rule: CSSFontFaceRule; baseUrl: string }[]): void {
+  for (const rule of rules) {
+    if (rule instanceof CSSFontFaceRule) {
+      found.push({ rule, baseUrl });
+    } else if (rule instanceof CSSImportRule && rule.styleSheet) {
+      collectFontFaceSheet(rule.styleSheet, found);
+    } else if (rule instanceof CSSGroupingRule) {
+      collectFontFaceRules(rule.cssRules, baseUrl, found);
+    }
+  }
+}
+
+function collectFontFaceSheet(sheet: CSSStyleSheet, found: { rule: CSSFontFaceRule; baseUrl: string }[]): void {
+  try {
+    collectFontFaceRules(sheet.cssRules, sheet.href ?? document.baseURI, found);
+  } catch {
+    // Cross-origin stylesheets without CORS can't be read
+    warn(`Fonts of ${sheet.href} can't be embedded in the HTML render: the stylesheet is cross-origin`);
+  }
+}
+
+/**
+ * `@font-face` rules of the page for the font families the content uses,
+ * with their font files embedded
+ */
+async function getFontCss(fontFamilies: Set<string>, cache: ResourceCache): Promise<string> {
+  const found: { rule: CSSFontFaceRule; baseUrl: string }[] = [];
+  for (const sheet of document.styleSheets) {
+    collectFontFaceSheet(sheet, found);
+  }
+
+  const used = found.filter(({ rule }) =>
+    parseFontFamilies(rule.style.getPropertyValue('font-family')).some((family) => fontFamilies.has(family))
+  );
+  const rules = await Promise.all(used.map(({ rule, baseUrl }) => embedCssUrls(rule.cssText, baseUrl, cache)));
+  return rules.join('\n');
+}
+
+function loadSvgImage(svg: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The HTML could not be rendered'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+/**
+ * Lay out an HTML string (or a detached element) off screen at `width` CSS
+ * pixels, so the page's stylesheets and fonts apply to it
+ */
+function mountOffscreen(content: string | Node, width: number): HTMLElement {
+  const container = document.createElement('div');
+  container.setAttribute('aria-hidden', 'true');
+  container.style.cssText = `position: fixed; left: -100000px; top: 0; width: ${width}px; background: white; pointer-events: none;`;
+  if (typeof content === 'string') {
+    container.innerHTML = content;
+  } else {
+    container.appendChild(content);
+  }
+  document.body.appendChild(container);
+  return container;
+}
+
+/**
+ * Wait for the images of an element, so its layout is final
+ */
+async function waitForImages(element: HTMLElement): Promise<void> {
+  await Promise.all([...element.querySelectorAll('img')].map((image) =>
+    image.complete ? undefined : image.decode().catch(() => undefined)
+  ));
+}
+
+/**
+ * Render an element onto a white canvas at up to `scale` times its CSS size
+ */
+async function renderElement(
+  element: HTMLElement,
+  scale: number,
+  signal?: AbortSignal,
+  i18n?: I18nOptions
+): Promise<{ canvas: HTMLCanvasElement; renderScale: number }> {
+  await document.fonts.ready;
+  await waitForImages(element);
+  signal?.throwIfAborted();
+
+  const rect = element.getBoundingClientRect();
+  const width = Math.max(1, Math.ceil(rect.width));
+  const height = Math.max(1, Math.ceil(rect.height));
+  const renderScale = Math.min(
+    scale,
+    Math.sqrt(MAX_CANVAS_AREA / (width * height)),
+    MAX_CANVAS_SIDE / Math.max(width, height)
+  );
+
+  const cache: ResourceCache = new Map();
+  const { root, pseudoCss, fontFamilies } = cloneWithStyles(element);
+  const [fontCss] = await Promise.all([getFontCss(fontFamilies, cache), embedResources(root, cache)]);
+  signal?.throwIfAborted();
+
+  const style = document.createElement('style');
+  style.textContent = [fontCss, ...pseudoCss].join('\n');
+  root.insertBefore(style, root.firstChild);
+
+  const canvasWidth = Math.max(1, Math.round(width * renderScale));
+  const canvasHeight = Math.max(1, Math.round(height * renderScale));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${canvasWidth}" height="${canvasHeight}" viewBox="0 0 ${width} ${height}">`
+    + `<foreignObject x="0" y="0" width="100%" height="100%">${new XMLSerializer().serializeToString(root)}</foreignObject>`
+    + '</svg>';
+  const image = await loadSvgImage(svg);
+  signal?.throwIfAborted();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvasWidth;
+  canvas.height = canvasHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  ctx.drawImage(image, 0, 0, canvasWidth, canvasHeight);
+  try {
+    // WebKit taints the canvas: reading it (in the image stages) would throw
+    ctx.getImageData(0, 0, 1, 1);
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'SecurityError') {
+      throw new Error(translate('print.htmlCanvasTainted', undefined, i18n));
+    }
+    throw err;
+  }
+  return { canvas, renderScale };
+}
+
+/**
+ * Process a DOM element or an HTML string like a one-page PDF: render it,
+ * then crop, trim, rotate, scale to the paper width, dither and split it into bands.
+ *
+ * Elements in the document are rendered at their current size and look;
+ * HTML strings and detached elements are laid out off screen at
+ * `options.width` CSS pixels, with the page's stylesheets. Fonts loaded by
+ * the page's `@font-face` rules are embedded, as are images, which must be
+ * same-origin or served with CORS. `scale` is the render resolution per CSS
+ * pixel and `crop` is in CSS pixels. Page 1 of `options.pages` and
+ * `options.pageOverrides` is the content.
+ *
+ * HTML strings are trusted: they are parsed into the document like `innerHTML`.
+ * Safari and other WebKit browsers don't let the rendered content be read,
+ * so there it always throws.
+ *
+ * @param source - Element to print, or HTML markup
+ * @param config - Processing configuration
+ * @param options - Layout width, abort signal, progress callback and page settings
+ * @returns The rendered content as a single page (none if `options.pages` leaves out page 1)
+ * @throws {Error} If the browser can't render the content, or can't read it back (WebKit)
+ * @throws {PageRangeError} If `options.pages` can't be read
+ * @throws {DOMException} `AbortError` if `options.signal` aborts
+ *
+ * @example
+ * ```typescript
+ * const pages = await processHtml(document.querySelector('#receipt')!, { enabled: true, targetWidth: 576 });
+ * await service.printPages(pages, { useRaster: true });
+ *
+ * const [ticket] = await processHtml('<h1>Table 4</h1><p>2 × Coffee</p>', { enabled: true, targetWidth: 384 });
+ * ```
+ */
+export async function processHtml(
+  source: Element | string,
+  config: PdfProcessingConfig = DEFAULT_PDF_CONFIG,
+  options: HtmlProcessingOptions = {}
+): Promise<ProcessedPage[]> {
+  const { signal, onProgress, useWorker, pageOverrides } = options;
+  signal?.throwIfAborted();
+  if (options.pages !== undefined && parsePageRange(options.pages, 1).length === 0) {
+    return [];
+  }
+
+  const pageConfig = getPageConfig(config, pageOverrides?.[1]);
+  const layoutWidth = options.width ?? (pageConfig.targetWidth || DEFAULT_PDF_CONFIG.targetWidth);
+  const container = typeof source === 'string' || !source.isConnected
+    ? mountOffscreen(typeof source === 'string' ? source : source.cloneNode(true), layoutWidth)
+    : null;
+
+  try {
+    const element = container ?? source;
+    if (!(element instanceof HTMLElement)) {
+      throw new Error('Only HTML elements can be rendered');
+    }
+    const { canvas, renderScale } = await renderElement(
+      element,
+      pageConfig.scale ?? DEFAULT_PDF_CONFIG.scale,
+      signal,
+      { locale: options.locale, messages: options.messages }
+    );
+    const staged = await runImageStages(canvas, getImageStages(pageConfig, renderScale), useWorker);
+    onProgress?.({ page: 1, totalPages: 1, processed: 1, total: 1 });
+    return [{ pageNumber: 1, ...staged }];
+  } finally {
+    container?.remove();
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * HTTP transport: one ePOSPrint request per job to the ePOS-Print service
+ *
+ * Aborting a request closes the XMLHttpRequest the SDK opened for it. The
+ * SDK keeps that request private, so it is picked up while `send()` runs.
+ */
+
+import { getEpsonSDK } from './epson-sdk-loader';
+import { getEposPrintUrl } from './epos-print';
+import { onAbort } from './abort';
+import { debug, error } from './logger';
+import type { PrintTransport, TransportRequest, TransportResult } from './transport';
+import type { EpsonPrinterConfig } from '../types';
+
+/**
+ * Run `send` and return the XMLHttpRequests it opened
+ */
+function captureRequests(send: () => void): XMLHttpRequest[] {
+  const requests: XMLHttpRequest[] = [];
+  const NativeXMLHttpRequest = globalThis.XMLHttpRequest;
+  if (typeof NativeXMLHttpRequest !== 'function') {
+    send();
+    return requests;
+  }
+
+  globalThis.XMLHttpRequest = class extends NativeXMLHttpRequest {
+    constructor() {
+      super();
+      requests.push(this);
+    }
+  };
+  try {
+    send();
+  } finally {
+    globalThis.XMLHttpRequest = NativeXMLHttpRequest;
+  }
+  return requests;
+}
+
+export class EposPrintHttpTransport implements PrintTransport {
+  readonly type = 'http';
+  private config: EpsonPrinterConfig;
+
+  constructor(config: EpsonPrinterConfig) {
+    this.config = config;
+  }
+
+  send({ xml, label, timeout, extraTime, printjobid, signal }: TransportRequest): Promise<TransportResult> {
+    if (signal?.aborted) {
+      return Promise.resolve({ type: 'aborted' });
+    }
+
+    return new Promise((resolve) => {
+      let resolved = false;
+      let stopListening: () => void = () => undefined;
+
+      const doResolve = (result: TransportResult) => {
+        if (!resolved) {
+          resolved = true;
+          stopListening();
+          resolve(result);
+        }
+      };
+
+      // Timeout in case printer doesn't respond
+      const timeoutId = setTimeout(() => {
+        error(`${label}: timeout reached`);
+        doResolve({ type: 'timeout' });
+      }, timeout + extraTime);
+
+      try {
+        const epson = getEpsonSDK();
+        const printerUrl = getEposPrintUrl(this.config);
+        debug(`${label}: Creating ePOSPrint with URL:`, printerUrl);
+
+        // Create printer for sending
+        const printer = new epson.ePOSPrint(printerUrl);
+        printer.timeout = timeout;
+
+        // Set callbacks BEFORE sending
+        printer.onreceive = (res) => {
+          debug(`${label} onreceive:`, res);
+          clearTimeout(timeoutId);
+          doResolve({ type: 'response', ...res });
+        };
+
+        printer.onerror = (err) => {
+          error(`${label} onerror:`, err);
+          clearTimeout(timeoutId);
+          doResolve({
+            type: 'error',
+            code: 'NETWORK_ERROR',
+            status: err?.status,
+            detail: err?.responseText,
+          });
+        };
+
+        // Send the XML directly
+        debug(`${label}: Sending XML to printer, length:`, xml.length);
+        const requests = captureRequests(() => {
+          if (printjobid) {
+            printer.send(xml, printjobid);
+          } else {
+            printer.send(xml);
+          }
+        });
+
+        // Closing the request before the printer has all of it keeps the job from printing
+        stopListening = onAbort(signal, () => {
+          debug(`${label}: aborted`);
+          clearTimeout(timeoutId);
+          doResolve({ type: 'aborted' });
+          requests.forEach((request) => request.abort());
+        });
+      } catch (err) {
+        error(`${label} error:`, err);
+        clearTimeout(timeoutId);
+        doResolve({
+          type: 'error',
+          code: 'SDK_ERROR',
+          detail: err instanceof Error ? err.message : undefined,
+        });
+      }
+    });
+  }
+
+  close(): void {
+    // Nothing to release: every request opens its own connection
+  }
+}
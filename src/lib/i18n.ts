@@ -0,0 +1,399 @@
+/**
+ * Message catalogs for @plevands/epson-thermal-printer
+ * - Built-in locales: 'es' (default) and 'en'
+ * - The locale can be set globally (`configureI18n`) or per service/hook (`locale` option)
+ * - Custom catalogs override single messages or add new locales
+ */
+
+import type { PrintErrorAction } from './print-error';
+
+const es = {
+  // Print results
+  'print.success': 'Impresión exitosa',
+  'print.failed': 'Error: {code}',
+  'print.timeout': 'Sin respuesta de la impresora después de {timeout}ms. Verifica la IP y puerto.',
+  'print.networkError': 'Error de red: {detail}',
+  'print.noConnection': 'Sin conexión',
+  'print.deviceInUse': 'La impresora está siendo usada por otra aplicación',
+  'print.deviceNotFound': 'No se encontró el dispositivo "{deviceId}" en la impresora',
+  'print.connectionError': 'No se puede conectar a la impresora: {detail}',
+  'print.noResponse': 'Sin respuesta',
+  'print.unknownError': 'Error desconocido',
+  'print.sdkNotLoaded': 'No se pudo cargar el SDK ePOS de Epson',
+  'print.canvasError': 'No se pudo obtener el contexto 2D del canvas',
+  'print.htmlCanvasTainted': 'Este navegador no permite leer el HTML renderizado (Safari y otros navegadores WebKit): imprime una imagen o un PDF',
+  'print.imageError': 'No se pudieron cargar las imágenes del recibo',
+  'print.deviceNotSelected': 'Selecciona la impresora USB o serie y permite el acceso',
+  'print.browserNotSupported': 'Este navegador no puede acceder a impresoras USB o serie',
+  'print.notConfigured': 'Impresora no configurada',
+  'print.noPrinters': 'El grupo no tiene impresoras',
+  'print.aborted': 'Impresión cancelada',
+  'print.invalidJobId': 'ID de trabajo no válido "{printjobid}": usa de 1 a 30 letras, números, "_", "." o "-"',
+
+  // Connection check
+  'connection.ready': 'Impresora conectada y lista',
+  'connection.notResponding': 'La impresora no responde. Verifica la IP ({printerIP}) y que esté encendida.',
+  'connection.deviceNotResponding': 'La impresora no responde. Verifica el cable y que esté encendida.',
+  'connection.testFailed': 'Falló la prueba de conexión',
+  'connection.checkFailed': 'Falló la verificación de conexión',
+
+  // Print job status
+  'job.printed': 'Trabajo impreso',
+  'job.printing': 'El trabajo se está imprimiendo',
+  'job.notFound': 'La impresora no conoce el trabajo "{printjobid}"',
+  'job.statusNotSupported': 'Las impresoras USB y serie no informan del estado de trabajos anteriores',
+
+  // Printer status
+  'status.unknown': 'Estado desconocido',
+  'status.offline': 'Impresora offline',
+  'status.coverOpen': 'Tapa abierta',
+  'status.paperEnd': 'Sin papel',
+  'status.paperNearEnd': 'Papel por acabarse',
+  'status.mechanicalError': 'Error mecánico',
+  'status.cutterError': 'Error en cuchilla',
+  'status.unrecoverableError': 'Error no recuperable',
+  'status.ready': 'Impresora lista',
+
+  // Suggested operator actions (PrintError.action)
+  'action.none': 'No se requiere ninguna acción',
+  'action.retry': 'Vuelve a intentarlo',
+  'action.wait_and_retry': 'Espera unos segundos y vuelve a intentarlo',
+  'action.reload_app': 'Recarga la página',
+  'action.configure_printer': 'Configura la impresora',
+  'action.check_connection': 'Verifica que la impresora esté encendida y conectada a la red',
+  'action.check_device_id': 'Verifica el Device ID de la impresora',
+  'action.select_device': 'Selecciona la impresora y permite el acceso',
+  'action.change_browser': 'Usa Chrome o Edge en un ordenador',
+  'action.check_printer': 'Revisa la impresora',
+  'action.close_cover': 'Cierra la tapa de la impresora',
+  'action.load_paper': 'Coloca un rollo de papel nuevo',
+  'action.insert_paper': 'Inserta el papel en la ranura de la impresora',
+  'action.remove_paper': 'Retira el papel o la etiqueta impresa',
+  'action.charge_battery': 'Carga la batería de la impresora',
+  'action.clear_paper_jam': 'Retira el papel atascado',
+  'action.restart_printer': 'Apaga y vuelve a encender la impresora',
+  'action.reduce_job_size': 'Divide el trabajo en partes más pequeñas',
+  'action.check_content': 'Revisa el contenido a imprimir',
+  'action.contact_support': 'Contacta a soporte técnico',
+
+  // Printed test receipts
+  'testPage.connectionTest': 'Test de conexión',
+  'testPage.title': 'PÁGINA DE PRUEBA',
+  'testPage.printer': 'Impresora',
+  'testPage.port': 'Puerto',
+  'testPage.deviceId': 'Device ID',
+  'testPage.halftone': 'Halftone',
+  'testPage.brightness': 'Brillo',
+  'testPage.mode': 'Modo',
+  'testPage.date': 'Fecha',
+
+  // Components
+  'ui.config.title': 'Configuración de Impresora',
+  'ui.config.printerIP': 'IP de la Impresora:',
+  'ui.config.port': 'Puerto:',
+  'ui.config.deviceId': 'Device ID:',
+  'ui.config.paperWidth': 'Ancho de Papel:',
+  'ui.config.save': 'Guardar Configuración',
+  'ui.config.tip': 'Tip:',
+  'ui.config.tipText': 'Configura tu impresora Epson con ePOS habilitado. Puedes usar esta demo para probar la librería antes de integrarla en tu proyecto.',
+  'ui.uploader.title': 'Subir PDF o Imagen',
+  'ui.uploader.invalidFile': 'Por favor selecciona un PDF o una imagen',
+  'ui.uploader.drop': 'Arrastra un PDF o una imagen aquí',
+  'ui.uploader.dropHint': 'o haz clic para seleccionar',
+  'ui.preview.title': 'Vista Previa',
+  'ui.preview.empty': 'Sube un PDF o una imagen para probar la librería',
+  'ui.preview.emptyHint': 'El documento se renderizará y podrás imprimirlo en tu impresora Epson',
+  'ui.preview.loading': 'Cargando documento...',
+  'ui.preview.loadError': 'Error al cargar el documento',
+  'ui.preview.previous': 'Anterior',
+  'ui.preview.next': 'Siguiente',
+  'ui.preview.pageOf': 'Página {page} de {total}',
+  'ui.preview.pageAlt': 'Página {page}',
+  'ui.receipt.title': 'Vista Previa del Recibo',
+  'ui.receipt.empty': 'No hay nada que mostrar todavía',
+  'ui.receipt.emptyHint': 'El recibo se mostrará tal como saldrá de la impresora',
+  'ui.receipt.alt': 'Vista previa del recibo',
+  'ui.receipt.renderError': 'Error al generar la vista previa',
+  'ui.controls.title': 'Controles de Impresión',
+  'ui.controls.sdkLoaded': 'Epson SDK cargado ({classes})',
+  'ui.controls.sdkNotLoaded': 'Epson SDK no cargado - Recarga la página',
+  'ui.controls.connection': 'Conexión',
+  'ui.controls.testing': 'Probando...',
+  'ui.controls.testConnection': 'Probar Conexión',
+  'ui.controls.printing': 'Imprimiendo...',
+  'ui.controls.printTestPage': 'Imprimir Página de Prueba',
+  'ui.controls.previewTestPage': 'Vista Previa de la Página de Prueba',
+  'ui.controls.quality': 'Calidad de Impresión (SDK Oficial)',
+  'ui.controls.halftone': 'Algoritmo de Halftone:',
+  'ui.controls.halftoneDither': 'Dither (rápido)',
+  'ui.controls.halftoneErrorDiffusion': 'Error Diffusion (mejor calidad)',
+  'ui.controls.halftoneThreshold': 'Threshold (alto contraste)',
+  'ui.controls.brightness': 'Brillo ({value}):',
+  'ui.controls.mode': 'Modo:',
+  'ui.controls.modeMono': 'Monocromático (1-bit)',
+  'ui.controls.modeGray16': 'Escala de grises (16 niveles)',
+  'ui.controls.useRaster': 'Imprimir el raster de la librería (sin halftone del SDK)',
+  'ui.controls.options': 'Opciones de Impresión',
+  'ui.controls.printAllPages': 'Imprimir todas las páginas ({count})',
+  'ui.controls.selectPages': 'Selecciona páginas:',
+  'ui.controls.headerFooter': 'Encabezado y Pie',
+  'ui.controls.addHeader': 'Agregar encabezado',
+  'ui.controls.headerPlaceholder': 'Texto del encabezado',
+  'ui.controls.addFooter': 'Agregar pie de página',
+  'ui.controls.footerPlaceholder': 'Texto del pie de página',
+  'ui.controls.printPdf': 'Imprimir PDF',
+  'ui.controls.cancelPrint': 'Cancelar',
+  'ui.controls.printProgress': 'Impresas {sent} de {total} páginas',
+  'ui.controls.resumePrint': 'Reanudar desde la página {page}',
+  'ui.controls.previewPrint': 'Vista Previa de la Impresión',
+  'ui.controls.closePreview': 'Cerrar Vista Previa',
+  'ui.controls.code': 'Código: {code}',
+  'ui.controls.configureFirst': 'Configura la impresora primero',
+  'ui.controls.noPages': 'No hay páginas para imprimir',
+  'ui.controls.noPagesSelected': 'No hay páginas seleccionadas',
+  'ui.app.subtitle': 'Ejemplo de uso de la librería {library} para imprimir PDFs en impresoras Epson POS',
+  'ui.app.footer': 'Impresión de PDF usando Epson ePOS Print SDK',
+  'ui.app.language': 'Idioma',
+};
+
+export type MessageKey = keyof typeof es;
+
+/** Complete set of messages of a locale */
+export type MessageCatalog = Record<MessageKey, string>;
+
+/** Values for the `{name}` placeholders of a message */
+export type MessageParams = Record<string, string | number>;
+
+const en: MessageCatalog = {
+  'print.success': 'Print successful',
+  'print.failed': 'Error: {code}',
+  'print.timeout': 'No response from the printer after {timeout}ms. Check the IP and port.',
+  'print.networkError': 'Network error: {detail}',
+  'print.noConnection': 'No connection',
+  'print.deviceInUse': 'The printer is being used by another application',
+  'print.deviceNotFound': 'Device "{deviceId}" was not found on the printer',
+  'print.connectionError': 'Cannot connect to the printer: {detail}',
+  'print.noResponse': 'No response',
+  'print.unknownError': 'Unknown error',
+  'print.sdkNotLoaded': 'Failed to load Epson ePOS SDK',
+  'print.canvasError': 'Could not get the 2D context of the canvas',
+  'print.htmlCanvasTainted': 'This browser does not allow reading rendered HTML (Safari and other WebKit browsers): print an image or a PDF instead',
+  'print.imageError': 'Could not load the receipt images',
+  'print.deviceNotSelected': 'Select the USB or serial printer and allow access to it',
+  'print.browserNotSupported': 'This browser cannot access USB or serial printers',
+  'print.notConfigured': 'Printer not configured',
+  'print.noPrinters': 'The group has no printers',
+  'print.aborted': 'Print canceled',
+  'print.invalidJobId': 'Invalid print job ID "{printjobid}": use 1 to 30 letters, digits, "_", "." or "-"',
+
+  'connection.ready': 'Printer connected and ready',
+  'connection.notResponding': 'The printer is not responding. Check the IP ({printerIP}) and that it is turned on.',
+  'connection.deviceNotResponding': 'The printer is not responding. Check the cable and that it is turned on.',
+  'connection.testFailed': 'Connection test failed',
+  'connection.checkFailed': 'Connection check failed',
+
+  'job.printed': 'Job printed',
+  'job.printing': 'The job is printing',
+  'job.notFound': 'Job "{printjobid}" is unknown to the printer',
+  'job.statusNotSupported': 'USB and serial printers do not report the status of previous jobs',
+
+  'status.unknown': 'Unknown status',
+  'status.offline': 'Printer offline',
+  'status.coverOpen': 'Cover open',
+  'status.paperEnd': 'Out of paper',
+  'status.paperNearEnd': 'Paper running low',
+  'status.mechanicalError': 'Mechanical error',
+  'status.cutterError': 'Cutter error',
+  'status.unrecoverableError': 'Unrecoverable error',
+  'status.ready': 'Printer ready',
+
+  'action.none': 'No action needed',
+  'action.retry': 'Try again',
+  'action.wait_and_retry': 'Wait a few seconds and try again',
+  'action.reload_app': 'Reload the page',
+  'action.configure_printer': 'Set up the printer',
+  'action.check_connection': 'Check that the printer is on and connected to the network',
+  'action.check_device_id': 'Check the device ID of the printer',
+  'action.select_device': 'Select the printer and allow access to it',
+  'action.change_browser': 'Use Chrome or Edge on a computer',
+  'action.check_printer': 'Check the printer',
+  'action.close_cover': 'Close the printer cover',
+  'action.load_paper': 'Load a new paper roll',
+  'action.insert_paper': 'Insert the paper into the printer slot',
+  'action.remove_paper': 'Remove the printed paper or label',
+  'action.charge_battery': 'Charge the printer battery',
+  'action.clear_paper_jam': 'Remove the jammed paper',
+  'action.restart_printer': 'Turn the printer off and on again',
+  'action.reduce_job_size': 'Split the job into smaller parts',
+  'action.check_content': 'Check the content to print',
+  'action.contact_support': 'Contact technical support',
+
+  'testPage.connectionTest': 'Connection test',
+  'testPage.title': 'TEST PAGE',
+  'testPage.printer': 'Printer',
+  'testPage.port': 'Port',
+  'testPage.deviceId': 'Device ID',
+  'testPage.halftone': 'Halftone',
+  'testPage.brightness': 'Brightness',
+  'testPage.mode': 'Mode',
+  'testPage.date': 'Date',
+
+  'ui.config.title': 'Printer Settings',
+  'ui.config.printerIP': 'Printer IP:',
+  'ui.config.port': 'Port:',
+  'ui.config.deviceId': 'Device ID:',
+  'ui.config.paperWidth': 'Paper Width:',
+  'ui.config.save': 'Save Settings',
+  'ui.config.tip': 'Tip:',
+  'ui.config.tipText': 'Set up your Epson printer with ePOS enabled. You can use this demo to try the library before adding it to your project.',
+  'ui.uploader.title': 'Upload PDF or Image',
+  'ui.uploader.invalidFile': 'Please select a PDF or an image',
+  'ui.uploader.drop': 'Drop a PDF or an image here',
+  'ui.uploader.dropHint': 'or click to select one',
+  'ui.preview.title': 'Preview',
+  'ui.preview.empty': 'Upload a PDF or an image to try the library',
+  'ui.preview.emptyHint': 'The document will be rendered and you can print it on your Epson printer',
+  'ui.preview.loading': 'Loading document...',
+  'ui.preview.loadError': 'Error loading the document',
+  'ui.preview.previous': 'Previous',
+  'ui.preview.next': 'Next',
+  'ui.preview.pageOf': 'Page {page} of {total}',
+  'ui.preview.pageAlt': 'Page {page}',
+  'ui.receipt.title': 'Receipt Preview',
+  'ui.receipt.empty': 'Nothing to show yet',
+  'ui.receipt.emptyHint': 'The receipt will look as it comes out of the printer',
+  'ui.receipt.alt': 'Receipt preview',
+  'ui.receipt.renderError': 'Error rendering the preview',
+  'ui.controls.title': 'Print Controls',
+  'ui.controls.sdkLoaded': 'Epson SDK loaded ({classes})',
+  'ui.controls.sdkNotLoaded': 'Epson SDK not loaded - Reload the page',
+  'ui.controls.connection': 'Connection',
+  'ui.controls.testing': 'Testing...',
+  'ui.controls.testConnection': 'Test Connection',
+  'ui.controls.printing': 'Printing...',
+  'ui.controls.printTestPage': 'Print Test Page',
+  'ui.controls.previewTestPage': 'Preview Test Page',
+  'ui.controls.quality': 'Print Quality (Official SDK)',
+  'ui.controls.halftone': 'Halftone Algorithm:',
+  'ui.controls.halftoneDither': 'Dither (fast)',
+  'ui.controls.halftoneErrorDiffusion': 'Error Diffusion (best quality)',
+  'ui.controls.halftoneThreshold': 'Threshold (high contrast)',
+  'ui.controls.brightness': 'Brightness ({value}):',
+  'ui.controls.mode': 'Mode:',
+  'ui.controls.modeMono': 'Monochrome (1-bit)',
+  'ui.controls.modeGray16': 'Grayscale (16 levels)',
+  'ui.controls.useRaster': 'Print the library raster (no SDK halftone)',
+  'ui.controls.options': 'Print Options',
+  'ui.controls.printAllPages': 'Print all pages ({count})',
+  'ui.controls.selectPages': 'Select pages:',
+  'ui.controls.headerFooter': 'Header and Footer',
+  'ui.controls.addHeader': 'Add header',
+  'ui.controls.headerPlaceholder': 'Header text',
+  'ui.controls.addFooter': 'Add footer',
+  'ui.controls.footerPlaceholder': 'Footer text',
+  'ui.controls.printPdf': 'Print PDF',
+  'ui.controls.cancelPrint': 'Cancel',
+  'ui.controls.printProgress': 'Printed {sent} of {total} pages',
+  'ui.controls.resumePrint': 'Resume from page {page}',
+  'ui.controls.previewPrint': 'Print Preview',
+  'ui.controls.closePreview': 'Close Preview',
+  'ui.controls.code': 'Code: {code}',
+  'ui.controls.configureFirst': 'Set up the printer first',
+  'ui.controls.noPages': 'There are no pages to print',
+  'ui.controls.noPagesSelected': 'No pages selected',
+  'ui.app.subtitle': 'Example of using the {library} library to print PDFs on Epson POS printers',
+  'ui.app.footer': 'PDF printing with the Epson ePOS Print SDK',
+  'ui.app.language': 'Language',
+};
+
+export interface I18nOptions {
+  /** Locale of the messages, e.g. 'en' or 'en-US'. Default: the global locale ('es') */
+  locale?: string;
+  /** Messages that replace those of the catalog */
+  messages?: Partial<MessageCatalog>;
+}
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const catalogs: Record<string, Partial<MessageCatalog>> = { es, en };
+
+let defaultLocale = 'es';
+
+/** Catalog used for messages missing in the selected locale */
+const FALLBACK_LOCALE = 'en';
+
+/**
+ * Configure the global locale and add or override catalogs
+ *
+ * @example
+ * ```typescript
+ * configureI18n({ locale: 'en' });
+ *
+ * // Add a locale (missing messages fall back to English)
+ * configureI18n({ catalogs: { pt: { 'print.success': 'Impressão concluída' } } });
+ * ```
+ */
+export function configureI18n(config: {
+  locale?: string;
+  catalogs?: Record<string, Partial<MessageCatalog>>;
+}): void {
+  if (config.locale !== undefined) {
+    defaultLocale = config.locale;
+  }
+  Object.entries(config.catalogs ?? {}).forEach(([locale, messages]) => {
+    catalogs[locale] = { ...catalogs[locale], ...messages };
+  });
+}
+
+/**
+ * Get the global locale
+ */
+export function getLocale(): string {
+  return defaultLocale;
+}
+
+/**
+ * Catalog of a locale, trying the language without region ('en-US' → 'en')
+ */
+function findCatalog(locale: string): Partial<MessageCatalog> | undefined {
+  return catalogs[locale] ?? catalogs[locale.split('-')[0]];
+}
+
+function interpolate(message: string, params?: MessageParams): string {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Translate a message
+ *
+ * @example
+ * ```typescript
+ * translate('print.timeout', { timeout: 60000 }, { locale: 'en' });
+ * // 'No response from the printer after 60000ms. Check the IP and port.'
+ * ```
+ */
+export function translate(key: MessageKey, params?: MessageParams, options: I18nOptions = {}): string {
+  const message =
+    options.messages?.[key] ??
+    findCatalog(options.locale ?? defaultLocale)?.[key] ??
+    catalogs[FALLBACK_LOCALE][key] ??
+    key;
+  return interpolate(message, params);
+}
+
+/**
+ * Create a translate function bound to a locale and custom messages
+ */
+export function createTranslator(options: I18nOptions = {}): Translate {
+  return (key, params) => translate(key, params, options);
+}
+
+/**
+ * Message for the suggested action of a `PrintError`
+ */
+export function getActionMessage(action: PrintErrorAction, options?: I18nOptions): string {
+  return translate(`action.${action}`, undefined, options);
+}
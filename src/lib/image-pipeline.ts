@@ -0,0 +1,186 @@
+/**
+ * Runs the image stages of a rendered PDF page in a Web Worker with
+ * `OffscreenCanvas`, or on the main thread where workers can't do it
+ *
+ * The page is handed to the worker as a transferable `ImageBitmap`; the worker
+ * sends back the final image, its PNG preview and the packed raster.
+ */
+
+import { debug, warn } from './logger';
+import { applyImageStages, encodeBands, encodeBase64 } from './image-stages';
+import type { ImageStages, PageBand } from './image-stages';
+
+/** @internal Message sent to the image worker */
+export interface ImageStagesRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  stages: ImageStages;
+}
+
+/** @internal Message sent back by the image worker */
+export type ImageStagesResponse =
+  | { id: number; image: ImageBitmap; png: Blob; rasterBase64: string; bands: PageBand[] }
+  | { id: number; error: string };
+
+export interface StagedPage {
+  /** PNG data URL of the final image, for previews */
+  base64: string;
+  width: number;
+  height: number;
+  /** Base64 of the 1-bit raster */
+  rasterBase64: string;
+  /** Bands to print the page in, with their part of the raster */
+  bands: PageBand[];
+  canvas: HTMLCanvasElement;
+}
+
+interface PendingRequest {
+  resolve: (response: ImageStagesResponse) => void;
+  reject: (err: Error) => void;
+}
+
+/** Image worker; resolves with null once workers are known not to work */
+let workerPromise: Promise<Worker | null> | null = null;
+const pending = new Map<number, PendingRequest>();
+let nextRequestId = 0;
+
+/**
+ * Whether the image stages can run in a worker in this environment
+ */
+export function isImageWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap === 'function';
+}
+
+/**
+ * Stop using the worker: requests still waiting fall back to the main thread
+ */
+function disableWorker(worker: Worker, reason: unknown): void {
+  warn('Image worker failed, processing on the main thread:', reason);
+  worker.terminate();
+  workerPromise = Promise.resolve(null);
+  pending.forEach(({ reject }) => reject(new Error('Image worker failed')));
+  pending.clear();
+}
+
+function getWorker(): Promise<Worker | null> {
+  if (!workerPromise) {
+    workerPromise = import('./image-stages.worker?worker&inline')
+      .then(({ default: ImageStagesWorker }) => {
+        const worker = new ImageStagesWorker({ name: 'epson-image-stages' });
+        worker.onmessage = (event: MessageEvent<ImageStagesResponse>) => {
+          const request = pending.get(event.data.id);
+          pending.delete(event.data.id);
+          request?.resolve(event.data);
+        };
+        worker.onerror = (event) => disableWorker(worker, event.message);
+        debug('Image worker started');
+        return worker;
+      })
+      .catch((err) => {
+        warn('Image worker unavailable, processing on the main thread:', err);
+        return null;
+      });
+  }
+  return workerPromise;
+}
+
+/**
+ * Terminate the image worker. It is started again by the next page processed.
+ */
+export async function terminateImageWorker(): Promise<void> {
+  const worker = await workerPromise;
+  workerPromise = null;
+  worker?.terminate();
+  pending.forEach(({ reject }) => reject(new Error('Image worker terminated')));
+  pending.clear();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Run the stages in the worker, or resolve with null if there is no worker
+ */
+async function runInWorker(source: HTMLCanvasElement, stages: ImageStages): Promise<StagedPage | null> {
+  const worker = await getWorker();
+  if (!worker) {
+    return null;
+  }
+
+  const bitmap = await createImageBitmap(source);
+  const id = nextRequestId++;
+  const response = await new Promise<ImageStagesResponse>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const request: ImageStagesRequest = { id, bitmap, stages };
+    worker.postMessage(request, [bitmap]);
+  });
+  if ('error' in response) {
+    throw new Error(response.error);
+  }
+
+  const { image, png, rasterBase64, bands } = response;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.drawImage(image, 0, 0);
+  image.close();
+
+  return {
+    base64: await blobToDataUrl(png),
+    width: canvas.width,
+    height: canvas.height,
+    rasterBase64,
+    bands,
+    canvas,
+  };
+}
+
+function runOnMainThread(source: HTMLCanvasElement, stages: ImageStages): StagedPage {
+  const { canvas, raster, bands } = applyImageStages(source, stages, (width, height) => {
+    const created = document.createElement('canvas');
+    created.width = width;
+    created.height = height;
+    return created;
+  });
+  return {
+    base64: canvas.toDataURL('image/png'),
+    width: canvas.width,
+    height: canvas.height,
+    rasterBase64: encodeBase64(raster),
+    bands: encodeBands(raster, canvas.width, bands),
+    canvas,
+  };
+}
+
+/**
+ * Trim, scale, pack and split a rendered page
+ *
+ * @param source - Rendered page (white background); not modified
+ * @param stages - What to do with the page
+ * @param useWorker - Use the image worker when supported. Default: true
+ */
+export async function runImageStages(
+  source: HTMLCanvasElement,
+  stages: ImageStages,
+  useWorker: boolean = true
+): Promise<StagedPage> {
+  if (useWorker && isImageWorkerSupported()) {
+    try {
+      const staged = await runInWorker(source, stages);
+      if (staged) {
+        return staged;
+      }
+    } catch (err) {
+      warn('Image worker failed for a page, processing it on the main thread:', err);
+    }
+  }
+  return runOnMainThread(source, stages);
+}
@@ -0,0 +1,142 @@
+/**
+ * Image file processing for Epson thermal printers
+ * Decodes PNG, JPEG, WebP, GIF (first frame) and SVG files and runs them
+ * through the same crop, trim, rotate, scale, dither and raster stages as PDF pages
+ */
+
+import { runImageStages } from './image-pipeline';
+import { DEFAULT_PDF_CONFIG, getImageStages, getPageConfig, parsePageRange } from './pdf-processor';
+import type { PdfProcessingConfig, PdfProcessingOptions, ProcessedPage } from './pdf-processor';
+
+/** MIME types of the image files `processImageFile()` accepts */
+export const IMAGE_FILE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/svg+xml'];
+
+const IMAGE_FILE_EXTENSIONS = /\.(png|jpe?g|webp|gif|svg)$/i;
+
+/**
+ * Thrown for files that are not a PDF or a supported image
+ */
+export class UnsupportedFileTypeError extends Error {
+  readonly fileName: string;
+  readonly fileType: string;
+
+  constructor(file: File) {
+    super(`Unsupported file type "${file.type || file.name}"`);
+    this.name = 'UnsupportedFileTypeError';
+    this.fileName = file.name;
+    this.fileType = file.type;
+  }
+}
+
+/** Size given to SVG files without one, as browsers do */
+const DEFAULT_SVG_SIZE = { width: 300, height: 150 };
+
+interface DecodedImage {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  /** SVG: drawn at `scale` times its size, like PDF pages */
+  vector: boolean;
+  release: () => void;
+}
+
+function isSvgFile(file: File): boolean {
+  return file.type === 'image/svg+xml' || (!file.type && /\.svg$/i.test(file.name));
+}
+
+/**
+ * Whether a file is an image `processImageFile()` accepts, by MIME type
+ * (or by extension when the type is unknown)
+ */
+export function isImageFile(file: File): boolean {
+  return file.type ? IMAGE_FILE_TYPES.includes(file.type) : IMAGE_FILE_EXTENSIONS.test(file.name);
+}
+
+/**
+ * Load an image file with an `<img>` element (SVG, and browsers without `createImageBitmap`)
+ */
+function loadImageElement(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The image could not be decoded'));
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+async function decodeImage(file: File): Promise<DecodedImage> {
+  if (isSvgFile(file)) {
+    const img = await loadImageElement(file);
+    const width = img.naturalWidth || DEFAULT_SVG_SIZE.width;
+    const height = img.naturalHeight || DEFAULT_SVG_SIZE.height;
+    return { image: img, width, height, vector: true, release: () => undefined };
+  }
+  if (typeof createImageBitmap === 'function') {
+    // Animated GIF and WebP files decode to their first frame
+    const bitmap = await createImageBitmap(file);
+    return { image: bitmap, width: bitmap.width, height: bitmap.height, vector: false, release: () => bitmap.close() };
+  }
+  const img = await loadImageElement(file);
+  return { image: img, width: img.naturalWidth, height: img.naturalHeight, vector: false, release: () => undefined };
+}
+
+/**
+ * Process an image file like a one-page PDF: crop, trim, rotate, scale to
+ * the paper width, dither and pack the raster.
+ *
+ * `scale` only applies to SVG files, drawn at `scale` times their size before
+ * scaling to `targetWidth`; `crop` is in image pixels (SVG units for SVG files).
+ * Page 1 of `options.pages` and `options.pageOverrides` is the image.
+ *
+ * @param file - PNG, JPEG, WebP, GIF (first frame) or SVG file
+ * @param config - Processing configuration
+ * @param options - Abort signal, progress callback, page selection and per-page settings
+ * @returns The processed image as a single page (none if `options.pages` leaves out page 1)
+ * @throws {UnsupportedFileTypeError} If the file is not a supported image
+ * @throws {Error} If the image can't be decoded
+ * @throws {PageRangeError} If `options.pages` can't be read
+ * @throws {DOMException} `AbortError` if `options.signal` aborts
+ *
+ * @example
+ * ```typescript
+ * const pages = await processImageFile(file, { enabled: true, dithering: 'atkinson' });
+ * await service.printPages(pages, { useRaster: true });
+ * ```
+ */
+export async function processImageFile(
+  file: File,
+  config: PdfProcessingConfig = DEFAULT_PDF_CONFIG,
+  options: PdfProcessingOptions = {}
+): Promise<ProcessedPage[]> {
+  const { signal, onProgress, useWorker, pageOverrides } = options;
+  signal?.throwIfAborted();
+  if (!isImageFile(file)) {
+    throw new UnsupportedFileTypeError(file);
+  }
+  if (options.pages !== undefined && parsePageRange(options.pages, 1).length === 0) {
+    return [];
+  }
+
+  const pageConfig = getPageConfig(config, pageOverrides?.[1]);
+  const decoded = await decodeImage(file);
+  try {
+    signal?.throwIfAborted();
+    const renderScale = decoded.vector ? (pageConfig.scale ?? DEFAULT_PDF_CONFIG.scale) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(decoded.width * renderScale));
+    canvas.height = Math.max(1, Math.round(decoded.height * renderScale));
+
+    // Transparent areas print as white paper
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(decoded.image, 0, 0, canvas.width, canvas.height);
+
+    const staged = await runImageStages(canvas, getImageStages(pageConfig, renderScale), useWorker);
+    onProgress?.({ page: 1, totalPages: 1, processed: 1, total: 1 });
+    return [{ pageNumber: 1, ...staged }];
+  } finally {
+    decoded.release();
+  }
+}
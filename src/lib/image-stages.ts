@@ -0,0 +1,335 @@
+/**
+ * Image stages of PDF page processing: crop, trim, rotate, scale, tone
+ * adjustments, dithering, raster packing and band splitting
+ *
+ * Works on `HTMLCanvasElement` and `OffscreenCanvas` alike, so the same code
+ * runs in the image worker and, as a fallback, on the main thread.
+ */
+
+import { adjustTone, ditherGray, hasToneAdjustments, packPixels, toGrayLevels } from './dithering';
+import type { DitheringMode, ToneOptions } from './dithering';
+import type { RgbaImage } from './escpos-encoder';
+
+/** Canvas the stages can run on */
+export type StageCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/** 2D context methods used by the stages (common to both canvas types) */
+export interface StageContext {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  drawImage(
+    image: CanvasImageSource,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void;
+  getImageData(x: number, y: number, width: number, height: number): ImageData;
+  putImageData(imageData: ImageData, dx: number, dy: number): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+}
+
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageMargins {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+/** Rows of a page printed as one image command */
+export interface ImageBand {
+  /** First row of the band in the page */
+  y: number;
+  height: number;
+}
+
+/** Band of a processed page, with its part of the raster */
+export interface PageBand extends ImageBand {
+  /** Base64 of the band's 1-bit raster */
+  rasterBase64: string;
+}
+
+/** Clockwise rotation of a page, in degrees */
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+/** 'auto' rotation turns content at least this much wider than tall */
+const AUTO_ROTATE_ASPECT = 1.2;
+
+/** What to do with a rendered page */
+export interface ImageStages extends ToneOptions {
+  /** Area of the page to keep (in page pixels), or null for the whole page */
+  crop: ImageRect | null;
+  /** Margins kept around the content when trimming, or null to keep the whole page */
+  trimMargins: ImageMargins | null;
+  /** Rotation applied after cropping and trimming ('auto': see `resolveRotation()`) */
+  rotation: ImageRotation | 'auto';
+  /** Width to scale the page to, or null to keep its size */
+  targetWidth: number | null;
+  /** Threshold for monochrome conversion (0-255, lower = darker) */
+  monochromeThreshold: number;
+  /**
+   * 'none': the image stays gray and the raster is thresholded. Any other
+   * mode: the image is replaced by the dithered raster, so both match.
+   */
+  dithering: DitheringMode | 'none';
+  /** Maximum height of the bands the page is split in, or null for a single band */
+  maxBandHeight: number | null;
+}
+
+export interface StagedImage<C extends StageCanvas> {
+  /** Final page image (the source canvas if it didn't change) */
+  canvas: C;
+  /** 1-bit raster of the final image, rows padded to whole bytes (MSB first, 1 = black) */
+  raster: Uint8Array;
+  /** Bands to print the image in, top to bottom */
+  bands: ImageBand[];
+}
+
+/** Level above which R, G and B count as white paper */
+const WHITE_THRESHOLD = 250;
+
+function get2d(canvas: StageCanvas): StageContext {
+  return canvas.getContext('2d') as StageContext;
+}
+
+function isInk(data: RgbaImage['data'], offset: number): boolean {
+  return data[offset] < WHITE_THRESHOLD
+    || data[offset + 1] < WHITE_THRESHOLD
+    || data[offset + 2] < WHITE_THRESHOLD;
+}
+
+/**
+ * Part of a rectangle inside `bounds`, in whole pixels (at least 1x1)
+ */
+function clipRect(rect: ImageRect, bounds: ImageRect): ImageRect {
+  const x = Math.min(Math.max(Math.floor(rect.x), bounds.x), bounds.x + bounds.width - 1);
+  const y = Math.min(Math.max(Math.floor(rect.y), bounds.y), bounds.y + bounds.height - 1);
+  const right = Math.min(Math.ceil(rect.x + rect.width), bounds.x + bounds.width);
+  const bottom = Math.min(Math.ceil(rect.y + rect.height), bounds.y + bounds.height);
+  return { x, y, width: Math.max(1, right - x), height: Math.max(1, bottom - y) };
+}
+
+/**
+ * Area of an image to keep after trimming white margins, with `margins`
+ * pixels of space around the content. Returns null when trimming would
+ * remove 10 pixels or less in both directions.
+ */
+export function findContentBounds(image: RgbaImage, margins: ImageMargins): ImageRect | null {
+  const { width, height, data } = image;
+  const rowHasInk = (y: number, from: number, to: number) => {
+    for (let x = from; x <= to; x++) {
+      if (isInk(data, (y * width + x) * 4)) return true;
+    }
+    return false;
+  };
+  const columnHasInk = (x: number, from: number, to: number) => {
+    for (let y = from; y <= to; y++) {
+      if (isInk(data, (y * width + x) * 4)) return true;
+    }
+    return false;
+  };
+
+  let top = 0;
+  while (top < height && !rowHasInk(top, 0, width - 1)) top++;
+  if (top === height) {
+    // Blank page: nothing to trim to
+    return null;
+  }
+  let bottom = height - 1;
+  while (bottom > top && !rowHasInk(bottom, 0, width - 1)) bottom--;
+  // Columns only need to be searched between the first and last rows with ink
+  let left = 0;
+  while (left < width - 1 && !columnHasInk(left, top, bottom)) left++;
+  let right = width - 1;
+  while (right > left && !columnHasInk(right, top, bottom)) right--;
+
+  top = Math.max(0, top - margins.top);
+  bottom = Math.min(height - 1, bottom + margins.bottom);
+  left = Math.max(0, left - margins.left);
+  right = Math.min(width - 1, right + margins.right);
+
+  const rect = { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  if (rect.width >= width - 10 && rect.height >= height - 10) {
+    return null;
+  }
+  return rect;
+}
+
+/**
+ * Rotation of content of a given size. 'auto' turns landscape content a
+ * quarter turn (90°) when scaling it down to `targetWidth` would print it
+ * noticeably smaller than turned: when it is wider than `targetWidth` and
+ * at least 1.2 times wider than tall.
+ */
+export function resolveRotation(
+  rotation: ImageRotation | 'auto',
+  width: number,
+  height: number,
+  targetWidth: number | null
+): ImageRotation {
+  if (rotation !== 'auto') {
+    return rotation;
+  }
+  return targetWidth !== null && width > targetWidth && width >= height * AUTO_ROTATE_ASPECT ? 90 : 0;
+}
+
+/**
+ * Draw an area of an image turned clockwise, filling `width` x `height`
+ * (the size of the turned area, scaled)
+ */
+export function drawRotated(
+  ctx: StageContext,
+  image: CanvasImageSource,
+  area: ImageRect,
+  width: number,
+  height: number,
+  rotation: ImageRotation
+): void {
+  // Draw around the center, turned: a quarter turn swaps the drawn width and height
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const drawnWidth = quarterTurn ? height : width;
+  const drawnHeight = quarterTurn ? width : height;
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(image, area.x, area.y, area.width, area.height, -drawnWidth / 2, -drawnHeight / 2, drawnWidth, drawnHeight);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+/**
+ * Split an image into bands of at most `maxBandHeight` rows. Bands are cut on
+ * blank rows, so lines of text are never split; where the lower half of a band
+ * has no blank row (e.g. a tall picture), it is cut at `maxBandHeight`.
+ *
+ * @param blankRows - Whether each row of the image is blank
+ * @param maxBandHeight - Maximum band height, or null for a single band
+ */
+export function splitIntoBands(blankRows: ArrayLike<boolean>, maxBandHeight: number | null): ImageBand[] {
+  const height = blankRows.length;
+  const maxHeight = maxBandHeight ? Math.max(2, Math.floor(maxBandHeight)) : height;
+  const bands: ImageBand[] = [];
+  let y = 0;
+  while (height - y > maxHeight) {
+    // The next band starts at the last blank row within reach
+    let cut = y + maxHeight;
+    while (cut > y + maxHeight / 2 && !blankRows[cut]) cut--;
+    if (!blankRows[cut]) {
+      cut = y + maxHeight;
+    }
+    bands.push({ y, height: cut - y });
+    y = cut;
+  }
+  bands.push({ y, height: height - y });
+  return bands;
+}
+
+/**
+ * Bands with their part of a 1-bit raster
+ */
+export function encodeBands(raster: Uint8Array, width: number, bands: ImageBand[]): PageBand[] {
+  const rowBytes = Math.ceil(width / 8);
+  return bands.map((band) => ({
+    ...band,
+    rasterBase64: encodeBase64(raster.subarray(band.y * rowBytes, (band.y + band.height) * rowBytes)),
+  }));
+}
+
+/**
+ * Base64 of binary data, converted in blocks instead of one character at a time
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  // Below the argument count limit of String.fromCharCode.apply
+  const blockSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += blockSize) {
+    parts.push(String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + blockSize))));
+  }
+  return btoa(parts.join(''));
+}
+
+/**
+ * Run the stages on a rendered page
+ *
+ * @param source - Rendered page (white background)
+ * @param stages - What to do with the page
+ * @param createCanvas - Creates a canvas of the same kind as `source`
+ */
+export function applyImageStages<C extends StageCanvas>(
+  source: C,
+  stages: ImageStages,
+  createCanvas: (width: number, height: number) => C
+): StagedImage<C> {
+  const full: ImageRect = { x: 0, y: 0, width: source.width, height: source.height };
+  const area = stages.crop ? clipRect(stages.crop, full) : full;
+  let crop = area;
+  if (stages.trimMargins) {
+    const bounds = findContentBounds(get2d(source).getImageData(area.x, area.y, area.width, area.height), stages.trimMargins);
+    if (bounds) {
+      crop = { ...bounds, x: area.x + bounds.x, y: area.y + bounds.y };
+    }
+  }
+
+  const rotation = resolveRotation(stages.rotation, crop.width, crop.height, stages.targetWidth);
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const rotatedWidth = quarterTurn ? crop.height : crop.width;
+  const rotatedHeight = quarterTurn ? crop.width : crop.height;
+  const width = stages.targetWidth ?? rotatedWidth;
+  const height = stages.targetWidth ? Math.round(stages.targetWidth * (rotatedHeight / rotatedWidth)) : rotatedHeight;
+
+  let canvas = source;
+  if (crop !== full || rotation !== 0 || width !== source.width || height !== source.height) {
+    canvas = createCanvas(width, height);
+    const ctx = get2d(canvas);
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+    drawRotated(ctx, source, crop, width, height, rotation);
+  }
+
+  const image = get2d(canvas).getImageData(0, 0, width, height);
+  const gray = adjustTone(toGrayLevels(image), width, height, stages);
+  const mode = stages.dithering === 'none' ? 'threshold' : stages.dithering;
+  const dithered = stages.dithering !== 'none';
+  const pixels = ditherGray(gray, width, height, mode, stages.monochromeThreshold);
+
+  // Show (and let the SDK print) exactly what the raster holds
+  if (dithered || hasToneAdjustments(stages)) {
+    const { data } = image;
+    for (let i = 0; i < pixels.length; i++) {
+      const level = dithered ? (pixels[i] ? 0 : 255) : gray[i];
+      data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = level;
+      data[i * 4 + 3] = 255;
+    }
+    if (canvas === source) {
+      canvas = createCanvas(width, height);
+    }
+    get2d(canvas).putImageData(image, 0, 0);
+  }
+
+  // Blank rows: no ink in the printed raster nor in the (gray) image
+  const blankRows = new Array<boolean>(height);
+  for (let y = 0; y < height; y++) {
+    let blank = true;
+    for (let i = y * width; blank && i < (y + 1) * width; i++) {
+      blank = !pixels[i] && gray[i] >= WHITE_THRESHOLD;
+    }
+    blankRows[y] = blank;
+  }
+
+  return {
+    canvas,
+    raster: packPixels(pixels, width, height),
+    bands: splitIntoBands(blankRows, stages.maxBandHeight),
+  };
+}
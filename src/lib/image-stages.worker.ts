@@ -0,0 +1,30 @@
+/**
+ * Image worker: runs the image stages of PDF page processing off the main thread
+ */
+
+import { applyImageStages, encodeBands, encodeBase64 } from './image-stages';
+import type { ImageStagesRequest, ImageStagesResponse } from './image-pipeline';
+
+const createCanvas = (width: number, height: number) => new OffscreenCanvas(width, height);
+
+async function handleRequest({ id, bitmap, stages }: ImageStagesRequest): Promise<void> {
+  try {
+    const source = createCanvas(bitmap.width, bitmap.height);
+    source.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const { canvas, raster, bands } = applyImageStages(source, stages, createCanvas);
+    const png = await canvas.convertToBlob({ type: 'image/png' });
+    const pageBands = encodeBands(raster, canvas.width, bands);
+    const image = canvas.transferToImageBitmap();
+    const response: ImageStagesResponse = { id, image, png, rasterBase64: encodeBase64(raster), bands: pageBands };
+    self.postMessage(response, { transfer: [image] });
+  } catch (err) {
+    const response: ImageStagesResponse = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(response);
+  }
+}
+
+self.onmessage = (event: MessageEvent<ImageStagesRequest>) => {
+  handleRequest(event.data);
+};
@@ -16,6 +16,9 @@
  */
 
 import type { PDFPageProxy } from 'pdfjs-dist';
+import type { DitheringMode } from './dithering';
+import { runImageStages } from './image-pipeline';
+import type { ImageRect, ImageStages, PageBand } from './image-stages';
 
 /** Cached pdfjs-dist module */
 let pdfjsLib: typeof import('pdfjs-dist') | null = null;
@@ -127,6 +130,67 @@ export function isPdfWorkerConfigured(): boolean {
   return !!(customWorkerSrc || pdfjsLib?.GlobalWorkerOptions.workerSrc);
 }
 
+/**
+ * Error thrown for a page range that can't be read
+ */
+export class PageRangeError extends Error {
+  /** The range as given */
+  readonly range: string;
+
+  constructor(range: string) {
+    super(`Invalid page range "${range}": use page numbers and ranges like "1-3,7" or "5-"`);
+    this.name = 'PageRangeError';
+    this.range = range;
+  }
+}
+
+/**
+ * Page numbers (1-based, ascending, without duplicates) selected by a page range.
+ * Pages beyond `totalPages` are ignored; an open range ("5-") runs to the last page.
+ *
+ * @throws {PageRangeError} If the range can't be read
+ *
+ * @example
+ * ```typescript
+ * parsePageRange('1-3,7', 10); // [1, 2, 3, 7]
+ * parsePageRange('8-', 10);    // [8, 9, 10]
+ * ```
+ */
+export function parsePageRange(range: string | number[], totalPages: number): number[] {
+  const pages = new Set<number>();
+  const add = (from: number, to: number) => {
+    for (let page = Math.max(1, from); page <= Math.min(to, totalPages); page++) {
+      pages.add(page);
+    }
+  };
+
+  if (Array.isArray(range)) {
+    range.forEach((page) => {
+      if (Number.isInteger(page)) add(page, page);
+    });
+  } else {
+    for (const part of range.split(',')) {
+      const match = /^\s*(\d+)\s*(?:(-)\s*(\d+)?\s*)?$/.exec(part);
+      if (!match) {
+        throw new PageRangeError(range);
+      }
+      const from = Number(match[1]);
+      const to = match[2] ? (match[3] ? Number(match[3]) : totalPages) : from;
+      if (from < 1 || to < from) {
+        throw new PageRangeError(range);
+      }
+      add(from, to);
+    }
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Clockwise rotation of a page, in degrees. 'auto' turns landscape content
+ * 90° when it would print noticeably smaller at the paper width.
+ */
+export type PageRotation = 'none' | 90 | 180 | 270 | 'auto';
+
 export interface PdfProcessingConfig {
   /** Enable PDF processing (trimming, scaling) */
   enabled: boolean;
@@ -143,16 +207,83 @@ export interface PdfProcessingConfig {
   scale?: number;
   /** Threshold for monochrome conversion (0-255, lower = darker) */
   monochromeThreshold?: number;
+  /** Clockwise rotation of the page content, applied after cropping and trimming */
+  rotation?: PageRotation;
+  /**
+   * Area of the page to keep, in PDF points (1/72 inch) from the top left
+   * corner of the page as displayed, or null for the whole page. Trimming
+   * then works inside it.
+   */
+  crop?: ImageRect | null;
+  /**
+   * Conversion to black and white:
+   * - 'none': the page stays gray (the SDK converts it with `halftone` when
+   *   printing the canvas); `rasterBase64` is thresholded at `monochromeThreshold`
+   * - any other mode: the canvas, the preview and `rasterBase64` are the same
+   *   dithered image, so what is shown is what prints
+   */
+  dithering?: DitheringMode | 'none';
+  /** Gamma applied before conversion (> 1 lightens, < 1 darkens) */
+  gamma?: number;
+  /** Contrast applied before conversion (> 1 more contrast, < 1 less) */
+  contrast?: number;
+  /** Sharpening applied before conversion (0 = off, 1 = strong) */
+  sharpen?: number;
+  /**
+   * Maximum height (dots) of the bands a page is printed in, cut on blank rows
+   * so text lines aren't split. 0 prints every page as a single image.
+   */
+  maxBandHeight?: number;
 }
 
+/** Settings that can be changed for single pages (see `PdfProcessingOptions.pageOverrides`) */
+export type PdfPageOverrides = Pick<PdfProcessingConfig, 'trimMargins' | 'monochromeThreshold' | 'rotation' | 'crop'>;
+
 export interface ProcessedPage {
+  /** Number of the page in its document (1-based) */
+  pageNumber: number;
   base64: string;
   width: number;
   height: number;
   rasterBase64: string;
+  /** Bands the page is printed in (one for short pages), top to bottom */
+  bands: PageBand[];
   canvas: HTMLCanvasElement;
 }
 
+export interface PdfProcessingProgress {
+  /** Number of the page just processed (1-based) */
+  page: number;
+  /** Pages in the document */
+  totalPages: number;
+  /** Pages processed so far, this one included */
+  processed: number;
+  /** Pages to process: the selected pages, or all of them */
+  total: number;
+}
+
+export interface PdfProcessingOptions {
+  /** Stops processing between pages: the promise rejects with an `AbortError` */
+  signal?: AbortSignal;
+  /** Called after every processed page */
+  onProgress?: (progress: PdfProcessingProgress) => void;
+  /**
+   * Trim, scale and convert pages in a Web Worker (`OffscreenCanvas`) to keep
+   * the page responsive; the main thread is used where workers can't. Default: true
+   */
+  useWorker?: boolean;
+  /**
+   * Pages to process (1-based), e.g. "1-3,7", "5-" or [1, 2, 3, 7]. Other pages
+   * aren't rendered. Default: all pages
+   */
+  pages?: string | number[];
+  /**
+   * Settings for single pages, by page number, over `config`
+   * (e.g. `{ 4: { monochromeThreshold: 120 } }`)
+   */
+  pageOverrides?: Record<number, PdfPageOverrides>;
+}
+
 /**
  * Default configuration for PDF processing
  */
@@ -167,156 +298,30 @@ export const DEFAULT_PDF_CONFIG: Required<PdfProcessingConfig> = {
   targetWidth: 576, // 80mm paper
   scale: 3,
   monochromeThreshold: 160,
+  rotation: 'none',
+  crop: null,
+  dithering: 'none',
+  gamma: 1,
+  contrast: 1,
+  sharpen: 0,
+  maxBandHeight: 1024,
 };
 
 /**
- * Trim white margins from a canvas
- */
-function trimCanvasMargins(
-  canvas: HTMLCanvasElement,
-  margins: { top: number; bottom: number; left: number; right: number }
-): HTMLCanvasElement {
-  const ctx = canvas.getContext('2d')!;
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const pixels = imageData.data;
-  const width = canvas.width;
-  const height = canvas.height;
-  
-  // Threshold to consider a pixel "white"
-  const whiteThreshold = 250;
-  
-  // Find content boundaries
-  let top = 0;
-  let bottom = height - 1;
-  let left = 0;
-  let right = width - 1;
-  
-  // Find top margin
-  topLoop: for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      if (pixels[idx] < whiteThreshold || pixels[idx + 1] < whiteThreshold || pixels[idx + 2] < whiteThreshold) {
-        top = y;
-        break topLoop;
-      }
-    }
-  }
-  
-  // Find bottom margin
-  bottomLoop: for (let y = height - 1; y >= 0; y--) {
-    for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      if (pixels[idx] < whiteThreshold || pixels[idx + 1] < whiteThreshold || pixels[idx + 2] < whiteThreshold) {
-        bottom = y;
-        break bottomLoop;
-      }
-    }
-  }
-  
-  // Find left margin
-  leftLoop: for (let x = 0; x < width; x++) {
-    for (let y = 0; y < height; y++) {
-      const idx = (y * width + x) * 4;
-      if (pixels[idx] < whiteThreshold || pixels[idx + 1] < whiteThreshold || pixels[idx + 2] < whiteThreshold) {
-        left = x;
-        break leftLoop;
-      }
-    }
-  }
-  
-  // Find right margin
-  rightLoop: for (let x = width - 1; x >= 0; x--) {
-    for (let y = 0; y < height; y++) {
-      const idx = (y * width + x) * 4;
-      if (pixels[idx] < whiteThreshold || pixels[idx + 1] < whiteThreshold || pixels[idx + 2] < whiteThreshold) {
-        right = x;
-        break rightLoop;
-      }
-    }
-  }
-  
-  // Apply configured margins
-  top = Math.max(0, top - margins.top);
-  bottom = Math.min(height - 1, bottom + margins.bottom);
-  left = Math.max(0, left - margins.left);
-  right = Math.min(width - 1, right + margins.right);
-  
-  const newWidth = right - left + 1;
-  const newHeight = bottom - top + 1;
-  
-  // If margins are minimal, return original
-  if (newWidth >= width - 10 && newHeight >= height - 10) {
-    return canvas;
-  }
-  
-  // Create cropped canvas
-  const croppedCanvas = document.createElement('canvas');
-  croppedCanvas.width = newWidth;
-  croppedCanvas.height = newHeight;
-  
-  const croppedCtx = croppedCanvas.getContext('2d')!;
-  croppedCtx.fillStyle = 'white';
-  croppedCtx.fillRect(0, 0, newWidth, newHeight);
-  croppedCtx.drawImage(canvas, left, top, newWidth, newHeight, 0, 0, newWidth, newHeight);
-  
-  return croppedCanvas;
-}
-
-/**
- * Convert canvas to monochrome raster data for ePOS Print
+ * Configuration of one page: `config` with the page's overrides, if any
+ * @internal
  */
-function canvasToRasterData(canvas: HTMLCanvasElement, threshold: number): string {
-  const ctx = canvas.getContext('2d')!;
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const pixels = imageData.data;
-  
-  // Width must be multiple of 8 for mono printing
-  const width = Math.ceil(canvas.width / 8) * 8;
-  const height = canvas.height;
-  
-  // Create binary array (1 bit per pixel, 8 pixels per byte)
-  const bytesPerLine = width / 8;
-  const rasterData = new Uint8Array(bytesPerLine * height);
-  
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const srcX = Math.min(x, canvas.width - 1);
-      const pixelIndex = (y * canvas.width + srcX) * 4;
-      
-      // Get grayscale value using luminance formula
-      const r = pixels[pixelIndex];
-      const g = pixels[pixelIndex + 1];
-      const b = pixels[pixelIndex + 2];
-      const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-      
-      // Convert to 1-bit (1 = black/print, 0 = white/no print)
-      const isBlack = gray < threshold ? 1 : 0;
-      
-      // Set bit in byte (MSB first)
-      const byteIndex = y * bytesPerLine + Math.floor(x / 8);
-      const bitIndex = 7 - (x % 8);
-      
-      if (isBlack) {
-        rasterData[byteIndex] |= (1 << bitIndex);
-      }
-    }
-  }
-  
-  // Convert to base64
-  let binary = '';
-  for (let i = 0; i < rasterData.length; i++) {
-    binary += String.fromCharCode(rasterData[i]);
-  }
-  return btoa(binary);
+export function getPageConfig(config: PdfProcessingConfig, overrides?: PdfPageOverrides): PdfProcessingConfig {
+  return overrides
+    ? { ...config, ...overrides, trimMargins: { ...config.trimMargins, ...overrides.trimMargins } }
+    : config;
 }
 
 /**
- * Process a PDF page to canvas with optional trimming and scaling
+ * Image stages of a page rendered at `renderScale` times its size in `crop` units
+ * @internal
  */
-export async function processPdfPage(
-  page: PDFPageProxy,
-  config: PdfProcessingConfig = DEFAULT_PDF_CONFIG
-): Promise<ProcessedPage> {
+export function getImageStages(config: PdfProcessingConfig, renderScale: number): ImageStages {
   const mergedConfig = {
     ...DEFAULT_PDF_CONFIG,
     ...config,
@@ -326,8 +331,40 @@ export async function processPdfPage(
     },
   };
 
+  const { crop, rotation } = mergedConfig;
+  return {
+    crop: crop
+      ? { x: crop.x * renderScale, y: crop.y * renderScale, width: crop.width * renderScale, height: crop.height * renderScale }
+      : null,
+    rotation: rotation === 'none' ? 0 : rotation,
+    trimMargins: mergedConfig.enabled
+      ? {
+        top: mergedConfig.trimMargins.top ?? 8,
+        bottom: mergedConfig.trimMargins.bottom ?? 8,
+        left: mergedConfig.trimMargins.left ?? 8,
+        right: mergedConfig.trimMargins.right ?? 8,
+      }
+      : null,
+    targetWidth: mergedConfig.enabled && mergedConfig.targetWidth ? mergedConfig.targetWidth : null,
+    monochromeThreshold: mergedConfig.monochromeThreshold,
+    dithering: mergedConfig.dithering,
+    gamma: mergedConfig.gamma,
+    contrast: mergedConfig.contrast,
+    sharpen: mergedConfig.sharpen,
+    maxBandHeight: mergedConfig.maxBandHeight || null,
+  };
+}
+
+/**
+ * Process a PDF page to canvas with optional trimming and scaling
+ */
+export async function processPdfPage(
+  page: PDFPageProxy,
+  config: PdfProcessingConfig = DEFAULT_PDF_CONFIG,
+  options: Pick<PdfProcessingOptions, 'useWorker'> = {}
+): Promise<ProcessedPage> {
   // Render at high resolution first
-  const renderScale = mergedConfig.scale;
+  const renderScale = config.scale ?? DEFAULT_PDF_CONFIG.scale;
   const highResViewport = page.getViewport({ scale: renderScale });
   
   const highResCanvas = document.createElement('canvas');
@@ -344,51 +381,61 @@ export async function processPdfPage(
     canvas: highResCanvas,
   }).promise;
 
-  let processedCanvas = highResCanvas;
-
-  // Apply trimming if enabled
-  if (mergedConfig.enabled) {
-    const margins = {
-      top: mergedConfig.trimMargins.top ?? 8,
-      bottom: mergedConfig.trimMargins.bottom ?? 8,
-      left: mergedConfig.trimMargins.left ?? 8,
-      right: mergedConfig.trimMargins.right ?? 8,
-    };
-    processedCanvas = trimCanvasMargins(processedCanvas, margins);
-  }
-
-  // Scale to target width if enabled
-  let finalCanvas = processedCanvas;
-  if (mergedConfig.enabled && mergedConfig.targetWidth) {
-    const targetWidth = mergedConfig.targetWidth;
-    const aspectRatio = processedCanvas.height / processedCanvas.width;
-    const targetHeight = Math.round(targetWidth * aspectRatio);
+  // Trim, scale to target width, convert, and generate the raster data and bands for printing
+  const staged = await runImageStages(highResCanvas, getImageStages(config, renderScale), options.useWorker);
+  return { pageNumber: page.pageNumber, ...staged };
+}
 
-    const scaledCanvas = document.createElement('canvas');
-    scaledCanvas.width = targetWidth;
-    scaledCanvas.height = targetHeight;
+/**
+ * Process the pages of a PDF file one at a time, as they are read.
+ *
+ * A page is only rendered when the next one is requested, so pages can be
+ * printed while the following ones render (see `EposPrintService.printPageStream()`).
+ * The PDF document is released when the loop ends or is left early.
+ *
+ * @remarks
+ * Requires `pdfjs-dist` to be installed.
+ *
+ * @param file - PDF file to process
+ * @param config - Processing configuration
+ * @param options - Abort signal, progress callback, page selection and per-page settings
+ * @throws {PdfJsNotInstalledError} If pdfjs-dist is not installed
+ * @throws {PageRangeError} If `options.pages` can't be read
+ * @throws {DOMException} `AbortError` if `options.signal` aborts
+ *
+ * @example
+ * ```typescript
+ * for await (const page of processPdfPages(file, config, { pages: '1-3,7' })) {
+ *   await service.printCanvas(page.canvas);
+ * }
+ * ```
+ */
+export async function* processPdfPages(
+  file: File,
+  config: PdfProcessingConfig = DEFAULT_PDF_CONFIG,
+  options: PdfProcessingOptions = {}
+): AsyncGenerator<ProcessedPage, void, undefined> {
+  const { signal, onProgress, useWorker, pageOverrides } = options;
+  signal?.throwIfAborted();
+  const pdfjs = await getPdfJs();
+  const arrayBuffer = await file.arrayBuffer();
+  const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
 
-    const scaledContext = scaledCanvas.getContext('2d')!;
-    scaledContext.fillStyle = 'white';
-    scaledContext.fillRect(0, 0, targetWidth, targetHeight);
-    scaledContext.drawImage(processedCanvas, 0, 0, targetWidth, targetHeight);
+  try {
+    const pageNumbers = options.pages === undefined
+      ? Array.from({ length: pdf.numPages }, (_, index) => index + 1)
+      : parsePageRange(options.pages, pdf.numPages);
 
-    finalCanvas = scaledCanvas;
+    for (const [index, pageNum] of pageNumbers.entries()) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(pageNum);
+      const processedPage = await processPdfPage(page, getPageConfig(config, pageOverrides?.[pageNum]), { useWorker });
+      onProgress?.({ page: pageNum, totalPages: pdf.numPages, processed: index + 1, total: pageNumbers.length });
+      yield processedPage;
+    }
+  } finally {
+    await pdf.destroy();
   }
-
-  // Generate base64 for preview
-  const base64 = finalCanvas.toDataURL('image/png');
-  
-  // Generate raster data for printing
-  const rasterBase64 = canvasToRasterData(finalCanvas, mergedConfig.monochromeThreshold);
-
-  return {
-    base64,
-    width: finalCanvas.width,
-    height: finalCanvas.height,
-    rasterBase64,
-    canvas: finalCanvas,
-  };
 }
 
 /**
@@ -402,8 +449,11 @@ export async function processPdfPage(
  * 
  * @param file - PDF file to process
  * @param config - Processing configuration
+ * @param options - Abort signal, progress callback, page selection and per-page settings
  * @returns Promise with array of processed pages
  * @throws {PdfJsNotInstalledError} If pdfjs-dist is not installed
+ * @throws {PageRangeError} If `options.pages` can't be read
+ * @throws {DOMException} `AbortError` if `options.signal` aborts
  * 
  * @example
  * ```typescript
@@ -412,22 +462,23 @@ export async function processPdfPage(
  *   targetWidth: 576, // 80mm paper
  *   trimMargins: { top: 10, bottom: 10, left: 5, right: 5 },
  * });
+ *
+ * // Redo page 4 only, darker and without its header
+ * const [page4] = await processPdfFile(file, config, {
+ *   pages: '4',
+ *   pageOverrides: { 4: { monochromeThreshold: 120, crop: { x: 0, y: 60, width: 612, height: 732 } } },
+ * });
+ * pages[page4.pageNumber - 1] = page4;
  * ```
  */
 export async function processPdfFile(
   file: File,
-  config: PdfProcessingConfig = DEFAULT_PDF_CONFIG
+  config: PdfProcessingConfig = DEFAULT_PDF_CONFIG,
+  options: PdfProcessingOptions = {}
 ): Promise<ProcessedPage[]> {
-  const pdfjs = await getPdfJs();
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-
   const pages: ProcessedPage[] = [];
-  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-    const page = await pdf.getPage(pageNum);
-    const processedPage = await processPdfPage(page, config);
-    pages.push(processedPage);
+  for await (const page of processPdfPages(file, config, options)) {
+    pages.push(page);
   }
-
   return pages;
 }
@@ -0,0 +1,343 @@
+/**
+ * Typed print errors
+ *
+ * `PrintResult.code` mixes library codes (`TIMEOUT`, `SDK_NOT_LOADED`...) with
+ * printer response codes (`EPTR_COVER_OPEN`, `EX_TIMEOUT`...). `decodePrintError()`
+ * turns a failed result into a `PrintError` that code can branch on, with
+ * whether retrying can succeed and what the operator should do.
+ */
+
+import { ASB_STATUS } from './asb-status';
+
+/**
+ * What the operator should do about an error
+ */
+export type PrintErrorAction =
+  | 'none'
+  | 'retry'
+  | 'wait_and_retry'
+  | 'reload_app'
+  | 'configure_printer'
+  | 'check_connection'
+  | 'check_device_id'
+  | 'select_device'
+  | 'change_browser'
+  | 'check_printer'
+  | 'close_cover'
+  | 'load_paper'
+  | 'insert_paper'
+  | 'remove_paper'
+  | 'charge_battery'
+  | 'clear_paper_jam'
+  | 'restart_printer'
+  | 'reduce_job_size'
+  | 'check_content'
+  | 'contact_support';
+
+export type PrintErrorType =
+  // Library
+  | 'sdk_not_loaded'
+  | 'sdk_error'
+  | 'not_configured'
+  | 'canvas_error'
+  | 'image_error'
+  | 'no_printers'
+  | 'aborted'
+  // Connection
+  | 'timeout'
+  | 'network_error'
+  | 'connection_error'
+  | 'device_in_use'
+  | 'device_not_found'
+  | 'device_not_selected'
+  | 'browser_not_supported'
+  | 'device_busy'
+  | 'no_response'
+  // Printer state (response codes and ASB status bits)
+  | 'offline'
+  | 'cover_open'
+  | 'paper_empty'
+  | 'paper_near_end'
+  | 'paper_pulled_out'
+  | 'slip_paper_empty'
+  | 'journal_paper_empty'
+  | 'waiting_for_paper_insertion'
+  | 'waiting_for_paper_removal'
+  | 'slip_not_selected'
+  | 'slip_cannot_print'
+  | 'validation_not_selected'
+  | 'validation_cannot_print'
+  | 'battery_offline'
+  | 'no_label'
+  | 'paper_feed'
+  | 'panel_switch'
+  | 'waiting_for_recovery'
+  | 'buzzer'
+  | 'cutter_error'
+  | 'mechanical_error'
+  | 'automatic_recovery'
+  | 'unrecoverable_error'
+  | 'spooler_stopped'
+  // ePOS-Print service
+  | 'printer_timeout'
+  | 'bad_port'
+  | 'printing'
+  | 'too_many_requests'
+  | 'request_too_large'
+  | 'job_not_found'
+  | 'schema_error'
+  | 'print_system_error'
+  | 'parameter_error'
+  | 'command_error'
+  | 'not_supported'
+  | 'system_error'
+  | 'cancelled'
+  | 'cancel_failed'
+  | 'unknown';
+
+/**
+ * Decoded print error, discriminated by `type`
+ *
+ * @example
+ * ```typescript
+ * const result = await service.printReceipt(doc);
+ * switch (result.error?.type) {
+ *   case 'cover_open':
+ *     return alert('Close the printer cover');
+ *   case 'paper_empty':
+ *     return alert('Load paper');
+ * }
+ * ```
+ */
+export type PrintError = {
+  [T in PrintErrorType]: {
+    type: T;
+    /** Code that produced the error (result code, or ASB bit name for status errors) */
+    code: string;
+    /** Retrying can succeed once the cause is gone, without changing the job or the setup */
+    recoverable: boolean;
+    /** Suggested operator action */
+    action: PrintErrorAction;
+    /** ASB status reported with the error, if any */
+    status?: number;
+  };
+}[PrintErrorType];
+
+const ERROR_INFO: Record<PrintErrorType, { recoverable: boolean; action: PrintErrorAction }> = {
+  sdk_not_loaded: { recoverable: true, action: 'reload_app' },
+  sdk_error: { recoverable: false, action: 'contact_support' },
+  not_configured: { recoverable: true, action: 'configure_printer' },
+  canvas_error: { recoverable: false, action: 'check_content' },
+  image_error: { recoverable: true, action: 'retry' },
+  no_printers: { recoverable: true, action: 'configure_printer' },
+  aborted: { recoverable: true, action: 'none' },
+  timeout: { recoverable: true, action: 'check_connection' },
+  network_error: { recoverable: true, action: 'check_connection' },
+  connection_error: { recoverable: true, action: 'check_connection' },
+  device_in_use: { recoverable: true, action: 'wait_and_retry' },
+  device_not_found: { recoverable: false, action: 'check_device_id' },
+  device_not_selected: { recoverable: true, action: 'select_device' },
+  browser_not_supported: { recoverable: false, action: 'change_browser' },
+  device_busy: { recoverable: true, action: 'wait_and_retry' },
+  no_response: { recoverable: true, action: 'check_connection' },
+  offline: { recoverable: true, action: 'check_printer' },
+  cover_open: { recoverable: true, action: 'close_cover' },
+  paper_empty: { recoverable: true, action: 'load_paper' },
+  paper_near_end: { recoverable: true, action: 'load_paper' },
+  paper_pulled_out: { recoverable: true, action: 'load_paper' },
+  slip_paper_empty: { recoverable: true, action: 'insert_paper' },
+  journal_paper_empty: { recoverable: true, action: 'load_paper' },
+  waiting_for_paper_insertion: { recoverable: true, action: 'insert_paper' },
+  waiting_for_paper_removal: { recoverable: true, action: 'remove_paper' },
+  slip_not_selected: { recoverable: true, action: 'check_printer' },
+  slip_cannot_print: { recoverable: true, action: 'insert_paper' },
+  validation_not_selected: { recoverable: true, action: 'check_printer' },
+  validation_cannot_print: { recoverable: true, action: 'insert_paper' },
+  battery_offline: { recoverable: true, action: 'charge_battery' },
+  no_label: { recoverable: true, action: 'load_paper' },
+  paper_feed: { recoverable: true, action: 'wait_and_retry' },
+  panel_switch: { recoverable: true, action: 'wait_and_retry' },
+  waiting_for_recovery: { recoverable: true, action: 'wait_and_retry' },
+  buzzer: { recoverable: true, action: 'check_printer' },
+  cutter_error: { recoverable: true, action: 'clear_paper_jam' },
+  mechanical_error: { recoverable: true, action: 'restart_printer' },
+  automatic_recovery: { recoverable: true, action: 'wait_and_retry' },
+  unrecoverable_error: { recoverable: false, action: 'restart_printer' },
+  spooler_stopped: { recoverable: true, action: 'check_printer' },
+  printer_timeout: { recoverable: true, action: 'check_printer' },
+  bad_port: { recoverable: false, action: 'check_printer' },
+  printing: { recoverable: true, action: 'wait_and_retry' },
+  too_many_requests: { recoverable: true, action: 'wait_and_retry' },
+  request_too_large: { recoverable: false, action: 'reduce_job_size' },
+  job_not_found: { recoverable: false, action: 'none' },
+  schema_error: { recoverable: false, action: 'contact_support' },
+  print_system_error: { recoverable: false, action: 'restart_printer' },
+  parameter_error: { recoverable: false, action: 'contact_support' },
+  command_error: { recoverable: false, action: 'contact_support' },
+  not_supported: { recoverable: false, action: 'contact_support' },
+  system_error: { recoverable: false, action: 'restart_printer' },
+  cancelled: { recoverable: true, action: 'retry' },
+  // The job may still print: check before sending it again
+  cancel_failed: { recoverable: false, action: 'check_printer' },
+  unknown: { recoverable: false, action: 'contact_support' },
+};
+
+/** Result codes (library, transports and ePOS SDK) by error type */
+const CODE_TYPES: Record<string, PrintErrorType> = {
+  SDK_NOT_LOADED: 'sdk_not_loaded',
+  SDK_ERROR: 'sdk_error',
+  NOT_CONFIGURED: 'not_configured',
+  CANVAS_ERROR: 'canvas_error',
+  IMAGE_ERROR: 'image_error',
+  NO_PRINTERS: 'no_printers',
+  ABORTED: 'aborted',
+  TIMEOUT: 'timeout',
+  NETWORK_ERROR: 'network_error',
+  CONNECTION_ERROR: 'connection_error',
+  DEVICE_IN_USE: 'device_in_use',
+  DEVICE_NOT_FOUND: 'device_not_found',
+  DeviceNotFound: 'device_not_found',
+  ERROR_DEVICE_NOT_FOUND: 'device_not_found',
+  DEVICE_NOT_SELECTED: 'device_not_selected',
+  API_NOT_SUPPORTED: 'browser_not_supported',
+  ERROR_DEVICE_BUSY: 'device_busy',
+  EX_ENPC_TIMEOUT: 'device_busy',
+  EPTR_COVER_OPEN: 'cover_open',
+  ERROR_COVER_OPEN: 'cover_open',
+  EPTR_REC_EMPTY: 'paper_empty',
+  EPTR_PAPER_PULLED_OUT: 'paper_pulled_out',
+  EPTR_CUTTER: 'cutter_error',
+  EPTR_MECHANICAL: 'mechanical_error',
+  EPTR_AUTOMATICAL: 'automatic_recovery',
+  ERROR_AUTOMATICAL: 'automatic_recovery',
+  EPTR_UNRECOVERABLE: 'unrecoverable_error',
+  ERROR_UNRECOVERABLE: 'unrecoverable_error',
+  EX_SPOOLER: 'spooler_stopped',
+  EX_TIMEOUT: 'printer_timeout',
+  ERROR_TIMEOUT: 'printer_timeout',
+  EX_BADPORT: 'bad_port',
+  ERROR_BADPORT: 'bad_port',
+  Printing: 'printing',
+  TooManyRequests: 'too_many_requests',
+  RequestEntityTooLarge: 'request_too_large',
+  JobNotFound: 'job_not_found',
+  SchemaError: 'schema_error',
+  EPTR_SCHEMAERROR: 'schema_error',
+  PrintSystemError: 'print_system_error',
+  EPTR_PRINT_SYSTEM_ERROR: 'print_system_error',
+  ERROR_PARAMETER: 'parameter_error',
+  ERROR_PARAMMETER: 'parameter_error',
+  ERROR_COMMAND: 'command_error',
+  ERROR_NOT_SUPPORTED: 'not_supported',
+  NOT_SUPPORTED: 'not_supported',
+  SYSTEM_ERROR: 'system_error',
+  CANCEL: 'cancelled',
+  ERROR_CANCEL_FAILED: 'cancel_failed',
+};
+
+/**
+ * Kind of printer reporting an ASB status, for the bits whose meaning depends
+ * on it (see `ASB_STATUS`)
+ */
+export type AsbPrinterKind = 'receipt' | 'slip' | 'label' | 'mobile';
+
+/**
+ * ASB bits that describe a problem, most severe first.
+ * PRINT_SUCCESS only reports state and is left out, as is DRAWER_KICK
+ * except on mobile printers, where the bit means BATTERY_OFFLINE.
+ */
+function getStatusTypes(printer: AsbPrinterKind): [keyof typeof ASB_STATUS, PrintErrorType][] {
+  const battery: [keyof typeof ASB_STATUS, PrintErrorType][] =
+    printer === 'mobile' ? [['BATTERY_OFFLINE', 'battery_offline']] : [];
+  return [
+    ['NO_RESPONSE', 'no_response'],
+    ...battery,
+    ['UNRECOVER_ERR', 'unrecoverable_error'],
+    ['MECHANICAL_ERR', 'mechanical_error'],
+    ['AUTOCUTTER_ERR', 'cutter_error'],
+    ['COVER_OPEN', 'cover_open'],
+    ['RECEIPT_END', 'paper_empty'],
+    ['TOF_NOPAPER', 'slip_paper_empty'],
+    ['BOF_NOPAPER', 'slip_paper_empty'],
+    ['EJD_NOPAPER', 'journal_paper_empty'],
+    printer === 'slip' ? ['VALIDATION_NO_SELECT', 'validation_not_selected'] : ['NO_LABEL', 'no_label'],
+    ['SLIP_IMPOSSIBLE_PRINT', 'slip_cannot_print'],
+    ['VALIDATION_IMPOSSIBLE_PRINT', 'validation_cannot_print'],
+    ['AUTORECOVER_ERR', 'automatic_recovery'],
+    ['SPOOLER_IS_STOPPED', 'spooler_stopped'],
+    ['OFF_LINE', 'offline'],
+    ['WAIT_ON_LINE', 'waiting_for_recovery'],
+    ['INSERTION_WAIT_PAPER', 'waiting_for_paper_insertion'],
+    ['REMOVAL_WAIT_PAPER', 'waiting_for_paper_removal'],
+    printer === 'slip'
+      ? ['SLIP_NO_SELECT', 'slip_not_selected']
+      : printer === 'label'
+        ? ['WAIT_REMOVE_LABEL', 'waiting_for_paper_removal']
+        : ['BUZZER', 'buzzer'],
+    ['PAPER_FEED', 'paper_feed'],
+    ['PANEL_SWITCH', 'panel_switch'],
+    ['RECEIPT_NEAR_END', 'paper_near_end'],
+  ];
+}
+
+/**
+ * Create a print error of a given type
+ */
+export function createPrintError<T extends PrintErrorType>(
+  type: T,
+  code: string,
+  status?: number
+): Extract<PrintError, { type: T }> {
+  return {
+    type,
+    code,
+    ...ERROR_INFO[type],
+    ...(status !== undefined ? { status } : {}),
+  } as Extract<PrintError, { type: T }>;
+}
+
+/**
+ * Problems reported by an ASB status bitmask, most severe first.
+ * `printer` picks the meaning of the bits that depend on it (default: 'receipt').
+ *
+ * @example
+ * ```typescript
+ * getStatusErrors(result.status).map((e) => e.type); // ['cover_open', 'offline']
+ * ```
+ */
+export function getStatusErrors(status: number | undefined, printer: AsbPrinterKind = 'receipt'): PrintError[] {
+  if (!status) return [];
+  return getStatusTypes(printer)
+    .filter(([bit]) => (status & ASB_STATUS[bit]) !== 0)
+    .map(([bit, type]) => createPrintError(type, bit, status));
+}
+
+/**
+ * Decode a failed print result. Returns null for successful results.
+ *
+ * Known result codes map to their own type. Otherwise the most severe problem
+ * in the ASB status is used, and 'unknown' if there is none. `printer` picks
+ * the meaning of the ASB bits that depend on it (default: 'receipt').
+ */
+export function decodePrintError(
+  result: { success: boolean; code?: string; status?: number },
+  printer: AsbPrinterKind = 'receipt'
+): PrintError | null {
+  if (result.success) return null;
+
+  const { code } = result;
+  if (code && Object.prototype.hasOwnProperty.call(CODE_TYPES, code)) {
+    return createPrintError(CODE_TYPES[code], code, result.status);
+  }
+  return getStatusErrors(result.status, printer)[0] ?? createPrintError('unknown', result.code ?? '', result.status);
+}
+
+/**
+ * Add the decoded `error` to a failed print result
+ */
+export function withPrintError<T extends { success: boolean; code?: string; status?: number }>(
+  result: T
+): T & { error?: PrintError } {
+  const printError = decodePrintError(result);
+  return printError ? { ...result, error: printError } : result;
+}
@@ -0,0 +1,373 @@
+/**
+ * Print job tracking: send jobs with our own IDs and follow them until the
+ * printer reports them printed or failed
+ * - Job records are persisted, so jobs in flight are followed again after a reload
+ * - Unsettled jobs are resolved with `getPrintJobStatus()`
+ * - Settled records are kept as a log of what printed and what didn't
+ */
+
+import type { EposPrintService } from './epos-print';
+import { debug, warn, error } from './logger';
+import { IndexedDBQueueStorage, MemoryQueueStorage } from './print-queue';
+import type { PrintQueueStorage } from './print-queue';
+import type { PrintOperationOptions, PrintResult } from '../types';
+
+/**
+ * - 'queued': sent, or about to be; the printer hasn't answered yet
+ * - 'printing': the printer reports the job is still printing
+ * - 'printed': the printer reports the job printed
+ * - 'error': the printer reports the job failed, or doesn't know it
+ */
+export type TrackedJobState = 'queued' | 'printing' | 'printed' | 'error';
+
+export interface TrackedPrintJob {
+  /** Print job ID sent to the printer */
+  id: string;
+  /** Optional label to identify the job (e.g. "Receipt #123") */
+  label?: string;
+  state: TrackedJobState;
+  /** Creation time (ms since epoch) */
+  createdAt: number;
+  /** Time of the last state change (ms since epoch) */
+  updatedAt: number;
+  /** Result of the print request or of the last status query */
+  lastResult?: PrintResult;
+}
+
+export interface PrintJobTrackerOptions {
+  /** Interval (ms) between status queries of unsettled jobs while started. Default: 5000 */
+  pollInterval?: number;
+  /** Settled jobs kept in the log, oldest removed first. Default: 500 */
+  maxJobs?: number;
+  /** Storage backend. Default: IndexedDB (in-memory when IndexedDB is unavailable) */
+  storage?: PrintQueueStorage<TrackedPrintJob>;
+  /** IndexedDB database name used by the default storage. Default: 'epson-print-jobs' */
+  storageKey?: string;
+}
+
+export interface TrackedPrintOptions {
+  /** Job ID. Default: a new `createPrintJobId()` */
+  id?: string;
+  label?: string;
+  /** Stops waiting for the print request; the job is then resolved by status queries */
+  signal?: AbortSignal;
+}
+
+/** Sends a tracked job: pass `options` (with the job ID) to the print method */
+export type TrackedPrintFn = (
+  options: PrintOperationOptions,
+  service: EposPrintService
+) => Promise<PrintResult>;
+
+const DEFAULT_STORAGE_KEY = 'epson-print-jobs';
+
+/** Result codes that say nothing about the job: the printer couldn't be asked */
+const UNKNOWN_OUTCOME_CODES = [
+  'TIMEOUT',
+  'NETWORK_ERROR',
+  'CONNECTION_ERROR',
+  'ABORTED',
+  'SDK_NOT_LOADED',
+  'SDK_ERROR',
+  'NOT_SUPPORTED',
+];
+
+const JOB_ID_PATTERN = /^[A-Za-z0-9_.-]{1,30}$/;
+
+/**
+ * Whether a print job ID is accepted by ePOS-Print (1-30 letters, digits, '_', '.' or '-')
+ */
+export function isValidPrintJobId(printjobid: string): boolean {
+  return JOB_ID_PATTERN.test(printjobid);
+}
+
+/**
+ * Create a print job ID that is unique enough to find the job later (e.g. "m1x2y3z4-a8k2p0")
+ */
+export function createPrintJobId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8).padEnd(6, '0')}`;
+}
+
+/**
+ * Job state told by a print or status query result, or null if the result
+ * doesn't tell (the printer couldn't be asked)
+ */
+export function getTrackedJobState(result: PrintResult): TrackedJobState | null {
+  if (result.success) {
+    return 'printed';
+  }
+  if (result.code === 'Printing') {
+    return 'printing';
+  }
+  return UNKNOWN_OUTCOME_CODES.includes(result.code ?? '') ? null : 'error';
+}
+
+function isSettled(job: TrackedPrintJob): boolean {
+  return job.state === 'printed' || job.state === 'error';
+}
+
+/**
+ * Tracks print jobs by ID until the printer reports how they ended.
+ *
+ * A job is 'queued' until the printer answers its print request. When the
+ * answer is lost (timeout, dropped connection, aborted request, page reload),
+ * the job stays unsettled and `getPrintJobStatus()` is asked every
+ * `pollInterval` while started, until the printer reports it printed or failed.
+ * Persisted jobs are loaded by the first call that needs them, not on creation.
+ *
+ * @example
+ * ```typescript
+ * const service = new EposPrintService({ printerIP: '192.168.1.100' });
+ * const tracker = new PrintJobTracker(service);
+ * tracker.start();
+ *
+ * const job = await tracker.print((options) => service.printReceipt(doc, options), { label: 'Receipt #123' });
+ * console.log(job.id, job.state); // 'm1x2y3z4-a8k2p0' 'printed'
+ *
+ * tracker.subscribe(() => console.log(tracker.getJobs()));
+ * ```
+ */
+export class PrintJobTracker {
+  private service: EposPrintService;
+  private storage: PrintQueueStorage<TrackedPrintJob>;
+  private options: Required<Omit<PrintJobTrackerOptions, 'storage' | 'storageKey'>>;
+  private jobs: TrackedPrintJob[] = [];
+  private snapshot: readonly TrackedPrintJob[] = [];
+  private listeners = new Set<() => void>();
+  /** Loading of persisted jobs, started by the first call that needs them */
+  private readyPromise: Promise<void> | null = null;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  /** Jobs whose print request is still waiting for an answer */
+  private sending = new Set<string>();
+
+  constructor(service: EposPrintService, options: PrintJobTrackerOptions = {}) {
+    this.service = service;
+    this.storage = options.storage ?? (IndexedDBQueueStorage.isAvailable()
+      ? new IndexedDBQueueStorage<TrackedPrintJob>(options.storageKey ?? DEFAULT_STORAGE_KEY)
+      : new MemoryQueueStorage<TrackedPrintJob>());
+    this.options = {
+      pollInterval: options.pollInterval ?? 5000,
+      maxJobs: options.maxJobs ?? 500,
+    };
+  }
+
+  /**
+   * Load persisted jobs
+   */
+  private async restore(): Promise<void> {
+    try {
+      // Unsettled jobs are picked up by the next status query
+      this.jobs = await this.storage.load();
+      debug('PrintJobTracker: restored jobs:', this.jobs.length);
+      this.emit();
+    } catch (err) {
+      error('PrintJobTracker: failed to load persisted jobs:', err);
+    }
+  }
+
+  /**
+   * Load persisted jobs (once). Resolves when they have been loaded
+   */
+  ready(): Promise<void> {
+    this.readyPromise ??= this.restore();
+    return this.readyPromise;
+  }
+
+  /**
+   * Subscribe to job changes. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Tracked jobs, oldest first (immutable snapshot, safe for `useSyncExternalStore`)
+   */
+  getJobs = (): readonly TrackedPrintJob[] => {
+    return this.snapshot;
+  };
+
+  /**
+   * A tracked job by ID
+   */
+  getJob(id: string): TrackedPrintJob | undefined {
+    return this.snapshot.find((job) => job.id === id);
+  }
+
+  private emit(): void {
+    this.snapshot = this.jobs.map((job) => ({ ...job }));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async persist(job: TrackedPrintJob): Promise<void> {
+    try {
+      await this.storage.save(job);
+    } catch (err) {
+      error('PrintJobTracker: failed to persist job:', err);
+    }
+  }
+
+  private async forget(id: string): Promise<void> {
+    try {
+      await this.storage.remove(id);
+    } catch (err) {
+      error('PrintJobTracker: failed to remove job from storage:', err);
+    }
+  }
+
+  /**
+   * Record a result of a job: its state changes only if the result tells
+   */
+  private async update(job: TrackedPrintJob, result: PrintResult): Promise<void> {
+    const state = getTrackedJobState(result);
+    job.lastResult = result;
+    if (state !== null && state !== job.state) {
+      debug(`PrintJobTracker: job ${job.id}:`, job.state, '->', state);
+      job.state = state;
+      job.updatedAt = Date.now();
+    }
+    this.emit();
+    await this.persist(job);
+  }
+
+  /**
+   * Remove the oldest settled jobs beyond `maxJobs`
+   */
+  private async prune(): Promise<void> {
+    const settled = this.jobs.filter(isSettled);
+    const excess = settled.slice(0, Math.max(0, settled.length - this.options.maxJobs));
+    if (excess.length === 0) return;
+    this.jobs = this.jobs.filter((job) => !excess.includes(job));
+    this.emit();
+    await Promise.all(excess.map((job) => this.forget(job.id)));
+  }
+
+  /**
+   * Start following a job sent elsewhere (e.g. by another tab or a server)
+   */
+  async track(id: string, label?: string): Promise<TrackedPrintJob> {
+    if (!isValidPrintJobId(id)) {
+      throw new Error(`Invalid print job ID "${id}"`);
+    }
+    await this.ready();
+    const existing = this.jobs.find((job) => job.id === id);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const now = Date.now();
+    const job: TrackedPrintJob = { id, label, state: 'queued', createdAt: now, updatedAt: now };
+    this.jobs.push(job);
+    this.emit();
+    await this.persist(job);
+    return { ...job };
+  }
+
+  /**
+   * Send a job with a print job ID and track it.
+   * Resolves with the job once the print request is answered (or given up).
+   *
+   * @example
+   * ```typescript
+   * const job = await tracker.print((options) => service.printCanvas(canvas, options), { label: 'Label #7' });
+   * ```
+   */
+  async print(send: TrackedPrintFn, options: TrackedPrintOptions = {}): Promise<TrackedPrintJob> {
+    const { id = createPrintJobId(), label, signal } = options;
+    await this.track(id, label);
+    const job = this.jobs.find((j) => j.id === id)!;
+
+    let result: PrintResult;
+    this.sending.add(id);
+    try {
+      result = await send({ printjobid: id, signal }, this.service);
+    } catch (err) {
+      // The request may have left before failing: leave the outcome to status queries
+      error(`PrintJobTracker: job ${id} failed to send:`, err);
+      return { ...job };
+    } finally {
+      this.sending.delete(id);
+    }
+    await this.update(job, result);
+    await this.prune();
+    return { ...job };
+  }
+
+  /**
+   * Ask the printer about unsettled jobs now (or about one of them).
+   * Jobs whose print request is still waiting for an answer are skipped.
+   */
+  async refresh(id?: string): Promise<readonly TrackedPrintJob[]> {
+    await this.ready();
+    const jobs = this.jobs.filter(
+      (job) => !isSettled(job) && !this.sending.has(job.id) && (id === undefined || job.id === id)
+    );
+
+    // One at a time: printers serve a few connections only
+    for (const job of jobs) {
+      const result = await this.service.getPrintJobStatus(job.id);
+      if (result.code === 'NOT_SUPPORTED') {
+        warn('PrintJobTracker: the printer keeps no job history; stopping status queries');
+        this.stop();
+        break;
+      }
+      await this.update(job, result);
+    }
+    await this.prune();
+    return this.snapshot;
+  }
+
+  /**
+   * Remove a job from the log
+   */
+  async remove(id: string): Promise<void> {
+    this.jobs = this.jobs.filter((job) => job.id !== id);
+    this.emit();
+    await this.forget(id);
+  }
+
+  /**
+   * Remove all printed and failed jobs from the log
+   */
+  async clearSettled(): Promise<void> {
+    const settled = this.jobs.filter(isSettled);
+    this.jobs = this.jobs.filter((job) => !isSettled(job));
+    this.emit();
+    await Promise.all(settled.map((job) => this.forget(job.id)));
+  }
+
+  /**
+   * Query unsettled jobs now and then every `pollInterval`
+   */
+  start(): void {
+    if (this.timerId !== null) return;
+    debug('PrintJobTracker: started');
+    this.timerId = setInterval(() => this.poll(), this.options.pollInterval);
+    this.poll();
+  }
+
+  /**
+   * Stop status queries. Jobs stay in storage.
+   */
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+      debug('PrintJobTracker: stopped');
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      await this.refresh();
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,557 @@
+/**
+ * Persistent print job queue for EposPrintService
+ * - Jobs are stored as ePOS-Print XML so they survive page reloads
+ * - Retries with exponential backoff on connection errors
+ * - Drains automatically once `checkConnection()` succeeds again
+ */
+
+import type { EposPrintService } from './epos-print';
+import { debug, warn, error } from './logger';
+import type { ReceiptDocument } from './receipt-document';
+import type {
+  PrintResult,
+  PrintBuilderFn,
+  PrintPage,
+  PrintPagesOptions,
+  XmlBuildResult,
+} from '../types';
+
+export type PrintJobState = 'pending' | 'active' | 'failed';
+
+export interface PrintJob {
+  /** Unique job identifier */
+  id: string;
+  /** Optional label to identify the job in the UI (e.g. "Ticket #123") */
+  label?: string;
+  /** ePOS-Print XML request sent to the printer */
+  xml: string;
+  state: PrintJobState;
+  /** Number of send attempts made so far */
+  attempts: number;
+  /** Creation time (ms since epoch) */
+  createdAt: number;
+  /** Earliest time (ms since epoch) the job may be sent again */
+  nextAttemptAt: number;
+  /** Result of the last attempt, if any */
+  lastResult?: PrintResult;
+}
+
+/** What the built-in storages need from a record */
+export interface StoredRecord {
+  id: string;
+  /** Creation time (ms since epoch), the order records are loaded in */
+  createdAt: number;
+}
+
+/**
+ * Storage backend for queued jobs (also used for the records of `PrintJobTracker`)
+ */
+export interface PrintQueueStorage<T extends StoredRecord = PrintJob> {
+  load(): Promise<T[]>;
+  save(job: T): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface PrintQueueOptions {
+  /** Maximum send attempts before a job is marked as failed. Default: 5 */
+  maxAttempts?: number;
+  /** Delay (ms) before the first retry, doubled on every attempt. Default: 2000 */
+  retryDelay?: number;
+  /** Maximum delay (ms) between retries. Default: 60000 */
+  maxRetryDelay?: number;
+  /** Interval (ms) between connection checks while the printer is offline. Default: 15000 */
+  connectionCheckInterval?: number;
+  /** Storage backend. Default: IndexedDB (in-memory when IndexedDB is unavailable) */
+  storage?: PrintQueueStorage;
+  /** IndexedDB database name used by the default storage. Default: 'epson-print-queue' */
+  storageKey?: string;
+}
+
+/** Result codes that mean the printer was unreachable and the job can be retried */
+const RETRYABLE_CODES = ['TIMEOUT', 'NETWORK_ERROR', 'CONNECTION_ERROR'];
+
+const DEFAULT_STORAGE_KEY = 'epson-print-queue';
+
+/**
+ * Jobs being sent by a queue of this page, by job ID. Settles once the
+ * outcome is in storage, even if the queue sending it was stopped meanwhile.
+ */
+const sendingJobs = new Map<string, Promise<void>>();
+
+/**
+ * Check whether a failed result is worth retrying later
+ */
+export function isRetryableResult(result: PrintResult): boolean {
+  return !result.success && RETRYABLE_CODES.includes(result.code ?? '');
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed job storage (one database per queue)
+ */
+export class IndexedDBQueueStorage<T extends StoredRecord = PrintJob> implements PrintQueueStorage<T> {
+  private static readonly STORE = 'jobs';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private dbName: string;
+
+  constructor(dbName: string = DEFAULT_STORAGE_KEY) {
+    this.dbName = dbName;
+  }
+
+  /**
+   * Check if IndexedDB is available in the current environment
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBQueueStorage.STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(IndexedDBQueueStorage.STORE, mode).objectStore(IndexedDBQueueStorage.STORE);
+  }
+
+  async load(): Promise<T[]> {
+    const store = await this.store('readonly');
+    const jobs = await promisifyRequest(store.getAll() as IDBRequest<T[]>);
+    return jobs.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async save(job: T): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.put(job));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.delete(id));
+  }
+}
+
+/**
+ * Non-persistent job storage (used when IndexedDB is unavailable)
+ */
+export class MemoryQueueStorage<T extends StoredRecord = PrintJob> implements PrintQueueStorage<T> {
+  private jobs = new Map<string, T>();
+
+  async load(): Promise<T[]> {
+    return [...this.jobs.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async save(job: T): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async remove(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
+
+function createJobId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Print queue with persistence, retry and offline spooling.
+ *
+ * Jobs are sent one at a time in FIFO order so receipts keep their sequence.
+ * When a send fails with `TIMEOUT`, `NETWORK_ERROR` or `CONNECTION_ERROR`, the
+ * queue pauses, polls `checkConnection()` and resumes once the printer answers.
+ * Any other failure (e.g. cover open, out of paper) marks the job as failed so
+ * it can be retried manually with `retry()`.
+ *
+ * Creating a queue has no side effects: persisted jobs are loaded by the
+ * first `start()` or `ready()`.
+ *
+ * @example
+ * ```typescript
+ * const service = new EposPrintService({ printerIP: '192.168.1.100' });
+ * const queue = new PrintQueue(service);
+ * queue.start();
+ *
+ * await queue.enqueue((builder) => {
+ *   builder.addText('Ticket #123\n');
+ *   builder.addCut('feed');
+ * }, 'Ticket #123');
+ * ```
+ */
+export class PrintQueue {
+  private service: EposPrintService;
+  private storage: PrintQueueStorage;
+  private options: Required<Omit<PrintQueueOptions, 'storage' | 'storageKey'>>;
+  private jobs: PrintJob[] = [];
+  private snapshot: readonly PrintJob[] = [];
+  private listeners = new Set<() => void>();
+  /** Loading of persisted jobs, started by the first `start()` or `ready()` */
+  private readyPromise: Promise<void> | null = null;
+  private running = false;
+  private processing = false;
+  private online = true;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(service: EposPrintService, options: PrintQueueOptions = {}) {
+    this.service = service;
+    this.storage = options.storage ?? (IndexedDBQueueStorage.isAvailable()
+      ? new IndexedDBQueueStorage(options.storageKey ?? DEFAULT_STORAGE_KEY)
+      : new MemoryQueueStorage());
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      retryDelay: options.retryDelay ?? 2000,
+      maxRetryDelay: options.maxRetryDelay ?? 60000,
+      connectionCheckInterval: options.connectionCheckInterval ?? 15000,
+    };
+  }
+
+  /**
+   * Load persisted jobs. Jobs that were being sent when the page closed
+   * are put back as pending, since we don't know if they printed. Jobs
+   * another queue of this page is still sending stay active until it is done.
+   */
+  private async restore(): Promise<void> {
+    try {
+      const stored = await this.storage.load();
+      const restored = stored.map((job) => {
+        const sending = sendingJobs.get(job.id);
+        if (sending) {
+          sending.then(() => this.adopt(job.id));
+          return { ...job, state: 'active' as const };
+        }
+        return job.state === 'active' ? { ...job, state: 'pending' as const } : job;
+      });
+      // Keep jobs enqueued while loading after the restored ones
+      this.jobs = [...restored, ...this.jobs.filter((job) => !restored.some((r) => r.id === job.id))];
+      debug('PrintQueue: restored jobs:', restored.length);
+      this.emit();
+    } catch (err) {
+      error('PrintQueue: failed to load persisted jobs:', err);
+    }
+  }
+
+  /**
+   * Take over a job another queue has finished sending, as it left it in storage
+   */
+  private async adopt(id: string): Promise<void> {
+    try {
+      const stored = (await this.storage.load()).find((job) => job.id === id);
+      // Still active if the other queue couldn't store the outcome
+      const adopted = stored?.state === 'active' ? { ...stored, state: 'pending' as const } : stored;
+      this.jobs = adopted
+        ? this.jobs.map((job) => (job.id === id ? adopted : job))
+        : this.jobs.filter((job) => job.id !== id);
+      this.emit();
+      this.schedule(0);
+    } catch (err) {
+      error('PrintQueue: failed to load job sent by another queue:', err);
+    }
+  }
+
+  /**
+   * Load persisted jobs (once). Resolves when they have been loaded
+   */
+  ready(): Promise<void> {
+    this.readyPromise ??= this.restore();
+    return this.readyPromise;
+  }
+
+  /**
+   * Subscribe to job list changes. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current job list (immutable snapshot, safe for `useSyncExternalStore`)
+   */
+  getJobs = (): readonly PrintJob[] => {
+    return this.snapshot;
+  };
+
+  /**
+   * Whether the last send or connection check reached the printer
+   */
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  private emit(): void {
+    this.snapshot = this.jobs.map((job) => ({ ...job }));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async persist(job: PrintJob): Promise<void> {
+    try {
+      await this.storage.save(job);
+    } catch (err) {
+      error('PrintQueue: failed to persist job:', err);
+    }
+  }
+
+  private async forget(id: string): Promise<void> {
+    try {
+      await this.storage.remove(id);
+    } catch (err) {
+      error('PrintQueue: failed to remove job from storage:', err);
+    }
+  }
+
+  /**
+   * Start processing jobs
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    debug('PrintQueue: started');
+    this.ready().then(() => this.schedule(0));
+  }
+
+  /**
+   * Stop processing jobs. Pending jobs stay in storage.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    debug('PrintQueue: stopped');
+  }
+
+  /**
+   * Add an already built ePOS-Print XML request to the queue
+   */
+  async enqueueXml(xml: string, label?: string): Promise<PrintJob> {
+    const now = Date.now();
+    const job: PrintJob = {
+      id: createJobId(),
+      label,
+      xml,
+      state: 'pending',
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+    };
+    this.jobs.push(job);
+    this.emit();
+    await this.persist(job);
+    debug('PrintQueue: job enqueued:', job.id);
+    if (this.online) {
+      this.schedule(0);
+    }
+    return { ...job };
+  }
+
+  /**
+   * Add custom builder commands to the queue
+   * @throws {Error} If the request can't be built (e.g. SDK not loaded)
+   */
+  async enqueue(buildFn: PrintBuilderFn, label?: string): Promise<PrintJob> {
+    return this.enqueueBuilt(await this.service.buildXml(buildFn), label);
+  }
+
+  /**
+   * Add a canvas to the queue
+   * @throws {Error} If the request can't be built (e.g. SDK not loaded)
+   */
+  async enqueueCanvas(canvas: HTMLCanvasElement, label?: string): Promise<PrintJob> {
+    return this.enqueueBuilt(await this.service.buildCanvasXml(canvas), label);
+  }
+
+  /**
+   * Add multiple pages to the queue
+   * @throws {Error} If the request can't be built (e.g. SDK not loaded)
+   */
+  async enqueuePages(
+    canvases: PrintPage[],
+    options?: PrintPagesOptions,
+    label?: string
+  ): Promise<PrintJob> {
+    return this.enqueueBuilt(await this.service.buildPagesXml(canvases, options), label);
+  }
+
+  /**
+   * Add a receipt document to the queue
+   * @throws {Error} If the request can't be built (e.g. SDK not loaded)
+   */
+  async enqueueReceipt(doc: ReceiptDocument, label?: string): Promise<PrintJob> {
+    return this.enqueueBuilt(await this.service.buildReceiptXml(doc), label);
+  }
+
+  private enqueueBuilt(built: XmlBuildResult, label?: string): Promise<PrintJob> {
+    if ('result' in built) {
+      throw new Error(built.result.message ?? built.result.code ?? 'Failed to build print job');
+    }
+    return this.enqueueXml(built.xml, label);
+  }
+
+  /**
+   * Put a failed job back in the queue
+   */
+  async retry(id: string): Promise<void> {
+    const job = this.jobs.find((j) => j.id === id);
+    if (!job || job.state !== 'failed') return;
+
+    job.state = 'pending';
+    job.attempts = 0;
+    job.nextAttemptAt = Date.now();
+    this.emit();
+    await this.persist(job);
+    // If the printer is offline, this runs a connection check right away
+    this.schedule(0);
+  }
+
+  /**
+   * Remove a job that is not being sent
+   */
+  async remove(id: string): Promise<void> {
+    const job = this.jobs.find((j) => j.id === id);
+    if (!job || job.state === 'active') return;
+
+    this.jobs = this.jobs.filter((j) => j.id !== id);
+    this.emit();
+    await this.forget(id);
+  }
+
+  /**
+   * Remove all failed jobs
+   */
+  async clearFailed(): Promise<void> {
+    const failed = this.jobs.filter((j) => j.state === 'failed');
+    this.jobs = this.jobs.filter((j) => j.state !== 'failed');
+    this.emit();
+    await Promise.all(failed.map((job) => this.forget(job.id)));
+  }
+
+  /**
+   * Schedule the next processing run
+   */
+  private schedule(delay: number): void {
+    if (!this.running) return;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+    }
+    this.timerId = setTimeout(() => {
+      this.timerId = null;
+      this.process();
+    }, Math.max(0, delay));
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const { retryDelay, maxRetryDelay } = this.options;
+    return Math.min(maxRetryDelay, retryDelay * 2 ** Math.max(0, attempts - 1));
+  }
+
+  /**
+   * Send pending jobs in order until the queue is empty or the printer goes offline
+   */
+  private async process(): Promise<void> {
+    if (this.processing || !this.running) return;
+    this.processing = true;
+
+    try {
+      // While offline, only a successful connection check resumes the queue
+      if (!this.online) {
+        const check = await this.service.checkConnection();
+        if (!isRetryableResult(check)) {
+          debug('PrintQueue: printer reachable again, draining queue');
+          this.online = true;
+        } else {
+          debug('PrintQueue: printer still offline');
+          this.schedule(this.options.connectionCheckInterval);
+          return;
+        }
+      }
+
+      while (this.running) {
+        const now = Date.now();
+        const job = this.jobs.find((j) => j.state === 'pending');
+        if (!job) return;
+
+        if (job.nextAttemptAt > now) {
+          this.schedule(job.nextAttemptAt - now);
+          return;
+        }
+
+        // Another queue of this page (sharing the storage) is already sending it
+        const sending = sendingJobs.get(job.id);
+        if (sending) {
+          job.state = 'active';
+          this.emit();
+          sending.then(() => this.adopt(job.id));
+          continue;
+        }
+
+        job.state = 'active';
+        job.attempts += 1;
+        // A queue replacing this one (e.g. new settings) leaves the job alone until it is done
+        let settle!: () => void;
+        sendingJobs.set(job.id, new Promise((resolve) => { settle = resolve; }));
+        try {
+          this.emit();
+          await this.persist(job);
+
+          debug('PrintQueue: sending job', job.id, 'attempt', job.attempts);
+          const result = await this.service.printXml(job.xml);
+          job.lastResult = result;
+
+          if (result.success) {
+            this.jobs = this.jobs.filter((j) => j.id !== job.id);
+            this.emit();
+            await this.forget(job.id);
+            continue;
+          }
+
+          if (isRetryableResult(result) && job.attempts < this.options.maxAttempts) {
+            const delay = this.getRetryDelay(job.attempts);
+            warn(`PrintQueue: job ${job.id} failed (${result.code}), retrying in ${delay}ms`);
+            job.state = 'pending';
+            job.nextAttemptAt = Date.now() + delay;
+            this.online = false;
+            this.emit();
+            await this.persist(job);
+            this.schedule(delay);
+            return;
+          }
+
+          error(`PrintQueue: job ${job.id} failed:`, result.code);
+          job.state = 'failed';
+          this.emit();
+          await this.persist(job);
+        } finally {
+          sendingJobs.delete(job.id);
+          settle();
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Print router: picks the target printer of a job from routing rules,
+ * and splits orders into per-station tickets
+ */
+
+import type { PrinterRegistry, RegisteredPrinter } from './printer-registry';
+
+/**
+ * Printers a route sends to. When several fields are set, a printer must
+ * match all of them.
+ */
+export interface PrintRouteTarget {
+  printerId?: string;
+  role?: string;
+  tag?: string;
+}
+
+export interface PrintRoute extends PrintRouteTarget {
+  /** Job types handled by this route (e.g. 'receipt', 'kitchen-ticket'). Default: any */
+  jobTypes?: string[];
+  /** Item categories handled by this route (e.g. 'drinks'). Default: any */
+  categories?: string[];
+}
+
+export interface PrintRouterOptions {
+  /** Routing rules, checked in order */
+  routes: PrintRoute[];
+  /** Where jobs go when no route matches */
+  fallback?: PrintRouteTarget;
+}
+
+/** What the router knows about a job */
+export interface RoutableJob {
+  type?: string;
+  /** Categories of the items in the job */
+  categories?: string[];
+}
+
+/** Order line that can be routed by category */
+export interface RoutableItem {
+  category?: string;
+}
+
+export interface StationTicket<T extends RoutableItem> {
+  printer: RegisteredPrinter;
+  items: T[];
+}
+
+export interface OrderSplit<T extends RoutableItem> {
+  /** One ticket per target printer, in order of first item */
+  tickets: StationTicket<T>[];
+  /** Items no route (or fallback) could place */
+  unrouted: T[];
+}
+
+function matchesRoute(route: PrintRoute, job: RoutableJob): boolean {
+  if (route.jobTypes && !(job.type !== undefined && route.jobTypes.includes(job.type))) {
+    return false;
+  }
+  const { categories } = route;
+  if (categories && !job.categories?.some((category) => categories.includes(category))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Routes jobs to the printers of a `PrinterRegistry`.
+ *
+ * @example
+ * ```typescript
+ * const router = new PrintRouter(registry, {
+ *   routes: [
+ *     { jobTypes: ['receipt'], role: 'receipt' },
+ *     { categories: ['drinks', 'cocktails'], role: 'bar' },
+ *     { categories: ['food'], role: 'kitchen' },
+ *   ],
+ *   fallback: { role: 'kitchen' },
+ * });
+ *
+ * router.route({ type: 'receipt' }); // front printer
+ *
+ * const { tickets } = router.splitOrder(order.items);
+ * for (const { printer, items } of tickets) {
+ *   await registry.createService(printer.id).printReceipt(buildTicket(order, items));
+ * }
+ * ```
+ */
+export class PrintRouter {
+  private registry: PrinterRegistry;
+  private options: PrintRouterOptions;
+
+  constructor(registry: PrinterRegistry, options: PrintRouterOptions) {
+    this.registry = registry;
+    this.options = options;
+  }
+
+  /**
+   * All registered printers matching a target
+   */
+  resolve(target: PrintRouteTarget): RegisteredPrinter[] {
+    return this.registry.getPrinters().filter((printer) =>
+      (target.printerId === undefined || printer.id === target.printerId) &&
+      (target.role === undefined || printer.roles.includes(target.role)) &&
+      (target.tag === undefined || printer.tags.includes(target.tag))
+    );
+  }
+
+  /**
+   * Printers of the first matching route that has any, or of the fallback
+   */
+  candidates(job: RoutableJob): RegisteredPrinter[] {
+    for (const route of this.options.routes) {
+      if (!matchesRoute(route, job)) continue;
+      const printers = this.resolve(route);
+      if (printers.length > 0) return printers;
+    }
+    return this.options.fallback ? this.resolve(this.options.fallback) : [];
+  }
+
+  /**
+   * Target printer of a job, or null if no route matches
+   */
+  route(job: RoutableJob): RegisteredPrinter | null {
+    return this.candidates(job)[0] ?? null;
+  }
+
+  /**
+   * Split an order into one ticket per station, routing each item by its category
+   *
+   * @param items - Order lines
+   * @param jobType - Job type used to match routes (e.g. 'kitchen-ticket')
+   */
+  splitOrder<T extends RoutableItem>(items: T[], jobType?: string): OrderSplit<T> {
+    const tickets = new Map<string, StationTicket<T>>();
+    const unrouted: T[] = [];
+
+    for (const item of items) {
+      const printer = this.route({
+        type: jobType,
+        categories: item.category !== undefined ? [item.category] : [],
+      });
+      if (!printer) {
+        unrouted.push(item);
+        continue;
+      }
+      const ticket = tickets.get(printer.id);
+      if (ticket) {
+        ticket.items.push(item);
+      } else {
+        tickets.set(printer.id, { printer, items: [item] });
+      }
+    }
+
+    return { tickets: [...tickets.values()], unrouted };
+  }
+}
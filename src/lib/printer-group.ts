@@ -0,0 +1,308 @@
+/**
+ * Printer groups: send each job to one healthy printer of a group, with
+ * failover when a printer doesn't answer
+ */
+
+import { EposPrintService } from './epos-print';
+import { debug, warn } from './logger';
+import { withPrintError } from './print-error';
+import { translate } from './i18n';
+import type { ReceiptDocument } from './receipt-document';
+import type {
+  EpsonPrinterConfig,
+  PrintBuilderFn,
+  PrintImage,
+  PrintOperationOptions,
+  PrintOptions,
+  PrintPage,
+  PrintPagesOptions,
+  PrintResult,
+  XmlBuildResult,
+} from '../types';
+
+/**
+ * How a group picks the printer of a job:
+ * - 'failover': always the first healthy printer, in member order
+ * - 'round-robin': healthy printers in turn
+ * - 'least-recently-busy': the healthy printer with fewest jobs in progress
+ *   that has been idle the longest
+ */
+export type PrinterGroupStrategy = 'failover' | 'round-robin' | 'least-recently-busy';
+
+/** Printer of a group. `RegisteredPrinter` can be used as is. */
+export interface PrinterGroupMember {
+  id: string;
+  config: EpsonPrinterConfig;
+}
+
+export interface PrinterGroupOptions {
+  /** Default: 'failover' */
+  strategy?: PrinterGroupStrategy;
+  /** Print options used to build jobs */
+  printOptions?: PrintOptions;
+  /** Result codes that send the job to the next printer. Default: ['CONNECTION_ERROR', 'TIMEOUT', 'NETWORK_ERROR'] */
+  failoverCodes?: string[];
+  /** Interval (ms) between health checks while started. Default: 30000 */
+  healthCheckInterval?: number;
+}
+
+export interface PrinterHealth {
+  id: string;
+  /** Result of the last print or connection check (null until known) */
+  healthy: boolean | null;
+  /** Jobs being sent to this printer right now */
+  activeJobs: number;
+  /** When the printer last finished a job (ms since epoch) */
+  lastBusyAt: number | null;
+  /** When health was last updated (ms since epoch) */
+  lastCheckedAt: number | null;
+  /** Result that set the current health */
+  lastResult: PrintResult | null;
+}
+
+export interface PrinterGroupState {
+  members: readonly PrinterHealth[];
+}
+
+const DEFAULT_FAILOVER_CODES = ['CONNECTION_ERROR', 'TIMEOUT', 'NETWORK_ERROR'];
+
+/**
+ * Group of interchangeable printers (e.g. two kitchen printers).
+ *
+ * A job goes to the printer picked by the strategy. If it fails with one of
+ * `failoverCodes`, the printer is marked unhealthy and the job is sent to the
+ * next one. Unhealthy printers are only tried when no healthy printer is left,
+ * and become healthy again after a successful print or connection check.
+ * Every result has the `printerId` of the printer that handled the job.
+ *
+ * Note that a `TIMEOUT` doesn't prove the job wasn't printed: remove it from
+ * `failoverCodes` if a duplicate ticket is worse than a failed one.
+ * An aborted job is not sent to another printer and doesn't change health.
+ *
+ * @example
+ * ```typescript
+ * const group = new PrinterGroup([
+ *   { id: 'kitchen-1', config: { printerIP: '192.168.1.101' } },
+ *   { id: 'kitchen-2', config: { printerIP: '192.168.1.102' } },
+ * ], { strategy: 'failover' });
+ * group.start(); // Periodic health checks
+ *
+ * const result = await group.printReceipt(ticket);
+ * console.log(result.printerId); // 'kitchen-2' if kitchen-1 was offline
+ * ```
+ */
+export class PrinterGroup {
+  private members: { id: string; service: EposPrintService }[];
+  private health: PrinterHealth[];
+  private state: PrinterGroupState;
+  private options: Required<Omit<PrinterGroupOptions, 'printOptions'>>;
+  private printOptions: PrintOptions;
+  private listeners = new Set<() => void>();
+  private nextIndex = 0;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(members: PrinterGroupMember[], options: PrinterGroupOptions = {}) {
+    this.members = members.map((member) => ({
+      id: member.id,
+      service: new EposPrintService(member.config, options.printOptions),
+    }));
+    this.health = members.map((member) => ({
+      id: member.id,
+      healthy: null,
+      activeJobs: 0,
+      lastBusyAt: null,
+      lastCheckedAt: null,
+      lastResult: null,
+    }));
+    this.state = { members: this.health.map((h) => ({ ...h })) };
+    this.printOptions = options.printOptions ?? {};
+    this.options = {
+      strategy: options.strategy ?? 'failover',
+      failoverCodes: options.failoverCodes ?? DEFAULT_FAILOVER_CODES,
+      healthCheckInterval: options.healthCheckInterval ?? 30000,
+    };
+  }
+
+  /**
+   * Subscribe to health changes. Returns an unsubscribe function.
+   * Compatible with React's `useSyncExternalStore`.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Health of every member (immutable snapshot)
+   */
+  getState = (): PrinterGroupState => this.state;
+
+  private emit(): void {
+    this.state = { members: this.health.map((h) => ({ ...h })) };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private setHealth(index: number, result: PrintResult): void {
+    const health = this.health[index];
+    // Any answer from the printer (even "out of paper") means it is reachable
+    health.healthy = result.success || !this.options.failoverCodes.includes(result.code ?? '');
+    health.lastCheckedAt = Date.now();
+    health.lastResult = result;
+  }
+
+  /**
+   * Member indexes in the order they should be tried for the next job
+   */
+  private pickOrder(): number[] {
+    const indexes = this.members.map((_, index) => index);
+    let ordered: number[];
+
+    switch (this.options.strategy) {
+      case 'round-robin': {
+        const start = this.nextIndex % Math.max(indexes.length, 1);
+        ordered = [...indexes.slice(start), ...indexes.slice(0, start)];
+        this.nextIndex = start + 1;
+        break;
+      }
+      case 'least-recently-busy':
+        ordered = [...indexes].sort((a, b) => {
+          const ha = this.health[a];
+          const hb = this.health[b];
+          return ha.activeJobs - hb.activeJobs || (ha.lastBusyAt ?? 0) - (hb.lastBusyAt ?? 0);
+        });
+        break;
+      default:
+        ordered = indexes;
+    }
+
+    // Unhealthy printers last, as a last resort
+    return [
+      ...ordered.filter((index) => this.health[index].healthy !== false),
+      ...ordered.filter((index) => this.health[index].healthy === false),
+    ];
+  }
+
+  private noPrintersResult(): PrintResult {
+    return withPrintError({
+      success: false,
+      code: 'NO_PRINTERS',
+      message: translate('print.noPrinters', undefined, this.printOptions),
+    });
+  }
+
+  /**
+   * Send a built request to the group
+   */
+  async printXml(xml: string, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    if (this.members.length === 0) {
+      return this.noPrintersResult();
+    }
+
+    let result: PrintResult | null = null;
+    for (const index of this.pickOrder()) {
+      const { id, service } = this.members[index];
+      const health = this.health[index];
+
+      health.activeJobs++;
+      this.emit();
+      try {
+        result = { ...(await service.printXml(xml, options)), printerId: id };
+      } finally {
+        health.activeJobs--;
+        health.lastBusyAt = Date.now();
+      }
+      // Aborting says nothing about the printer
+      if (result.code === 'ABORTED') {
+        this.emit();
+        return result;
+      }
+      this.setHealth(index, result);
+      this.emit();
+
+      if (result.success || !this.options.failoverCodes.includes(result.code ?? '')) {
+        return result;
+      }
+      warn(`PrinterGroup: printer "${id}" failed with ${result.code}, trying the next one`);
+    }
+
+    return result as PrintResult;
+  }
+
+  /**
+   * Build a request once (with the first member's service) and send it to the group
+   */
+  private async buildAndPrint(
+    build: (service: EposPrintService) => Promise<XmlBuildResult>,
+    options: PrintOperationOptions
+  ): Promise<PrintResult> {
+    if (this.members.length === 0) {
+      return this.noPrintersResult();
+    }
+    const built = await build(this.members[0].service);
+    return 'result' in built ? built.result : this.printXml(built.xml, options);
+  }
+
+  /**
+   * Print custom builder commands
+   */
+  async printWithBuilder(buildFn: PrintBuilderFn, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    return this.buildAndPrint((service) => service.buildXml(buildFn, options), options);
+  }
+
+  /**
+   * Print a canvas or image
+   */
+  async printCanvas(canvas: PrintImage, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    return this.buildAndPrint((service) => service.buildCanvasXml(canvas, options), options);
+  }
+
+  /**
+   * Print multiple pages
+   */
+  async printPages(canvases: PrintPage[], options: PrintPagesOptions = {}): Promise<PrintResult> {
+    return this.buildAndPrint((service) => service.buildPagesXml(canvases, options), options);
+  }
+
+  /**
+   * Print a receipt document
+   */
+  async printReceipt(doc: ReceiptDocument, options: PrintOperationOptions = {}): Promise<PrintResult> {
+    return this.buildAndPrint((service) => service.buildReceiptXml(doc, options), options);
+  }
+
+  /**
+   * Run `checkConnection()` on every member and update their health
+   */
+  async checkHealth(): Promise<PrinterGroupState> {
+    const results = await Promise.all(this.members.map(({ service }) => service.checkConnection()));
+    results.forEach((result, index) => {
+      this.setHealth(index, { ...result, printerId: this.members[index].id });
+    });
+    debug('PrinterGroup: health checked:', this.health.map((h) => `${h.id}=${h.healthy}`).join(', '));
+    this.emit();
+    return this.state;
+  }
+
+  /**
+   * Check health now and then every `healthCheckInterval`
+   */
+  start(): void {
+    if (this.timerId !== null) return;
+    this.checkHealth();
+    this.timerId = setInterval(() => {
+      this.checkHealth();
+    }, this.options.healthCheckInterval);
+  }
+
+  /**
+   * Stop periodic health checks
+   */
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Printer registry: named printers with roles and tags, persisted together
+ */
+
+import { EposPrintService } from './epos-print';
+import { error } from './logger';
+import { isDirectTransport } from './transport';
+import type { EpsonPrinterConfig, PrintOptions } from '../types';
+
+export interface RegisteredPrinter {
+  /** Unique printer identifier (e.g. 'kitchen-1') */
+  id: string;
+  /** Name shown to staff (e.g. "Kitchen") */
+  name: string;
+  config: EpsonPrinterConfig;
+  /** What the printer is used for (e.g. 'receipt', 'kitchen', 'bar') */
+  roles: string[];
+  /** Free-form labels used by routing rules (e.g. 'hot-food', 'terrace') */
+  tags: string[];
+}
+
+/** Printer as passed to `add()`: roles and tags are optional */
+export type PrinterRegistration = Omit<RegisteredPrinter, 'roles' | 'tags'> &
+  Partial<Pick<RegisteredPrinter, 'roles' | 'tags'>>;
+
+export interface PrinterRegistryOptions {
+  /** localStorage key. Default: 'epson-printer-registry' */
+  storageKey?: string;
+  /** Save changes to localStorage. Default: true */
+  persist?: boolean;
+  /** Printers used when nothing is stored yet */
+  initialPrinters?: PrinterRegistration[];
+}
+
+export class PrinterRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrinterRegistryError';
+  }
+}
+
+const DEFAULT_STORAGE_KEY = 'epson-printer-registry';
+
+function normalize(printer: PrinterRegistration): RegisteredPrinter {
+  if (!printer.id) {
+    throw new PrinterRegistryError('Printer id is required');
+  }
+  if (!printer.config) {
+    throw new PrinterRegistryError(`Printer "${printer.id}" has no config`);
+  }
+  if (!isDirectTransport(printer.config.transport) && !printer.config.printerIP) {
+    throw new PrinterRegistryError(`Printer "${printer.id}" has no printerIP`);
+  }
+  return {
+    id: printer.id,
+    name: printer.name || printer.id,
+    config: printer.config,
+    roles: printer.roles ?? [],
+    tags: printer.tags ?? [],
+  };
+}
+
+/**
+ * Registry of the printers of a site.
+ *
+ * @example
+ * ```typescript
+ * const registry = new PrinterRegistry();
+ * registry.add({ id: 'front', name: 'Front', config: { printerIP: '192.168.1.100' }, roles: ['receipt'] });
+ * registry.add({ id: 'kitchen', name: 'Kitchen', config: { printerIP: '192.168.1.101' }, roles: ['kitchen'] });
+ *
+ * const [kitchen] = registry.findByRole('kitchen');
+ * await registry.createService(kitchen.id).printReceipt(ticket);
+ * ```
+ */
+export class PrinterRegistry {
+  private printers: readonly RegisteredPrinter[] = [];
+  private listeners = new Set<() => void>();
+  private storageKey: string;
+  private persist: boolean;
+
+  constructor(options: PrinterRegistryOptions = {}) {
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.persist = options.persist ?? true;
+    this.printers = this.load() ?? (options.initialPrinters ?? []).map(normalize);
+  }
+
+  private load(): RegisteredPrinter[] | null {
+    if (!this.persist || typeof localStorage === 'undefined') return null;
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        return (JSON.parse(stored) as PrinterRegistration[]).map(normalize);
+      }
+    } catch (err) {
+      error('Failed to load printer registry from localStorage:', err);
+    }
+    return null;
+  }
+
+  private commit(printers: RegisteredPrinter[]): void {
+    this.printers = printers;
+    if (this.persist && typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(this.storageKey, JSON.stringify(printers));
+      } catch (err) {
+        error('Failed to save printer registry to localStorage:', err);
+      }
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Subscribe to registry changes. Returns an unsubscribe function.
+   * Compatible with React's `useSyncExternalStore`.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Registered printers, in registration order (stable reference between changes)
+   */
+  getPrinters = (): readonly RegisteredPrinter[] => this.printers;
+
+  get(id: string): RegisteredPrinter | undefined {
+    return this.printers.find((printer) => printer.id === id);
+  }
+
+  /**
+   * Register a printer. Throws `PrinterRegistryError` if the id is taken.
+   */
+  add(printer: PrinterRegistration): RegisteredPrinter {
+    const registered = normalize(printer);
+    if (this.get(registered.id)) {
+      throw new PrinterRegistryError(`Printer "${registered.id}" is already registered`);
+    }
+    this.commit([...this.printers, registered]);
+    return registered;
+  }
+
+  /**
+   * Change a registered printer. Throws `PrinterRegistryError` if it doesn't exist.
+   */
+  update(id: string, changes: Partial<Omit<PrinterRegistration, 'id'>>): RegisteredPrinter {
+    const current = this.get(id);
+    if (!current) {
+      throw new PrinterRegistryError(`Printer "${id}" is not registered`);
+    }
+    const updated = normalize({ ...current, ...changes, id });
+    this.commit(this.printers.map((printer) => (printer.id === id ? updated : printer)));
+    return updated;
+  }
+
+  /**
+   * Remove a printer. Returns false if it wasn't registered.
+   */
+  remove(id: string): boolean {
+    if (!this.get(id)) return false;
+    this.commit(this.printers.filter((printer) => printer.id !== id));
+    return true;
+  }
+
+  findByRole(role: string): RegisteredPrinter[] {
+    return this.printers.filter((printer) => printer.roles.includes(role));
+  }
+
+  findByTag(tag: string): RegisteredPrinter[] {
+    return this.printers.filter((printer) => printer.tags.includes(tag));
+  }
+
+  /**
+   * Create a print service for a registered printer.
+   * Throws `PrinterRegistryError` if it doesn't exist.
+   */
+  createService(id: string, options?: PrintOptions): EposPrintService {
+    const printer = this.get(id);
+    if (!printer) {
+      throw new PrinterRegistryError(`Printer "${id}" is not registered`);
+    }
+    return new EposPrintService(printer.config, options);
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Live printer status monitoring
+ *
+ * Keeps an `ePOSPrint` status poll open (`open()` / `onstatuschange`) and
+ * decodes the ASB (Automatic Status Back) bitmask into a typed status, so the
+ * UI can warn about paper near end or an open cover before a receipt fails.
+ * USB and serial printers are polled with DLE EOT through their transport.
+ */
+
+import { loadEpsonSDK, getEpsonSDK } from './epson-sdk-loader';
+import { getEposPrintUrl } from './epos-print';
+import { createTransport, isDirectTransport } from './transport';
+import type { EscPosTransport } from './escpos-transport';
+import { debug, error } from './logger';
+import { createTranslator } from './i18n';
+import type { I18nOptions, Translate } from './i18n';
+import { ASB_STATUS } from './asb-status';
+import type { epson } from './epson-sdk';
+import type { EpsonPrinterConfig } from '../types';
+
+export { ASB_STATUS };
+
+/**
+ * Level of the drawer kick connector (pin 3) when the drawer is open.
+ * Depends on the drawer model; most report 'low'.
+ */
+export type DrawerOpenLevel = 'low' | 'high';
+
+/** Printer status decoded from the ASB bitmask */
+export interface PrinterDeviceStatus {
+  /** Raw ASB bitmask */
+  raw: number;
+  /** The printer answered the last status request */
+  reachable: boolean;
+  /** Reachable and not off-line (cover open, paper end and errors put the printer off-line) */
+  online: boolean;
+  coverOpen: boolean;
+  /** Paper is being fed with the feed button */
+  paperFeed: boolean;
+  paperNearEnd: boolean;
+  paperEnd: boolean;
+  drawerOpen: boolean;
+  /** The printer is waiting to go back on-line after an error */
+  waitingForRecovery: boolean;
+  /** Panel switch (feed button) pressed */
+  panelSwitch: boolean;
+  mechanicalError: boolean;
+  autocutterError: boolean;
+  /** Error that requires turning the printer off and on */
+  unrecoverableError: boolean;
+  /** Error that clears itself (e.g. print head overheated) */
+  autoRecoverableError: boolean;
+  /** The ePOS-Print spooler is stopped */
+  spoolerStopped: boolean;
+  /** Battery status of mobile printers (0 when not reported) */
+  battery: number;
+  /** Online with no cover, paper or error problems: a receipt would print */
+  ready: boolean;
+}
+
+/**
+ * Decode an ASB status bitmask
+ *
+ * @example
+ * ```typescript
+ * const result = await service.printWithBuilder(buildFn);
+ * if (result.status && decodeAsbStatus(result.status).paperNearEnd) {
+ *   showWarning('Replace the paper roll soon');
+ * }
+ * ```
+ */
+export function decodeAsbStatus(
+  status: number,
+  drawerOpenLevel: DrawerOpenLevel = 'low',
+  battery: number = 0
+): PrinterDeviceStatus {
+  const has = (bit: number) => (status & bit) !== 0;
+  const reachable = !has(ASB_STATUS.NO_RESPONSE);
+  const drawerKick = has(ASB_STATUS.DRAWER_KICK);
+
+  const decoded = {
+    raw: status >>> 0,
+    reachable,
+    online: reachable && !has(ASB_STATUS.OFF_LINE),
+    coverOpen: has(ASB_STATUS.COVER_OPEN),
+    paperFeed: has(ASB_STATUS.PAPER_FEED),
+    paperNearEnd: has(ASB_STATUS.RECEIPT_NEAR_END),
+    paperEnd: has(ASB_STATUS.RECEIPT_END),
+    drawerOpen: reachable && (drawerOpenLevel === 'high' ? drawerKick : !drawerKick),
+    waitingForRecovery: has(ASB_STATUS.WAIT_ON_LINE),
+    panelSwitch: has(ASB_STATUS.PANEL_SWITCH),
+    mechanicalError: has(ASB_STATUS.MECHANICAL_ERR),
+    autocutterError: has(ASB_STATUS.AUTOCUTTER_ERR),
+    unrecoverableError: has(ASB_STATUS.UNRECOVER_ERR),
+    autoRecoverableError: has(ASB_STATUS.AUTORECOVER_ERR),
+    spoolerStopped: has(ASB_STATUS.SPOOLER_IS_STOPPED),
+    battery,
+  };
+
+  return {
+    ...decoded,
+    ready: decoded.online &&
+      !decoded.coverOpen &&
+      !decoded.paperEnd &&
+      !decoded.mechanicalError &&
+      !decoded.autocutterError &&
+      !decoded.unrecoverableError &&
+      !decoded.autoRecoverableError &&
+      !decoded.spoolerStopped,
+  };
+}
+
+/** Events emitted by `PrinterStatusMonitor` */
+export interface PrinterStatusEvents {
+  /** Any change of the status bitmask or battery */
+  change: (status: PrinterDeviceStatus, previous: PrinterDeviceStatus | null) => void;
+  online: (status: PrinterDeviceStatus) => void;
+  offline: (status: PrinterDeviceStatus) => void;
+  /** The printer stopped answering (powered off or network down) */
+  unreachable: (status: PrinterDeviceStatus) => void;
+  coverOpen: (status: PrinterDeviceStatus) => void;
+  coverOk: (status: PrinterDeviceStatus) => void;
+  paperNearEnd: (status: PrinterDeviceStatus) => void;
+  paperEnd: (status: PrinterDeviceStatus) => void;
+  paperOk: (status: PrinterDeviceStatus) => void;
+  drawerOpen: (status: PrinterDeviceStatus) => void;
+  drawerClosed: (status: PrinterDeviceStatus) => void;
+  /** A mechanical, autocutter, unrecoverable or auto-recoverable error appeared */
+  error: (status: PrinterDeviceStatus) => void;
+}
+
+export type PrinterStatusEvent = keyof PrinterStatusEvents;
+
+export interface PrinterStatusMonitorOptions extends I18nOptions {
+  /** Time (ms) between status requests. Default: 3000 */
+  interval?: number;
+  /**
+   * Time (ms) before a status request counts as no response. Default: 10000.
+   * USB and serial printers use the transport's `statusTimeout` instead.
+   */
+  requestTimeout?: number;
+  /** Connector level when the drawer is open. Default: 'low' */
+  drawerOpenLevel?: DrawerOpenLevel;
+}
+
+/** Monitor state, as an immutable snapshot (safe for `useSyncExternalStore`) */
+export interface PrinterStatusMonitorState {
+  /** Last decoded status, or null until the first answer */
+  status: PrinterDeviceStatus | null;
+  /** Whether the monitor is polling the printer */
+  monitoring: boolean;
+  /** Why monitoring couldn't start (e.g. SDK not loaded) */
+  error: string | null;
+}
+
+const hasError = (status: PrinterDeviceStatus) =>
+  status.mechanicalError || status.autocutterError || status.unrecoverableError || status.autoRecoverableError;
+
+/**
+ * Keeps polling a printer and reports status changes.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new PrinterStatusMonitor({ printerIP: '192.168.1.100' });
+ * monitor.on('paperNearEnd', () => showWarning('Paper is running out'));
+ * monitor.on('coverOpen', () => showWarning('Printer cover is open'));
+ * await monitor.start();
+ *
+ * // Later
+ * monitor.stop();
+ * ```
+ */
+export class PrinterStatusMonitor {
+  private config: EpsonPrinterConfig;
+  private options: Required<Omit<PrinterStatusMonitorOptions, keyof I18nOptions>>;
+  private t: Translate;
+  private printer: epson.ePOSPrint | null = null;
+  /** Next DLE EOT poll of a USB or serial printer */
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private state: PrinterStatusMonitorState = { status: null, monitoring: false, error: null };
+  private listeners = new Set<() => void>();
+  private eventListeners = new Map<PrinterStatusEvent, Set<PrinterStatusEvents[PrinterStatusEvent]>>();
+  private battery = 0;
+  /** Incremented by every start()/stop(), to drop starts that finish after a stop */
+  private generation = 0;
+
+  constructor(config: EpsonPrinterConfig, options: PrinterStatusMonitorOptions = {}) {
+    this.config = config;
+    this.options = {
+      interval: options.interval ?? 3000,
+      requestTimeout: options.requestTimeout ?? 10000,
+      drawerOpenLevel: options.drawerOpenLevel ?? 'low',
+    };
+    this.t = createTranslator({ locale: options.locale, messages: options.messages });
+  }
+
+  /**
+   * Start polling the printer. Resolves with false if the SDK couldn't be loaded.
+   */
+  async start(): Promise<boolean> {
+    if (this.printer || this.polling) return true;
+    const generation = ++this.generation;
+
+    if (isDirectTransport(this.config.transport)) {
+      this.startDirect(generation);
+      return true;
+    }
+
+    const loaded = await loadEpsonSDK();
+    if (generation !== this.generation) return false;
+    if (!loaded) {
+      error('PrinterStatusMonitor: Failed to load SDK');
+      this.setState({ monitoring: false, error: this.t('print.sdkNotLoaded') });
+      return false;
+    }
+
+    const epson = getEpsonSDK();
+    const printer = new epson.ePOSPrint(getEposPrintUrl(this.config));
+    printer.interval = this.options.interval;
+    printer.timeout = this.options.requestTimeout;
+    printer.drawerOpenLevel = this.options.drawerOpenLevel === 'high'
+      ? printer.DRAWER_OPEN_LEVEL_HIGH
+      : printer.DRAWER_OPEN_LEVEL_LOW;
+
+    printer.onstatuschange = (status) => this.update(status);
+    printer.onbatterystatuschange = (battery) => {
+      this.battery = battery;
+      if (this.state.status) {
+        this.update(this.state.status.raw);
+      }
+    };
+
+    this.printer = printer;
+    this.setState({ monitoring: true, error: null });
+    debug('PrinterStatusMonitor: started, interval:', this.options.interval);
+    printer.open();
+    return true;
+  }
+
+  /**
+   * Poll a USB or serial printer with DLE EOT, between the jobs of its transport
+   */
+  private startDirect(generation: number): void {
+    const transport = createTransport(this.config) as EscPosTransport;
+    const poll = async () => {
+      const status = await transport.readStatus();
+      if (generation !== this.generation) return;
+      this.update(status);
+      this.pollTimer = setTimeout(poll, this.options.interval);
+    };
+
+    this.polling = true;
+    this.setState({ monitoring: true, error: null });
+    debug('PrinterStatusMonitor: started over', transport.type, 'interval:', this.options.interval);
+    poll();
+  }
+
+  /**
+   * Stop polling the printer. The last status is kept.
+   */
+  stop(): void {
+    this.generation++;
+    if (this.polling) {
+      if (this.pollTimer !== null) {
+        clearTimeout(this.pollTimer);
+        this.pollTimer = null;
+      }
+      this.polling = false;
+      this.setState({ monitoring: false });
+      debug('PrinterStatusMonitor: stopped');
+    }
+    if (!this.printer) return;
+    this.printer.onstatuschange = null;
+    this.printer.onbatterystatuschange = null;
+    this.printer.close();
+    this.printer = null;
+    this.setState({ monitoring: false });
+    debug('PrinterStatusMonitor: stopped');
+  }
+
+  /**
+   * Listen to a status event. Returns a function that removes the listener.
+   */
+  on<E extends PrinterStatusEvent>(event: E, listener: PrinterStatusEvents[E]): () => void {
+    let listeners = this.eventListeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to state changes. Returns an unsubscribe function.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current state (immutable snapshot, safe for `useSyncExternalStore`)
+   */
+  getState = (): PrinterStatusMonitorState => {
+    return this.state;
+  };
+
+  /**
+   * Last decoded status, or null until the printer answers
+   */
+  getStatus(): PrinterDeviceStatus | null {
+    return this.state.status;
+  }
+
+  private setState(changes: Partial<PrinterStatusMonitorState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private emitEvent<E extends PrinterStatusEvent>(event: E, ...args: Parameters<PrinterStatusEvents[E]>): void {
+    this.eventListeners.get(event)?.forEach((listener) => {
+      try {
+        (listener as (...a: Parameters<PrinterStatusEvents[E]>) => void)(...args);
+      } catch (err) {
+        error(`PrinterStatusMonitor: "${event}" listener failed:`, err);
+      }
+    });
+  }
+
+  private update(raw: number): void {
+    const previous = this.state.status;
+    const status = decodeAsbStatus(raw, this.options.drawerOpenLevel, this.battery);
+    if (previous && previous.raw === status.raw && previous.battery === status.battery) return;
+
+    debug('PrinterStatusMonitor: status changed:', status.raw);
+    this.setState({ status });
+    this.emitEvent('change', status, previous);
+
+    const changed = (key: keyof PrinterDeviceStatus) => !previous || previous[key] !== status[key];
+
+    if (changed('reachable') || changed('online')) {
+      if (!status.reachable) this.emitEvent('unreachable', status);
+      else this.emitEvent(status.online ? 'online' : 'offline', status);
+    }
+    // Other bits are stale while the printer doesn't answer
+    if (!status.reachable) return;
+
+    if (changed('coverOpen')) {
+      this.emitEvent(status.coverOpen ? 'coverOpen' : 'coverOk', status);
+    }
+    if (changed('paperEnd') || changed('paperNearEnd')) {
+      if (status.paperEnd) this.emitEvent('paperEnd', status);
+      else if (status.paperNearEnd) this.emitEvent('paperNearEnd', status);
+      else if (previous) this.emitEvent('paperOk', status);
+    }
+    if (changed('drawerOpen')) {
+      this.emitEvent(status.drawerOpen ? 'drawerOpen' : 'drawerClosed', status);
+    }
+    if (hasError(status) && (!previous || !hasError(previous) || previous.raw !== status.raw)) {
+      this.emitEvent('error', status);
+    }
+  }
+}
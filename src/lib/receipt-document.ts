@@ -0,0 +1,475 @@
+/**
+ * Declarative receipt documents compiled to ePOSBuilder commands
+ *
+ * A `ReceiptDocument` is plain JSON, so receipt layouts can be generated by a
+ * backend, stored, and replayed exactly. `compileReceipt()` turns a document
+ * into builder calls; `parseReceiptDocument()` validates untrusted JSON.
+ */
+
+import type { epson } from './epson-sdk';
+import { getCharsPerLine, layoutRow } from './text-layout';
+import type { TableColumn, TextAlign, TextFont } from './text-layout';
+
+export type ReceiptAlign = TextAlign;
+export type ReceiptFont = TextFont;
+
+/** Text styling shared by text-based blocks */
+export interface ReceiptTextStyle {
+  align?: ReceiptAlign;
+  font?: ReceiptFont;
+  bold?: boolean;
+  underline?: boolean;
+  /** White on black */
+  reverse?: boolean;
+  /** Character size multiplier (1-8). A number applies to both width and height. */
+  size?: number | { width: number; height: number };
+}
+
+export interface ReceiptTextBlock extends ReceiptTextStyle {
+  type: 'text';
+  /** Text to print. A line feed is added automatically. */
+  text: string;
+}
+
+/** A table cell: its text plus the column layout (width, alignment, overflow, leader) */
+export interface ReceiptColumn extends TableColumn {
+  text: string;
+}
+
+export interface ReceiptColumnsBlock extends Omit<ReceiptTextStyle, 'align'> {
+  type: 'columns';
+  columns: ReceiptColumn[];
+}
+
+export interface ReceiptKeyValueBlock extends Omit<ReceiptTextStyle, 'align'> {
+  type: 'keyValue';
+  key: string;
+  value: string;
+  /** Fill the space between key and value with this character (e.g. '.') */
+  leader?: string;
+}
+
+export interface ReceiptRuleBlock {
+  type: 'rule';
+  /** Character repeated across the line (default: '-') */
+  char?: string;
+}
+
+export interface ReceiptBarcodeBlock {
+  type: 'barcode';
+  data: string;
+  /** Barcode type (default: 'code128') */
+  symbology?: 'upc_a' | 'upc_e' | 'ean13' | 'jan13' | 'ean8' | 'jan8' | 'code39' | 'itf' | 'codabar' | 'code93' | 'code128' | 'gs1_128';
+  /** Human readable interpretation position (default: 'below') */
+  hri?: 'none' | 'above' | 'below' | 'both';
+  /** Module width in dots, 2-6 (default: 2) */
+  width?: number;
+  /** Height in dots, 1-255 (default: 64) */
+  height?: number;
+  align?: ReceiptAlign;
+}
+
+export interface ReceiptQrBlock {
+  type: 'qr';
+  data: string;
+  model?: 'model_1' | 'model_2' | 'micro';
+  /** Error correction level (default: 'level_m') */
+  level?: 'level_l' | 'level_m' | 'level_q' | 'level_h';
+  /** Module size in dots, 1-16 (default: 4) */
+  size?: number;
+  align?: ReceiptAlign;
+}
+
+export interface ReceiptImageBlock {
+  type: 'image';
+  /** Image URL or data URL (loaded before compiling) */
+  src: string;
+  /** Printed width in dots (default: image width, capped to the paper width) */
+  width?: number;
+  align?: ReceiptAlign;
+}
+
+export interface ReceiptFeedBlock {
+  type: 'feed';
+  /** Lines to feed (default: 1) */
+  lines?: number;
+}
+
+export interface ReceiptCutBlock {
+  type: 'cut';
+  /** Feed paper to the cutter before cutting (default: true) */
+  feed?: boolean;
+}
+
+export interface ReceiptPulseBlock {
+  type: 'pulse';
+  /** Drawer connector pin (default: 1) */
+  drawer?: 1 | 2;
+  /** Pulse length in ms (default: 100) */
+  time?: 100 | 200 | 300 | 400 | 500;
+}
+
+export type ReceiptBlock =
+  | ReceiptTextBlock
+  | ReceiptColumnsBlock
+  | ReceiptKeyValueBlock
+  | ReceiptRuleBlock
+  | ReceiptBarcodeBlock
+  | ReceiptQrBlock
+  | ReceiptImageBlock
+  | ReceiptFeedBlock
+  | ReceiptCutBlock
+  | ReceiptPulseBlock;
+
+export interface ReceiptDocument {
+  /** Document format version */
+  version: 1;
+  /** Paper width in dots (576 for 80mm, 384 for 58mm). Default: 576 */
+  paperWidth?: number;
+  blocks: ReceiptBlock[];
+}
+
+/** Images referenced by `image` blocks, keyed by `src` */
+export type ReceiptImages = Map<string, HTMLCanvasElement>;
+
+/**
+ * Error thrown when a receipt document is invalid
+ */
+export class ReceiptDocumentError extends Error {
+  /** Path to the invalid value (e.g. "blocks[2].text") */
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`Invalid receipt document at ${path}: ${message}`);
+    this.name = 'ReceiptDocumentError';
+    this.path = path;
+  }
+}
+
+const ALIGNS = ['left', 'center', 'right'];
+const FONTS = ['font_a', 'font_b', 'font_c'];
+const SYMBOLOGIES: NonNullable<ReceiptBarcodeBlock['symbology']>[] = [
+  'upc_a', 'upc_e', 'ean13', 'jan13', 'ean8', 'jan8', 'code39', 'itf', 'codabar', 'code93', 'code128', 'gs1_128',
+];
+const BLOCK_TYPES = ['text', 'columns', 'keyValue', 'rule', 'barcode', 'qr', 'image', 'feed', 'cut', 'pulse'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, path: string): void {
+  if (typeof value !== 'string') {
+    throw new ReceiptDocumentError(path, 'expected a string');
+  }
+}
+
+function expectOptional(value: unknown, path: string, allowed: readonly unknown[]): void {
+  if (value !== undefined && !allowed.includes(value)) {
+    throw new ReceiptDocumentError(path, `expected one of ${allowed.join(', ')}`);
+  }
+}
+
+function expectOptionalNumber(value: unknown, path: string, min: number, max: number): void {
+  if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max)) {
+    throw new ReceiptDocumentError(path, `expected a number between ${min} and ${max}`);
+  }
+}
+
+function expectOptionalLeader(value: unknown, path: string): void {
+  if (value !== undefined && (typeof value !== 'string' || value.length !== 1)) {
+    throw new ReceiptDocumentError(path, 'expected a single character');
+  }
+}
+
+function validateStyle(block: Record<string, unknown>, path: string): void {
+  expectOptional(block.align, `${path}.align`, ALIGNS);
+  expectOptional(block.font, `${path}.font`, FONTS);
+  for (const key of ['bold', 'underline', 'reverse']) {
+    expectOptional(block[key], `${path}.${key}`, [true, false]);
+  }
+  if (isObject(block.size)) {
+    expectOptionalNumber(block.size.width, `${path}.size.width`, 1, 8);
+    expectOptionalNumber(block.size.height, `${path}.size.height`, 1, 8);
+  } else {
+    expectOptionalNumber(block.size, `${path}.size`, 1, 8);
+  }
+}
+
+function validateBlock(block: unknown, path: string): void {
+  if (!isObject(block)) {
+    throw new ReceiptDocumentError(path, 'expected an object');
+  }
+
+  switch (block.type) {
+    case 'text':
+      expectString(block.text, `${path}.text`);
+      validateStyle(block, path);
+      break;
+    case 'columns':
+      if (!Array.isArray(block.columns) || block.columns.length === 0) {
+        throw new ReceiptDocumentError(`${path}.columns`, 'expected a non-empty array');
+      }
+      block.columns.forEach((column: unknown, i: number) => {
+        const columnPath = `${path}.columns[${i}]`;
+        if (!isObject(column)) {
+          throw new ReceiptDocumentError(columnPath, 'expected an object');
+        }
+        expectString(column.text, `${columnPath}.text`);
+        expectOptionalNumber(column.width, `${columnPath}.width`, 0, 255);
+        expectOptionalNumber(column.flex, `${columnPath}.flex`, 0, Infinity);
+        expectOptional(column.align, `${columnPath}.align`, ALIGNS);
+        expectOptional(column.overflow, `${columnPath}.overflow`, ['wrap', 'truncate', 'ellipsis']);
+        expectOptionalLeader(column.leader, `${columnPath}.leader`);
+      });
+      validateStyle(block, path);
+      break;
+    case 'keyValue':
+      expectString(block.key, `${path}.key`);
+      expectString(block.value, `${path}.value`);
+      expectOptionalLeader(block.leader, `${path}.leader`);
+      validateStyle(block, path);
+      break;
+    case 'rule':
+      expectOptionalLeader(block.char, `${path}.char`);
+      break;
+    case 'barcode':
+      expectString(block.data, `${path}.data`);
+      expectOptional(block.symbology, `${path}.symbology`, SYMBOLOGIES);
+      expectOptional(block.hri, `${path}.hri`, ['none', 'above', 'below', 'both']);
+      expectOptionalNumber(block.width, `${path}.width`, 2, 6);
+      expectOptionalNumber(block.height, `${path}.height`, 1, 255);
+      expectOptional(block.align, `${path}.align`, ALIGNS);
+      break;
+    case 'qr':
+      expectString(block.data, `${path}.data`);
+      expectOptional(block.model, `${path}.model`, ['model_1', 'model_2', 'micro']);
+      expectOptional(block.level, `${path}.level`, ['level_l', 'level_m', 'level_q', 'level_h']);
+      expectOptionalNumber(block.size, `${path}.size`, 1, 16);
+      expectOptional(block.align, `${path}.align`, ALIGNS);
+      break;
+    case 'image':
+      expectString(block.src, `${path}.src`);
+      expectOptionalNumber(block.width, `${path}.width`, 1, 65535);
+      expectOptional(block.align, `${path}.align`, ALIGNS);
+      break;
+    case 'feed':
+      expectOptionalNumber(block.lines, `${path}.lines`, 0, 255);
+      break;
+    case 'cut':
+      expectOptional(block.feed, `${path}.feed`, [true, false]);
+      break;
+    case 'pulse':
+      expectOptional(block.drawer, `${path}.drawer`, [1, 2]);
+      expectOptional(block.time, `${path}.time`, [100, 200, 300, 400, 500]);
+      break;
+    default:
+      throw new ReceiptDocumentError(`${path}.type`, `expected one of ${BLOCK_TYPES.join(', ')}`);
+  }
+}
+
+/**
+ * Validate a receipt document received as JSON (string or parsed value)
+ *
+ * @throws {ReceiptDocumentError} If the document is invalid
+ *
+ * @example
+ * ```typescript
+ * const doc = parseReceiptDocument(await response.text());
+ * await service.printReceipt(doc);
+ * ```
+ */
+export function parseReceiptDocument(input: string | unknown): ReceiptDocument {
+  let value: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (err) {
+      throw new ReceiptDocumentError('$', err instanceof Error ? err.message : 'invalid JSON');
+    }
+  }
+
+  if (!isObject(value)) {
+    throw new ReceiptDocumentError('$', 'expected an object');
+  }
+  if (value.version !== 1) {
+    throw new ReceiptDocumentError('version', 'unsupported version (expected 1)');
+  }
+  expectOptionalNumber(value.paperWidth, 'paperWidth', 1, 65535);
+  if (!Array.isArray(value.blocks)) {
+    throw new ReceiptDocumentError('blocks', 'expected an array');
+  }
+  value.blocks.forEach((block: unknown, i: number) => validateBlock(block, `blocks[${i}]`));
+
+  return value as unknown as ReceiptDocument;
+}
+
+/**
+ * Load the images referenced by a document's `image` blocks
+ */
+export async function loadReceiptImages(doc: ReceiptDocument): Promise<ReceiptImages> {
+  const images: ReceiptImages = new Map();
+  const sources = new Set(
+    doc.blocks.filter((block): block is ReceiptImageBlock => block.type === 'image').map((block) => block.src)
+  );
+
+  await Promise.all([...sources].map(async (src) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.src = src;
+    await img.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0);
+    images.set(src, canvas);
+  }));
+
+  return images;
+}
+
+function getSize(style: ReceiptTextStyle): { width: number; height: number } {
+  if (typeof style.size === 'number') {
+    return { width: style.size, height: style.size };
+  }
+  return { width: style.size?.width ?? 1, height: style.size?.height ?? 1 };
+}
+
+/**
+ * Text metrics for a style on the given paper width
+ */
+function getMetrics(paperWidth: number, style: ReceiptTextStyle) {
+  return { paperWidth, font: style.font, size: getSize(style).width };
+}
+
+function applyStyle(builder: epson.ePOSBuilder, style: ReceiptTextStyle): void {
+  const size = getSize(style);
+  builder.addTextAlign(style.align ?? 'left');
+  builder.addTextFont(style.font ?? 'font_a');
+  builder.addTextSize(size.width, size.height);
+  builder.addTextStyle(style.reverse ?? false, style.underline ?? false, style.bold ?? false);
+}
+
+function resetStyle(builder: epson.ePOSBuilder): void {
+  applyStyle(builder, {});
+}
+
+const QR_MODELS = {
+  model_1: 'qrcode_model_1',
+  model_2: 'qrcode_model_2',
+  micro: 'qrcode_micro',
+} as const;
+
+const PULSE_TIMES = {
+  100: 'pulse_100',
+  200: 'pulse_200',
+  300: 'pulse_300',
+  400: 'pulse_400',
+  500: 'pulse_500',
+} as const;
+
+/**
+ * Compile a receipt document into ePOSBuilder commands
+ *
+ * @param doc - Receipt document
+ * @param builder - Builder to add commands to
+ * @param images - Images for `image` blocks (see `loadReceiptImages()`)
+ * @throws {ReceiptDocumentError} If an image block's source wasn't loaded
+ */
+export function compileReceipt(
+  doc: ReceiptDocument,
+  builder: epson.ePOSBuilder,
+  images: ReceiptImages = new Map()
+): void {
+  const paperWidth = doc.paperWidth ?? 576;
+
+  doc.blocks.forEach((block, index) => {
+    switch (block.type) {
+      case 'text':
+        applyStyle(builder, block);
+        builder.addText(block.text + '\n');
+        resetStyle(builder);
+        break;
+
+      case 'columns':
+        applyStyle(builder, block);
+        layoutRow(block.columns.map((column) => column.text), {
+          ...getMetrics(paperWidth, block),
+          columns: block.columns,
+        }).forEach((line) => builder.addText(line + '\n'));
+        resetStyle(builder);
+        break;
+
+      case 'keyValue':
+        applyStyle(builder, block);
+        layoutRow([block.key, block.value], {
+          ...getMetrics(paperWidth, block),
+          columns: [{ leader: block.leader }, { width: Math.max(1, Math.min(block.value.length, 20)), align: 'right' }],
+        }).forEach((line) => builder.addText(line + '\n'));
+        resetStyle(builder);
+        break;
+
+      case 'rule':
+        builder.addTextAlign('left');
+        builder.addText((block.char ?? '-').repeat(getCharsPerLine({ paperWidth })) + '\n');
+        break;
+
+      case 'barcode':
+        builder.addTextAlign(block.align ?? 'center');
+        builder.addBarcode(
+          block.data,
+          block.symbology ?? 'code128',
+          block.hri ?? 'below',
+          'font_a',
+          block.width ?? 2,
+          block.height ?? 64
+        );
+        builder.addFeedLine(1);
+        builder.addTextAlign('left');
+        break;
+
+      case 'qr':
+        builder.addTextAlign(block.align ?? 'center');
+        builder.addSymbol(block.data, QR_MODELS[block.model ?? 'model_2'], block.level ?? 'level_m', block.size ?? 4);
+        builder.addFeedLine(1);
+        builder.addTextAlign('left');
+        break;
+
+      case 'image': {
+        const source = images.get(block.src);
+        if (!source) {
+          throw new ReceiptDocumentError(`blocks[${index}].src`, 'image not loaded');
+        }
+        const width = Math.min(block.width ?? source.width, paperWidth);
+        const height = Math.round(source.height * (width / source.width));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(source, 0, 0, width, height);
+
+        builder.addTextAlign(block.align ?? 'center');
+        builder.addImage(ctx, 0, 0, width, height);
+        builder.addTextAlign('left');
+        break;
+      }
+
+      case 'feed':
+        builder.addFeedLine(block.lines ?? 1);
+        break;
+
+      case 'cut':
+        builder.addCut(block.feed === false ? 'no_feed' : 'feed');
+        break;
+
+      case 'pulse':
+        builder.addPulse(block.drawer === 2 ? 'drawer_2' : 'drawer_1', PULSE_TIMES[block.time ?? 100]);
+        break;
+    }
+  });
+}
@@ -0,0 +1,677 @@
+/**
+ * ePOS-Print XML renderer for receipt previews
+ *
+ * Draws the XML produced by `ePOSBuilder.toString()` onto a canvas the way a
+ * thermal printer would lay it out: paper width, fonts, text size, emphasis,
+ * underline, reverse, alignment, raster images, barcodes, 2D symbols, feeds
+ * and cuts. Raster images are decoded from the request, so they look exactly
+ * like what the printer receives.
+ *
+ * Barcodes and QR codes (model 2) are encoded, so the preview scans like the
+ * printed receipt. Symbologies `barcode-encoder` doesn't know (GS1 DataBar,
+ * CODE93, Codabar, PDF417, MaxiCode, QR model 1 and micro...) and data they
+ * reject are drawn as a labelled placeholder with their approximate footprint.
+ */
+
+import { encodeBarcode, encodeQrCode } from './barcode-encoder';
+import { translate } from './i18n';
+import type { I18nOptions } from './i18n';
+import { warn } from './logger';
+import { FONT_DOT_WIDTHS } from './text-layout';
+import type { TextFont } from './text-layout';
+
+export interface ReceiptRenderOptions extends I18nOptions {
+  /** Printable width in dots (576 for 80mm, 384 for 58mm). Default: 576 */
+  paperWidth?: number;
+  /** Blank paper drawn around the printable area, in dots. Default: 16 */
+  margin?: number;
+  /** Paper color. Default: '#ffffff' */
+  background?: string;
+  /** Ink color for `color_1`. Default: '#000000' */
+  ink?: string;
+  /** Ink color for `color_2`-`color_4` (two-color printers). Default: '#c62828' */
+  secondInk?: string;
+  /** CSS font family used for printer fonts. Default: monospace */
+  fontFamily?: string;
+  /** Line spacing in dots until the XML sets one with `linespc`. Default: 30 */
+  lineSpacing?: number;
+  /** Draw a dashed line where the paper is cut. Default: true */
+  showCutMarks?: boolean;
+}
+
+export class EposXmlParseError extends Error {
+  constructor(message: string) {
+    super(`Invalid ePOS-Print XML: ${message}`);
+    this.name = 'EposXmlParseError';
+  }
+}
+
+/** Character height in dots for each font at size 1 */
+const FONT_DOT_HEIGHTS: Readonly<Record<TextFont, number>> = {
+  font_a: 24,
+  font_b: 17,
+  font_c: 16,
+};
+
+/** Paper fed by `<cut type="feed"/>` to bring the last line past the cutter */
+const CUT_FEED_DOTS = 60;
+
+const HLINE_THICKNESS: Record<string, number> = {
+  line_thin: 1,
+  line_medium: 2,
+  line_thick: 3,
+  line_thin_double: 1,
+  line_medium_double: 2,
+  line_thick_double: 3,
+};
+
+/** QR byte capacity per version at error correction level M */
+const QR_CAPACITY_M = [
+  14, 26, 42, 62, 84, 106, 122, 152, 180, 213, 251, 287, 331, 362, 412, 450, 504, 560, 624, 666,
+  711, 779, 857, 911, 997, 1059, 1125, 1190, 1264, 1370, 1452, 1538, 1628, 1722, 1809, 1911, 1989, 2099, 2213, 2331,
+];
+
+const QR_LEVEL_FACTOR: Record<string, number> = {
+  level_l: 0.8,
+  level_m: 1,
+  level_q: 1.4,
+  level_h: 1.75,
+};
+
+interface TextState {
+  font: TextFont;
+  width: number;
+  height: number;
+  em: boolean;
+  ul: boolean;
+  reverse: boolean;
+  color: string;
+  align: 'left' | 'center' | 'right';
+  linespc: number;
+  rotate: boolean;
+}
+
+interface Glyph {
+  char: string;
+  x: number;
+  state: TextState;
+}
+
+type DrawOp = (ctx: CanvasRenderingContext2D) => void;
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Get the command elements of an ePOS-Print request.
+ * Accepts `ePOSBuilder.toString()`, the SOAP envelope, or `builder.message`.
+ */
+export function parseCommands(xml: string): Element[] {
+  const source = /<epos-print[\s>]/.test(xml)
+    ? xml
+    : `<epos-print xmlns="http://www.epson-pos.com/schemas/2011/03/epos-print">${xml}</epos-print>`;
+  const doc = new DOMParser().parseFromString(source, 'text/xml');
+
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw new EposXmlParseError(parserError.textContent?.trim() || 'malformed XML');
+  }
+  const root = doc.getElementsByTagNameNS('*', 'epos-print')[0];
+  if (!root) {
+    throw new EposXmlParseError('missing <epos-print> element');
+  }
+  return Array.from(root.children);
+}
+
+export function getNumber(element: Element, name: string, fallback: number): number {
+  const value = element.getAttribute(name);
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function getBoolean(element: Element, name: string): boolean | undefined {
+  const value = element.getAttribute(name);
+  return value === null ? undefined : value === 'true';
+}
+
+export function getFont(value: string | null): TextFont {
+  return value === 'font_b' || value === 'font_c' ? value : 'font_a';
+}
+
+/** Undo the `\xNN` escaping the SDK applies to barcode and symbol data */
+export function unescapeControl(data: string): string {
+  return data.replace(/\\(x[0-9a-f]{2}|\\)/gi, (_, code: string) =>
+    code === '\\' ? '\\' : String.fromCharCode(parseInt(code.slice(1), 16))
+  );
+}
+
+export function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** Approximate number of modules of a 1D barcode that isn't encoded */
+function getBarcodeModules(type: string, data: string): number {
+  switch (type) {
+    case 'upc_a':
+    case 'ean13':
+    case 'jan13':
+      return 95;
+    case 'upc_e':
+      return 51;
+    case 'ean8':
+    case 'jan8':
+      return 67;
+    case 'code39':
+      return (data.length + 2) * 13;
+    case 'itf':
+      return Math.ceil(data.length / 2) * 18 + 9;
+    case 'codabar':
+      return data.length * 10;
+    case 'code93':
+      return (data.length + 4) * 9 + 1;
+    case 'gs1_databar_omnidirectional':
+    case 'gs1_databar_truncated':
+      return 96;
+    case 'gs1_databar_limited':
+      return 79;
+    default:
+      // code128, code128_auto, gs1_128, gs1_databar_expanded: ~11 modules per character
+      return (data.replace(/\{./g, '').length + 3) * 11 + 2;
+  }
+}
+
+/** Approximate side in modules of a 2D symbol that isn't encoded */
+function getSymbolModules(type: string, level: string | null, data: string): number {
+  if (type.startsWith('qrcode')) {
+    const bytes = data.length * (QR_LEVEL_FACTOR[level ?? 'level_m'] ?? 1);
+    const version = QR_CAPACITY_M.findIndex((capacity) => capacity >= bytes) + 1 || QR_CAPACITY_M.length;
+    return type === 'qrcode_micro' ? Math.min(17, 9 + version * 2) : 17 + version * 4;
+  }
+  if (type.startsWith('maxicode')) {
+    return 33;
+  }
+  return Math.ceil(Math.sqrt(data.length * 8)) + 10;
+}
+
+/**
+ * Render an ePOS-Print request onto a canvas
+ *
+ * @param xml - `ePOSBuilder.toString()`, the SOAP request, or `builder.message`
+ * @throws {EposXmlParseError} If the XML can't be parsed
+ *
+ * @example
+ * ```typescript
+ * const result = await service.buildXml((builder) => {
+ *   builder.addTextAlign('center');
+ *   builder.addText('Hello\n');
+ *   builder.addCut('feed');
+ * });
+ * if ('xml' in result) {
+ *   document.body.appendChild(renderEposXml(result.xml, { paperWidth: 384 }));
+ * }
+ * ```
+ */
+export function renderEposXml(xml: string, options: ReceiptRenderOptions = {}): HTMLCanvasElement {
+  const paperWidth = options.paperWidth ?? 576;
+  const margin = options.margin ?? 16;
+  const background = options.background ?? '#ffffff';
+  const ink = options.ink ?? '#000000';
+  const secondInk = options.secondInk ?? '#c62828';
+  const fontFamily = options.fontFamily ?? "'Courier New', Courier, monospace";
+  const showCutMarks = options.showCutMarks ?? true;
+
+  const ops: DrawOp[] = [];
+  let y = 0;
+
+  let state: TextState = {
+    font: 'font_a',
+    width: 1,
+    height: 1,
+    em: false,
+    ul: false,
+    reverse: false,
+    color: 'color_1',
+    align: 'left',
+    linespc: options.lineSpacing ?? 30,
+    rotate: false,
+  };
+
+  let glyphs: Glyph[] = [];
+  let cursorX = 0;
+  let lineAlign = state.align;
+
+  const inkFor = (color: string) => (color === 'color_1' || color === 'none' ? ink : secondInk);
+
+  const alignOffset = (width: number, align: TextState['align']) => {
+    if (align === 'center') return Math.max(0, Math.floor((paperWidth - width) / 2));
+    if (align === 'right') return Math.max(0, paperWidth - width);
+    return 0;
+  };
+
+  const cellSize = (s: TextState) => ({
+    width: FONT_DOT_WIDTHS[s.font] * s.width,
+    height: FONT_DOT_HEIGHTS[s.font] * s.height,
+  });
+
+  const drawGlyph = (ctx: CanvasRenderingContext2D, glyph: Glyph, left: number, bottom: number) => {
+    const { font, width, height, em, ul, reverse, color } = glyph.state;
+    const cellWidth = FONT_DOT_WIDTHS[font];
+    const cellHeight = FONT_DOT_HEIGHTS[font];
+    const color1 = inkFor(color);
+
+    ctx.save();
+    ctx.translate(left, bottom - cellHeight * height);
+    ctx.scale(width, height);
+    if (reverse) {
+      ctx.fillStyle = color1;
+      ctx.fillRect(0, 0, cellWidth, cellHeight);
+    }
+    ctx.fillStyle = reverse ? background : color1;
+    ctx.font = `${em ? 'bold ' : ''}${cellHeight}px ${fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(glyph.char, cellWidth / 2, cellHeight * 0.8, cellWidth);
+    if (ul) {
+      ctx.fillRect(0, cellHeight - 2, cellWidth, 2);
+    }
+    ctx.restore();
+  };
+
+  /** Print the line buffer and advance one line */
+  const flushLine = () => {
+    const lineGlyphs = glyphs;
+    const tallest = Math.max(0, ...lineGlyphs.map((glyph) => cellSize(glyph.state).height));
+    const advance = Math.max(state.linespc, tallest);
+
+    if (lineGlyphs.length > 0) {
+      const lineWidth = Math.max(...lineGlyphs.map((glyph) => glyph.x + cellSize(glyph.state).width));
+      const offset = alignOffset(lineWidth, lineAlign);
+      const top = y;
+      const rotate = lineGlyphs[0].state.rotate;
+
+      ops.push((ctx) => {
+        ctx.save();
+        if (rotate) {
+          // Upside-down printing: rotate the line around its center
+          ctx.translate(offset + lineWidth / 2, top + tallest / 2);
+          ctx.rotate(Math.PI);
+          ctx.translate(-(offset + lineWidth / 2), -(top + tallest / 2));
+        }
+        for (const glyph of lineGlyphs) {
+          drawGlyph(ctx, glyph, offset + glyph.x, top + tallest);
+        }
+        ctx.restore();
+      });
+    }
+
+    y += advance;
+    glyphs = [];
+    cursorX = 0;
+    lineAlign = state.align;
+  };
+
+  /** Print the line buffer if it has content (non-text commands start on a new line) */
+  const endLine = () => {
+    if (glyphs.length > 0) flushLine();
+  };
+
+  const addText = (text: string) => {
+    for (const char of text) {
+      if (char === '\n') {
+        flushLine();
+        continue;
+      }
+      if (char === '\r') continue;
+
+      const { width } = cellSize(state);
+      if (cursorX + width > paperWidth) {
+        flushLine();
+      }
+      if (glyphs.length === 0) {
+        lineAlign = state.align;
+      }
+      glyphs.push({ char: char === '\t' ? ' ' : char, x: cursorX, state });
+      cursorX += width;
+    }
+  };
+
+  const applyTextAttributes = (element: Element) => {
+    const next = { ...state };
+    const font = element.getAttribute('font');
+    if (font) next.font = getFont(font);
+    next.width = getNumber(element, 'width', next.width);
+    next.height = getNumber(element, 'height', next.height);
+
+    const dw = getBoolean(element, 'dw');
+    const dh = getBoolean(element, 'dh');
+    if (dw !== undefined) next.width = dw ? 2 : 1;
+    if (dh !== undefined) next.height = dh ? 2 : 1;
+
+    next.em = getBoolean(element, 'em') ?? next.em;
+    next.ul = getBoolean(element, 'ul') ?? next.ul;
+    next.reverse = getBoolean(element, 'reverse') ?? next.reverse;
+    next.rotate = getBoolean(element, 'rotate') ?? next.rotate;
+    next.color = element.getAttribute('color') ?? next.color;
+    next.linespc = getNumber(element, 'linespc', next.linespc);
+
+    const align = element.getAttribute('align');
+    if (align === 'left' || align === 'center' || align === 'right') {
+      next.align = align;
+    }
+    state = next;
+
+    const x = element.getAttribute('x');
+    if (x !== null) {
+      cursorX = Math.min(paperWidth, Number(x) || 0);
+    }
+  };
+
+  const addImage = (element: Element) => {
+    endLine();
+    const width = getNumber(element, 'width', 0);
+    const height = getNumber(element, 'height', 0);
+    if (width <= 0 || height <= 0) return;
+
+    const gray16 = element.getAttribute('mode') === 'gray16';
+    const bytes = decodeBase64(element.textContent ?? '');
+    const mask = new ImageData(width, height);
+    const rowBytes = gray16 ? Math.ceil(width / 2) : Math.ceil(width / 8);
+
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        let coverage: number;
+        if (gray16) {
+          const byte = bytes[row * rowBytes + (col >> 1)] ?? 0xff;
+          const level = col & 1 ? byte & 0x0f : byte >> 4;
+          coverage = 255 - level * 17; // 15 = white
+        } else {
+          const byte = bytes[row * rowBytes + (col >> 3)] ?? 0;
+          coverage = byte & (0x80 >> (col & 7)) ? 255 : 0;
+        }
+        mask.data[(row * width + col) * 4 + 3] = coverage;
+      }
+    }
+
+    const image = createCanvas(width, height);
+    const imageCtx = image.getContext('2d');
+    if (!imageCtx) return;
+    imageCtx.putImageData(mask, 0, 0);
+    imageCtx.globalCompositeOperation = 'source-in';
+    imageCtx.fillStyle = inkFor(element.getAttribute('color') ?? 'color_1');
+    imageCtx.fillRect(0, 0, width, height);
+
+    const left = alignOffset(width, state.align);
+    const top = y;
+    ops.push((ctx) => {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, top, paperWidth, height);
+      ctx.clip();
+      ctx.drawImage(image, left, top);
+      ctx.restore();
+    });
+    y += height;
+  };
+
+  const drawHri = (text: string, font: TextFont, center: number, top: number) => {
+    ops.push((ctx) => {
+      ctx.fillStyle = ink;
+      ctx.font = `${FONT_DOT_HEIGHTS[font]}px ${fontFamily}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText(text, center, top, paperWidth);
+    });
+  };
+
+  /** Hatched box with the symbology name, for barcodes and symbols that aren't encoded */
+  const drawPlaceholder = (ctx: CanvasRenderingContext2D, label: string, left: number, top: number, width: number, height: number) => {
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(left, top, width, height);
+    ctx.clip();
+    ctx.strokeStyle = ink;
+    ctx.lineWidth = 1;
+    ctx.globalAlpha = 0.25;
+    for (let d = -height; d < width; d += 8) {
+      ctx.moveTo(left + d, top + height);
+      ctx.lineTo(left + d + height, top);
+    }
+    ctx.stroke();
+    ctx.globalAlpha = 1;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(left + 1, top + 1, width - 2, height - 2);
+
+    const fontHeight = Math.min(FONT_DOT_HEIGHTS.font_a, Math.max(8, height / 3));
+    ctx.font = `${fontHeight}px ${fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const labelWidth = Math.min(width - 8, ctx.measureText(label).width + 8);
+    ctx.fillStyle = background;
+    ctx.fillRect(left + (width - labelWidth) / 2, top + (height - fontHeight) / 2 - 2, labelWidth, fontHeight + 4);
+    ctx.fillStyle = ink;
+    ctx.fillText(label, left + width / 2, top + height / 2, width - 8);
+    ctx.restore();
+  };
+
+  const addBarcode = (element: Element) => {
+    endLine();
+    const type = element.getAttribute('type') ?? 'code128';
+    const data = unescapeControl(element.textContent ?? '');
+    const hri = element.getAttribute('hri') ?? 'none';
+    const hriFont = getFont(element.getAttribute('font'));
+    const moduleWidth = getNumber(element, 'width', 3);
+    const barHeight = getNumber(element, 'height', 162);
+    const hriHeight = FONT_DOT_HEIGHTS[hriFont] + 4;
+
+    const encoded = encodeBarcode(type, data);
+    const modules = encoded?.modules.length ?? getBarcodeModules(type, data);
+    const width = Math.min(paperWidth, modules * moduleWidth);
+    const left = alignOffset(width, state.align);
+    const hriText = encoded?.text ?? data.replace(/\{./g, '');
+
+    if (hri === 'above' || hri === 'both') {
+      drawHri(hriText, hriFont, left + width / 2, y);
+      y += hriHeight;
+    }
+
+    const top = y;
+    ops.push((ctx) => {
+      if (!encoded) {
+        drawPlaceholder(ctx, type.toUpperCase(), left, top, width, barHeight);
+        return;
+      }
+      ctx.fillStyle = ink;
+      encoded.modules.forEach((bar, i) => {
+        if (bar && i * moduleWidth < width) ctx.fillRect(left + i * moduleWidth, top, moduleWidth, barHeight);
+      });
+    });
+    y += barHeight;
+
+    if (hri === 'below' || hri === 'both') {
+      y += 4;
+      drawHri(hriText, hriFont, left + width / 2, y);
+      y += hriHeight;
+    }
+  };
+
+  const addSymbol = (element: Element) => {
+    endLine();
+    const type = element.getAttribute('type') ?? 'qrcode_model_2';
+    const data = unescapeControl(element.textContent ?? '');
+    const moduleSize = getNumber(element, 'width', 3) || 3;
+    const level = element.getAttribute('level');
+    const qrCode = type === 'qrcode_model_2' ? encodeQrCode(data, level ?? undefined) : null;
+    const modules = qrCode?.length ?? getSymbolModules(type, level, data);
+    const side = Math.min(paperWidth, modules * moduleSize);
+    const left = alignOffset(side, state.align);
+    const top = y;
+    ops.push((ctx) => {
+      if (!qrCode) {
+        drawPlaceholder(ctx, type.toUpperCase(), left, top, side, side);
+        return;
+      }
+      ctx.fillStyle = ink;
+      qrCode.forEach((row, r) => {
+        row.forEach((dark, c) => {
+          if (dark && c * moduleSize < side && r * moduleSize < side) {
+            ctx.fillRect(left + c * moduleSize, top + r * moduleSize, moduleSize, moduleSize);
+          }
+        });
+      });
+    });
+    y += side;
+  };
+
+  const addFeed = (element: Element) => {
+    const unit = element.getAttribute('unit');
+    const line = element.getAttribute('line');
+    const pos = element.getAttribute('pos');
+
+    if (unit !== null) {
+      endLine();
+      y += Number(unit) || 0;
+    } else if (line !== null) {
+      // Printing the buffer uses up the first line of the feed
+      let lines = Number(line) || 0;
+      if (glyphs.length > 0 && lines > 0) {
+        flushLine();
+        lines--;
+      }
+      y += lines * state.linespc;
+    } else if (pos === 'cutting') {
+      endLine();
+      y += CUT_FEED_DOTS;
+    } else if (pos === null) {
+      flushLine();
+    }
+  };
+
+  const addCut = (element: Element) => {
+    endLine();
+    const type = element.getAttribute('type') ?? 'feed';
+    if (type !== 'no_feed') {
+      y += CUT_FEED_DOTS;
+    }
+    if (showCutMarks) {
+      const top = y;
+      ops.push((ctx) => {
+        ctx.save();
+        ctx.strokeStyle = '#9e9e9e';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([8, 6]);
+        ctx.beginPath();
+        ctx.moveTo(-margin, top + 0.5);
+        ctx.lineTo(paperWidth + margin, top + 0.5);
+        ctx.stroke();
+        ctx.fillStyle = '#9e9e9e';
+        ctx.font = `16px ${fontFamily}`;
+        ctx.textBaseline = 'middle';
+        ctx.fillText('✂', -margin + 2, top);
+        ctx.restore();
+      });
+    }
+    y += 8;
+  };
+
+  const addHLine = (element: Element) => {
+    endLine();
+    const style = element.getAttribute('style') ?? 'line_thin';
+    const x1 = getNumber(element, 'x1', 0);
+    const x2 = Math.min(paperWidth, getNumber(element, 'x2', paperWidth));
+    const thickness = HLINE_THICKNESS[style] ?? 1;
+    const double = style.endsWith('_double');
+    const top = y + Math.floor((state.linespc - thickness) / 2);
+
+    ops.push((ctx) => {
+      ctx.fillStyle = ink;
+      ctx.fillRect(x1, top, x2 - x1, thickness);
+      if (double) {
+        ctx.fillRect(x1, top + thickness * 2, x2 - x1, thickness);
+      }
+    });
+    y += state.linespc;
+  };
+
+  const addLogo = (element: Element) => {
+    endLine();
+    const label = `LOGO ${element.getAttribute('key1') ?? ''},${element.getAttribute('key2') ?? ''}`;
+    const width = 160;
+    const height = 64;
+    const left = alignOffset(width, state.align);
+    const top = y;
+    ops.push((ctx) => {
+      ctx.save();
+      ctx.strokeStyle = ink;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(left + 0.5, top + 0.5, width - 1, height - 1);
+      ctx.fillStyle = ink;
+      ctx.font = `16px ${fontFamily}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label, left + width / 2, top + height / 2, width - 8);
+      ctx.restore();
+    });
+    y += height;
+  };
+
+  for (const element of parseCommands(xml)) {
+    switch (element.localName) {
+      case 'text':
+        applyTextAttributes(element);
+        if (element.textContent) addText(element.textContent);
+        break;
+      case 'image':
+        addImage(element);
+        break;
+      case 'barcode':
+        addBarcode(element);
+        break;
+      case 'symbol':
+        addSymbol(element);
+        break;
+      case 'feed':
+        addFeed(element);
+        break;
+      case 'cut':
+        addCut(element);
+        break;
+      case 'hline':
+        addHLine(element);
+        break;
+      case 'logo':
+        addLogo(element);
+        break;
+      case 'pulse':
+      case 'sound':
+      case 'layout':
+        // No visible output
+        break;
+      default:
+        warn(`renderEposXml: <${element.localName}> is not supported in previews, skipping`);
+    }
+  }
+  endLine();
+
+  const canvas = createCanvas(paperWidth + margin * 2, Math.ceil(y) + margin * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error(translate('print.canvasError', undefined, options));
+  }
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(margin, margin);
+  for (const op of ops) {
+    op(ctx);
+  }
+  return canvas;
+}
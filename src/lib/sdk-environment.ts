@@ -0,0 +1,26 @@
+/**
+ * Detection of the Epson SDK and of environments without it
+ *
+ * Kept apart from the loader so headless code (the `/node` entry) can check
+ * for the SDK without bundling its source.
+ */
+
+/**
+ * Check if SDK is already available in window
+ */
+export function isEpsonSDKLoaded(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.epson !== 'undefined' &&
+    typeof window.epson.ePOSPrint !== 'undefined'
+  );
+}
+
+/**
+ * Whether the SDK can't be used here: it isn't loaded and there is no `document`
+ * to load it into (Node.js, workers). Services then build requests with
+ * `EposXmlBuilder` and send them with `fetch()`.
+ */
+export function isHeadlessEnvironment(): boolean {
+  return !isEpsonSDKLoaded() && typeof document === 'undefined';
+}
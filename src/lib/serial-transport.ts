@@ -0,0 +1,224 @@
+/**
+ * Web Serial transport: raw ESC/POS to a printer on a serial port
+ * (RS-232, or the virtual COM port of USB printers and adapters)
+ *
+ * Like WebUSB, the browser only gives access to ports the user picked once
+ * with `requestSerialPrinter()`; granted ports are found again with
+ * `navigator.serial.getPorts()`.
+ */
+
+import { debug } from './logger';
+import { EscPosConnectionError, EscPosTransport } from './escpos-transport';
+import type { EscPosTransportOptions } from './escpos-transport';
+import type { EpsonPrinterConfig } from '../types';
+
+/**
+ * Identifies a serial printer and its line settings. Store the one returned by
+ * `requestSerialPrinter()` in `EpsonPrinterConfig.serial`.
+ */
+export interface SerialPrinterOptions {
+  /** USB vendor ID of USB serial ports (empty matches any granted port) */
+  usbVendorId?: number;
+  /** USB product ID of USB serial ports */
+  usbProductId?: number;
+  /** Default: 9600 */
+  baudRate?: number;
+  /** Use 'hardware' (RTS/CTS) for printers that drop data on large jobs. Default: 'none' */
+  flowControl?: 'none' | 'hardware';
+}
+
+// Minimal Web Serial types (not part of the TypeScript DOM library)
+interface SerialPortLike extends EventTarget {
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+  open(options: { baudRate: number; flowControl?: 'none' | 'hardware' }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface Serial extends EventTarget {
+  getPorts(): Promise<SerialPortLike[]>;
+  requestPort(options?: { filters?: { usbVendorId?: number; usbProductId?: number }[] }): Promise<SerialPortLike>;
+}
+
+function getSerial(): Serial | undefined {
+  return typeof navigator === 'undefined' ? undefined : (navigator as Navigator & { serial?: Serial }).serial;
+}
+
+/**
+ * Whether the browser supports Web Serial (Chromium-based desktop browsers, over HTTPS)
+ */
+export function isWebSerialSupported(): boolean {
+  return getSerial() !== undefined;
+}
+
+function toOptions(port: SerialPortLike): SerialPrinterOptions {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  return {
+    ...(usbVendorId !== undefined ? { usbVendorId } : {}),
+    ...(usbProductId !== undefined ? { usbProductId } : {}),
+  };
+}
+
+/**
+ * Ask the user to pick a serial port and grant access to it.
+ * Must be called from a user gesture (e.g. a click handler).
+ *
+ * @param filters - Ports offered in the browser dialog. Default: all ports
+ *   (RS-232 ports have no USB IDs, so filtering by Epson would hide them)
+ * @returns The options of the picked port, or null if the dialog was cancelled
+ * @throws {Error} If the browser doesn't support Web Serial
+ *
+ * @example
+ * ```typescript
+ * const serial = await requestSerialPrinter();
+ * if (serial) updateConfig({ transport: 'serial', serial: { ...serial, baudRate: 38400 } });
+ * ```
+ */
+export async function requestSerialPrinter(
+  filters?: { usbVendorId?: number; usbProductId?: number }[]
+): Promise<SerialPrinterOptions | null> {
+  const serial = getSerial();
+  if (!serial) {
+    throw new Error('Web Serial is not supported by this browser');
+  }
+  try {
+    return toOptions(await serial.requestPort(filters ? { filters } : undefined));
+  } catch (err) {
+    // NotFoundError: the user closed the dialog without picking a port
+    if (err instanceof Error && err.name === 'NotFoundError') {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Serial ports the user already granted access to
+ */
+export async function getGrantedSerialPrinters(): Promise<SerialPrinterOptions[]> {
+  const serial = getSerial();
+  return serial ? (await serial.getPorts()).map(toOptions) : [];
+}
+
+/**
+ * Print transport over Web Serial.
+ *
+ * Usually created through `{ transport: 'serial' }` in the printer config;
+ * instances are shared per port (see `getSerialTransport()`).
+ *
+ * @example
+ * ```typescript
+ * const service = new EposPrintService({ transport: 'serial', serial: { usbVendorId: 0x04b8, baudRate: 38400 } });
+ * await service.printReceipt(doc);
+ * ```
+ */
+export class SerialTransport extends EscPosTransport {
+  readonly type = 'serial';
+  private portOptions: SerialPrinterOptions;
+  private port: SerialPortLike | null = null;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private removeListener: (() => void) | null = null;
+
+  constructor(portOptions: SerialPrinterOptions = {}, options?: EscPosTransportOptions) {
+    super(options);
+    this.portOptions = portOptions;
+  }
+
+  protected async openDevice(): Promise<void> {
+    const serial = getSerial();
+    if (!serial) {
+      throw new EscPosConnectionError('API_NOT_SUPPORTED', 'Web Serial is not supported by this browser');
+    }
+
+    const { usbVendorId, usbProductId, baudRate = 9600, flowControl = 'none' } = this.portOptions;
+    const port = (await serial.getPorts()).find((candidate) => {
+      const info = candidate.getInfo();
+      return (
+        (usbVendorId === undefined || info.usbVendorId === usbVendorId) &&
+        (usbProductId === undefined || info.usbProductId === usbProductId)
+      );
+    });
+    if (!port) {
+      throw new EscPosConnectionError('DEVICE_NOT_SELECTED', 'No granted serial port matches the configuration');
+    }
+
+    try {
+      await port.open({ baudRate, flowControl });
+    } catch (err) {
+      // InvalidStateError: already open in another tab or program
+      throw new EscPosConnectionError(
+        err instanceof Error && err.name === 'InvalidStateError' ? 'DEVICE_IN_USE' : 'CONNECTION_ERROR',
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+
+    this.port = port;
+    const onDisconnect = () => {
+      debug('SerialTransport: port disconnected');
+      this.handleDisconnect();
+    };
+    port.addEventListener('disconnect', onDisconnect);
+    this.removeListener = () => port.removeEventListener('disconnect', onDisconnect);
+    debug('SerialTransport: opened', toOptions(port), `${baudRate} baud`);
+  }
+
+  protected async write(data: Uint8Array): Promise<void> {
+    if (!this.port?.writable) throw new Error('Serial port not open');
+    const writer = this.port.writable.getWriter();
+    try {
+      await writer.write(data);
+    } finally {
+      writer.releaseLock();
+    }
+  }
+
+  protected async read(): Promise<Uint8Array> {
+    if (!this.port?.readable) throw new Error('Serial port not open');
+    // The reader is kept for the life of the connection: a pending read can't be taken back
+    this.reader ??= this.port.readable.getReader();
+    const { value, done } = await this.reader.read();
+    if (done) {
+      throw new Error('Serial port closed');
+    }
+    return value ?? new Uint8Array(0);
+  }
+
+  protected async closeDevice(): Promise<void> {
+    const { port, reader } = this;
+    this.port = null;
+    this.reader = null;
+    this.removeListener?.();
+    this.removeListener = null;
+    if (reader) {
+      await reader.cancel().catch(() => undefined);
+      reader.releaseLock();
+    }
+    await port?.close();
+  }
+}
+
+/** Open serial transports, one per port */
+const pool = new Map<string, SerialTransport>();
+
+/**
+ * Get the shared serial transport of a printer, creating it on first use
+ */
+export function getSerialTransport(config: EpsonPrinterConfig): SerialTransport {
+  const portOptions = config.serial ?? {};
+  const key = JSON.stringify([portOptions.usbVendorId, portOptions.usbProductId]);
+  let transport = pool.get(key);
+  if (!transport || transport.getState() === 'closed') {
+    transport = new SerialTransport(portOptions, { codePage: config.codePage });
+    pool.set(key, transport);
+  }
+  return transport;
+}
+
+/**
+ * Close every shared serial transport and release the ports
+ */
+export function closeSerialTransports(): void {
+  pool.forEach((transport) => transport.close());
+  pool.clear();
+}
@@ -0,0 +1,259 @@
+/**
+ * Column/table layout for monospaced receipt text
+ *
+ * Knows the characters per line of each printer font and text size, and lays
+ * out rows of cells with alignment, wrapping, truncation and dot leaders.
+ */
+
+import type { epson } from './epson-sdk';
+
+export type TextFont = 'font_a' | 'font_b' | 'font_c';
+export type TextAlign = 'left' | 'center' | 'right';
+
+/**
+ * Character width in dots for each font at size 1
+ * (80mm paper: 48 / 64 / 72 characters per line, 58mm: 32 / 42 / 48)
+ */
+export const FONT_DOT_WIDTHS: Readonly<Record<TextFont, number>> = {
+  font_a: 12,
+  font_b: 9,
+  font_c: 8,
+};
+
+export interface TextMetricsOptions {
+  /** Printable width in dots (576 for 80mm, 384 for 58mm). Default: 576 */
+  paperWidth?: number;
+  /** Font set with `addTextFont`. Default: 'font_a' */
+  font?: TextFont;
+  /** Width multiplier set with `addTextSize` (1-8). Default: 1 */
+  size?: number;
+  /** Explicit characters per line, overrides the values above */
+  charsPerLine?: number;
+}
+
+export interface TableColumn {
+  /** Fixed width in characters */
+  width?: number;
+  /** Share of the remaining space for columns without a fixed width (default: 1) */
+  flex?: number;
+  /** Text alignment inside the column (default: 'left') */
+  align?: TextAlign;
+  /**
+   * What to do with text longer than the column:
+   * - 'wrap': continue on the next lines (default)
+   * - 'truncate': cut the text
+   * - 'ellipsis': cut the text and end it with `ellipsis`
+   */
+  overflow?: 'wrap' | 'truncate' | 'ellipsis';
+  /** Fill the empty space next to the text with this character (e.g. '.') */
+  leader?: string;
+}
+
+export interface TableLayoutOptions extends TextMetricsOptions {
+  /** Column definitions. Defaults to equal flexible columns, the last one right-aligned. */
+  columns?: TableColumn[];
+  /** Spaces between columns. Default: 1 */
+  gap?: number;
+  /** Text appended by `overflow: 'ellipsis'`. Default: '...' */
+  ellipsis?: string;
+}
+
+/**
+ * Characters that fit on one line for a font and text size
+ *
+ * @example
+ * ```typescript
+ * getCharsPerLine({ paperWidth: 576, font: 'font_b' }); // 64
+ * getCharsPerLine({ paperWidth: 384, size: 2 });        // 16
+ * ```
+ */
+export function getCharsPerLine(options: TextMetricsOptions = {}): number {
+  if (options.charsPerLine) {
+    return options.charsPerLine;
+  }
+  const paperWidth = options.paperWidth ?? 576;
+  const dots = FONT_DOT_WIDTHS[options.font ?? 'font_a'] * Math.max(1, options.size ?? 1);
+  return Math.max(1, Math.floor(paperWidth / dots));
+}
+
+/**
+ * Share `total` characters out in proportion to `weights`, giving characters
+ * lost to rounding to the first entries
+ */
+function distribute(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  if (sum <= 0) return weights.map(() => 0);
+  const shares = weights.map((weight) => Math.floor((total * weight) / sum));
+  let remaining = total - shares.reduce((acc, share) => acc + share, 0);
+  for (let i = 0; remaining > 0 && i < shares.length; i++) {
+    if (weights[i] > 0) {
+      shares[i]++;
+      remaining--;
+    }
+  }
+  return shares;
+}
+
+/**
+ * Resolve column widths in characters. Fixed widths that add up to more
+ * than the line are shrunk in proportion, so rows never overflow the line.
+ */
+export function getColumnWidths(columns: TableColumn[], charsPerLine: number, gap: number = 1): number[] {
+  const available = Math.max(0, charsPerLine - gap * Math.max(0, columns.length - 1));
+  const fixedWidths = columns.map((column) => (column.width === undefined ? 0 : Math.max(0, Math.floor(column.width))));
+  const fixed = fixedWidths.reduce((sum, width) => sum + width, 0);
+  const flexShares = columns.map((column) => (column.width === undefined ? Math.max(0, column.flex ?? 1) : 0));
+
+  if (fixed > available) {
+    const shrunk = distribute(available, fixedWidths);
+    return columns.map((column, i) => (column.width === undefined ? 0 : shrunk[i]));
+  }
+  const flexWidths = distribute(available - fixed, flexShares);
+  return columns.map((column, i) => (column.width === undefined ? flexWidths[i] : fixedWidths[i]));
+}
+
+/**
+ * Split text into lines of at most `width` characters, breaking at spaces when possible
+ */
+export function wrapText(text: string, width: number): string[] {
+  if (width <= 0) return [''];
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= width) {
+        line += ' ' + word;
+        continue;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+      // Break words longer than the column
+      while (line.length > width) {
+        lines.push(line.slice(0, width));
+        line = line.slice(width);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Cut text to `width` characters, optionally ending it with an ellipsis
+ */
+export function truncateText(text: string, width: number, ellipsis: string = ''): string {
+  if (text.length <= width) return text;
+  if (ellipsis && width > ellipsis.length) {
+    return text.slice(0, width - ellipsis.length) + ellipsis;
+  }
+  return text.slice(0, width);
+}
+
+/**
+ * Pad text to exactly `width` characters
+ */
+export function alignText(text: string, width: number, align: TextAlign = 'left', leader?: string): string {
+  const clipped = text.slice(0, width);
+  const space = width - clipped.length;
+  if (space <= 0) return clipped;
+
+  // Leaders keep one space next to the text: "Coffee ....."
+  const fill = (count: number, side: 'before' | 'after') => {
+    if (!leader || count < 2 || !clipped) return ' '.repeat(count);
+    return side === 'after'
+      ? ' ' + leader.repeat(count - 1)
+      : leader.repeat(count - 1) + ' ';
+  };
+
+  if (align === 'right') return fill(space, 'before') + clipped;
+  if (align === 'center') {
+    const left = Math.floor(space / 2);
+    return ' '.repeat(left) + clipped + ' '.repeat(space - left);
+  }
+  return clipped + fill(space, 'after');
+}
+
+function getDefaultColumns(count: number): TableColumn[] {
+  return Array.from({ length: count }, (_, i) => ({
+    align: i === count - 1 && i > 0 ? 'right' : 'left',
+  }));
+}
+
+/**
+ * Lay out one row of cells. Returns one or more lines (when cells wrap).
+ *
+ * @example
+ * ```typescript
+ * layoutRow(['2 x Coffee', '4.50'], {
+ *   columns: [{ leader: '.' }, { width: 8, align: 'right' }],
+ *   charsPerLine: 32,
+ * });
+ * // ['2 x Coffee ............     4.50']
+ * ```
+ */
+export function layoutRow(cells: string[], options: TableLayoutOptions = {}): string[] {
+  const columns = options.columns ?? getDefaultColumns(cells.length);
+  const gap = options.gap ?? 1;
+  const widths = getColumnWidths(columns, getCharsPerLine(options), gap);
+  const ellipsis = options.ellipsis ?? '...';
+
+  const cellLines = columns.map((column, i) => {
+    const text = cells[i] ?? '';
+    switch (column.overflow ?? 'wrap') {
+      case 'truncate':
+        return [truncateText(text.replace(/\n/g, ' '), widths[i])];
+      case 'ellipsis':
+        return [truncateText(text.replace(/\n/g, ' '), widths[i], ellipsis)];
+      default:
+        return wrapText(text, widths[i]);
+    }
+  });
+
+  const height = Math.max(...cellLines.map((lines) => lines.length));
+  const lines: string[] = [];
+  for (let line = 0; line < height; line++) {
+    const parts = columns.map((column, i) => alignText(
+      cellLines[i][line] ?? '',
+      widths[i],
+      column.align,
+      // Leaders only on the first line of a wrapped row
+      line === 0 ? column.leader : undefined
+    ));
+    lines.push(parts.join(' '.repeat(gap)).replace(/\s+$/, ''));
+  }
+  return lines;
+}
+
+/**
+ * Lay out a table of rows
+ */
+export function layoutTable(rows: string[][], options: TableLayoutOptions = {}): string[] {
+  return rows.flatMap((row) => layoutRow(row, options));
+}
+
+/**
+ * Add a table to an ePOSBuilder, one text line per row line.
+ * `font` and `size` only drive the layout: set the same values on the builder
+ * with `addTextFont` / `addTextSize` before calling this.
+ *
+ * @example
+ * ```typescript
+ * await printWithBuilder((builder) => {
+ *   builder.addTextFont('font_b');
+ *   addTable(builder, [
+ *     ['2 x Coffee', '4.50'],
+ *     ['1 x Croissant', '2.00'],
+ *   ], { font: 'font_b', columns: [{ leader: '.' }, { width: 8, align: 'right' }] });
+ * });
+ * ```
+ */
+export function addTable(builder: epson.ePOSBuilder, rows: string[][], options: TableLayoutOptions = {}): void {
+  builder.addTextAlign('left');
+  for (const line of layoutTable(rows, options)) {
+    builder.addText(line + '\n');
+  }
+}
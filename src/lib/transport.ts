@@ -0,0 +1,107 @@
+/**
+ * Print transports
+ *
+ * A transport delivers a built ePOS-Print request to the printer and reports
+ * what happened. `EposPrintService` builds requests and turns transport
+ * results into `PrintResult`s, so every transport shares the same messages
+ * and error codes.
+ */
+
+import { EposPrintHttpTransport } from './http-transport';
+import { EposPrintFetchTransport } from './fetch-transport';
+import { isHeadlessEnvironment } from './sdk-environment';
+import { getWebSocketTransport } from './websocket-transport';
+import { getUsbTransport } from './usb-transport';
+import { getSerialTransport } from './serial-transport';
+import type { EpsonPrinterConfig } from '../types';
+
+/**
+ * Built-in transports:
+ * - 'http': ePOS-Print service (`/cgi-bin/epos/service.cgi`), one request per job
+ * - 'fetch': same as 'http', sent with `fetch()` instead of the SDK (default in Node.js)
+ * - 'websocket': ePOSDevice connection (ports 8008/8043) kept open between jobs
+ * - 'usb': ESC/POS to a USB printer through WebUSB
+ * - 'serial': ESC/POS to a serial printer through Web Serial
+ */
+export type PrintTransportType = 'http' | 'fetch' | 'websocket' | 'usb' | 'serial';
+
+export interface TransportRequest {
+  /** Request built with `ePOSBuilder.toString()` */
+  xml: string;
+  /** Operation name used in log messages */
+  label: string;
+  /** Time (ms) the printer may take to process the request */
+  timeout: number;
+  /** Time (ms) added to `timeout` before giving up on an answer */
+  extraTime: number;
+  /** Print job ID reported back by the printer */
+  printjobid?: string;
+  /** Stops waiting for the printer: the request resolves with an 'aborted' result */
+  signal?: AbortSignal;
+}
+
+/** Failures that happen before the printer answers */
+export type TransportErrorCode =
+  | 'NETWORK_ERROR'
+  | 'CONNECTION_ERROR'
+  | 'DEVICE_IN_USE'
+  | 'DEVICE_NOT_FOUND'
+  | 'DEVICE_NOT_SELECTED'
+  | 'API_NOT_SUPPORTED'
+  | 'SDK_ERROR';
+
+export type TransportResult =
+  | {
+      type: 'response';
+      success: boolean;
+      code: string;
+      status: number;
+      battery?: number;
+      printjobid?: string;
+    }
+  | { type: 'timeout' }
+  | { type: 'aborted' }
+  | {
+      type: 'error';
+      code: TransportErrorCode;
+      /** HTTP status, if any */
+      status?: number;
+      /** Low-level detail (response text, SDK result code, exception message) */
+      detail?: string;
+    };
+
+export interface PrintTransport {
+  readonly type: string;
+  /** Deliver a request. Never rejects: failures are reported as results. */
+  send(request: TransportRequest): Promise<TransportResult>;
+  /** Release connections held by the transport */
+  close(): void;
+}
+
+/**
+ * Create the transport selected by `config.transport`.
+ * WebSocket, USB and serial transports are shared per printer, so the
+ * connection stays open across services and hook calls. Without the SDK
+ * (see `isHeadlessEnvironment()`), 'http' requests are sent with `fetch()`.
+ */
+export function createTransport(config: EpsonPrinterConfig): PrintTransport {
+  switch (config.transport ?? 'http') {
+    case 'websocket':
+      return getWebSocketTransport(config);
+    case 'usb':
+      return getUsbTransport(config);
+    case 'serial':
+      return getSerialTransport(config);
+    case 'fetch':
+      return new EposPrintFetchTransport(config);
+    default:
+      return isHeadlessEnvironment() ? new EposPrintFetchTransport(config) : new EposPrintHttpTransport(config);
+  }
+}
+
+/**
+ * Whether a transport talks to a directly attached printer (no IP address or ePOS device ID)
+ */
+export function isDirectTransport(type: PrintTransportType | undefined): boolean {
+  return type === 'usb' || type === 'serial';
+}
@@ -0,0 +1,268 @@
+/**
+ * WebUSB transport: raw ESC/POS to a USB printer attached to this computer
+ *
+ * The browser only gives access to devices the user picked once with
+ * `requestUsbPrinter()` (from a click handler). Granted devices are found
+ * again with `navigator.usb.getDevices()`, so a replugged printer or a reloaded
+ * page works without asking again.
+ */
+
+import { debug } from './logger';
+import { EscPosConnectionError, EscPosTransport } from './escpos-transport';
+import type { EscPosTransportOptions } from './escpos-transport';
+import type { EpsonPrinterConfig } from '../types';
+
+/** USB vendor ID of Seiko Epson */
+export const EPSON_USB_VENDOR_ID = 0x04b8;
+
+/**
+ * Identifies a USB printer. Store the one returned by `requestUsbPrinter()`
+ * in `EpsonPrinterConfig.usb`; empty matches the first granted printer.
+ */
+export interface UsbPrinterFilter {
+  vendorId?: number;
+  productId?: number;
+  serialNumber?: string;
+}
+
+// Minimal WebUSB types (not part of the TypeScript DOM library)
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+  type: 'bulk' | 'interrupt' | 'isochronous';
+}
+
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { interfaceClass: number; endpoints: UsbEndpoint[] };
+}
+
+interface UsbDevice {
+  vendorId: number;
+  productId: number;
+  serialNumber?: string | null;
+  opened: boolean;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<{ status: string }>;
+  transferIn(endpointNumber: number, length: number): Promise<{ status: string; data?: DataView }>;
+}
+
+interface Usb extends EventTarget {
+  getDevices(): Promise<UsbDevice[]>;
+  requestDevice(options: { filters: UsbPrinterFilter[] }): Promise<UsbDevice>;
+}
+
+/** USB interface class of printers */
+const PRINTER_CLASS = 7;
+
+function getUsb(): Usb | undefined {
+  return typeof navigator === 'undefined' ? undefined : (navigator as Navigator & { usb?: Usb }).usb;
+}
+
+/**
+ * Whether the browser supports WebUSB (Chromium-based browsers, over HTTPS)
+ */
+export function isWebUsbSupported(): boolean {
+  return getUsb() !== undefined;
+}
+
+function matchesFilter(device: UsbDevice, filter: UsbPrinterFilter): boolean {
+  return (
+    (filter.vendorId === undefined || device.vendorId === filter.vendorId) &&
+    (filter.productId === undefined || device.productId === filter.productId) &&
+    (filter.serialNumber === undefined || device.serialNumber === filter.serialNumber)
+  );
+}
+
+function toFilter(device: UsbDevice): UsbPrinterFilter {
+  return {
+    vendorId: device.vendorId,
+    productId: device.productId,
+    ...(device.serialNumber ? { serialNumber: device.serialNumber } : {}),
+  };
+}
+
+/**
+ * Ask the user to pick a USB printer and grant access to it.
+ * Must be called from a user gesture (e.g. a click handler).
+ *
+ * @param filters - Devices offered in the browser dialog. Default: Epson devices
+ * @returns The filter of the picked printer, or null if the dialog was cancelled
+ * @throws {Error} If the browser doesn't support WebUSB
+ *
+ * @example
+ * ```typescript
+ * button.onclick = async () => {
+ *   const usb = await requestUsbPrinter();
+ *   if (usb) updateConfig({ transport: 'usb', usb });
+ * };
+ * ```
+ */
+export async function requestUsbPrinter(
+  filters: UsbPrinterFilter[] = [{ vendorId: EPSON_USB_VENDOR_ID }]
+): Promise<UsbPrinterFilter | null> {
+  const usb = getUsb();
+  if (!usb) {
+    throw new Error('WebUSB is not supported by this browser');
+  }
+  try {
+    return toFilter(await usb.requestDevice({ filters }));
+  } catch (err) {
+    // NotFoundError: the user closed the dialog without picking a device
+    if (err instanceof Error && err.name === 'NotFoundError') {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/**
+ * USB printers the user already granted access to
+ */
+export async function getGrantedUsbPrinters(): Promise<UsbPrinterFilter[]> {
+  const usb = getUsb();
+  return usb ? (await usb.getDevices()).map(toFilter) : [];
+}
+
+/**
+ * Print transport over WebUSB.
+ *
+ * Usually created through `{ transport: 'usb' }` in the printer config;
+ * instances are shared per printer (see `getUsbTransport()`).
+ *
+ * @example
+ * ```typescript
+ * const service = new EposPrintService({ transport: 'usb', usb: { vendorId: 0x04b8, productId: 0x0e28 } });
+ * await service.printReceipt(doc);
+ * ```
+ */
+export class UsbTransport extends EscPosTransport {
+  readonly type = 'usb';
+  private filter: UsbPrinterFilter;
+  private device: UsbDevice | null = null;
+  private interfaceNumber = 0;
+  private endpointOut = 0;
+  private endpointIn: number | null = null;
+  private removeListener: (() => void) | null = null;
+
+  constructor(filter: UsbPrinterFilter = {}, options?: EscPosTransportOptions) {
+    super(options);
+    this.filter = filter;
+  }
+
+  protected async openDevice(): Promise<void> {
+    const usb = getUsb();
+    if (!usb) {
+      throw new EscPosConnectionError('API_NOT_SUPPORTED', 'WebUSB is not supported by this browser');
+    }
+
+    const device = (await usb.getDevices()).find((candidate) => matchesFilter(candidate, this.filter));
+    if (!device) {
+      throw new EscPosConnectionError('DEVICE_NOT_SELECTED', 'No granted USB printer matches the configuration');
+    }
+
+    try {
+      if (!device.opened) {
+        await device.open();
+      }
+      if (!device.configuration) {
+        await device.selectConfiguration(1);
+      }
+    } catch (err) {
+      throw new EscPosConnectionError('CONNECTION_ERROR', err instanceof Error ? err.message : String(err));
+    }
+
+    // Prefer the printer class interface, then any interface with a bulk OUT endpoint
+    const interfaces = [...(device.configuration?.interfaces ?? [])].sort(
+      (a, b) => Number(b.alternate.interfaceClass === PRINTER_CLASS) - Number(a.alternate.interfaceClass === PRINTER_CLASS)
+    );
+    const [match] = interfaces
+      .map((iface) => ({ iface, out: iface.alternate.endpoints.find((e) => e.direction === 'out' && e.type === 'bulk') }))
+      .filter(({ out }) => out !== undefined);
+    if (!match?.out) {
+      throw new EscPosConnectionError('DEVICE_NOT_FOUND', 'The USB device has no printer interface');
+    }
+    const { iface, out } = match;
+
+    try {
+      await device.claimInterface(iface.interfaceNumber);
+    } catch (err) {
+      // Claimed by another tab, program or the operating system driver
+      throw new EscPosConnectionError('DEVICE_IN_USE', err instanceof Error ? err.message : String(err));
+    }
+
+    const { endpoints } = iface.alternate;
+    this.device = device;
+    this.interfaceNumber = iface.interfaceNumber;
+    this.endpointOut = out.endpointNumber;
+    this.endpointIn = endpoints.find((e) => e.direction === 'in' && e.type === 'bulk')?.endpointNumber ?? null;
+
+    const onDisconnect = (event: Event) => {
+      if ((event as Event & { device?: UsbDevice }).device === device) {
+        debug('UsbTransport: printer unplugged');
+        this.handleDisconnect();
+      }
+    };
+    usb.addEventListener('disconnect', onDisconnect);
+    this.removeListener = () => usb.removeEventListener('disconnect', onDisconnect);
+    debug('UsbTransport: opened', toFilter(device));
+  }
+
+  protected async write(data: Uint8Array): Promise<void> {
+    if (!this.device) throw new Error('USB printer not open');
+    const result = await this.device.transferOut(this.endpointOut, data);
+    if (result.status !== 'ok') {
+      throw new Error(`USB transfer failed: ${result.status}`);
+    }
+  }
+
+  protected async read(): Promise<Uint8Array> {
+    if (!this.device || this.endpointIn === null) {
+      // Write-only printer: status requests are never answered
+      return new Promise<Uint8Array>(() => undefined);
+    }
+    const result = await this.device.transferIn(this.endpointIn, 64);
+    return result.data ? new Uint8Array(result.data.buffer, result.data.byteOffset, result.data.byteLength) : new Uint8Array(0);
+  }
+
+  protected async closeDevice(): Promise<void> {
+    const { device } = this;
+    this.device = null;
+    this.removeListener?.();
+    this.removeListener = null;
+    if (device?.opened) {
+      await device.releaseInterface(this.interfaceNumber).catch(() => undefined);
+      await device.close();
+    }
+  }
+}
+
+/** Open USB transports, one per printer */
+const pool = new Map<string, UsbTransport>();
+
+/**
+ * Get the shared USB transport of a printer, creating it on first use
+ */
+export function getUsbTransport(config: EpsonPrinterConfig): UsbTransport {
+  const filter = config.usb ?? {};
+  const key = JSON.stringify([filter.vendorId, filter.productId, filter.serialNumber]);
+  let transport = pool.get(key);
+  if (!transport || transport.getState() === 'closed') {
+    transport = new UsbTransport(filter, { codePage: config.codePage });
+    pool.set(key, transport);
+  }
+  return transport;
+}
+
+/**
+ * Close every shared USB transport and release the devices
+ */
+export function closeUsbTransports(): void {
+  pool.forEach((transport) => transport.close());
+  pool.clear();
+}
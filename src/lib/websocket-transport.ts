@@ -0,0 +1,393 @@
+/**
+ * WebSocket transport: a persistent ePOSDevice connection (ports 8008/8043)
+ *
+ * The connection and the printer device object are kept open between jobs,
+ * which avoids a new HTTP request per receipt. Dropped connections are
+ * re-established with exponential backoff.
+ */
+
+import { raceAbort } from './abort';
+import { getEpsonSDK } from './epson-sdk-loader';
+import { resolvePrinterConfig } from './epos-print';
+import { debug, warn, error } from './logger';
+import type { epson } from './epson-sdk';
+import type { PrintTransport, TransportErrorCode, TransportRequest, TransportResult } from './transport';
+import type { EpsonPrinterConfig } from '../types';
+
+export type WebSocketTransportState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface WebSocketTransportOptions {
+  /** Time (ms) to wait for the connection and the printer device. Default: 15000 */
+  connectTimeout?: number;
+  /** Delay (ms) before reconnecting after the connection drops, doubled on every failure. Default: 1000 */
+  reconnectDelay?: number;
+  /** Maximum delay (ms) between reconnection attempts. Default: 30000 */
+  maxReconnectDelay?: number;
+  /** Extra attempts to open the printer while another client is using it. Default: 3 */
+  deviceInUseRetries?: number;
+  /** Delay (ms) between those attempts. Default: 1000 */
+  deviceInUseRetryDelay?: number;
+}
+
+/** Connection failure, carried until it becomes a `TransportResult` */
+class DeviceConnectionError extends Error {
+  readonly code: TransportErrorCode;
+
+  constructor(code: TransportErrorCode, detail: string) {
+    super(detail);
+    this.name = 'DeviceConnectionError';
+    this.code = code;
+  }
+}
+
+const CONNECT_OK = ['OK', 'SSL_CONNECT_OK'];
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Get the body of an `<epos-print>` request, which is what device objects send
+ */
+function getRequestBody(xml: string): { message: string; force: boolean } {
+  const match = xml.match(/^\s*<epos-print([^>]*)>([\s\S]*)<\/epos-print>\s*$/);
+  if (!match) {
+    return { message: xml, force: false };
+  }
+  return { message: match[2], force: /\sforce="true"/.test(match[1]) };
+}
+
+/**
+ * Print transport over a persistent ePOSDevice WebSocket connection.
+ *
+ * Usually created through `{ transport: 'websocket' }` in the printer config;
+ * instances are shared per printer (see `getWebSocketTransport()`).
+ *
+ * @example
+ * ```typescript
+ * const service = new EposPrintService({
+ *   printerIP: '192.168.1.100',
+ *   transport: 'websocket', // Port 8008 (8043 with useHttps)
+ * });
+ * await service.printWithBuilder((builder) => builder.addText('Hello\n'));
+ * ```
+ */
+export class EposDeviceTransport implements PrintTransport {
+  readonly type = 'websocket';
+  private config: Required<EpsonPrinterConfig>;
+  private options: Required<WebSocketTransportOptions>;
+  private device: epson.ePOSDevice | null = null;
+  private printer: epson.DevicePrinter | null = null;
+  private connecting: Promise<epson.DevicePrinter> | null = null;
+  private sendChain: Promise<unknown> = Promise.resolve();
+  private abortPending: (() => void) | null = null;
+  private state: WebSocketTransportState = 'disconnected';
+  private listeners = new Set<(state: WebSocketTransportState) => void>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+
+  constructor(config: EpsonPrinterConfig, options: WebSocketTransportOptions = {}) {
+    this.config = resolvePrinterConfig(config);
+    this.options = {
+      connectTimeout: options.connectTimeout ?? 15000,
+      reconnectDelay: options.reconnectDelay ?? 1000,
+      maxReconnectDelay: options.maxReconnectDelay ?? 30000,
+      deviceInUseRetries: options.deviceInUseRetries ?? 3,
+      deviceInUseRetryDelay: options.deviceInUseRetryDelay ?? 1000,
+    };
+  }
+
+  /**
+   * Current connection state
+   */
+  getState(): WebSocketTransportState {
+    return this.state;
+  }
+
+  /**
+   * Listen to connection state changes. Returns an unsubscribe function.
+   */
+  onStateChange(listener: (state: WebSocketTransportState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(state: WebSocketTransportState): void {
+    if (this.state === state) return;
+    this.state = state;
+    debug('EposDeviceTransport: state:', state);
+    this.listeners.forEach((listener) => listener(state));
+  }
+
+  /**
+   * Open the connection and the printer device, or reuse the open ones
+   */
+  connect(): Promise<epson.DevicePrinter> {
+    if (this.state === 'closed') {
+      return Promise.reject(new DeviceConnectionError('CONNECTION_ERROR', 'Transport closed'));
+    }
+    if (this.printer) {
+      return Promise.resolve(this.printer);
+    }
+    if (!this.connecting) {
+      this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+      this.connecting = this.openConnection().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async openConnection(): Promise<epson.DevicePrinter> {
+    const epson = getEpsonSDK();
+    const device = new epson.ePOSDevice();
+    const { printerIP, websocketPort, deviceId } = this.config;
+
+    try {
+      debug('EposDeviceTransport: connecting to', `${printerIP}:${websocketPort}`);
+      const result = await this.withTimeout(
+        new Promise<string>((resolve) => device.connect(printerIP, websocketPort, resolve)),
+        'connect'
+      );
+      if (!CONNECT_OK.includes(result)) {
+        throw new DeviceConnectionError('CONNECTION_ERROR', result);
+      }
+
+      const printer = await this.createPrinter(device, deviceId);
+
+      device.ondisconnect = () => this.handleDisconnect(device);
+      device.onreconnecting = () => {
+        if (this.device === device) this.setState('reconnecting');
+      };
+      device.onreconnect = () => {
+        if (this.device === device) this.setState('connected');
+      };
+
+      if (this.state === 'closed') {
+        device.disconnect();
+        throw new DeviceConnectionError('CONNECTION_ERROR', 'Transport closed');
+      }
+
+      this.device = device;
+      this.printer = printer;
+      this.reconnectAttempts = 0;
+      this.setState('connected');
+      return printer;
+    } catch (err) {
+      device.disconnect();
+      if (this.state !== 'closed') {
+        this.setState('disconnected');
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Open the printer device, waiting while another client is using it
+   */
+  private async createPrinter(device: epson.ePOSDevice, deviceId: string): Promise<epson.DevicePrinter> {
+    for (let attempt = 0; ; attempt++) {
+      const [printer, code] = await this.withTimeout(
+        new Promise<[epson.DevicePrinter | null, string]>((resolve) => {
+          device.createDevice(deviceId, device.DEVICE_TYPE_PRINTER, { crypto: false, buffer: false }, (obj, errorCode) => {
+            resolve([obj, errorCode]);
+          });
+        }),
+        'createDevice'
+      );
+
+      if (printer) {
+        return printer;
+      }
+      if (code === 'DEVICE_IN_USE' && attempt < this.options.deviceInUseRetries) {
+        warn(`EposDeviceTransport: "${deviceId}" is in use, retrying...`);
+        await delay(this.options.deviceInUseRetryDelay);
+        continue;
+      }
+      if (code === 'DEVICE_IN_USE' || code === 'DEVICE_NOT_FOUND') {
+        throw new DeviceConnectionError(code, code);
+      }
+      throw new DeviceConnectionError('CONNECTION_ERROR', code);
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, step: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        reject(new DeviceConnectionError('CONNECTION_ERROR', `${step} timed out`));
+      }, this.options.connectTimeout);
+      promise.then(
+        (value) => {
+          clearTimeout(timeoutId);
+          resolve(value);
+        },
+        (err) => {
+          clearTimeout(timeoutId);
+          reject(err);
+        }
+      );
+    });
+  }
+
+  private handleDisconnect(device: epson.ePOSDevice): void {
+    if (this.device !== device) return;
+    warn('EposDeviceTransport: connection lost');
+    this.device = null;
+    this.printer = null;
+    this.abortPending?.();
+    if (this.state === 'closed') return;
+    this.setState('disconnected');
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer !== null || this.state === 'closed') return;
+    const wait = Math.min(
+      this.options.reconnectDelay * 2 ** this.reconnectAttempts,
+      this.options.maxReconnectDelay
+    );
+    this.reconnectAttempts++;
+    debug('EposDeviceTransport: reconnecting in', wait, 'ms');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((err) => {
+        // A missing device won't come back by retrying
+        if (err instanceof DeviceConnectionError && err.code === 'DEVICE_NOT_FOUND') {
+          error('EposDeviceTransport: device not found, giving up reconnecting');
+          return;
+        }
+        this.scheduleReconnect();
+      });
+    }, wait);
+  }
+
+  send(request: TransportRequest): Promise<TransportResult> {
+    // Device objects hold one request at a time: send jobs in order.
+    // An aborted job stops being waited for, but the next one still waits
+    // for its answer, so the answer isn't taken for that of the next job.
+    const result = this.sendChain.then(() => this.sendNow(request));
+    this.sendChain = result.catch(() => undefined);
+    return raceAbort(result, request.signal, { type: 'aborted' });
+  }
+
+  private async sendNow({ xml, label, timeout, extraTime, printjobid, signal }: TransportRequest): Promise<TransportResult> {
+    if (signal?.aborted) {
+      // Aborted while queued: never sent
+      return { type: 'aborted' };
+    }
+
+    let printer: epson.DevicePrinter;
+    try {
+      printer = await this.connect();
+    } catch (err) {
+      error(`${label}: WebSocket connection failed:`, err);
+      return {
+        type: 'error',
+        code: err instanceof DeviceConnectionError ? err.code : 'SDK_ERROR',
+        detail: err instanceof Error ? err.message : undefined,
+      };
+    }
+    if (signal?.aborted) {
+      return { type: 'aborted' };
+    }
+
+    return new Promise((resolve) => {
+      let resolved = false;
+
+      const doResolve = (result: TransportResult) => {
+        if (!resolved) {
+          resolved = true;
+          clearTimeout(timeoutId);
+          this.abortPending = null;
+          printer.onreceive = null;
+          resolve(result);
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        error(`${label}: timeout reached`);
+        doResolve({ type: 'timeout' });
+      }, timeout + extraTime);
+
+      this.abortPending = () => {
+        doResolve({ type: 'error', code: 'NETWORK_ERROR', detail: 'WebSocket connection lost' });
+      };
+
+      try {
+        printer.timeout = timeout;
+        printer.onreceive = (res) => {
+          debug(`${label} onreceive:`, res);
+          doResolve({ type: 'response', ...res });
+        };
+
+        const { message, force } = getRequestBody(xml);
+        printer.message = message;
+        printer.force = force;
+        debug(`${label}: Sending XML over WebSocket, length:`, xml.length);
+        if (printjobid) {
+          printer.send(printjobid);
+        } else {
+          printer.send();
+        }
+      } catch (err) {
+        error(`${label} error:`, err);
+        doResolve({
+          type: 'error',
+          code: 'SDK_ERROR',
+          detail: err instanceof Error ? err.message : undefined,
+        });
+      }
+    });
+  }
+
+  /**
+   * Close the printer device and the connection. The transport can't be used afterwards.
+   */
+  close(): void {
+    this.setState('closed');
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.abortPending?.();
+
+    const { device, printer } = this;
+    this.device = null;
+    this.printer = null;
+    if (device && printer) {
+      device.deleteDevice(printer, () => device.disconnect());
+    } else {
+      device?.disconnect();
+    }
+    pool.forEach((transport, key) => {
+      if (transport === this) pool.delete(key);
+    });
+  }
+}
+
+/** Open WebSocket transports, one per printer */
+const pool = new Map<string, EposDeviceTransport>();
+
+/**
+ * Get the shared WebSocket transport of a printer, creating it on first use
+ */
+export function getWebSocketTransport(config: EpsonPrinterConfig): EposDeviceTransport {
+  const { printerIP, websocketPort, deviceId } = resolvePrinterConfig(config);
+  const key = `${printerIP}:${websocketPort}/${deviceId}`;
+  let transport = pool.get(key);
+  if (!transport) {
+    transport = new EposDeviceTransport(config);
+    pool.set(key, transport);
+  }
+  return transport;
+}
+
+/**
+ * Close every shared WebSocket transport (e.g. when logging out of the POS)
+ */
+export function closeWebSocketTransports(): void {
+  [...pool.values()].forEach((transport) => transport.close());
+}
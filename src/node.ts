@@ -0,0 +1,148 @@
+/**
+ * @plevands/epson-thermal-printer/node
+ * Exports that run without a browser (Node.js 18+, workers): no React, no DOM
+ *
+ * Requests are built with `EposXmlBuilder` and sent with `fetch()`.
+ */
+
+// Core services
+export { EposPrintService, EposPrintBuilder, resolvePrinterConfig, getEposPrintUrl } from './lib/epos-print';
+export { EposXmlBuilder, toMonoRaster, toGray16Raster } from './lib/epos-xml-builder';
+export { ditherImage } from './lib/dithering';
+export { isHeadlessEnvironment } from './lib/sdk-environment';
+export { createTransport } from './lib/transport';
+export { EposPrintFetchTransport, toSoapEnvelope, parseEposResponse } from './lib/fetch-transport';
+export { PrinterRegistry, PrinterRegistryError } from './lib/printer-registry';
+export { PrintRouter } from './lib/print-router';
+export { PrinterGroup } from './lib/printer-group';
+export { PrintQueue, MemoryQueueStorage, isRetryableResult } from './lib/print-queue';
+export {
+  PrintJobTracker,
+  createPrintJobId,
+  isValidPrintJobId,
+  getTrackedJobState,
+} from './lib/print-job-tracker';
+export {
+  decodePrintError,
+  getStatusErrors,
+  createPrintError,
+  withPrintError,
+} from './lib/print-error';
+export {
+  configureI18n,
+  getLocale,
+  translate,
+  createTranslator,
+  getActionMessage,
+} from './lib/i18n';
+export { decodeAsbStatus, ASB_STATUS } from './lib/printer-status';
+export { compileReceipt, parseReceiptDocument, ReceiptDocumentError } from './lib/receipt-document';
+export {
+  getCharsPerLine,
+  getColumnWidths,
+  layoutRow,
+  layoutTable,
+  addTable,
+  wrapText,
+  truncateText,
+  alignText,
+  FONT_DOT_WIDTHS,
+} from './lib/text-layout';
+export {
+  EscPosEncoder,
+  EscPosEncoderError,
+  encodeText,
+  packMonochrome,
+} from './lib/escpos-encoder';
+export { configureLogger, getLoggerConfig } from './lib/logger';
+
+// TypeScript types
+export type {
+  EpsonPrinterConfig,
+  PrintResult,
+  PrintOptions,
+  PrintBuilderFn,
+  PrintOperationOptions,
+  PrintPagesOptions,
+  PrintImage,
+  PrintRaster,
+  PrintPage,
+  PrintPageSource,
+  StreamPrintOptions,
+  StreamPrintProgress,
+  StreamPrintResult,
+  XmlBuildResult,
+  PrintError,
+  PrintErrorType,
+  PrintErrorAction,
+  AsbPrinterKind,
+  MessageKey,
+  MessageCatalog,
+  MessageParams,
+  I18nOptions,
+  Translate,
+  EscPosCodePage,
+  EscPosBarcodeType,
+  EscPosEncoderOptions,
+  EscPosCutType,
+  RgbaImage,
+  DitheringMode,
+  DitherOptions,
+  ToneOptions,
+  PrintTransport,
+  PrintTransportType,
+  TransportRequest,
+  TransportResult,
+  TransportErrorCode,
+  PrintJob,
+  PrintJobState,
+  PrintQueueOptions,
+  PrintQueueStorage,
+  StoredRecord,
+  TrackedJobState,
+  TrackedPrintJob,
+  PrintJobTrackerOptions,
+  TrackedPrintOptions,
+  TrackedPrintFn,
+  RegisteredPrinter,
+  PrinterRegistration,
+  PrinterRegistryOptions,
+  PrintRoute,
+  PrintRouteTarget,
+  PrintRouterOptions,
+  RoutableJob,
+  RoutableItem,
+  StationTicket,
+  OrderSplit,
+  PrinterGroupStrategy,
+  PrinterGroupMember,
+  PrinterGroupOptions,
+  PrinterHealth,
+  PrinterGroupState,
+  PrinterDeviceStatus,
+  ReceiptDocument,
+  ReceiptBlock,
+  ReceiptTextStyle,
+  ReceiptTextBlock,
+  ReceiptColumn,
+  ReceiptColumnsBlock,
+  ReceiptKeyValueBlock,
+  ReceiptRuleBlock,
+  ReceiptBarcodeBlock,
+  ReceiptQrBlock,
+  ReceiptImageBlock,
+  ReceiptFeedBlock,
+  ReceiptCutBlock,
+  ReceiptPulseBlock,
+  ReceiptAlign,
+  ReceiptFont,
+  ReceiptImages,
+  TextFont,
+  TextAlign,
+  TextMetricsOptions,
+  TableColumn,
+  TableLayoutOptions,
+  LogLevel,
+  LogEntry,
+  LoggerConfig,
+} from './types';
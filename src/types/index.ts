@@ -3,20 +3,205 @@
  */
 
 // Re-export from pdf-processor (single source of truth)
-export type { PdfProcessingConfig, ProcessedPage } from '../lib/pdf-processor';
+export type {
+  PdfProcessingConfig,
+  PdfProcessingOptions,
+  PdfProcessingProgress,
+  PdfPageOverrides,
+  PageRotation,
+  ProcessedPage,
+} from '../lib/pdf-processor';
 
-// Import ProcessedPage for use within this file
-import type { ProcessedPage } from '../lib/pdf-processor';
+// Re-export from html-processor (single source of truth)
+export type { HtmlProcessingOptions } from '../lib/html-processor';
+
+// Re-export from image-stages (single source of truth)
+export type { ImageRect, PageBand } from '../lib/image-stages';
+
+// Re-export from dithering (single source of truth)
+export type { DitheringMode, DitherOptions, ToneOptions } from '../lib/dithering';
+
+// Re-export from print-queue (single source of truth)
+export type {
+  PrintJob,
+  PrintJobState,
+  PrintQueueOptions,
+  PrintQueueStorage,
+  StoredRecord,
+} from '../lib/print-queue';
+
+// Re-export from print-job-tracker (single source of truth)
+export type {
+  TrackedJobState,
+  TrackedPrintJob,
+  PrintJobTrackerOptions,
+  TrackedPrintOptions,
+  TrackedPrintFn,
+} from '../lib/print-job-tracker';
+
+// Re-export from receipt-document (single source of truth)
+export type {
+  ReceiptDocument,
+  ReceiptBlock,
+  ReceiptTextStyle,
+  ReceiptTextBlock,
+  ReceiptColumn,
+  ReceiptColumnsBlock,
+  ReceiptKeyValueBlock,
+  ReceiptRuleBlock,
+  ReceiptBarcodeBlock,
+  ReceiptQrBlock,
+  ReceiptImageBlock,
+  ReceiptFeedBlock,
+  ReceiptCutBlock,
+  ReceiptPulseBlock,
+  ReceiptAlign,
+  ReceiptFont,
+  ReceiptImages,
+} from '../lib/receipt-document';
+
+// Re-export from text-layout (single source of truth)
+export type {
+  TextFont,
+  TextAlign,
+  TextMetricsOptions,
+  TableColumn,
+  TableLayoutOptions,
+} from '../lib/text-layout';
+
+// Re-export from escpos-encoder (single source of truth)
+export type {
+  EscPosCodePage,
+  EscPosBarcodeType,
+  EscPosEncoderOptions,
+  EscPosCutType,
+  RgbaImage,
+} from '../lib/escpos-encoder';
+
+// Re-export from printer-status (single source of truth)
+export type {
+  PrinterDeviceStatus,
+  PrinterStatusEvents,
+  PrinterStatusEvent,
+  PrinterStatusMonitorOptions,
+  PrinterStatusMonitorState,
+  DrawerOpenLevel,
+} from '../lib/printer-status';
+
+// Re-export from receipt-renderer (single source of truth)
+export type { ReceiptRenderOptions } from '../lib/receipt-renderer';
+
+// Re-export from transport (single source of truth)
+export type {
+  PrintTransport,
+  PrintTransportType,
+  TransportRequest,
+  TransportResult,
+  TransportErrorCode,
+} from '../lib/transport';
+
+// Re-export from usb-transport, serial-transport and escpos-transport (single source of truth)
+export type { UsbPrinterFilter } from '../lib/usb-transport';
+export type { SerialPrinterOptions } from '../lib/serial-transport';
+export type { EscPosTransportOptions, EscPosTransportState, DleEotStatus } from '../lib/escpos-transport';
+
+// Re-export from print-error (single source of truth)
+export type { PrintError, PrintErrorType, PrintErrorAction, AsbPrinterKind } from '../lib/print-error';
+
+// Re-export from i18n (single source of truth)
+export type { MessageKey, MessageCatalog, MessageParams, I18nOptions, Translate } from '../lib/i18n';
+
+// Re-export from printer-registry (single source of truth)
+export type {
+  RegisteredPrinter,
+  PrinterRegistration,
+  PrinterRegistryOptions,
+} from '../lib/printer-registry';
+
+// Re-export from print-router (single source of truth)
+export type {
+  PrintRoute,
+  PrintRouteTarget,
+  PrintRouterOptions,
+  RoutableJob,
+  RoutableItem,
+  StationTicket,
+  OrderSplit,
+} from '../lib/print-router';
+
+// Re-export from printer-group (single source of truth)
+export type {
+  PrinterGroupStrategy,
+  PrinterGroupMember,
+  PrinterGroupOptions,
+  PrinterHealth,
+  PrinterGroupState,
+} from '../lib/printer-group';
+
+// Re-export from websocket-transport (single source of truth)
+export type { WebSocketTransportOptions, WebSocketTransportState } from '../lib/websocket-transport';
+
+// Import PDF types for use within this file
+import type { PdfProcessingOptions, PdfProcessingProgress, ProcessedPage } from '../lib/pdf-processor';
+import type { PrintJob, PrintQueueOptions } from '../lib/print-queue';
+import type {
+  PrintJobTracker,
+  PrintJobTrackerOptions,
+  TrackedPrintFn,
+  TrackedPrintJob,
+  TrackedPrintOptions,
+} from '../lib/print-job-tracker';
+import type { ReceiptDocument } from '../lib/receipt-document';
+import type { PrinterDeviceStatus, PrinterStatusMonitor, PrinterStatusMonitorOptions } from '../lib/printer-status';
+import type { PrintTransportType } from '../lib/transport';
+import type { PageBand } from '../lib/image-stages';
+import type { UsbPrinterFilter } from '../lib/usb-transport';
+import type { SerialPrinterOptions } from '../lib/serial-transport';
+import type { EscPosCodePage, RgbaImage } from '../lib/escpos-encoder';
+import type { PrintError } from '../lib/print-error';
+import type { MessageCatalog } from '../lib/i18n';
+import type { EposPrintService } from '../lib/epos-print';
+import type {
+  PrinterGroup,
+  PrinterGroupOptions,
+  PrinterGroupState,
+  PrinterHealth,
+} from '../lib/printer-group';
+import type {
+  PrinterRegistration,
+  PrinterRegistry,
+  PrinterRegistryOptions,
+  RegisteredPrinter,
+} from '../lib/printer-registry';
+import type {
+  OrderSplit,
+  PrintRoute,
+  PrintRouteTarget,
+  PrintRouter,
+  RoutableItem,
+  RoutableJob,
+} from '../lib/print-router';
 import type { epson } from '../lib/epson-sdk';
 
 // Epson Printer Configuration
 export interface EpsonPrinterConfig {
-  printerIP: string;
+  /** Printer address, required by the 'http' and 'websocket' transports */
+  printerIP?: string;
   printerPort?: number;
   deviceId?: string;
   timeout?: number;
   /** Use HTTPS instead of HTTP (default: false) */
   useHttps?: boolean;
+  /** How print jobs reach the printer (default: 'http') */
+  transport?: PrintTransportType;
+  /** ePOSDevice port for the 'websocket' transport (default: 8008, or 8043 with useHttps) */
+  websocketPort?: number;
+  /** Printer of the 'usb' transport (see `requestUsbPrinter()`) */
+  usb?: UsbPrinterFilter;
+  /** Port of the 'serial' transport (see `requestSerialPrinter()`) */
+  serial?: SerialPrinterOptions;
+  /** Code page of text for the 'usb' and 'serial' transports (default: 'cp858') */
+  codePage?: EscPosCodePage;
 }
 
 // Print Result
@@ -26,8 +211,112 @@ export interface PrintResult {
   status?: number;
   message?: string;
   printjobid?: string;
+  /** Id of the printer that handled the job (set by `PrinterGroup`) */
+  printerId?: string;
+  /** Decoded error of a failed result */
+  error?: PrintError;
+}
+
+// Raster data converted beforehand (e.g. ProcessedPage.rasterBase64 or
+// ditherImage()), sent as is instead of being converted again
+export interface PrintRaster {
+  width: number;
+  height: number;
+  /**
+   * Raster bytes, or their base64. Rows padded to whole bytes:
+   * - 'mono': 1 bit per pixel, MSB first, 1 = black
+   * - 'gray16': 4 bits per pixel, high nibble first, 0 = white, 15 = black
+   */
+  raster: Uint8Array | string;
+  /** Default: 'mono' */
+  mode?: 'mono' | 'gray16';
+}
+
+// Image printed by EposPrintService: a canvas, RGBA pixels (ImageData or a
+// decoded buffer, e.g. in Node.js where there is no canvas), or raster data
+export type PrintImage = HTMLCanvasElement | RgbaImage | PrintRaster;
+
+// Options accepted by every EposPrintService operation
+export interface PrintOperationOptions {
+  /** Cancels the operation: it resolves with an 'ABORTED' result */
+  signal?: AbortSignal;
+  /**
+   * ID sent with the print request (1-30 letters, digits, '_', '.' or '-', see
+   * `createPrintJobId()`), reported back in `PrintResult.printjobid` and used
+   * to query the job with `getPrintJobStatus()`
+   */
+  printjobid?: string;
+}
+
+// Options for EposPrintService.printPages
+export interface PrintPagesOptions extends PrintOperationOptions {
+  header?: string;
+  footer?: string;
+  pageSeparator?: boolean;
+  /**
+   * Print the raster of pages that have one (`rasterBase64`, e.g. a
+   * ProcessedPage) instead of converting their canvas again with the
+   * service's halftone settings. Default: false
+   */
+  useRaster?: boolean;
+}
+
+// Page printed by EposPrintService.printPages and printPageStream: an image,
+// or anything holding one in `canvas` (e.g. a ProcessedPage), with its 1-bit
+// raster in `rasterBase64` for `useRaster`. A page with `bands` is sent as one
+// image command per band.
+export type PrintPage = PrintImage | { canvas: PrintImage; rasterBase64?: string; bands?: PageBand[] };
+
+// Pages of EposPrintService.printPageStream: an array, or pages produced one
+// at a time (e.g. by processPdfPages)
+export type PrintPageSource = Iterable<PrintPage> | AsyncIterable<PrintPage>;
+
+// Progress of EposPrintService.printPageStream, reported after every chunk
+export interface StreamPrintProgress {
+  /** Chunks printed, including those skipped with `resumeFrom` */
+  sentChunks: number;
+  /** Pages printed, including those skipped with `resumeFrom` */
+  sentPages: number;
+  /** Total pages, when known (array source or `totalPages` option) */
+  totalPages?: number;
+  /** Total chunks, when the total pages are known */
+  totalChunks?: number;
 }
 
+// Options for EposPrintService.printPageStream
+export interface StreamPrintOptions extends Omit<PrintPagesOptions, 'printjobid'> {
+  /** Pages sent per request. Default: 1 */
+  chunkSize?: number;
+  /**
+   * First chunk to print (`failedChunk` of a failed result): the pages of
+   * earlier chunks are skipped, and the header is not printed again
+   */
+  resumeFrom?: number;
+  /**
+   * Whether the source still starts at the first page, so the pages before
+   * `resumeFrom` are read and dropped. Set to false when the source leaves
+   * them out itself, so they aren't rendered again. Default: true
+   */
+  sourceFromStart?: boolean;
+  /**
+   * Total pages, for progress and to cut after the last page of an async
+   * source. Includes the pages left out with `sourceFromStart: false`
+   */
+  totalPages?: number;
+  /** Called after every printed chunk */
+  onProgress?: (progress: StreamPrintProgress) => void;
+}
+
+// Result of EposPrintService.printPageStream
+export interface StreamPrintResult extends PrintResult, StreamPrintProgress {
+  /** Chunk that failed: pass it as `resumeFrom` to print the rest */
+  failedChunk?: number;
+}
+
+// Result of building an ePOS-Print request without sending it:
+// either the XML, or the failed result explaining why it couldn't be built
+export type XmlBuildResult = { xml: string } | { result: PrintResult };
+
 // Print Options
 export interface PrintOptions {
   halftone?: 0 | 1 | 2; // 0=DITHER, 1=ERROR_DIFFUSION, 2=THRESHOLD
@@ -35,6 +324,10 @@ export interface PrintOptions {
   mode?: 'mono' | 'gray16';
   cut?: boolean;
   align?: 'left' | 'center' | 'right';
+  /** Locale of result messages and test pages (default: global locale, see `configureI18n`) */
+  locale?: string;
+  /** Messages that replace those of the locale catalog */
+  messages?: Partial<MessageCatalog>;
 }
 
 // SDK Loader Types
@@ -66,24 +359,46 @@ export type PrintBuilderFn = (builder: epson.ePOSBuilder) => void;
 // Hook Return Types
 export interface UseEpsonPrinterReturn {
   /** Print a single canvas to the thermal printer */
-  print: (canvas: HTMLCanvasElement) => Promise<PrintResult>;
+  print: (canvas: HTMLCanvasElement, options?: PrintOperationOptions) => Promise<PrintResult>;
   /** Print multiple canvases (pages) with optional page selection */
   printPages: (
-    canvases: HTMLCanvasElement[],
-    options?: {
+    canvases: PrintPage[],
+    options?: PrintOperationOptions & {
       pageSelection?: 'all' | number[];
       headerText?: string;
       footerText?: string;
+      /** Print the library's raster of processed pages (see `PrintPagesOptions.useRaster`) */
+      useRaster?: boolean;
     }
   ) => Promise<PrintResult>;
+  /**
+   * Print pages as they become available, a few pages per request,
+   * reporting progress in `progress`
+   */
+  printPageStream: (pages: PrintPageSource, options?: StreamPrintOptions) => Promise<StreamPrintResult>;
   /** Print custom commands using Epson ePOSBuilder */
-  printWithBuilder: (buildFn: PrintBuilderFn) => Promise<PrintResult>;
+  printWithBuilder: (buildFn: PrintBuilderFn, options?: PrintOperationOptions) => Promise<PrintResult>;
+  /** Print a declarative receipt document */
+  printReceipt: (doc: ReceiptDocument, options?: PrintOperationOptions) => Promise<PrintResult>;
   /** Check printer connection without printing anything */
-  checkConnection: () => Promise<PrintResult>;
+  checkConnection: (options?: PrintOperationOptions) => Promise<PrintResult>;
   /** Test printer connection by printing a small test receipt */
-  testConnection: () => Promise<PrintResult>;
+  testConnection: (options?: PrintOperationOptions) => Promise<PrintResult>;
+  /**
+   * Ask the printer how a job sent with `printjobid` ended (network transports only).
+   * Doesn't change `isLoading` or `error`.
+   */
+  getPrintJobStatus: (printjobid: string, options?: PrintOperationOptions) => Promise<PrintResult>;
+  /**
+   * Ask the user to pick the USB or serial printer (`transport: 'usb' | 'serial'`).
+   * Must be called from a user gesture. Resolves with the config to save
+   * (e.g. with `updateConfig`), or null if the dialog was cancelled.
+   */
+  requestDevice: () => Promise<EpsonPrinterConfig | null>;
   /** Whether a print operation is in progress */
   isLoading: boolean;
+  /** Progress of the last `printPageStream()`, or null before its first chunk */
+  progress: StreamPrintProgress | null;
   /** Error message from the last operation, if any */
   error: string | null;
   /** Current SDK loading status */
@@ -112,9 +427,156 @@ export interface UsePrinterConfigReturn {
 }
 
 export interface UsePdfProcessorReturn {
-  processFile: (file: File) => Promise<ProcessedPage[]>;
+  /** Render the pages of a PDF file. Rejects with an `AbortError` when `signal` aborts. */
+  processFile: (file: File, options?: PdfProcessingOptions) => Promise<ProcessedPage[]>;
+  /**
+   * Render the pages of a PDF file one at a time, as they are read
+   * (e.g. to print them with `printPageStream()` while the next ones render)
+   */
+  streamFile: (file: File, options?: PdfProcessingOptions) => AsyncGenerator<ProcessedPage, void, undefined>;
   isProcessing: boolean;
+  /** Last processed page of the current file, or null before the first one */
+  progress: PdfProcessingProgress | null;
+  error: string | null;
+}
+
+export interface UseDocumentProcessorReturn {
+  /** Process a PDF or image file. Rejects with an `AbortError` when `signal` aborts. */
+  processFile: (file: File, options?: PdfProcessingOptions) => Promise<ProcessedPage[]>;
+  /** Process the pages of a PDF or image file one at a time, as they are read */
+  streamFile: (file: File, options?: PdfProcessingOptions) => AsyncGenerator<ProcessedPage, void, undefined>;
+  isProcessing: boolean;
+  /** Last processed page of the current file, or null before the first one */
+  progress: PdfProcessingProgress | null;
+  error: string | null;
+}
+
+export interface UsePrintQueueOptions extends PrintQueueOptions {
+  /** Print options used to build queued jobs */
+  printOptions?: PrintOptions;
+}
+
+export interface UsePrintQueueReturn {
+  /** All jobs in the queue, in send order */
+  jobs: readonly PrintJob[];
+  /** Jobs waiting to be sent (including those waiting for a retry) */
+  pending: PrintJob[];
+  /** Job currently being sent, if any */
+  active: PrintJob | null;
+  /** Jobs that failed and need a manual retry or removal */
+  failed: PrintJob[];
+  /** Add custom builder commands to the queue */
+  enqueue: (buildFn: PrintBuilderFn, label?: string) => Promise<PrintJob>;
+  /** Add a canvas to the queue */
+  enqueueCanvas: (canvas: HTMLCanvasElement, label?: string) => Promise<PrintJob>;
+  /** Add multiple pages to the queue */
+  enqueuePages: (canvases: PrintPage[], options?: PrintPagesOptions, label?: string) => Promise<PrintJob>;
+  /** Add a receipt document to the queue */
+  enqueueReceipt: (doc: ReceiptDocument, label?: string) => Promise<PrintJob>;
+  /** Put a failed job back in the queue */
+  retry: (id: string) => Promise<void>;
+  /** Remove a job that is not being sent */
+  remove: (id: string) => Promise<void>;
+  /** Remove all failed jobs */
+  clearFailed: () => Promise<void>;
+}
+
+export interface UsePrintJobsOptions extends PrintJobTrackerOptions {
+  /** Print options of the service used to send and query jobs */
+  printOptions?: PrintOptions;
+}
+
+export interface UsePrintJobsReturn {
+  /** All tracked jobs, oldest first */
+  jobs: readonly TrackedPrintJob[];
+  /** Jobs the printer hasn't reported printed or failed yet */
+  unsettled: TrackedPrintJob[];
+  /** Send a job with a print job ID and track it */
+  print: (send: TrackedPrintFn, options?: TrackedPrintOptions) => Promise<TrackedPrintJob>;
+  /** Start following a job sent elsewhere */
+  track: (id: string, label?: string) => Promise<TrackedPrintJob>;
+  /** Ask the printer about unsettled jobs now (or about one of them) */
+  refresh: (id?: string) => Promise<void>;
+  /** Remove a job from the log */
+  remove: (id: string) => Promise<void>;
+  /** Remove all printed and failed jobs */
+  clearSettled: () => Promise<void>;
+  /** Underlying tracker (null when not configured) */
+  tracker: PrintJobTracker | null;
+}
+
+export interface UsePrinterStatusOptions extends PrinterStatusMonitorOptions {
+  /** Poll the printer while mounted. Default: true */
+  enabled?: boolean;
+}
+
+export interface UsePrinterStatusReturn {
+  /** Last decoded printer status, or null until the printer answers */
+  status: PrinterDeviceStatus | null;
+  /** Whether the printer is being polled */
+  isMonitoring: boolean;
+  /** Why monitoring couldn't start (e.g. SDK not loaded) */
   error: string | null;
+  /** Underlying monitor, to listen to events with `monitor.on()` (null when not configured) */
+  monitor: PrinterStatusMonitor | null;
+}
+
+export interface UsePrintersOptions extends PrinterRegistryOptions {
+  /** Routing rules, checked in order */
+  routes?: PrintRoute[];
+  /** Where jobs go when no route matches */
+  fallback?: PrintRouteTarget;
+  /** Poll the status of every printer while mounted. Default: true */
+  monitorStatus?: boolean;
+  /** Status polling interval (ms). Default: 3000 */
+  statusInterval?: number;
+}
+
+export interface UsePrintersReturn {
+  /** Registered printers */
+  printers: readonly RegisteredPrinter[];
+  /** Last decoded status per printer id (null until the printer answers or when not monitored) */
+  statuses: Record<string, PrinterDeviceStatus | null>;
+  /** Register a printer (throws `PrinterRegistryError` if the id is taken) */
+  addPrinter: (printer: PrinterRegistration) => RegisteredPrinter;
+  /** Change a registered printer */
+  updatePrinter: (id: string, changes: Partial<Omit<PrinterRegistration, 'id'>>) => RegisteredPrinter;
+  /** Remove a printer */
+  removePrinter: (id: string) => boolean;
+  /** Print service for a printer, or null if it isn't registered */
+  getService: (id: string, options?: PrintOptions) => EposPrintService | null;
+  /** Target printer of a job */
+  route: (job: RoutableJob) => RegisteredPrinter | null;
+  /** Split an order into one ticket per station */
+  splitOrder: <T extends RoutableItem>(items: T[], jobType?: string) => OrderSplit<T>;
+  /** Underlying registry */
+  registry: PrinterRegistry;
+  /** Underlying router */
+  router: PrintRouter;
+}
+
+export interface UsePrinterGroupOptions extends PrinterGroupOptions {
+  /** Check the health of every printer periodically while mounted. Default: true */
+  monitorHealth?: boolean;
+}
+
+export interface UsePrinterGroupReturn {
+  /** Health of every printer of the group */
+  health: readonly PrinterHealth[];
+  /** Print custom builder commands on the group */
+  printWithBuilder: (buildFn: PrintBuilderFn, options?: PrintOperationOptions) => Promise<PrintResult>;
+  /** Print a canvas on the group */
+  printCanvas: (canvas: PrintImage, options?: PrintOperationOptions) => Promise<PrintResult>;
+  /** Print multiple pages on the group */
+  printPages: (canvases: PrintPage[], options?: PrintPagesOptions) => Promise<PrintResult>;
+  /** Print a receipt document on the group */
+  printReceipt: (doc: ReceiptDocument, options?: PrintOperationOptions) => Promise<PrintResult>;
+  /** Send a previously built request to the group */
+  printXml: (xml: string, options?: PrintOperationOptions) => Promise<PrintResult>;
+  /** Check the health of every printer now */
+  checkHealth: () => Promise<PrinterGroupState>;
+  /** Underlying group */
+  group: PrinterGroup;
 }
 
 // Logger Types
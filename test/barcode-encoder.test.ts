@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { encodeBarcode, encodeQrCode } from '../src/lib/barcode-encoder';
+
+function bits(modules: boolean[]): string {
+  return modules.map((bar) => (bar ? '1' : '0')).join('');
+}
+
+describe('encodeBarcode', () => {
+  it('encodes EAN and UPC with their check digit', () => {
+    expect(bits(encodeBarcode('ean8', '9638507')?.modules ?? [])).toBe(
+      '1010001011010111101111010110111010101001110111001010001001011100101'
+    );
+    expect(encodeBarcode('ean13', '400638133393')).toMatchObject({ text: '4006381333931' });
+    expect(encodeBarcode('jan13', '4006381333931')?.modules).toHaveLength(95);
+    expect(encodeBarcode('upc_a', '03600029145')).toMatchObject({ text: '036000291452' });
+  });
+
+  it('encodes UPC-E from 6, 7 or 8 digits and zero-suppresses UPC-A', () => {
+    expect(encodeBarcode('upc_e', '123456')).toMatchObject({ text: '01234565' });
+    expect(encodeBarcode('upc_e', '1654321')).toMatchObject({ text: '16543214' });
+    expect(encodeBarcode('upc_e', '04210000526')?.text).toBe('04252614');
+    expect(encodeBarcode('upc_e', '04210000526')?.modules).toHaveLength(51);
+    expect(encodeBarcode('upc_e', '01234567890')).toBeNull();
+  });
+
+  it('encodes CODE39 with start and stop characters', () => {
+    expect(bits(encodeBarcode('code39', 'A')?.modules ?? [])).toBe('10010110110101101010010110100101101101');
+    expect(encodeBarcode('code39', '*A*')?.text).toBe('A');
+    expect(encodeBarcode('code39', 'abc')).toBeNull();
+  });
+
+  it('encodes CODE128 with ePOS-Print code set escapes', () => {
+    expect(bits(encodeBarcode('code128', '{BAB')?.modules ?? [])).toBe(
+      '110100100001010001100010001011000111101011101100011101011'
+    );
+    expect(bits(encodeBarcode('code128', '{C1234')?.modules ?? [])).toBe(
+      '110100111001011001110010001011000100100111101100011101011'
+    );
+    expect(encodeBarcode('code128', 'AB')?.modules).toEqual(encodeBarcode('code128', '{BAB')?.modules);
+    expect(encodeBarcode('code128', '{C123456{BAb')).toMatchObject({ text: '123456Ab' });
+    expect(encodeBarcode('code128', '{C123')).toBeNull();
+  });
+
+  it('picks code set C for digit runs in code128_auto', () => {
+    // Start B, A, B, 1, code C, 23, 45, checksum, stop
+    expect(encodeBarcode('code128_auto', 'AB12345')?.modules).toHaveLength(8 * 11 + 13);
+    expect(encodeBarcode('code128_auto', 'ABCDEFG')?.modules).toHaveLength(9 * 11 + 13);
+  });
+
+  it('encodes ITF digit pairs and rejects odd lengths', () => {
+    expect(encodeBarcode('itf', '12345678')?.modules).toHaveLength(4 * 18 + 9);
+    expect(encodeBarcode('itf', '123')).toBeNull();
+  });
+
+  it('returns null for symbologies it does not encode', () => {
+    expect(encodeBarcode('codabar', 'A123A')).toBeNull();
+    expect(encodeBarcode('gs1_databar_omnidirectional', '0123456789012')).toBeNull();
+  });
+});
+
+describe('encodeQrCode', () => {
+  const finder = [
+    [true, true, true, true, true, true, true, false],
+    [true, false, false, false, false, false, true, false],
+    [true, false, true, true, true, false, true, false],
+    [true, false, true, true, true, false, true, false],
+    [true, false, true, true, true, false, true, false],
+    [true, false, false, false, false, false, true, false],
+    [true, true, true, true, true, true, true, false],
+    [false, false, false, false, false, false, false, false],
+  ];
+
+  it('uses the smallest version that fits the data at the level', () => {
+    expect(encodeQrCode('Hello')).toHaveLength(21);
+    expect(encodeQrCode('x'.repeat(15))).toHaveLength(25);
+    expect(encodeQrCode('x'.repeat(15), 'level_l')).toHaveLength(21);
+    expect(encodeQrCode('x'.repeat(200), 'level_h')).toHaveLength(17 + 4 * 15);
+  });
+
+  it('draws the finder, timing and dark modules', () => {
+    const modules = encodeQrCode('https://example.com') as boolean[][];
+    const size = modules.length;
+    expect(modules.slice(0, 8).map((row) => row.slice(0, 8))).toEqual(finder);
+    expect(modules.slice(0, 8).map((row) => row.slice(size - 8).reverse())).toEqual(finder);
+    expect(modules[6].slice(8, size - 8)).toEqual(Array.from({ length: size - 16 }, (_, i) => i % 2 === 0));
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it('returns null when the data does not fit in version 40', () => {
+    expect(encodeQrCode('x'.repeat(1300), 'level_h')).toBeNull();
+    expect(encodeQrCode('x'.repeat(1300), 'level_l')).toHaveLength(17 + 4 * 26);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { adjustTone, ditherGray, ditherImage, hasToneAdjustments, packPixels, toGrayLevels } from '../src/lib/dithering';
+import type { DitheringMode } from '../src/lib/dithering';
+
+/** Gray levels of a `width` x `height` image filled with `value` */
+function uniformGray(width: number, height: number, value: number): Float32Array {
+  return new Float32Array(width * height).fill(value);
+}
+
+/** RGBA image of a `width` x `height` filled with one color */
+function solidImage(width: number, height: number, rgba: number[]) {
+  return { width, height, data: new Uint8Array(width * height * 4).map((_, i) => rgba[i % 4]) };
+}
+
+const blackRatio = (pixels: Uint8Array) => pixels.reduce((sum, pixel) => sum + pixel, 0) / pixels.length;
+
+describe('toGrayLevels', () => {
+  it('weights channels by luminance and blends transparency with white', () => {
+    const gray = toGrayLevels({ width: 3, height: 1, data: new Uint8Array([255, 0, 0, 255, 0, 0, 0, 0, 0, 0, 0, 255]) });
+    expect(gray[0]).toBeCloseTo(76.245);
+    expect(Array.from(gray.slice(1))).toEqual([255, 0]);
+  });
+});
+
+describe('tone adjustments', () => {
+  it('only reports options that change the image', () => {
+    expect(hasToneAdjustments({})).toBe(false);
+    expect(hasToneAdjustments({ gamma: 1, contrast: 1, sharpen: 0 })).toBe(false);
+    expect(hasToneAdjustments({ gamma: 1.2 })).toBe(true);
+    expect(hasToneAdjustments({ sharpen: 0.5 })).toBe(true);
+  });
+
+  it('applies contrast around mid gray, then gamma', () => {
+    expect(Array.from(adjustTone(new Float32Array([64, 128, 192]), 3, 1, { contrast: 2 }))).toEqual([0, 128, 255]);
+    expect(adjustTone(new Float32Array([64]), 1, 1, { gamma: 2 })[0]).toBeCloseTo(127.75, 1);
+  });
+
+  it('sharpens edges and leaves flat areas alone', () => {
+    expect(Array.from(adjustTone(uniformGray(3, 3, 100), 3, 3, { sharpen: 1 }))).toEqual(Array(9).fill(100));
+
+    const edge = adjustTone(new Float32Array([100, 100, 200, 200]), 4, 1, { sharpen: 1 });
+    expect(edge[1]).toBeLessThan(100);
+    expect(edge[2]).toBeGreaterThan(200);
+  });
+});
+
+describe('ditherGray', () => {
+  it('thresholds gray levels', () => {
+    const gray = new Float32Array([0, 127, 128, 255]);
+    expect(Array.from(ditherGray(gray, 4, 1))).toEqual([1, 1, 0, 0]);
+    expect(Array.from(ditherGray(gray, 4, 1, 'threshold', 200))).toEqual([1, 1, 1, 0]);
+  });
+
+  it.each<DitheringMode>(['floyd-steinberg', 'stucki', 'jarvis-judice-ninke'])('keeps the average gray with %s', (mode) => {
+    for (const value of [64, 128, 192]) {
+      expect(blackRatio(ditherGray(uniformGray(32, 32, value), 32, 32, mode))).toBeCloseTo(1 - value / 255, 1);
+    }
+  });
+
+  it('adds contrast with atkinson, which diffuses only part of the error', () => {
+    expect(blackRatio(ditherGray(uniformGray(32, 32, 64), 32, 32, 'atkinson'))).toBeGreaterThan(1 - 64 / 255);
+    expect(blackRatio(ditherGray(uniformGray(32, 32, 192), 32, 32, 'atkinson'))).toBeLessThan(1 - 192 / 255);
+  });
+
+  it('tiles the Bayer matrix', () => {
+    expect(Array.from(ditherGray(uniformGray(4, 2, 128), 4, 2, 'bayer2'))).toEqual([0, 1, 0, 1, 1, 0, 1, 0]);
+    for (const mode of ['bayer4', 'bayer8'] as const) {
+      expect(blackRatio(ditherGray(uniformGray(8, 8, 128), 8, 8, mode))).toBe(0.5);
+      expect(blackRatio(ditherGray(uniformGray(8, 8, 0), 8, 8, mode))).toBe(1);
+      expect(blackRatio(ditherGray(uniformGray(8, 8, 255), 8, 8, mode))).toBe(0);
+    }
+  });
+});
+
+describe('packPixels', () => {
+  it('packs rows MSB first, padding with the last column', () => {
+    const pixels = new Uint8Array([1, 0, 0, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(Array.from(packPixels(pixels, 10, 2))).toEqual([0x81, 0x7f, 0x00, 0x00]);
+  });
+});
+
+describe('ditherImage', () => {
+  it('returns whole bytes per row', () => {
+    expect(Array.from(ditherImage(solidImage(10, 3, [0, 0, 0, 255]), { mode: 'atkinson' }))).toEqual(Array(6).fill(0xff));
+    expect(Array.from(ditherImage(solidImage(10, 3, [255, 255, 255, 255]), { mode: 'bayer8', contrast: 1.5 }))).toEqual(
+      Array(6).fill(0)
+    );
+  });
+});
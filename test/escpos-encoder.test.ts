@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { EscPosEncoder, EscPosEncoderError, encodeText, packMonochrome } from '../src/lib/escpos-encoder';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/** `ESC @` then `ESC t 19` (cp858), written by every new encoder */
+const INIT = [ESC, 0x40, ESC, 0x74, 19];
+
+/** Bytes after the initialization */
+function commands(encoder: EscPosEncoder): number[] {
+  return Array.from(encoder.build().subarray(INIT.length));
+}
+
+describe('encodeText', () => {
+  it('keeps ASCII and maps code page characters', () => {
+    expect(Array.from(encodeText('A€ñ', 'cp858'))).toEqual([0x41, 0xd5, 0xa4]);
+    expect(Array.from(encodeText('€', 'cp1252'))).toEqual([0x80]);
+  });
+
+  it('replaces characters missing from the code page with "?"', () => {
+    expect(Array.from(encodeText('€', 'cp437'))).toEqual([0x3f]);
+  });
+});
+
+describe('packMonochrome', () => {
+  it('packs dark pixels MSB first and prints transparent pixels as paper', () => {
+    const black = [0, 0, 0, 255];
+    const white = [255, 255, 255, 255];
+    const clear = [0, 0, 0, 0];
+    const data = Uint8ClampedArray.from([...black, ...white, ...clear, ...black, ...black, ...black, ...black, ...black, ...black]);
+    expect(Array.from(packMonochrome({ width: 9, height: 1, data }))).toEqual([0b10011111, 0b10000000]);
+  });
+});
+
+describe('EscPosEncoder', () => {
+  it('starts with ESC @ and the code page', () => {
+    expect(Array.from(new EscPosEncoder().build())).toEqual(INIT);
+    expect(Array.from(new EscPosEncoder({ codePage: 'cp437' }).build())).toEqual([ESC, 0x40, ESC, 0x74, 0]);
+  });
+
+  it('encodes text with LF line endings', () => {
+    expect(commands(new EscPosEncoder().addText('a\r\nb').addTextLine('c'))).toEqual([0x61, 0x0a, 0x62, 0x63, 0x0a]);
+  });
+
+  it('encodes text styles, sizes, fonts and alignment', () => {
+    const encoder = new EscPosEncoder()
+      .addTextAlign('center')
+      .addTextStyle(true, false, true, 'color_2')
+      .addTextSize(2, 3)
+      .addTextFont('font_b')
+      .addTextRotate(true)
+      .addTextPosition(300);
+    expect(commands(encoder)).toEqual([
+      ESC, 0x61, 1,
+      GS, 0x42, 1, ESC, 0x2d, 0, ESC, 0x45, 1, ESC, 0x72, 1,
+      GS, 0x21, 0x12,
+      ESC, 0x4d, 1,
+      ESC, 0x7b, 1,
+      ESC, 0x24, 0x2c, 0x01,
+    ]);
+  });
+
+  it('clamps text sizes and feeds to what the printer takes', () => {
+    expect(commands(new EscPosEncoder().addTextSize(0, 9).addFeedLine(300).addFeedUnit(-1))).toEqual([
+      GS, 0x21, 0x07,
+      ESC, 0x64, 255,
+      ESC, 0x4a, 0,
+    ]);
+  });
+
+  it('encodes cuts', () => {
+    expect(commands(new EscPosEncoder().addCut())).toEqual([GS, 0x56, 0x42, 0x00]);
+    expect(commands(new EscPosEncoder().addCut('no_feed_fullcut'))).toEqual([GS, 0x56, 0x00]);
+  });
+
+  it('splits rasters into GS v 0 bands of 256 rows', () => {
+    const raster = new Uint8Array(2 * 300).fill(0xff);
+    const bytes = commands(new EscPosEncoder().addRaster(raster, 16, 300));
+    expect(bytes.slice(0, 8)).toEqual([GS, 0x76, 0x30, 0, 2, 0, 0x00, 0x01]);
+    const second = 8 + 2 * 256;
+    expect(bytes.slice(second, second + 8)).toEqual([GS, 0x76, 0x30, 0, 2, 0, 44, 0]);
+    expect(bytes.length).toBe(16 + raster.length);
+  });
+
+  it('rejects rasters shorter than their size', () => {
+    expect(() => new EscPosEncoder().addRaster(new Uint8Array(3), 16, 2)).toThrow(EscPosEncoderError);
+  });
+
+  it('encodes barcodes with GS k function B, CODE128 in code set B', () => {
+    expect(commands(new EscPosEncoder().addBarcode('AB', 'code128', 'below', 3, 80))).toEqual([
+      GS, 0x68, 80,
+      GS, 0x77, 3,
+      GS, 0x48, 2,
+      GS, 0x66, 0,
+      GS, 0x6b, 73, 4, 0x7b, 0x42, 0x41, 0x42,
+    ]);
+    expect(commands(new EscPosEncoder().addBarcode('4006381333931', 'ean13')).slice(-17)).toEqual([
+      GS, 0x6b, 67, 13, ...Array.from('4006381333931', (c) => c.charCodeAt(0)),
+    ]);
+  });
+
+  it('rejects unsupported barcode types and data over 255 bytes', () => {
+    expect(() => new EscPosEncoder().addBarcode('1', 'qrcode')).toThrow(EscPosEncoderError);
+    expect(() => new EscPosEncoder().addBarcode('1'.repeat(256), 'code39')).toThrow(EscPosEncoderError);
+  });
+
+  it('encodes QR codes with GS ( k and UTF-8 data', () => {
+    expect(commands(new EscPosEncoder().addQRCode('ñ', 'model_2', 'level_h', 6))).toEqual([
+      GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 50, 0,
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6,
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 51,
+      GS, 0x28, 0x6b, 5, 0, 0x31, 0x50, 0x30, 0xc3, 0xb1,
+      GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30,
+    ]);
+  });
+
+  it('encodes drawer pulses in 2 ms units', () => {
+    expect(commands(new EscPosEncoder().addPulse('drawer_2', 'pulse_200'))).toEqual([ESC, 0x70, 1, 100, 100]);
+  });
+
+  it('lays out columns for the current font and size', () => {
+    const encoder = new EscPosEncoder({ paperWidth: 384 });
+    expect(encoder.getCharsPerLine()).toBe(32);
+    const bytes = commands(encoder.addColumns(['Coffee', '2.50']));
+    // Tables are laid out from the left margin
+    expect(bytes.slice(0, 3)).toEqual([ESC, 0x61, 0]);
+    expect(new TextDecoder().decode(Uint8Array.from(bytes.slice(3)))).toBe('Coffee' + ' '.repeat(22) + '2.50\n');
+  });
+
+  it('starts over from the printer defaults on reset()', () => {
+    expect(Array.from(new EscPosEncoder().addText('x').addTextSize(2, 2).reset().build())).toEqual(INIT);
+  });
+});
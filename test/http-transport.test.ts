@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EposPrintHttpTransport } from '../src/lib/http-transport';
+
+/** Stand-in for the browser XMLHttpRequest the SDK opens */
+class FakeXMLHttpRequest {
+  static instances: FakeXMLHttpRequest[] = [];
+  aborted = false;
+  onabort: (() => void) | null = null;
+
+  constructor() {
+    FakeXMLHttpRequest.instances.push(this);
+  }
+
+  abort(): void {
+    this.aborted = true;
+    this.onabort?.();
+  }
+}
+
+/** Stand-in for the SDK's ePOSPrint: opens a request and waits for the test to answer it */
+class FakeEposPrint {
+  static last: FakeEposPrint | null = null;
+  timeout = 0;
+  onreceive: ((res: { success: boolean; code: string; status: number }) => void) | null = null;
+  onerror: ((err: { status: number; responseText: string }) => void) | null = null;
+
+  send(): void {
+    FakeEposPrint.last = this;
+    const request = new XMLHttpRequest() as unknown as FakeXMLHttpRequest;
+    // Like the SDK, a closed request reports an error
+    request.onabort = () => this.onerror?.({ status: 0, responseText: '' });
+  }
+}
+
+describe('EposPrintHttpTransport', () => {
+  const request = { xml: '<epos-print/>', label: 'test', timeout: 1000, extraTime: 0 };
+
+  beforeEach(() => {
+    FakeXMLHttpRequest.instances = [];
+    FakeEposPrint.last = null;
+    vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+    vi.stubGlobal('window', { epson: { ePOSPrint: FakeEposPrint } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends with the SDK and resolves with its response', async () => {
+    const transport = new EposPrintHttpTransport({ printerIP: '192.168.1.10' });
+    const pending = transport.send({ ...request, signal: new AbortController().signal });
+    FakeEposPrint.last?.onreceive?.({ success: true, code: '', status: 2 });
+
+    await expect(pending).resolves.toEqual({ type: 'response', success: true, code: '', status: 2 });
+    expect(globalThis.XMLHttpRequest).toBe(FakeXMLHttpRequest);
+  });
+
+  it('closes the SDK request when aborted', async () => {
+    const transport = new EposPrintHttpTransport({ printerIP: '192.168.1.10' });
+    const controller = new AbortController();
+    const pending = transport.send({ ...request, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).resolves.toEqual({ type: 'aborted' });
+    expect(FakeXMLHttpRequest.instances).toHaveLength(1);
+    expect(FakeXMLHttpRequest.instances[0].aborted).toBe(true);
+  });
+
+  it('does not send when already aborted', async () => {
+    const transport = new EposPrintHttpTransport({ printerIP: '192.168.1.10' });
+    await expect(transport.send({ ...request, signal: AbortSignal.abort() })).resolves.toEqual({ type: 'aborted' });
+    expect(FakeEposPrint.last).toBeNull();
+  });
+});
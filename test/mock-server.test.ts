@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createMockPrinter } from '../mock-server/src';
+import { EposPrintService } from '../src/node';
+import type { ReceiptDocument } from '../src/node';
+
+/** 8x2 RGBA image: black left half, white right half */
+function halfBlack(): { width: number; height: number; data: Uint8ClampedArray } {
+  const data = new Uint8ClampedArray(8 * 2 * 4).fill(255);
+  for (let y = 0; y < 2; y++) {
+    for (let x = 0; x < 4; x++) {
+      data.fill(0, (y * 8 + x) * 4, (y * 8 + x) * 4 + 3);
+    }
+  }
+  return { width: 8, height: 2, data };
+}
+
+describe('EposPrintService against the mock printer', () => {
+  const printer = createMockPrinter({ port: 0 });
+  let service: EposPrintService;
+
+  beforeAll(async () => {
+    const port = await printer.listen();
+    service = new EposPrintService({ printerIP: '127.0.0.1', printerPort: port, deviceId: 'kitchen' }, { locale: 'en' });
+  });
+
+  afterAll(() => printer.close());
+
+  beforeEach(() => {
+    printer.clearJobs();
+    printer.setScenario('ok');
+  });
+
+  it('sends builder commands as an ePOS-Print request', async () => {
+    const result = await service.printWithBuilder((builder) => {
+      builder.addTextAlign(builder.ALIGN_CENTER);
+      builder.addText('Hello\n');
+      builder.addCut(builder.CUT_FEED);
+    });
+
+    expect(result.success).toBe(true);
+    expect(printer.jobs).toHaveLength(1);
+    const [job] = printer.jobs;
+    expect(job.deviceId).toBe('kitchen');
+    expect(job.commands.map((command) => command.type)).toEqual(['text', 'text', 'cut']);
+    expect(job.commands[0].attributes.align).toBe('center');
+    expect(job.commands[1].content).toBe('Hello\n');
+  });
+
+  it('compiles receipt documents', async () => {
+    const receipt: ReceiptDocument = {
+      version: 1,
+      blocks: [
+        { type: 'keyValue', key: 'TOTAL', value: '4.50' },
+        { type: 'barcode', data: '12345678', symbology: 'code39' },
+        { type: 'cut' },
+      ],
+    };
+    const result = await service.printReceipt(receipt);
+
+    expect(result.success).toBe(true);
+    const [job] = printer.jobs;
+    expect(job.commands.some((command) => command.type === 'text' && /^TOTAL +4\.50\n$/.test(command.content))).toBe(true);
+    expect(job.commands.find((command) => command.type === 'barcode')).toMatchObject({
+      content: '12345678',
+      attributes: { type: 'code39' },
+    });
+  });
+
+  it('sends images as rasters', async () => {
+    const result = await service.printCanvas(halfBlack());
+
+    expect(result.success).toBe(true);
+    const image = printer.jobs[0].commands.find((command) => command.type === 'image');
+    expect(image?.attributes).toMatchObject({ width: '8', height: '2' });
+    // One byte per row, MSB first: 11110000
+    expect(Buffer.from(image?.content ?? '', 'base64')).toEqual(Buffer.from([0xf0, 0xf0]));
+  });
+
+  it('reports printer errors', async () => {
+    printer.setScenario('paper-end');
+    const result = await service.printWithBuilder((builder) => builder.addText('x\n'));
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('EPTR_REC_EMPTY');
+  });
+
+  it('reports dropped connections as network errors', async () => {
+    printer.setScenario('drop');
+    const result = await service.printWithBuilder((builder) => builder.addText('x\n'));
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('NETWORK_ERROR');
+  });
+
+  it('resumes a page stream from the failed chunk', async () => {
+    const pages = [halfBlack(), halfBlack(), halfBlack()];
+    printer.script('ok', 'paper-end');
+    const failed = await service.printPageStream(pages, { header: 'REPORT' });
+
+    expect(failed.success).toBe(false);
+    expect(failed).toMatchObject({ failedChunk: 1, sentChunks: 1, sentPages: 1 });
+
+    printer.clearJobs();
+    const result = await service.printPageStream(pages.slice(failed.sentPages), {
+      header: 'REPORT',
+      resumeFrom: failed.failedChunk,
+      sourceFromStart: false,
+    });
+
+    expect(result).toMatchObject({ success: true, sentChunks: 3, sentPages: 3 });
+    expect(printer.jobs).toHaveLength(2);
+    // The header printed with the first chunk only
+    expect(printer.jobs.flatMap((job) => job.commands).some((command) => command.content.includes('REPORT'))).toBe(false);
+    expect(printer.jobs[1].commands.at(-1)?.type).toBe('cut');
+  });
+});
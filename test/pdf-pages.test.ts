@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoBands } from '../src/lib/image-stages';
+import { PageRangeError, getPageConfig, parsePageRange } from '../src/lib/pdf-processor';
+
+/** Blank rows of an image `height` rows tall, with content on every row but `blank` */
+function blankRows(height: number, blank: number[] = []): boolean[] {
+  return Array.from({ length: height }, (_, y) => blank.includes(y));
+}
+
+describe('parsePageRange', () => {
+  it('reads page numbers and ranges, sorted and without duplicates', () => {
+    expect(parsePageRange('1-3,7', 10)).toEqual([1, 2, 3, 7]);
+    expect(parsePageRange(' 7 , 2-3, 3 ', 10)).toEqual([2, 3, 7]);
+    expect(parsePageRange('8-', 10)).toEqual([8, 9, 10]);
+    expect(parsePageRange([3, 1, 3, 2.5], 10)).toEqual([1, 3]);
+  });
+
+  it('ignores pages beyond the document', () => {
+    expect(parsePageRange('4-12', 5)).toEqual([4, 5]);
+    expect(parsePageRange('9', 5)).toEqual([]);
+    expect(parsePageRange([0, 6], 5)).toEqual([]);
+  });
+
+  it.each(['', 'a', '0', '3-1', '1,,2', '-3', '1-2-3'])('rejects "%s"', (range) => {
+    expect(() => parsePageRange(range, 10)).toThrow(PageRangeError);
+  });
+});
+
+describe('getPageConfig', () => {
+  it('applies page overrides over the config, merging trim margins', () => {
+    const config = { enabled: true, trimMargins: { top: 5, bottom: 5 }, dithering: 'atkinson' as const };
+    expect(getPageConfig(config)).toBe(config);
+    expect(getPageConfig(config, { trimMargins: { top: 0 }, rotation: 90 })).toEqual({
+      enabled: true,
+      trimMargins: { top: 0, bottom: 5 },
+      dithering: 'atkinson',
+      rotation: 90,
+    });
+  });
+});
+
+describe('splitIntoBands', () => {
+  it('keeps short images and images without a band height in one band', () => {
+    expect(splitIntoBands(blankRows(100), 100)).toEqual([{ y: 0, height: 100 }]);
+    expect(splitIntoBands(blankRows(5000), null)).toEqual([{ y: 0, height: 5000 }]);
+  });
+
+  it('cuts on the last blank row within reach', () => {
+    expect(splitIntoBands(blankRows(250, [60, 80, 170]), 100)).toEqual([
+      { y: 0, height: 80 },
+      { y: 80, height: 90 },
+      { y: 170, height: 80 },
+    ]);
+  });
+
+  it('cuts at the band height when the lower half of a band has no blank row', () => {
+    expect(splitIntoBands(blankRows(250, [20]), 100)).toEqual([
+      { y: 0, height: 100 },
+      { y: 100, height: 100 },
+      { y: 200, height: 50 },
+    ]);
+  });
+});
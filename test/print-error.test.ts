@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ASB_STATUS } from '../src/lib/asb-status';
+import { createPrintError, decodePrintError, getStatusErrors } from '../src/lib/print-error';
+
+describe('decodePrintError', () => {
+  it('returns null for successful results', () => {
+    expect(decodePrintError({ success: true, code: 'EPTR_COVER_OPEN' })).toBeNull();
+  });
+
+  it('maps known result codes to their own type', () => {
+    expect(decodePrintError({ success: false, code: 'EPTR_COVER_OPEN' })).toMatchObject({
+      type: 'cover_open',
+      recoverable: true,
+      action: 'close_cover',
+    });
+    expect(decodePrintError({ success: false, code: 'ERROR_CANCEL_FAILED' })).toMatchObject({
+      type: 'cancel_failed',
+      recoverable: false,
+      action: 'check_printer',
+    });
+  });
+
+  it('falls back to the most severe ASB problem for generic codes', () => {
+    const status = ASB_STATUS.OFF_LINE | ASB_STATUS.COVER_OPEN | ASB_STATUS.RECEIPT_NEAR_END;
+    expect(decodePrintError({ success: false, code: 'EPTR_UNKNOWN', status })).toMatchObject({
+      type: 'cover_open',
+      code: 'COVER_OPEN',
+      status,
+    });
+  });
+
+  it('returns unknown when nothing explains the failure', () => {
+    expect(decodePrintError({ success: false, code: 'SOMETHING_NEW' })).toMatchObject({
+      type: 'unknown',
+      code: 'SOMETHING_NEW',
+    });
+  });
+});
+
+describe('getStatusErrors', () => {
+  it('lists every problem bit, most severe first, and skips state bits', () => {
+    const status = ASB_STATUS.PRINT_SUCCESS | ASB_STATUS.DRAWER_KICK | ASB_STATUS.RECEIPT_NEAR_END | ASB_STATUS.OFF_LINE;
+    expect(getStatusErrors(status).map((error) => error.type)).toEqual(['offline', 'paper_near_end']);
+    expect(getStatusErrors(0)).toEqual([]);
+    expect(getStatusErrors(undefined)).toEqual([]);
+  });
+
+  it('decodes slip, validation and journal bits', () => {
+    const status = ASB_STATUS.TOF_NOPAPER | ASB_STATUS.EJD_NOPAPER | ASB_STATUS.INSERTION_WAIT_PAPER
+      | ASB_STATUS.VALIDATION_IMPOSSIBLE_PRINT;
+    expect(getStatusErrors(status).map(({ type, action }) => [type, action])).toEqual([
+      ['slip_paper_empty', 'insert_paper'],
+      ['journal_paper_empty', 'load_paper'],
+      ['validation_cannot_print', 'insert_paper'],
+      ['waiting_for_paper_insertion', 'insert_paper'],
+    ]);
+  });
+
+  it('reads shared bits for the kind of printer', () => {
+    const status = ASB_STATUS.DRAWER_KICK | ASB_STATUS.BUZZER | ASB_STATUS.NO_LABEL;
+    expect(getStatusErrors(status).map((error) => error.type)).toEqual(['no_label', 'buzzer']);
+    expect(getStatusErrors(status, 'slip').map((error) => error.type)).toEqual([
+      'validation_not_selected',
+      'slip_not_selected',
+    ]);
+    expect(getStatusErrors(status, 'label').map((error) => error.type)).toEqual(['no_label', 'waiting_for_paper_removal']);
+    expect(getStatusErrors(status, 'mobile').map((error) => error.type)).toEqual(['battery_offline', 'no_label', 'buzzer']);
+  });
+
+  it('passes the printer kind through decodePrintError', () => {
+    expect(decodePrintError({ success: false, status: ASB_STATUS.BATTERY_OFFLINE }, 'mobile')).toMatchObject({
+      type: 'battery_offline',
+      action: 'charge_battery',
+    });
+  });
+});
+
+describe('createPrintError', () => {
+  it('fills in recoverable and action for the type', () => {
+    expect(createPrintError('paper_empty', 'EPTR_REC_EMPTY')).toEqual({
+      type: 'paper_empty',
+      code: 'EPTR_REC_EMPTY',
+      recoverable: true,
+      action: 'load_paper',
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryQueueStorage, PrintQueue, isRetryableResult } from '../src/lib/print-queue';
+import type { EposPrintService } from '../src/lib/epos-print';
+import type { PrintResult } from '../src/types';
+
+const OK: PrintResult = { success: true };
+const OFFLINE: PrintResult = { success: false, code: 'NETWORK_ERROR' };
+const COVER_OPEN: PrintResult = { success: false, code: 'EPTR_COVER_OPEN' };
+
+/** Service that answers prints and connection checks with the given results, in order */
+function createService(prints: PrintResult[], checks: PrintResult[] = []) {
+  const printXml = vi.fn<(xml: string) => Promise<PrintResult>>(async () => prints.shift() ?? OK);
+  const checkConnection = vi.fn(async () => checks.shift() ?? OK);
+  return { service: { printXml, checkConnection } as unknown as EposPrintService, printXml, checkConnection };
+}
+
+describe('isRetryableResult', () => {
+  it('retries only when the printer could not be reached', () => {
+    expect(isRetryableResult(OFFLINE)).toBe(true);
+    expect(isRetryableResult({ success: false, code: 'TIMEOUT' })).toBe(true);
+    expect(isRetryableResult(COVER_OPEN)).toBe(false);
+    expect(isRetryableResult(OK)).toBe(false);
+  });
+});
+
+describe('PrintQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends jobs in order and removes them once printed', async () => {
+    const { service, printXml } = createService([]);
+    const queue = new PrintQueue(service, { storage: new MemoryQueueStorage() });
+    await queue.enqueueXml('<first/>');
+    await queue.enqueueXml('<second/>');
+    queue.start();
+    await vi.runAllTimersAsync();
+
+    expect(printXml.mock.calls.map(([xml]) => xml)).toEqual(['<first/>', '<second/>']);
+    expect(queue.getJobs()).toEqual([]);
+    queue.stop();
+  });
+
+  it('waits for the printer with exponential backoff, then resumes', async () => {
+    const { service, printXml, checkConnection } = createService([OFFLINE, OFFLINE, OK], [OK, OK]);
+    const queue = new PrintQueue(service, { storage: new MemoryQueueStorage(), retryDelay: 1000 });
+    await queue.enqueueXml('<job/>');
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(printXml).toHaveBeenCalledTimes(1);
+    expect(queue.isOnline()).toBe(false);
+    expect(queue.getJobs()[0]).toMatchObject({ state: 'pending', attempts: 1, lastResult: OFFLINE });
+
+    // First retry after 1000 ms, the second 2000 ms later
+    await vi.advanceTimersByTimeAsync(999);
+    expect(printXml).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(checkConnection).toHaveBeenCalledTimes(1);
+    expect(printXml).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(printXml).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(printXml).toHaveBeenCalledTimes(3);
+    expect(queue.getJobs()).toEqual([]);
+    expect(queue.isOnline()).toBe(true);
+    queue.stop();
+  });
+
+  it('keeps checking the connection while the printer is offline', async () => {
+    const { service, printXml, checkConnection } = createService([OFFLINE], [OFFLINE, OK]);
+    const queue = new PrintQueue(service, {
+      storage: new MemoryQueueStorage(),
+      retryDelay: 1000,
+      connectionCheckInterval: 5000,
+    });
+    await queue.enqueueXml('<job/>');
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(checkConnection).toHaveBeenCalledTimes(1);
+    expect(printXml).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(checkConnection).toHaveBeenCalledTimes(2);
+    expect(printXml).toHaveBeenCalledTimes(2);
+    expect(queue.getJobs()).toEqual([]);
+    queue.stop();
+  });
+
+  it('caps the retry delay', async () => {
+    const { service, printXml } = createService([OFFLINE, OFFLINE, OFFLINE]);
+    const queue = new PrintQueue(service, { storage: new MemoryQueueStorage(), retryDelay: 1000, maxRetryDelay: 1500 });
+    await queue.enqueueXml('<job/>');
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(printXml).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(printXml).toHaveBeenCalledTimes(3);
+    queue.stop();
+  });
+
+  it('fails a job after maxAttempts, or right away on printer errors', async () => {
+    const { service } = createService([OFFLINE, OFFLINE, COVER_OPEN]);
+    const queue = new PrintQueue(service, { storage: new MemoryQueueStorage(), maxAttempts: 2, retryDelay: 10 });
+    await queue.enqueueXml('<unreachable/>');
+    await queue.enqueueXml('<cover-open/>');
+    queue.start();
+    await vi.runAllTimersAsync();
+
+    expect(queue.getJobs().map(({ xml, state, attempts }) => ({ xml, state, attempts }))).toEqual([
+      { xml: '<unreachable/>', state: 'failed', attempts: 2 },
+      { xml: '<cover-open/>', state: 'failed', attempts: 1 },
+    ]);
+    queue.stop();
+  });
+
+  it('sends failed jobs again on retry()', async () => {
+    const { service, printXml } = createService([COVER_OPEN, OK]);
+    const queue = new PrintQueue(service, { storage: new MemoryQueueStorage() });
+    const job = await queue.enqueueXml('<job/>');
+    queue.start();
+    await vi.runAllTimersAsync();
+    expect(queue.getJobs()[0].state).toBe('failed');
+
+    await queue.retry(job.id);
+    await vi.runAllTimersAsync();
+    expect(printXml).toHaveBeenCalledTimes(2);
+    expect(queue.getJobs()).toEqual([]);
+    queue.stop();
+  });
+
+  it('loads persisted jobs when ready, putting interrupted ones back as pending', async () => {
+    const storage = new MemoryQueueStorage();
+    await storage.save({ id: 'a', xml: '<a/>', state: 'active', attempts: 1, createdAt: 1, nextAttemptAt: 1 });
+    const { service, printXml } = createService([COVER_OPEN]);
+    const queue = new PrintQueue(service, { storage });
+    expect(queue.getJobs()).toEqual([]);
+
+    await queue.ready();
+    expect(queue.getJobs()[0]).toMatchObject({ id: 'a', state: 'pending' });
+    expect(printXml).not.toHaveBeenCalled();
+  });
+});
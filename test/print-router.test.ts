@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { PrintRouter } from '../src/lib/print-router';
+import { PrinterRegistry } from '../src/lib/printer-registry';
+
+function createRegistry(): PrinterRegistry {
+  return new PrinterRegistry({
+    persist: false,
+    initialPrinters: [
+      { id: 'front', name: 'Front', config: { printerIP: '10.0.0.1' }, roles: ['receipt'] },
+      { id: 'bar', name: 'Bar', config: { printerIP: '10.0.0.2' }, roles: ['bar'], tags: ['terrace'] },
+      { id: 'kitchen-1', name: 'Kitchen 1', config: { printerIP: '10.0.0.3' }, roles: ['kitchen'], tags: ['hot'] },
+      { id: 'kitchen-2', name: 'Kitchen 2', config: { printerIP: '10.0.0.4' }, roles: ['kitchen'], tags: ['cold'] },
+    ],
+  });
+}
+
+const ids = (printers: { id: string }[]) => printers.map((printer) => printer.id);
+
+describe('PrintRouter', () => {
+  const router = new PrintRouter(createRegistry(), {
+    routes: [
+      { jobTypes: ['receipt'], role: 'receipt' },
+      { categories: ['drinks'], role: 'bar' },
+      { categories: ['salads'], role: 'kitchen', tag: 'cold' },
+      { categories: ['desserts'], role: 'pastry' },
+      { categories: ['food', 'desserts'], role: 'kitchen' },
+    ],
+    fallback: { printerId: 'front' },
+  });
+
+  it('resolves targets matching every field set', () => {
+    expect(ids(router.resolve({ role: 'kitchen' }))).toEqual(['kitchen-1', 'kitchen-2']);
+    expect(ids(router.resolve({ role: 'kitchen', tag: 'hot' }))).toEqual(['kitchen-1']);
+    expect(ids(router.resolve({ printerId: 'bar', role: 'kitchen' }))).toEqual([]);
+  });
+
+  it('uses the first matching route', () => {
+    expect(router.route({ type: 'receipt' })?.id).toBe('front');
+    expect(router.route({ categories: ['drinks'] })?.id).toBe('bar');
+    expect(router.route({ categories: ['salads'] })?.id).toBe('kitchen-2');
+    expect(ids(router.candidates({ categories: ['food'] }))).toEqual(['kitchen-1', 'kitchen-2']);
+  });
+
+  it('skips matching routes without printers', () => {
+    // No printer has the 'pastry' role
+    expect(ids(router.candidates({ categories: ['desserts'] }))).toEqual(['kitchen-1', 'kitchen-2']);
+  });
+
+  it('uses the fallback when no route matches, and null without one', () => {
+    expect(router.route({ type: 'report' })?.id).toBe('front');
+    expect(new PrintRouter(createRegistry(), { routes: [] }).route({ type: 'report' })).toBeNull();
+  });
+
+  it('splits orders into one ticket per station, in order of first item', () => {
+    const split = new PrintRouter(createRegistry(), {
+      routes: [
+        { categories: ['drinks'], role: 'bar' },
+        { categories: ['food'], role: 'kitchen' },
+      ],
+    }).splitOrder([
+      { name: 'Burger', category: 'food' },
+      { name: 'Cola', category: 'drinks' },
+      { name: 'Fries', category: 'food' },
+      { name: 'Napkins' },
+    ]);
+
+    expect(split.tickets.map(({ printer, items }) => [printer.id, items.map((item) => item.name)])).toEqual([
+      ['kitchen-1', ['Burger', 'Fries']],
+      ['bar', ['Cola']],
+    ]);
+    expect(split.unrouted).toEqual([{ name: 'Napkins' }]);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createMockPrinter } from '../mock-server/src';
+import { PrinterGroup } from '../src/node';
+import type { PrinterGroupMember, PrinterGroupOptions } from '../src/node';
+
+describe('PrinterGroup against mock printers', () => {
+  const printers = [createMockPrinter({ port: 0 }), createMockPrinter({ port: 0 }), createMockPrinter({ port: 0 })];
+  let members: PrinterGroupMember[];
+
+  const print = (group: PrinterGroup) => group.printWithBuilder((builder) => builder.addText('x\n'));
+  const jobCounts = () => printers.map((printer) => printer.jobs.length);
+  const createGroup = (options?: PrinterGroupOptions) =>
+    new PrinterGroup(members, { ...options, printOptions: { locale: 'en' } });
+
+  beforeAll(async () => {
+    const ports = await Promise.all(printers.map((printer) => printer.listen()));
+    members = ports.map((port, i) => ({ id: `p${i + 1}`, config: { printerIP: '127.0.0.1', printerPort: port } }));
+  });
+
+  afterAll(() => Promise.all(printers.map((printer) => printer.close())));
+
+  beforeEach(() => {
+    printers.forEach((printer) => {
+      printer.clearJobs();
+      printer.setScenario('ok');
+    });
+  });
+
+  it('fails over to the next printer and tries unhealthy ones last', async () => {
+    const group = createGroup();
+    printers[0].setScenario('drop');
+
+    const first = await print(group);
+    expect(first).toMatchObject({ success: true, printerId: 'p2' });
+    expect(group.getState().members.map((member) => member.healthy)).toEqual([false, true, null]);
+
+    printers[0].setScenario('ok');
+    expect(await print(group)).toMatchObject({ success: true, printerId: 'p2' });
+    // p1 got the first request before dropping the connection
+    expect(jobCounts()).toEqual([1, 2, 0]);
+  });
+
+  it('keeps jobs on a printer that answers with an error', async () => {
+    const group = createGroup();
+    printers[0].setScenario('paper-end');
+
+    expect(await print(group)).toMatchObject({ success: false, code: 'EPTR_REC_EMPTY', printerId: 'p1' });
+    expect(group.getState().members[0].healthy).toBe(true);
+    expect(jobCounts()).toEqual([1, 0, 0]);
+  });
+
+  it('returns the last failure when every printer is unreachable', async () => {
+    const group = createGroup();
+    printers.forEach((printer) => printer.setScenario('drop'));
+
+    expect(await print(group)).toMatchObject({ success: false, code: 'NETWORK_ERROR', printerId: 'p3' });
+    expect(group.getState().members.every((member) => member.healthy === false)).toBe(true);
+  });
+
+  it('makes printers healthy again after a connection check', async () => {
+    const group = createGroup();
+    printers[0].setScenario('drop');
+    await print(group);
+
+    printers[0].setScenario('ok');
+    await group.checkHealth();
+    expect(await print(group)).toMatchObject({ success: true, printerId: 'p1' });
+  });
+
+  it('takes turns with round-robin', async () => {
+    const group = createGroup({ strategy: 'round-robin' });
+    const ids = [];
+    for (let i = 0; i < 4; i++) {
+      ids.push((await print(group)).printerId);
+    }
+    expect(ids).toEqual(['p1', 'p2', 'p3', 'p1']);
+  });
+
+  it('fails without members', async () => {
+    const result = await print(new PrinterGroup([]));
+    expect(result).toMatchObject({ success: false, code: 'NO_PRINTERS', error: { type: 'no_printers' } });
+  });
+});
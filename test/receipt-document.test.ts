@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { EposXmlBuilder } from '../src/lib/epos-xml-builder';
+import { ReceiptDocumentError, compileReceipt, parseReceiptDocument } from '../src/lib/receipt-document';
+import type { ReceiptDocument } from '../src/lib/receipt-document';
+
+/** Path of the error thrown by `fn` */
+function errorPath(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (err) {
+    return err instanceof ReceiptDocumentError ? err.path : undefined;
+  }
+  return undefined;
+}
+
+function compile(doc: ReceiptDocument): string {
+  const builder = new EposXmlBuilder();
+  compileReceipt(doc, builder);
+  return builder.toString();
+}
+
+describe('parseReceiptDocument', () => {
+  const doc = {
+    version: 1,
+    blocks: [
+      { type: 'text', text: 'Hello', size: { width: 2, height: 1 } },
+      { type: 'columns', columns: [{ text: 'Coffee', leader: '.' }, { text: '2.50', width: 6, align: 'right' }] },
+      { type: 'barcode', data: '12345678', symbology: 'ean8' },
+      { type: 'cut' },
+    ],
+  };
+
+  it('accepts valid documents as JSON or parsed values', () => {
+    expect(parseReceiptDocument(JSON.stringify(doc))).toEqual(doc);
+    expect(parseReceiptDocument(doc)).toBe(doc);
+  });
+
+  it('reports the path of the invalid value', () => {
+    expect(errorPath(() => parseReceiptDocument('{'))).toBe('$');
+    expect(errorPath(() => parseReceiptDocument({ ...doc, version: 2 }))).toBe('version');
+    expect(errorPath(() => parseReceiptDocument({ version: 1 }))).toBe('blocks');
+    expect(errorPath(() => parseReceiptDocument({ version: 1, blocks: [{ type: 'poem' }] }))).toBe('blocks[0].type');
+    expect(errorPath(() => parseReceiptDocument({ version: 1, blocks: [{ type: 'text' }] }))).toBe('blocks[0].text');
+  });
+
+  it('checks enums, ranges and leaders', () => {
+    const invalid = (block: Record<string, unknown>) => errorPath(() => parseReceiptDocument({ version: 1, blocks: [block] }));
+    expect(invalid({ type: 'barcode', data: '1', symbology: 'qrcode' })).toBe('blocks[0].symbology');
+    expect(invalid({ type: 'barcode', data: '1', width: 7 })).toBe('blocks[0].width');
+    expect(invalid({ type: 'text', text: 'x', size: { width: 9, height: 1 } })).toBe('blocks[0].size.width');
+    expect(invalid({ type: 'keyValue', key: 'a', value: 'b', leader: '..' })).toBe('blocks[0].leader');
+    expect(invalid({ type: 'columns', columns: [] })).toBe('blocks[0].columns');
+    expect(invalid({ type: 'columns', columns: [{ text: 'a', overflow: 'hide' }] })).toBe('blocks[0].columns[0].overflow');
+    expect(invalid({ type: 'pulse', time: 150 })).toBe('blocks[0].time');
+  });
+});
+
+describe('compileReceipt', () => {
+  it('lays out text for the paper width and resets the style after each block', () => {
+    const xml = compile({
+      version: 1,
+      paperWidth: 384,
+      blocks: [
+        { type: 'text', text: 'Hi', bold: true, align: 'center' },
+        { type: 'keyValue', key: 'TOTAL', value: '4.50', leader: '.' },
+        { type: 'rule' },
+      ],
+    });
+
+    expect(xml).toContain('<text align="center"/><text font="font_a"/><text width="1" height="1"/><text reverse="false" ul="false" em="true"/><text>Hi&#10;</text>');
+    expect(xml).toContain('<text>TOTAL ..................... 4.50&#10;</text>');
+    expect(xml).toContain(`<text>${'-'.repeat(32)}&#10;</text>`);
+    // The key-value block starts from the default style
+    expect(xml.split('<text>TOTAL')[0]).toMatch(/<text reverse="false" ul="false" em="false"\/>$/);
+  });
+
+  it('compiles barcodes, QR codes, feeds, cuts and drawer pulses', () => {
+    const xml = compile({
+      version: 1,
+      blocks: [
+        { type: 'barcode', data: '123', symbology: 'code39' },
+        { type: 'qr', data: 'x', level: 'level_h' },
+        { type: 'feed', lines: 2 },
+        { type: 'cut', feed: false },
+        { type: 'pulse', drawer: 2, time: 200 },
+      ],
+    });
+
+    expect(xml).toContain('<text align="center"/><barcode type="code39" hri="below" font="font_a" width="2" height="64">123</barcode><feed line="1"/>');
+    expect(xml).toContain('<symbol type="qrcode_model_2" level="level_h" width="4">x</symbol>');
+    expect(xml).toContain('<feed line="2"/><cut type="no_feed"/><pulse drawer="drawer_2" time="pulse_200"/>');
+  });
+
+  it('rejects image blocks whose image was not loaded', () => {
+    expect(errorPath(() => compile({ version: 1, blocks: [{ type: 'feed' }, { type: 'image', src: 'logo.png' }] }))).toBe(
+      'blocks[1].src'
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignText,
+  getCharsPerLine,
+  getColumnWidths,
+  layoutRow,
+  truncateText,
+  wrapText,
+} from '../src/lib/text-layout';
+
+describe('getCharsPerLine', () => {
+  it('divides the paper width by the character width', () => {
+    expect(getCharsPerLine()).toBe(48);
+    expect(getCharsPerLine({ paperWidth: 576, font: 'font_b' })).toBe(64);
+    expect(getCharsPerLine({ paperWidth: 384, size: 2 })).toBe(16);
+    expect(getCharsPerLine({ charsPerLine: 40, font: 'font_c' })).toBe(40);
+  });
+});
+
+describe('getColumnWidths', () => {
+  it('shares the space left by fixed columns between flexible ones', () => {
+    expect(getColumnWidths([{}, { width: 8 }], 32)).toEqual([23, 8]);
+    expect(getColumnWidths([{ flex: 2 }, { flex: 1 }], 32, 2)).toEqual([20, 10]);
+  });
+
+  it('gives characters lost to rounding to the first flexible columns', () => {
+    expect(getColumnWidths([{}, {}, {}], 34)).toEqual([11, 11, 10]);
+  });
+
+  it('shrinks fixed columns that do not fit on the line', () => {
+    const widths = getColumnWidths([{ width: 30 }, { width: 10 }, {}], 32);
+    expect(widths).toEqual([23, 7, 0]);
+    expect(widths.reduce((sum, width) => sum + width, 0) + 2).toBeLessThanOrEqual(32);
+  });
+
+  it('never returns negative widths', () => {
+    expect(getColumnWidths([{}, {}, {}], 2, 2)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks at spaces and splits words longer than the width', () => {
+    expect(wrapText('two coffees and a croissant', 10)).toEqual(['two', 'coffees', 'and a', 'croissant']);
+    expect(wrapText('abcdefghijkl', 5)).toEqual(['abcde', 'fghij', 'kl']);
+  });
+
+  it('keeps explicit line breaks', () => {
+    expect(wrapText('a\nb c', 10)).toEqual(['a', 'b c']);
+  });
+});
+
+describe('truncateText', () => {
+  it('cuts text, with an ellipsis when it fits', () => {
+    expect(truncateText('Croissant', 6)).toBe('Croiss');
+    expect(truncateText('Croissant', 6, '...')).toBe('Cro...');
+    expect(truncateText('Croissant', 3, '...')).toBe('Cro');
+    expect(truncateText('Tea', 6, '...')).toBe('Tea');
+  });
+});
+
+describe('alignText', () => {
+  it('pads to the width on the aligned side', () => {
+    expect(alignText('ab', 6)).toBe('ab    ');
+    expect(alignText('ab', 6, 'right')).toBe('    ab');
+    expect(alignText('ab', 7, 'center')).toBe('  ab   ');
+    expect(alignText('abcdef', 4)).toBe('abcd');
+  });
+
+  it('fills with leaders, keeping a space next to the text', () => {
+    expect(alignText('Tea', 8, 'left', '.')).toBe('Tea ....');
+    expect(alignText('4.50', 8, 'right', '.')).toBe('... 4.50');
+  });
+});
+
+describe('layoutRow', () => {
+  it('lays out item and price columns with leaders', () => {
+    expect(layoutRow(['2 x Coffee', '4.50'], {
+      columns: [{ leader: '.' }, { width: 8, align: 'right' }],
+      charsPerLine: 32,
+    })).toEqual(['2 x Coffee ............     4.50']);
+  });
+
+  it('wraps long cells onto more lines, leaders only on the first', () => {
+    expect(layoutRow(['Large iced caramel latte', '5.00'], {
+      columns: [{ leader: '.' }, { width: 6, align: 'right' }],
+      charsPerLine: 20,
+    })).toEqual(['Large iced ..   5.00', 'caramel latte']);
+  });
+
+  it('keeps rows within the line when fixed columns are too wide', () => {
+    const [line] = layoutRow(['Item', '12.50'], { columns: [{ width: 30 }, { width: 10, align: 'right' }], charsPerLine: 32 });
+    expect(line.length).toBeLessThanOrEqual(32);
+  });
+});
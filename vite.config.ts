@@ -18,6 +18,7 @@ export default defineConfig({
     lib: {
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
+        node: resolve(__dirname, 'src/node.ts'),
       },
       name: 'EpsonPrinter',
       formats: ['es', 'cjs'],